@@ -0,0 +1,30 @@
+import { PrismaClient } from '@prisma/client'
+import { recordInitialRevision } from '../src/lib/configuration-revisions.js'
+
+const prisma = new PrismaClient()
+
+// Gives configurations saved before revisions were kept their current layout
+// as revision 1. Safe to run more than once. Run with:
+// npx tsx prisma/backfill-configuration-revisions.ts
+async function main() {
+  console.log('Starting configuration revision backfill...')
+
+  const configurations = await prisma.fieldConfiguration.findMany({
+    where: { revisions: { none: {} } },
+  })
+
+  for (const configuration of configurations) {
+    await prisma.$transaction((tx) => recordInitialRevision(tx, configuration))
+  }
+
+  console.log(`\nConfiguration revision backfill completed! Backfilled ${configurations.length} configurations.`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Backfill error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
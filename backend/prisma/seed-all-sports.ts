@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { publishTemplateVersion } from '../src/lib/template-versions.js'
 
 const prisma = new PrismaClient()
 
@@ -1449,9 +1450,13 @@ async function main() {
 
     if (existing) {
       console.log(`Updating: ${template.name}`)
-      await prisma.fieldTemplate.update({
-        where: { id: existing.id },
-        data: template,
+      // Publish a new version if the markings changed so existing configurations keep theirs
+      await prisma.$transaction(async (tx) => {
+        const version = await publishTemplateVersion(tx, existing, template)
+        await tx.fieldTemplate.update({
+          where: { id: existing.id },
+          data: { ...template, currentVersion: version?.version },
+        })
       })
     } else {
       console.log(`Creating: ${template.name}`)
@@ -0,0 +1,150 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// Competition-level rules per sport. Run with: npx tsx prisma/seed-compliance-profiles.ts
+const profiles = [
+  // ============================================
+  // SOCCER
+  // ============================================
+  {
+    sport: 'soccer',
+    name: 'FIFA International',
+    level: 'international',
+    description: 'International matches under the Laws of the Game, with stadium run-off',
+    minLength: 100,
+    maxLength: 110,
+    minWidth: 64,
+    maxWidth: 75,
+    runOffSides: 6,
+    runOffEnds: 7.5,
+  },
+  {
+    sport: 'soccer',
+    name: 'National League',
+    level: 'national',
+    description: 'Senior league fixtures',
+    minLength: 90,
+    maxLength: 120,
+    minWidth: 45,
+    maxWidth: 90,
+    runOffSides: 3,
+    runOffEnds: 3,
+  },
+  {
+    sport: 'soccer',
+    name: 'Junior (U9–U12)',
+    level: 'junior',
+    description: 'Small-sided 7v7 and 9v9 junior football',
+    minLength: 50,
+    maxLength: 73,
+    minWidth: 32,
+    maxWidth: 50,
+    runOffSides: 2,
+    runOffEnds: 2,
+  },
+  {
+    sport: 'soccer',
+    name: 'School',
+    level: 'school',
+    description: 'School sport and carnivals',
+    minLength: 90,
+    maxLength: 100,
+    minWidth: 45,
+    maxWidth: 64,
+    runOffSides: 2,
+    runOffEnds: 2,
+  },
+
+  // ============================================
+  // RUGBY UNION
+  // ============================================
+  {
+    sport: 'rugby_union',
+    name: 'World Rugby International',
+    level: 'international',
+    description: 'Test and international matches',
+    minLength: 94,
+    maxLength: 100,
+    minWidth: 68,
+    maxWidth: 70,
+    runOffSides: 5,
+    runOffEnds: 5,
+  },
+  {
+    sport: 'rugby_union',
+    name: 'Club',
+    level: 'national',
+    description: 'Club and district competitions',
+    minLength: 94,
+    maxLength: 100,
+    minWidth: 68,
+    maxWidth: 70,
+    runOffSides: 3,
+    runOffEnds: 3,
+  },
+
+  // ============================================
+  // AFL
+  // ============================================
+  {
+    sport: 'afl',
+    name: 'AFL Elite',
+    level: 'national',
+    description: 'AFL and AFLW fixtures',
+    minLength: 155,
+    maxLength: 185,
+    minWidth: 130,
+    maxWidth: 155,
+    runOffSides: 5,
+    runOffEnds: 5,
+  },
+  {
+    sport: 'afl',
+    name: 'School & Community',
+    level: 'school',
+    description: 'Community club and school football',
+    minLength: 135,
+    maxLength: 185,
+    minWidth: 110,
+    maxWidth: 155,
+    runOffSides: 3,
+    runOffEnds: 3,
+  },
+]
+
+async function main() {
+  console.log('Starting compliance profile seed...')
+
+  for (const profile of profiles) {
+    const existing = await prisma.complianceProfile.findUnique({
+      where: {
+        sport_name: { sport: profile.sport, name: profile.name },
+      },
+    })
+
+    if (existing) {
+      console.log(`Updating: ${profile.name} (${profile.sport})`)
+      await prisma.complianceProfile.update({
+        where: { id: existing.id },
+        data: profile,
+      })
+    } else {
+      console.log(`Creating: ${profile.name} (${profile.sport})`)
+      await prisma.complianceProfile.create({
+        data: profile,
+      })
+    }
+  }
+
+  console.log(`\nCompliance profile seed completed! Created/updated ${profiles.length} profiles.`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Seed error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { publishTemplateVersion } from '../src/lib/template-versions.js'
 
 const prisma = new PrismaClient()
 
@@ -183,9 +184,13 @@ async function main() {
 
   if (existingTemplate) {
     console.log('Soccer 11v11 template already exists, updating...')
-    await prisma.fieldTemplate.update({
-      where: { id: existingTemplate.id },
-      data: soccer11v11Template,
+    // Publish a new version if the markings changed so existing configurations keep theirs
+    await prisma.$transaction(async (tx) => {
+      const version = await publishTemplateVersion(tx, existingTemplate, soccer11v11Template)
+      await tx.fieldTemplate.update({
+        where: { id: existingTemplate.id },
+        data: { ...soccer11v11Template, currentVersion: version?.version },
+      })
     })
     console.log('Template updated successfully')
   } else {
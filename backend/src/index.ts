@@ -11,14 +11,24 @@ import authRoutes from './routes/auth.js'
 import userRoutes from './routes/users.js'
 import sportsgroundRoutes from './routes/sportsgrounds.js'
 import templateRoutes from './routes/templates.js'
+import complianceProfileRoutes from './routes/compliance-profiles.js'
 import configurationRoutes from './routes/configurations.js'
 import bookingRoutes from './routes/bookings.js'
+import recurringScheduleRoutes from './routes/recurring-schedules.js'
 import adminRoutes from './routes/admin.js'
 import settingsRoutes from './routes/settings.js'
+import notificationRoutes from './routes/notifications.js'
+import eventRoutes from './routes/events.js'
 
 // Import middleware
 import { isMaintenanceModeEnabled, checkMaintenanceMode } from './middleware/maintenance.js'
-import { authenticate, AuthRequest } from './middleware/auth.js'
+import { authenticate, identifyRequest, AuthRequest } from './middleware/auth.js'
+
+// Import services
+import { startEmailWorker } from './services/email-outbox.js'
+import { startReminderWorker } from './services/booking-reminders.js'
+import { startRecurringBookingWorker } from './services/recurring-bookings.js'
+import { startWeatherWorker } from './services/weather-rescheduling.js'
 
 const app = express()
 const PORT = process.env.PORT || 9501
@@ -47,20 +57,10 @@ app.get('/api/maintenance/status', async (req, res) => {
 // This middleware checks if maintenance mode is enabled and blocks non-admin users
 app.use((req: AuthRequest, res, next) => {
   // First try to authenticate the user (optional, won't fail if no token)
-  const authHeader = req.headers.authorization
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    try {
-      const jwt = require('jsonwebtoken')
-      const token = authHeader.split(' ')[1]
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || 'development-secret'
-      ) as { userId: string; email: string }
-      req.userId = decoded.userId
-      req.userEmail = decoded.email
-    } catch {
-      // Invalid token, continue without auth
-    }
+  const identity = identifyRequest(req)
+  if (identity) {
+    req.userId = identity.userId
+    req.userEmail = identity.email
   }
   next()
 })
@@ -73,10 +73,14 @@ app.use('/api/auth', authRoutes)
 app.use('/api/users', userRoutes)
 app.use('/api/sportsgrounds', sportsgroundRoutes)
 app.use('/api/templates', templateRoutes)
+app.use('/api/compliance-profiles', complianceProfileRoutes)
 app.use('/api/configurations', configurationRoutes)
 app.use('/api/bookings', bookingRoutes)
+app.use('/api/recurring-schedules', recurringScheduleRoutes)
 app.use('/api/admin', adminRoutes)
 app.use('/api/settings', settingsRoutes)
+app.use('/api/notifications', notificationRoutes)
+app.use('/api/events', eventRoutes)
 
 // 404 handler
 app.use((req, res) => {
@@ -91,6 +95,10 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 app.listen(PORT, () => {
   console.log(`XACTLINE API server running on port ${PORT}`)
+  startEmailWorker()
+  startReminderWorker()
+  startRecurringBookingWorker()
+  startWeatherWorker()
 })
 
 export default app
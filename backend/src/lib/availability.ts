@@ -0,0 +1,246 @@
+import { Prisma } from '@prisma/client'
+
+// When customers can book: weekly working hours with an optional per-day
+// booking limit, blackout dates, and a minimum notice period. Admins aren't
+// bound by these rules when they create or move bookings themselves.
+
+export const TIME_SLOTS = ['morning', 'afternoon', 'evening', 'flexible'] as const
+
+// Minutes since midnight covered by each named slot, matching the labels on
+// the booking forms. Crew scheduling uses the same windows.
+export const SLOT_WINDOWS: Record<string, [number, number]> = {
+  morning: [6 * 60, 12 * 60],
+  afternoon: [12 * 60, 18 * 60],
+  evening: [18 * 60, 21 * 60]
+}
+
+// Used for weekdays an admin hasn't configured
+export const DEFAULT_WORKING_HOURS = {
+  isOpen: true,
+  openTime: '06:00',
+  closeTime: '21:00',
+  dailyCapacity: null as number | null
+}
+
+// SystemSettings key for the minimum number of days' notice
+export const LEAD_DAYS_SETTING = 'booking_lead_days'
+const DEFAULT_LEAD_DAYS = 1
+
+// Bookings that no longer take up a day's capacity
+const INACTIVE_STATUSES = ['cancelled', 'declined']
+
+// Furthest range the availability endpoint will compute in one request
+export const MAX_RANGE_DAYS = 92
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class AvailabilityError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AvailabilityError'
+  }
+}
+
+export interface WorkingDay {
+  weekday: number
+  isOpen: boolean
+  openTime: string
+  closeTime: string
+  dailyCapacity: number | null
+}
+
+export interface DayAvailability {
+  // YYYY-MM-DD
+  date: string
+  bookable: boolean
+  // Why the day can't be booked
+  reason: string | null
+  slots: string[]
+  // Bookings still available that day, when there is a limit
+  remaining: number | null
+}
+
+export interface BookingSlot {
+  date: Date
+  time: string
+  // Alternative dates are checked for opening hours but don't use up capacity
+  countsTowardCapacity?: boolean
+}
+
+// Booking dates are stored as midnight UTC of the chosen day
+const dayKey = (date: Date) => date.toISOString().split('T')[0]
+const startOfDay = (date: Date) => new Date(`${dayKey(date)}T00:00:00.000Z`)
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part))
+  return hours * 60 + minutes
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Working hours for all seven days, filling gaps with the defaults
+export async function loadWorkingHours(client: Prisma.TransactionClient): Promise<WorkingDay[]> {
+  const rows = await client.workingHours.findMany()
+  return WEEKDAY_NAMES.map((_, weekday) => {
+    const row = rows.find((r) => r.weekday === weekday)
+    return row
+      ? { weekday, isOpen: row.isOpen, openTime: row.openTime, closeTime: row.closeTime, dailyCapacity: row.dailyCapacity }
+      : { weekday, ...DEFAULT_WORKING_HOURS }
+  })
+}
+
+export async function loadLeadDays(client: Prisma.TransactionClient): Promise<number> {
+  const setting = await client.systemSettings.findUnique({ where: { key: LEAD_DAYS_SETTING } })
+  const value = setting ? parseInt(setting.value) : NaN
+  return isNaN(value) || value < 0 ? DEFAULT_LEAD_DAYS : value
+}
+
+// Slots that fall inside the day's working hours. A clock time must be
+// within them; a named slot only needs to overlap.
+function slotFits(time: string, hours: WorkingDay): boolean {
+  if (time === 'flexible') return true
+  const open = toMinutes(hours.openTime)
+  const close = toMinutes(hours.closeTime)
+
+  const window = SLOT_WINDOWS[time]
+  if (window) return window[0] < close && window[1] > open
+
+  if (!/^\d{1,2}:\d{2}$/.test(time)) return true
+  const start = toMinutes(time)
+  return start >= open && start < close
+}
+
+interface AvailabilityContext {
+  hours: WorkingDay[]
+  blackouts: Map<string, string>
+  booked: Map<string, number>
+  earliest: string
+}
+
+async function loadContext(
+  client: Prisma.TransactionClient,
+  from: Date,
+  to: Date,
+  now: Date,
+  excludeBookingId?: string
+): Promise<AvailabilityContext> {
+  const start = startOfDay(from)
+  const end = new Date(startOfDay(to).getTime() + DAY_MS - 1)
+
+  const [hours, leadDays, blackouts, bookings] = await Promise.all([
+    loadWorkingHours(client),
+    loadLeadDays(client),
+    client.blackoutDate.findMany({ where: { date: { gte: start, lte: end } } }),
+    client.booking.findMany({
+      where: {
+        preferredDate: { gte: start, lte: end },
+        status: { notIn: INACTIVE_STATUSES },
+        id: excludeBookingId ? { not: excludeBookingId } : undefined
+      },
+      select: { preferredDate: true }
+    })
+  ])
+
+  const booked = new Map<string, number>()
+  for (const booking of bookings) {
+    const key = dayKey(booking.preferredDate)
+    booked.set(key, (booked.get(key) ?? 0) + 1)
+  }
+
+  return {
+    hours,
+    blackouts: new Map(blackouts.map((b) => [dayKey(b.date), b.reason])),
+    booked,
+    earliest: dayKey(new Date(startOfDay(now).getTime() + leadDays * DAY_MS))
+  }
+}
+
+function describeDay(context: AvailabilityContext, date: Date): DayAvailability {
+  const key = dayKey(date)
+  const hours = context.hours[date.getUTCDay()]
+  const remaining = hours.dailyCapacity !== null
+    ? Math.max(0, hours.dailyCapacity - (context.booked.get(key) ?? 0))
+    : null
+  const slots = hours.isOpen ? TIME_SLOTS.filter((slot) => slotFits(slot, hours)) : []
+
+  let reason: string | null = null
+  if (key < context.earliest) {
+    reason = 'Too soon to book'
+  } else if (context.blackouts.has(key)) {
+    reason = context.blackouts.get(key)!
+  } else if (!hours.isOpen) {
+    reason = `Closed on ${WEEKDAY_NAMES[hours.weekday]}s`
+  } else if (remaining === 0) {
+    reason = 'Fully booked'
+  }
+
+  return { date: key, bookable: reason === null, reason, slots: reason === null ? slots : [], remaining }
+}
+
+// Day-by-day availability between from and to (inclusive)
+export async function getAvailability(
+  client: Prisma.TransactionClient,
+  from: Date,
+  to: Date,
+  now = new Date()
+): Promise<DayAvailability[]> {
+  const context = await loadContext(client, from, to, now)
+
+  const days: DayAvailability[] = []
+  for (let day = startOfDay(from); day <= to; day = new Date(day.getTime() + DAY_MS)) {
+    days.push(describeDay(context, day))
+  }
+  return days
+}
+
+// Hold the capacity of each day until the surrounding transaction ends, so
+// concurrent requests for the same day are counted one after the other.
+// Days are locked in order so two multi-day requests can't deadlock.
+async function lockDays(client: Prisma.TransactionClient, keys: string[]) {
+  for (const key of [...new Set(keys)].sort()) {
+    await client.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`booking_capacity:${key}`}))`
+  }
+}
+
+// Throws AvailabilityError for the first requested slot the rules don't
+// allow. Slots on the same day are counted together against its capacity.
+// excludeBookingId leaves a booking being moved out of the count.
+// Call with the transaction that writes the bookings: the days stay locked
+// until it commits, so two requests can't both take a day's last place.
+export async function assertBookable(
+  client: Prisma.TransactionClient,
+  requests: BookingSlot[],
+  { now = new Date(), excludeBookingId }: { now?: Date; excludeBookingId?: string } = {}
+): Promise<void> {
+  if (requests.length === 0) return
+
+  await lockDays(client, requests.filter((r) => r.countsTowardCapacity !== false).map((r) => dayKey(r.date)))
+
+  const times = requests.map((r) => r.date.getTime())
+  const context = await loadContext(client, new Date(Math.min(...times)), new Date(Math.max(...times)), now, excludeBookingId)
+
+  const requested = new Map<string, number>()
+  for (const request of requests) {
+    const key = dayKey(request.date)
+    const day = describeDay(context, request.date)
+    const label = request.date.toLocaleDateString('en-AU', { timeZone: 'UTC', weekday: 'long', day: 'numeric', month: 'long' })
+
+    if (day.reason && day.reason !== 'Fully booked') {
+      throw new AvailabilityError(`${label} is unavailable: ${day.reason}`)
+    }
+    const hours = context.hours[request.date.getUTCDay()]
+    if (!slotFits(request.time, hours)) {
+      throw new AvailabilityError(`${request.time} on ${label} is outside working hours (${hours.openTime}–${hours.closeTime})`)
+    }
+
+    if (request.countsTowardCapacity === false) continue
+    requested.set(key, (requested.get(key) ?? 0) + 1)
+    if (day.remaining !== null && requested.get(key)! > day.remaining) {
+      throw new AvailabilityError(
+        day.remaining === 0
+          ? `${label} is fully booked`
+          : `Only ${day.remaining} more booking${day.remaining === 1 ? '' : 's'} can be taken on ${label}`
+      )
+    }
+  }
+}
@@ -0,0 +1,14 @@
+// Customer-facing booking references. Random, so callers check for a clash
+// and retry before saving.
+
+export function generateReferenceNumber(): string {
+  const year = new Date().getFullYear()
+  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
+  return `BK-${year}-${random}`
+}
+
+export function generateGroupReferenceNumber(): string {
+  const year = new Date().getFullYear()
+  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
+  return `BKG-${year}-${random}`
+}
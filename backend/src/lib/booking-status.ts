@@ -0,0 +1,176 @@
+import { Prisma } from '@prisma/client'
+import { freezeConfiguration, needsSnapshot } from './configuration-snapshots.js'
+
+// Booking lifecycle. Every status change goes through transitionBooking, which
+// enforces the allowed moves, records who made the change and why, and rolls
+// the booking group's status up from its bookings.
+
+export const BOOKING_STATUSES = [
+  'pending',
+  'confirmed',
+  'scheduled',
+  'in_progress',
+  'completed',
+  'rescheduled',
+  'cancelled',
+  'declined'
+] as const
+
+export type BookingStatus = typeof BOOKING_STATUSES[number]
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'declined', 'rescheduled', 'cancelled'],
+  confirmed: ['scheduled', 'rescheduled', 'cancelled'],
+  scheduled: ['in_progress', 'rescheduled', 'cancelled'],
+  in_progress: ['completed', 'rescheduled'],
+  // A rescheduled booking is re-confirmed (or scheduled straight away) for its new date
+  rescheduled: ['confirmed', 'scheduled', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  declined: []
+}
+
+// Changes the customer needs an explanation for
+export const REASON_REQUIRED: BookingStatus[] = ['rescheduled', 'cancelled', 'declined']
+
+export class BookingTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BookingTransitionError'
+  }
+}
+
+// An edit based on a stale copy of the booking: someone else changed it since
+// the client loaded it
+export class BookingConflictError extends Error {
+  constructor(message = 'This booking was changed by someone else. Reload it and try again.') {
+    super(message)
+    this.name = 'BookingConflictError'
+  }
+}
+
+export function isBookingStatus(value: string): value is BookingStatus {
+  return (BOOKING_STATUSES as readonly string[]).includes(value)
+}
+
+export function allowedTransitions(status: string): BookingStatus[] {
+  return isBookingStatus(status) ? BOOKING_TRANSITIONS[status] : []
+}
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ')
+
+// Group status from its bookings: cancelled/declined bookings drop out unless
+// nothing else is left, work under way or part-finished counts as in progress,
+// and otherwise the group is only as far along as its least advanced booking.
+export function deriveGroupStatus(statuses: string[]): BookingStatus {
+  const active = statuses.filter((s) => s !== 'cancelled' && s !== 'declined')
+
+  if (active.length === 0) {
+    return statuses.includes('cancelled') || statuses.length === 0 ? 'cancelled' : 'declined'
+  }
+  if (active.every((s) => s === 'completed')) return 'completed'
+  if (active.some((s) => s === 'in_progress' || s === 'completed')) return 'in_progress'
+
+  const progression: BookingStatus[] = ['pending', 'rescheduled', 'confirmed', 'scheduled']
+  return progression.find((s) => active.includes(s)) ?? 'pending'
+}
+
+export interface GroupStatusChange {
+  id: string
+  from: string
+  to: string
+}
+
+export async function rollUpGroupStatus(
+  client: Prisma.TransactionClient,
+  bookingGroupId: string
+): Promise<GroupStatusChange> {
+  const group = await client.bookingGroup.findUniqueOrThrow({
+    where: { id: bookingGroupId },
+    select: { status: true, bookings: { select: { status: true } } }
+  })
+
+  const status = deriveGroupStatus(group.bookings.map((b) => b.status))
+  if (status !== group.status) {
+    await client.bookingGroup.update({
+      where: { id: bookingGroupId },
+      data: { status }
+    })
+  }
+
+  return { id: bookingGroupId, from: group.status, to: status }
+}
+
+interface TransitionOptions {
+  actorId?: string
+  reason?: string
+}
+
+// What changed, for callers that notify the customer once the transaction commits
+export interface BookingTransition {
+  bookingId: string
+  from: string
+  to: BookingStatus
+  reason: string | null
+  actorId: string | null
+  group: GroupStatusChange | null
+}
+
+// Move a booking to a new status, recording the change, freezing its
+// configuration once accepted and updating its group.
+// Throws BookingTransitionError when the move isn't allowed.
+export async function transitionBooking(
+  client: Prisma.TransactionClient,
+  booking: { id: string; status: string; bookingGroupId: string | null },
+  to: string,
+  { actorId, reason }: TransitionOptions = {}
+): Promise<BookingTransition> {
+  if (!isBookingStatus(to)) {
+    throw new BookingTransitionError(`Unknown status "${to}"`)
+  }
+
+  const allowed = allowedTransitions(booking.status)
+  if (!allowed.includes(to)) {
+    throw new BookingTransitionError(
+      allowed.length > 0
+        ? `Cannot change a ${formatStatus(booking.status)} booking to ${formatStatus(to)}. Allowed: ${allowed.map(formatStatus).join(', ')}`
+        : `A ${formatStatus(booking.status)} booking can no longer change status`
+    )
+  }
+
+  const trimmedReason = reason?.trim() || null
+  if (REASON_REQUIRED.includes(to) && !trimmedReason) {
+    throw new BookingTransitionError(`A reason is required when a booking is ${formatStatus(to)}`)
+  }
+
+  await client.booking.update({
+    where: { id: booking.id },
+    data: {
+      status: to,
+      statusHistory: {
+        create: {
+          fromStatus: booking.status,
+          toStatus: to,
+          reason: trimmedReason,
+          actorId
+        }
+      }
+    }
+  })
+
+  // Accepted work keeps the field as it was when booked
+  if (needsSnapshot(to)) {
+    await freezeConfiguration(client, booking.id)
+  }
+
+  const group = booking.bookingGroupId ? await rollUpGroupStatus(client, booking.bookingGroupId) : null
+
+  return {
+    bookingId: booking.id,
+    from: booking.status,
+    to,
+    reason: trimmedReason,
+    actorId: actorId ?? null,
+    group
+  }
+}
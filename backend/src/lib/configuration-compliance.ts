@@ -0,0 +1,33 @@
+import type { TemplateSnapshot } from './template-versions.js'
+
+// Server-side checks that a field configuration fits its template. Limits come
+// from the template version the configuration is pinned to, falling back to
+// the template itself for configurations saved before versioning.
+
+export type DimensionLimits = Pick<TemplateSnapshot, 'minLength' | 'maxLength' | 'minWidth' | 'maxWidth'>
+
+export interface FieldDimensions {
+  lengthMeters: number
+  widthMeters: number
+}
+
+// Limits the configuration is held to
+export function limitsFor(configuration: {
+  template: DimensionLimits
+  templateVersion: DimensionLimits | null
+}): DimensionLimits {
+  return configuration.templateVersion ?? configuration.template
+}
+
+// One message per limit the field breaks; empty when it fits
+export function findDimensionIssues(limits: DimensionLimits, dimensions: FieldDimensions): string[] {
+  const issues: string[] = []
+
+  if (dimensions.lengthMeters < limits.minLength || dimensions.lengthMeters > limits.maxLength) {
+    issues.push(`Length must be between ${limits.minLength}m and ${limits.maxLength}m`)
+  }
+  if (dimensions.widthMeters < limits.minWidth || dimensions.widthMeters > limits.maxWidth) {
+    issues.push(`Width must be between ${limits.minWidth}m and ${limits.maxWidth}m`)
+  }
+  return issues
+}
@@ -0,0 +1,124 @@
+import { Prisma, FieldConfiguration, FieldConfigurationRevision } from '@prisma/client'
+import { latLngToEnu } from 'xactline-shared/projection'
+
+// Each save that changes where a field sits or how it is marked is kept as a
+// numbered revision, so a customer can compare earlier layouts and restore
+// one. Revisions are append-only: restoring an old layout records it again as
+// the newest revision.
+
+// Configuration fields captured in each revision. Renaming a field doesn't
+// start a new revision.
+export const REVISION_FIELDS = [
+  'latitude',
+  'longitude',
+  'rotationDegrees',
+  'lengthMeters',
+  'widthMeters',
+  'lineColor',
+  'templateId',
+  'templateVersionId',
+  'complianceProfileId'
+] as const
+
+type RevisionField = typeof REVISION_FIELDS[number]
+
+export type RevisionLayout = Pick<FieldConfiguration, RevisionField>
+
+export function layoutOf(source: RevisionLayout): RevisionLayout {
+  return {
+    latitude: source.latitude,
+    longitude: source.longitude,
+    rotationDegrees: source.rotationDegrees,
+    lengthMeters: source.lengthMeters,
+    widthMeters: source.widthMeters,
+    lineColor: source.lineColor,
+    templateId: source.templateId,
+    templateVersionId: source.templateVersionId,
+    complianceProfileId: source.complianceProfileId
+  }
+}
+
+function sameLayout(a: RevisionLayout, b: RevisionLayout): boolean {
+  return REVISION_FIELDS.every((field) => a[field] === b[field])
+}
+
+// Revision numbers are read then written, so saves of the same configuration
+// take turns until their transaction ends
+async function lockRevisions(client: Prisma.TransactionClient, configurationId: string) {
+  await client.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`configuration_revision:${configurationId}`}))`
+}
+
+// Keep the layout a configuration had before revisions were recorded, so its
+// first change after that can still be undone. Call before updating it, in the
+// same transaction. prisma/backfill-configuration-revisions.ts does the same
+// for every configuration at once.
+export async function recordInitialRevision(
+  client: Prisma.TransactionClient,
+  configuration: FieldConfiguration
+): Promise<void> {
+  await lockRevisions(client, configuration.id)
+  const count = await client.fieldConfigurationRevision.count({ where: { configurationId: configuration.id } })
+  if (count > 0) return
+
+  await client.fieldConfigurationRevision.create({
+    data: {
+      configurationId: configuration.id,
+      revision: 1,
+      name: configuration.name,
+      ...layoutOf(configuration),
+      createdAt: configuration.updatedAt
+    }
+  })
+}
+
+// Record the configuration's layout as its next revision. Returns the latest
+// revision unchanged when the layout matches it. Call inside a transaction.
+export async function recordRevision(
+  client: Prisma.TransactionClient,
+  configuration: FieldConfiguration,
+  createdById?: string
+): Promise<FieldConfigurationRevision> {
+  await lockRevisions(client, configuration.id)
+  const latest = await client.fieldConfigurationRevision.findFirst({
+    where: { configurationId: configuration.id },
+    orderBy: { revision: 'desc' }
+  })
+  if (latest && sameLayout(latest, configuration)) {
+    return latest
+  }
+
+  return client.fieldConfigurationRevision.create({
+    data: {
+      configurationId: configuration.id,
+      revision: (latest?.revision ?? 0) + 1,
+      name: configuration.name,
+      ...layoutOf(configuration),
+      createdById
+    }
+  })
+}
+
+export interface ConfigurationRevisionDiff {
+  from: number
+  to: number
+  // Metres the field's centre moved
+  moved: number
+  changes: Array<{ field: RevisionField; from: unknown; to: unknown }>
+}
+
+// Compare two revisions of a configuration
+export function diffRevisions(from: FieldConfigurationRevision, to: FieldConfigurationRevision): ConfigurationRevisionDiff {
+  const offset = latLngToEnu(
+    { lat: from.latitude, lng: from.longitude },
+    { lat: to.latitude, lng: to.longitude }
+  )
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    moved: Math.round(Math.hypot(offset.east, offset.north) * 100) / 100,
+    changes: REVISION_FIELDS
+      .filter((field) => from[field] !== to[field])
+      .map((field) => ({ field, from: from[field], to: to[field] }))
+  }
+}
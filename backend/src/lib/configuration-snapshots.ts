@@ -0,0 +1,146 @@
+import { FieldConfiguration, FieldTemplate, FieldTemplateVersion, Prisma } from '@prisma/client'
+
+// Once a booking is accepted (it leaves pending) the configuration it marks is
+// copied onto the booking, so later edits to the field only affect new
+// bookings and never what a crew has been scheduled to mark. Bookings accepted
+// before snapshots existed have none and fall back to the live configuration.
+
+export interface ConfigurationSnapshot {
+  name: string
+  latitude: number
+  longitude: number
+  rotationDegrees: number
+  lengthMeters: number
+  widthMeters: number
+  lineColor: string
+  templateId: string
+  templateVersionId: string | null
+  templateVersion: number | null
+  templateName: string
+  templateSport: string
+  // Competition level the field was laid out for
+  complianceProfile: string | null
+  interiorElements: unknown
+  frozenAt: string
+}
+
+// Statuses that don't need the field kept as it was
+const UNFROZEN_STATUSES = ['pending', 'cancelled', 'declined']
+
+export function needsSnapshot(status: string): boolean {
+  return !UNFROZEN_STATUSES.includes(status)
+}
+
+type SnapshotSource = FieldConfiguration & {
+  template: FieldTemplate
+  templateVersion: FieldTemplateVersion | null
+  complianceProfile: { name: string } | null
+}
+
+export function snapshotConfiguration(configuration: SnapshotSource, now = new Date()): ConfigurationSnapshot {
+  return {
+    name: configuration.name,
+    latitude: configuration.latitude,
+    longitude: configuration.longitude,
+    rotationDegrees: configuration.rotationDegrees,
+    lengthMeters: configuration.lengthMeters,
+    widthMeters: configuration.widthMeters,
+    lineColor: configuration.lineColor,
+    templateId: configuration.templateId,
+    templateVersionId: configuration.templateVersionId,
+    templateVersion: configuration.templateVersion?.version ?? null,
+    templateName: configuration.template.name,
+    templateSport: configuration.template.sport,
+    complianceProfile: configuration.complianceProfile?.name ?? null,
+    interiorElements: configuration.templateVersion?.interiorElements ?? configuration.template.interiorElements,
+    frozenAt: now.toISOString()
+  }
+}
+
+// Copy the booking's configuration onto it unless that's already been done.
+// force re-freezes, for when an admin points the booking at another field.
+export async function freezeConfiguration(
+  client: Prisma.TransactionClient,
+  bookingId: string,
+  { force = false }: { force?: boolean } = {}
+): Promise<void> {
+  const booking = await client.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    select: {
+      configurationSnapshot: true,
+      configuration: { include: { template: true, templateVersion: true, complianceProfile: true } }
+    }
+  })
+  if (booking.configurationSnapshot && !force) return
+
+  await client.booking.update({
+    where: { id: bookingId },
+    data: { configurationSnapshot: snapshotConfiguration(booking.configuration) as unknown as Prisma.InputJsonValue }
+  })
+}
+
+export function parseSnapshot(value: Prisma.JsonValue | null): ConfigurationSnapshot | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as unknown as ConfigurationSnapshot : null
+}
+
+const SNAPSHOT_FIELDS = ['name', 'latitude', 'longitude', 'rotationDegrees', 'lengthMeters', 'widthMeters', 'lineColor', 'templateVersionId'] as const
+
+// True when the live configuration no longer matches what was booked
+export function hasChangedSince(snapshot: ConfigurationSnapshot, configuration: Pick<FieldConfiguration, typeof SNAPSHOT_FIELDS[number] | 'templateId'>): boolean {
+  return configuration.templateId !== snapshot.templateId ||
+    SNAPSHOT_FIELDS.some((field) => configuration[field] !== snapshot[field])
+}
+
+// The configuration as booked: the snapshot's values laid over the live
+// record, with the markings to draw
+export function bookedConfiguration<T extends FieldConfiguration & {
+  template: FieldTemplate
+  templateVersion: FieldTemplateVersion | null
+}>(configuration: T, snapshotValue: Prisma.JsonValue | null): T & { interiorElements: unknown } {
+  const snapshot = parseSnapshot(snapshotValue)
+  if (!snapshot) {
+    return {
+      ...configuration,
+      interiorElements: configuration.templateVersion?.interiorElements ?? configuration.template.interiorElements
+    }
+  }
+
+  return {
+    ...configuration,
+    name: snapshot.name,
+    latitude: snapshot.latitude,
+    longitude: snapshot.longitude,
+    rotationDegrees: snapshot.rotationDegrees,
+    lengthMeters: snapshot.lengthMeters,
+    widthMeters: snapshot.widthMeters,
+    lineColor: snapshot.lineColor,
+    template: { ...configuration.template, name: snapshot.templateName, sport: snapshot.templateSport },
+    interiorElements: snapshot.interiorElements
+  }
+}
+
+// Bookings whose field is held to its snapshot while the work is still to do
+const LOCKED_STATUSES = ['confirmed', 'scheduled', 'in_progress', 'rescheduled']
+
+// Call before editing a configuration: freezes any accepted bookings that
+// predate snapshots, and returns how many open bookings the edit won't touch
+export async function lockBookedConfiguration(
+  client: Prisma.TransactionClient,
+  configurationId: string
+): Promise<number> {
+  const unfrozen = await client.booking.findMany({
+    where: {
+      configurationId,
+      status: { notIn: UNFROZEN_STATUSES },
+      configurationSnapshot: { equals: Prisma.DbNull }
+    },
+    select: { id: true }
+  })
+  for (const booking of unfrozen) {
+    await freezeConfiguration(client, booking.id)
+  }
+
+  return client.booking.count({
+    where: { configurationId, status: { in: LOCKED_STATUSES } }
+  })
+}
@@ -0,0 +1,139 @@
+import { Prisma } from '@prisma/client'
+import { SLOT_WINDOWS } from './availability.js'
+
+// Crew scheduling checks. Conflicts are warnings for the dispatcher rather
+// than errors: an overloaded day is sometimes the right call, but it should
+// never happen by accident.
+
+export const EQUIPMENT_TYPES = ['line_marker', 'paint', 'vehicle', 'other'] as const
+
+// Bookings that no longer need a crew
+const INACTIVE_STATUSES = ['cancelled', 'declined']
+
+// How long a job with a specific start time occupies the crew; matches the
+// one-hour blocks on the scheduler calendar
+const JOB_MINUTES = 60
+
+// Minutes since midnight the booking could occupy the crew, or null for
+// "flexible" and anything unrecognised, which fit around other work
+export function bookingTimeWindow(preferredTime: string): [number, number] | null {
+  // Named slots customers pick instead of a clock time
+  const window = SLOT_WINDOWS[preferredTime.toLowerCase()]
+  if (window) return window
+
+  const match = /^(\d{1,2}):(\d{2})$/.exec(preferredTime)
+  if (!match) return null
+  const start = parseInt(match[1]) * 60 + parseInt(match[2])
+  return [start, start + JOB_MINUTES]
+}
+
+export interface CrewConflict {
+  type: 'double_booked' | 'over_capacity'
+  crewId: string
+  // YYYY-MM-DD
+  date: string
+  bookingIds: string[]
+  message: string
+}
+
+export interface ScheduledBooking {
+  id: string
+  referenceNumber: string
+  crewId: string | null
+  preferredDate: Date
+  preferredTime: string
+  status: string
+}
+
+export interface ScheduledCrew {
+  id: string
+  name: string
+  dailyCapacity: number
+}
+
+// Booking dates are stored as midnight UTC of the chosen day
+const dayKey = (date: Date) => date.toISOString().split('T')[0]
+
+export function findCrewConflicts(bookings: ScheduledBooking[], crews: ScheduledCrew[]): CrewConflict[] {
+  const crewsById = new Map(crews.map((c) => [c.id, c]))
+  const days = new Map<string, ScheduledBooking[]>()
+
+  for (const booking of bookings) {
+    if (!booking.crewId || INACTIVE_STATUSES.includes(booking.status)) continue
+    const key = `${booking.crewId}|${dayKey(booking.preferredDate)}`
+    days.set(key, [...(days.get(key) ?? []), booking])
+  }
+
+  const conflicts: CrewConflict[] = []
+  for (const [key, dayBookings] of days) {
+    const [crewId, date] = key.split('|')
+    const crew = crewsById.get(crewId)
+    if (!crew) continue
+
+    if (dayBookings.length > crew.dailyCapacity) {
+      conflicts.push({
+        type: 'over_capacity',
+        crewId,
+        date,
+        bookingIds: dayBookings.map((b) => b.id),
+        message: `${crew.name} has ${dayBookings.length} bookings on ${date}, over their daily capacity of ${crew.dailyCapacity}`
+      })
+    }
+
+    for (let i = 0; i < dayBookings.length; i++) {
+      for (let j = i + 1; j < dayBookings.length; j++) {
+        const a = bookingTimeWindow(dayBookings[i].preferredTime)
+        const b = bookingTimeWindow(dayBookings[j].preferredTime)
+        if (!a || !b || a[0] >= b[1] || b[0] >= a[1]) continue
+
+        conflicts.push({
+          type: 'double_booked',
+          crewId,
+          date,
+          bookingIds: [dayBookings[i].id, dayBookings[j].id],
+          message: `${crew.name} is double-booked on ${date}: ${dayBookings[i].referenceNumber} (${dayBookings[i].preferredTime}) overlaps ${dayBookings[j].referenceNumber} (${dayBookings[j].preferredTime})`
+        })
+      }
+    }
+  }
+
+  return conflicts
+}
+
+// Crews and their active bookings dated between start and end (inclusive),
+// optionally for some crews only
+export async function loadCrewSchedule(
+  client: Prisma.TransactionClient,
+  start: Date,
+  end: Date,
+  crewIds?: string[]
+): Promise<{ bookings: ScheduledBooking[]; crews: ScheduledCrew[] }> {
+  const [bookings, crews] = await Promise.all([
+    client.booking.findMany({
+      where: {
+        crewId: crewIds ? { in: crewIds } : { not: null },
+        preferredDate: { gte: start, lte: end },
+        status: { notIn: INACTIVE_STATUSES }
+      },
+      select: { id: true, referenceNumber: true, crewId: true, preferredDate: true, preferredTime: true, status: true }
+    }),
+    client.crew.findMany({
+      where: crewIds ? { id: { in: crewIds } } : undefined,
+      select: { id: true, name: true, dailyCapacity: true }
+    })
+  ])
+
+  return { bookings, crews }
+}
+
+// Conflicts for bookings dated between start and end (inclusive), optionally
+// for one crew only
+export async function loadCrewConflicts(
+  client: Prisma.TransactionClient,
+  start: Date,
+  end: Date,
+  crewId?: string
+): Promise<CrewConflict[]> {
+  const { bookings, crews } = await loadCrewSchedule(client, start, end, crewId ? [crewId] : undefined)
+  return findCrewConflicts(bookings, crews)
+}
@@ -0,0 +1,256 @@
+import { generateFieldPaths, FieldPoint } from 'xactline-shared/field-geometry'
+import { fieldToEnu, fieldToLatLng } from 'xactline-shared/projection'
+
+// Converts a field configuration's markings into standard geodata formats for
+// field crews and GPS line-marking robots.
+
+export const EXPORT_FORMATS = ['geojson', 'kml', 'dxf'] as const
+
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export interface ExportableConfiguration {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  rotationDegrees: number
+  lengthMeters: number
+  widthMeters: number
+  lineColor: string
+}
+
+export interface ExportedFile {
+  contentType: string
+  extension: string
+  body: string
+}
+
+// [longitude, latitude] pairs, matching GeoJSON axis order
+type LngLat = [number, number]
+
+// [east, north] metres from the field centre
+type EastNorth = [number, number]
+
+interface MarkingLine<T = LngLat> {
+  elementId: string
+  lines: T[][]
+}
+
+// Named colours offered by the editor
+const LINE_COLORS: Record<string, string> = {
+  white: '#FFFFFF',
+  yellow: '#FFFF00',
+  blue: '#0066FF',
+  orange: '#FF6600',
+  red: '#FF0000',
+  green: '#00FF00'
+}
+
+// AutoCAD colour index for each named colour (7 = white/black)
+const DXF_COLOR_INDEX: Record<string, number> = {
+  '#FFFFFF': 7,
+  '#FFFF00': 2,
+  '#0066FF': 5,
+  '#FF6600': 30,
+  '#FF0000': 1,
+  '#00FF00': 3
+}
+
+// Coordinates are written with 8 decimal places (~1mm)
+const COORDINATE_PRECISION = 8
+
+// Planar coordinates are written to the millimetre
+const METRE_PRECISION = 3
+
+export function lineColorHex(lineColor: string): string {
+  const named = LINE_COLORS[lineColor.toLowerCase()]
+  if (named) return named
+  return /^#[0-9a-f]{6}$/i.test(lineColor) ? lineColor.toUpperCase() : LINE_COLORS.white
+}
+
+// Rotate local field coordinates (metres from the centre) by the configuration's
+// rotation and project them from its centre, as the map editor does
+function toLngLat(configuration: ExportableConfiguration, point: FieldPoint): LngLat {
+  const center = { lat: configuration.latitude, lng: configuration.longitude }
+  const { lat, lng } = fieldToLatLng(center, point.x, point.y, configuration.rotationDegrees)
+  return [round(lng), round(lat)]
+}
+
+// Rotate local field coordinates into metres east and north of the field
+// centre, the same tangent plane the projection uses
+function toEastNorth(configuration: ExportableConfiguration, point: FieldPoint): EastNorth {
+  const { east, north } = fieldToEnu(point.x, point.y, configuration.rotationDegrees)
+  return [Number(east.toFixed(METRE_PRECISION)), Number(north.toFixed(METRE_PRECISION))]
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(COORDINATE_PRECISION))
+}
+
+// Every marking of the configuration, grouped by element, with each point
+// converted by toPoint
+function groupMarkings<T>(
+  configuration: ExportableConfiguration,
+  interiorElements: unknown,
+  toPoint: (configuration: ExportableConfiguration, point: FieldPoint) => T
+): MarkingLine<T>[] {
+  const markings = new Map<string, T[][]>()
+
+  for (const path of generateFieldPaths(interiorElements, configuration.lengthMeters, configuration.widthMeters)) {
+    const lines = markings.get(path.elementId) ?? []
+    lines.push(path.points.map((point) => toPoint(configuration, point)))
+    markings.set(path.elementId, lines)
+  }
+
+  return Array.from(markings, ([elementId, lines]) => ({ elementId, lines }))
+}
+
+// Every marking of the configuration in real-world coordinates, grouped by element
+export function configurationMarkings(
+  configuration: ExportableConfiguration,
+  interiorElements: unknown
+): MarkingLine[] {
+  return groupMarkings(configuration, interiorElements, toLngLat)
+}
+
+function toGeoJSON(configuration: ExportableConfiguration, markings: MarkingLine[]): string {
+  const lineColor = lineColorHex(configuration.lineColor)
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name: configuration.name,
+    features: markings.map((marking) => ({
+      type: 'Feature',
+      geometry: marking.lines.length === 1
+        ? { type: 'LineString', coordinates: marking.lines[0] }
+        : { type: 'MultiLineString', coordinates: marking.lines },
+      properties: {
+        elementId: marking.elementId,
+        lineColor,
+        configurationId: configuration.id
+      }
+    }))
+  }, null, 2)
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function toKML(configuration: ExportableConfiguration, markings: MarkingLine[]): string {
+  const lineColor = lineColorHex(configuration.lineColor)
+  // KML colours are aabbggrr
+  const kmlColor = `ff${lineColor.slice(5, 7)}${lineColor.slice(3, 5)}${lineColor.slice(1, 3)}`.toLowerCase()
+
+  const lineString = (line: LngLat[]) =>
+    `<LineString><tessellate>1</tessellate><coordinates>${line.map(([lng, lat]) => `${lng},${lat},0`).join(' ')}</coordinates></LineString>`
+
+  const placemarks = markings.map((marking) => {
+    const geometry = marking.lines.length === 1
+      ? lineString(marking.lines[0])
+      : `<MultiGeometry>${marking.lines.map(lineString).join('')}</MultiGeometry>`
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(marking.elementId)}</name>`,
+      '      <styleUrl>#marking</styleUrl>',
+      '      <ExtendedData>',
+      `        <Data name="elementId"><value>${escapeXml(marking.elementId)}</value></Data>`,
+      `        <Data name="lineColor"><value>${lineColor}</value></Data>`,
+      '      </ExtendedData>',
+      `      ${geometry}`,
+      '    </Placemark>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(configuration.name)}</name>`,
+    '    <Style id="marking">',
+    `      <LineStyle><color>${kmlColor}</color><width>2</width></LineStyle>`,
+    '    </Style>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n')
+}
+
+// DXF layer names may not contain <>/\":;?*|=`
+function dxfLayerName(elementId: string): string {
+  return elementId.replace(/[<>/\\":;?*|=`]/g, '_')
+}
+
+// AutoCAD R12 DXF with one POLYLINE per marking line, in metres: X is east and
+// Y is north of the field centre on the local tangent plane, so distances and
+// arcs measure true in CAD and on marking robots. Comments at the top of the
+// file give the WGS84 position of the origin. Each element is drawn on a layer
+// named after its id.
+function toDXF(configuration: ExportableConfiguration, markings: MarkingLine<EastNorth>[]): string {
+  const color = DXF_COLOR_INDEX[lineColorHex(configuration.lineColor)] ?? 7
+  const codes: Array<[number, string | number]> = []
+  const push = (...pairs: Array<[number, string | number]>) => codes.push(...pairs)
+
+  push(
+    [999, `${configuration.name.replace(/[\r\n]+/g, ' ')}: field markings in metres`],
+    [999, `Origin (0,0) is the field centre at WGS84 latitude ${configuration.latitude}, longitude ${configuration.longitude}`],
+    [999, 'Local east-north-up tangent plane: +X east, +Y true north, Z 0']
+  )
+
+  push([0, 'SECTION'], [2, 'HEADER'], [9, '$ACADVER'], [1, 'AC1009'], [0, 'ENDSEC'])
+
+  push([0, 'SECTION'], [2, 'TABLES'], [0, 'TABLE'], [2, 'LAYER'], [70, markings.length])
+  for (const marking of markings) {
+    push([0, 'LAYER'], [2, dxfLayerName(marking.elementId)], [70, 0], [62, color], [6, 'CONTINUOUS'])
+  }
+  push([0, 'ENDTAB'], [0, 'ENDSEC'])
+
+  push([0, 'SECTION'], [2, 'ENTITIES'])
+  for (const marking of markings) {
+    const layer = dxfLayerName(marking.elementId)
+    for (const line of marking.lines) {
+      push([0, 'POLYLINE'], [8, layer], [66, 1], [62, color], [70, 0])
+      for (const [east, north] of line) {
+        push([0, 'VERTEX'], [8, layer], [10, east], [20, north], [30, 0])
+      }
+      push([0, 'SEQEND'], [8, layer])
+    }
+  }
+  push([0, 'ENDSEC'], [0, 'EOF'])
+
+  return codes.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n'
+}
+
+export function exportConfiguration(
+  configuration: ExportableConfiguration,
+  interiorElements: unknown,
+  format: ExportFormat
+): ExportedFile {
+  switch (format) {
+    case 'geojson': {
+      const markings = configurationMarkings(configuration, interiorElements)
+      return { contentType: 'application/geo+json', extension: 'geojson', body: toGeoJSON(configuration, markings) }
+    }
+    case 'kml': {
+      const markings = configurationMarkings(configuration, interiorElements)
+      return { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml', body: toKML(configuration, markings) }
+    }
+    case 'dxf': {
+      const markings = groupMarkings(configuration, interiorElements, toEastNorth)
+      return { contentType: 'application/dxf', extension: 'dxf', body: toDXF(configuration, markings) }
+    }
+  }
+}
+
+// File name for a download, e.g. "main-oval-soccer.kml"
+export function exportFileName(configuration: ExportableConfiguration, file: ExportedFile): string {
+  const slug = configuration.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'configuration'}.${file.extension}`
+}
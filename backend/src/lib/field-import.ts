@@ -0,0 +1,324 @@
+import { FieldTemplate } from '@prisma/client'
+import { enuToLatLng, latLngToEnu } from 'xactline-shared/projection'
+
+// Detects a rectangular field outline in surveyed GeoJSON or KML and works out
+// the configuration (centre, rotation, length and width) that reproduces it.
+
+export class FieldImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FieldImportError'
+  }
+}
+
+// [longitude, latitude] pairs, matching GeoJSON axis order
+type LngLat = [number, number]
+
+interface Point {
+  x: number
+  y: number
+}
+
+export interface DetectedOutline {
+  latitude: number
+  longitude: number
+  rotationDegrees: number
+  lengthMeters: number
+  widthMeters: number
+  // Outline area as a fraction of the fitted rectangle's area (1 = perfect rectangle)
+  rectangularity: number
+  shapeCount: number
+  sport?: string
+}
+
+// Outlines less rectangular than this are imported with a warning
+const MIN_RECTANGULARITY = 0.9
+
+// ============ PARSING ============
+
+function isPosition(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length >= 2 && value.every((n) => typeof n === 'number' && Number.isFinite(n))
+}
+
+function toRing(value: unknown): LngLat[] | null {
+  if (!Array.isArray(value) || !value.every(isPosition)) return null
+  return value.map((p) => [p[0], p[1]] as LngLat)
+}
+
+// Collect candidate rings from any GeoJSON object. Polygons contribute their
+// outer ring; lines are treated as outlines when they have enough points.
+function geoJsonRings(value: unknown, rings: LngLat[][], sports: string[]) {
+  if (!value || typeof value !== 'object') return
+  const object = value as { type?: string; coordinates?: unknown; geometries?: unknown; geometry?: unknown; features?: unknown; properties?: unknown }
+
+  switch (object.type) {
+    case 'FeatureCollection':
+      if (Array.isArray(object.features)) object.features.forEach((f) => geoJsonRings(f, rings, sports))
+      break
+    case 'Feature': {
+      const sport = (object.properties as { sport?: unknown } | null)?.sport
+      if (typeof sport === 'string') sports.push(sport)
+      geoJsonRings(object.geometry, rings, sports)
+      break
+    }
+    case 'GeometryCollection':
+      if (Array.isArray(object.geometries)) object.geometries.forEach((g) => geoJsonRings(g, rings, sports))
+      break
+    case 'Polygon': {
+      const ring = Array.isArray(object.coordinates) ? toRing(object.coordinates[0]) : null
+      if (ring) rings.push(ring)
+      break
+    }
+    case 'MultiPolygon':
+      if (Array.isArray(object.coordinates)) {
+        for (const polygon of object.coordinates) {
+          const ring = Array.isArray(polygon) ? toRing(polygon[0]) : null
+          if (ring) rings.push(ring)
+        }
+      }
+      break
+    case 'LineString': {
+      const ring = toRing(object.coordinates)
+      if (ring) rings.push(ring)
+      break
+    }
+    case 'MultiLineString':
+      if (Array.isArray(object.coordinates)) {
+        for (const line of object.coordinates) {
+          const ring = toRing(line)
+          if (ring) rings.push(ring)
+        }
+      }
+      break
+  }
+}
+
+// KML is parsed with patterns rather than a full XML parser: every
+// <coordinates> block outside a polygon's inner boundary is a candidate ring.
+function kmlRings(content: string, rings: LngLat[][], sports: string[]) {
+  const withoutHoles = content.replace(/<innerBoundaryIs>[\s\S]*?<\/innerBoundaryIs>/gi, '')
+
+  for (const match of Array.from(withoutHoles.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/gi))) {
+    const ring = match[1]
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => tuple.split(',').map(Number))
+      .filter(isPosition)
+      .map((p) => [p[0], p[1]] as LngLat)
+    if (ring.length > 0) rings.push(ring)
+  }
+
+  for (const match of Array.from(content.matchAll(/<Data name="sport">\s*<value>([^<]+)<\/value>/gi))) {
+    sports.push(match[1].trim())
+  }
+}
+
+// ============ RECTANGLE FITTING ============
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
+
+// Andrew's monotone chain
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  const lower: Point[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: Point[] = []
+  for (const p of sorted.reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)]
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(area) / 2
+}
+
+interface FittedRectangle {
+  center: Point
+  // Unit vector along the rectangle's longer side
+  axis: Point
+  length: number
+  width: number
+  area: number
+}
+
+// Minimum-area bounding rectangle. One side of it always lies along an edge of
+// the convex hull, so only those orientations need checking.
+function fitRectangle(points: Point[]): FittedRectangle {
+  const hull = convexHull(points)
+  let best: FittedRectangle | null = null
+
+  for (let i = 0; i < hull.length; i++) {
+    const a = hull[i]
+    const b = hull[(i + 1) % hull.length]
+    const edge = Math.hypot(b.x - a.x, b.y - a.y)
+    if (edge === 0) continue
+
+    const u = { x: (b.x - a.x) / edge, y: (b.y - a.y) / edge }
+    const v = { x: -u.y, y: u.x }
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity
+    for (const p of hull) {
+      const pu = p.x * u.x + p.y * u.y
+      const pv = p.x * v.x + p.y * v.y
+      minU = Math.min(minU, pu)
+      maxU = Math.max(maxU, pu)
+      minV = Math.min(minV, pv)
+      maxV = Math.max(maxV, pv)
+    }
+
+    const sizeU = maxU - minU
+    const sizeV = maxV - minV
+    const area = sizeU * sizeV
+    if (!best || area < best.area) {
+      const cu = (minU + maxU) / 2
+      const cv = (minV + maxV) / 2
+      best = {
+        center: { x: cu * u.x + cv * v.x, y: cu * u.y + cv * v.y },
+        axis: sizeU >= sizeV ? u : v,
+        length: Math.max(sizeU, sizeV),
+        width: Math.min(sizeU, sizeV),
+        area
+      }
+    }
+  }
+
+  if (!best || best.area === 0) {
+    throw new FieldImportError('The outline has no area')
+  }
+  return best
+}
+
+const round = (value: number, places: number) => Number(value.toFixed(places))
+
+// Find the largest outline in a GeoJSON or KML document and fit a rectangle to it
+export function detectFieldOutline(content: string): DetectedOutline {
+  const rings: LngLat[][] = []
+  const sports: string[] = []
+  const trimmed = content.trim()
+
+  if (trimmed.startsWith('<')) {
+    kmlRings(trimmed, rings, sports)
+  } else {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      throw new FieldImportError('File is neither valid GeoJSON nor KML')
+    }
+    geoJsonRings(parsed, rings, sports)
+  }
+
+  const candidates = rings.filter((ring) => ring.length >= 4)
+  if (candidates.length === 0) {
+    throw new FieldImportError('No field outline found - the file needs a polygon or closed line with at least 4 points')
+  }
+
+  // Work in metres on a plane tangent to each ring's first point
+  const toPlane = (ring: LngLat[]) => {
+    const origin = { lng: ring[0][0], lat: ring[0][1] }
+    return {
+      origin,
+      points: ring.map(([lng, lat]) => {
+        const { east, north } = latLngToEnu(origin, { lat, lng })
+        return { x: east, y: north }
+      })
+    }
+  }
+
+  const outline = candidates
+    .map(toPlane)
+    .map((plane) => ({ ...plane, area: polygonArea(plane.points) }))
+    .sort((a, b) => b.area - a.area)[0]
+
+  const rectangle = fitRectangle(outline.points)
+
+  // The editor rotates the field's length axis (0, 1) to (-sin θ, cos θ)
+  let rotation = (Math.atan2(-rectangle.axis.x, rectangle.axis.y) * 180) / Math.PI
+  rotation = ((rotation % 180) + 180) % 180
+
+  const center = enuToLatLng(outline.origin, rectangle.center.x, rectangle.center.y)
+
+  return {
+    latitude: round(center.lat, 8),
+    longitude: round(center.lng, 8),
+    rotationDegrees: round(rotation, 1),
+    lengthMeters: round(rectangle.length, 1),
+    widthMeters: round(rectangle.width, 1),
+    rectangularity: round(outline.area / rectangle.area, 3),
+    shapeCount: candidates.length,
+    sport: sports[0]
+  }
+}
+
+// ============ TEMPLATE MATCHING ============
+
+// Metres the outline falls outside a range (0 when inside)
+function rangeDistance(value: number, min: number, max: number): number {
+  return value < min ? min - value : value > max ? value - max : 0
+}
+
+// Pick the template whose size range best fits the outline, preferring the
+// requested sport. Out-of-range templates are penalised ahead of the distance
+// from their default size.
+export function matchTemplate(
+  templates: FieldTemplate[],
+  outline: DetectedOutline,
+  sport?: string
+): { template: FieldTemplate; warnings: string[] } {
+  const warnings: string[] = []
+  const wanted = (sport || outline.sport)?.toLowerCase()
+
+  let candidates = templates
+  if (wanted) {
+    const sameSport = templates.filter((t) => t.sport.toLowerCase() === wanted)
+    if (sameSport.length > 0) {
+      candidates = sameSport
+    } else {
+      warnings.push(`No templates for sport "${wanted}" - matched against all sports`)
+    }
+  }
+
+  if (candidates.length === 0) {
+    throw new FieldImportError('No active templates to match against')
+  }
+
+  const score = (t: FieldTemplate) =>
+    (rangeDistance(outline.lengthMeters, t.minLength, t.maxLength) +
+      rangeDistance(outline.widthMeters, t.minWidth, t.maxWidth)) * 1000 +
+    Math.hypot(outline.lengthMeters - t.defaultLength, outline.widthMeters - t.defaultWidth)
+
+  const template = [...candidates].sort((a, b) => score(a) - score(b))[0]
+
+  if (outline.lengthMeters < template.minLength || outline.lengthMeters > template.maxLength) {
+    warnings.push(
+      `Length ${outline.lengthMeters}m is outside the ${template.name} range of ${template.minLength}-${template.maxLength}m`
+    )
+  }
+  if (outline.widthMeters < template.minWidth || outline.widthMeters > template.maxWidth) {
+    warnings.push(
+      `Width ${outline.widthMeters}m is outside the ${template.name} range of ${template.minWidth}-${template.maxWidth}m`
+    )
+  }
+  if (outline.rectangularity < MIN_RECTANGULARITY) {
+    warnings.push(
+      `The outline is not very rectangular (${Math.round(outline.rectangularity * 100)}% of the fitted rectangle) - check the position in the editor`
+    )
+  }
+  if (outline.shapeCount > 1) {
+    warnings.push(`The file contains ${outline.shapeCount} shapes - the largest was used`)
+  }
+
+  return { template, warnings }
+}
@@ -0,0 +1,532 @@
+import { generateFieldPaths, FieldPoint } from 'xactline-shared/field-geometry'
+import { latLngToEnu } from 'xactline-shared/projection'
+import { lineColorHex } from './field-export.js'
+import { A4, PdfDocument, PdfPoint, Rgb } from './pdf.js'
+
+// Renders crew job sheets: site, schedule and customer details plus north-up,
+// to-scale diagrams of the field markings, either for one booking or for every
+// field of a booking group on a single site plan. Everything is drawn from the
+// booking data, so no map tiles or browser are needed.
+
+export interface JobSheetBooking {
+  referenceNumber: string
+  status: string
+  preferredDate: Date
+  preferredTime: string
+  alternativeDate: Date | null
+  notes: string | null
+  contactPreference: string
+  user: {
+    fullName: string
+    email: string
+    phone: string
+    organization: string | null
+  }
+  configuration: {
+    name: string
+    latitude: number
+    longitude: number
+    rotationDegrees: number
+    lengthMeters: number
+    widthMeters: number
+    lineColor: string
+    sportsground: {
+      name: string
+      address: string
+      latitude: number
+      longitude: number
+    }
+    template: {
+      name: string
+    }
+  }
+  bookingGroup: {
+    groupReferenceNumber: string
+    notes: string | null
+  } | null
+}
+
+export interface JobSheetGroup {
+  groupReferenceNumber: string
+  status: string
+  defaultPreferredDate: Date
+  defaultPreferredTime: string
+  alternativeDate: Date | null
+  notes: string | null
+  contactPreference: string
+  user: JobSheetBooking['user']
+  sportsground: JobSheetBooking['configuration']['sportsground']
+  bookings: Array<{
+    referenceNumber: string
+    status: string
+    preferredDate: Date
+    preferredTime: string
+    configuration: Omit<JobSheetBooking['configuration'], 'sportsground'> & {
+      interiorElements: unknown
+    }
+  }>
+}
+
+const MARGIN = 40
+const CONTENT_WIDTH = A4.width - MARGIN * 2
+const LABEL_WIDTH = 88
+const ROW_HEIGHT = 13
+const MAX_NOTE_LINES = 6
+
+const GREY: Rgb = [0.42, 0.45, 0.5]
+const LIGHT_GREY: Rgb = [0.82, 0.84, 0.87]
+const TURF: Rgb = [0.2, 0.47, 0.25]
+const WHITE: Rgb = [1, 1, 1]
+const DIMENSION: Rgb = [0.15, 0.15, 0.15]
+
+// Points per metre at 1:1 (72pt per inch)
+const POINTS_PER_METER = 72 / 0.0254
+
+// Drawing scales offered, as the N in 1:N
+const NICE_SCALES = [100, 200, 250, 400, 500, 750, 1000, 1250, 1500, 2000, 2500, 3000, 4000, 5000]
+
+const SCALE_BAR_LENGTHS = [5, 10, 20, 25, 50, 100, 200]
+
+// Site plan is shrunk to this height before the field table moves to its own page
+const MIN_PLAN_HEIGHT = 360
+const TABLE_ROW_HEIGHT = 16
+
+// Field table columns: heading and width in points
+const FIELD_COLUMNS: Array<[string, number]> = [
+  ['#', 20],
+  ['Field', 118],
+  ['Template', 112],
+  ['Size', 68],
+  ['Rotation', 44],
+  ['Colour', 56],
+  ['Date', 55],
+  ['Time', 42],
+]
+
+function hexToRgb(hex: string): Rgb {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255) as Rgb
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ')
+}
+
+const formatCoordinate = (lat: number, lng: number) => `${lat.toFixed(6)}, ${lng.toFixed(6)}`
+
+// Label/value rows under a section heading; returns the y below the section
+function section(pdf: PdfDocument, x: number, y: number, width: number, heading: string, rows: Array<[string, string]>): number {
+  pdf.text(x, y, heading.toUpperCase(), { size: 8, bold: true, color: GREY })
+  y += ROW_HEIGHT + 2
+
+  for (const [label, value] of rows) {
+    pdf.text(x, y, label, { size: 8, color: GREY })
+    const lines = pdf.wrapText(value, width - LABEL_WIDTH, 9.5)
+    lines.forEach((line, i) => pdf.text(x + LABEL_WIDTH, y + i * ROW_HEIGHT, line, { size: 9.5 }))
+    y += ROW_HEIGHT * Math.max(lines.length, 1)
+  }
+
+  return y + 8
+}
+
+interface DiagramFrame {
+  // Page position of the field centre
+  cx: number
+  cy: number
+  // Points per metre on the page
+  scale: number
+  scaleDenominator: number
+  rotation: number
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Largest standard drawing scale (1:N) that fits the given half-extents in metres inside the box
+function standardScale(box: Box, halfEast: number, halfNorth: number): number {
+  const fitScale = Math.min(box.width / (halfEast * 2), box.height / (halfNorth * 2))
+  const rawDenominator = POINTS_PER_METER / fitScale
+  return NICE_SCALES.find((n) => n >= rawDenominator) ?? Math.ceil(rawDenominator / 1000) * 1000
+}
+
+function drawMarkings(pdf: PdfDocument, frame: DiagramFrame, interiorElements: unknown, length: number, width: number, lineColor: string) {
+  const color = hexToRgb(lineColorHex(lineColor))
+  for (const path of generateFieldPaths(interiorElements, length, width)) {
+    pdf.polyline(path.points.map((p) => toPage(frame, p)), { width: 1, color })
+  }
+}
+
+// Field coordinates (metres, x across, y towards the top line) to page points,
+// rotated to north-up the same way the map editor rotates the field
+function toPage(frame: DiagramFrame, point: FieldPoint): PdfPoint {
+  const east = point.x * Math.cos(frame.rotation) - point.y * Math.sin(frame.rotation)
+  const north = point.x * Math.sin(frame.rotation) + point.y * Math.cos(frame.rotation)
+  return { x: frame.cx + east * frame.scale, y: frame.cy - north * frame.scale }
+}
+
+// Dimension line between two field points, offset outwards by `offset` metres
+// along `normal`, with extension lines and a centred label
+function dimension(
+  pdf: PdfDocument,
+  frame: DiagramFrame,
+  from: FieldPoint,
+  to: FieldPoint,
+  normal: FieldPoint,
+  offset: number,
+  label: string
+) {
+  const shift = (p: FieldPoint, distance: number) => ({ x: p.x + normal.x * distance, y: p.y + normal.y * distance })
+  const tick = offset * 0.2
+
+  pdf.polyline([toPage(frame, shift(from, tick)), toPage(frame, shift(from, offset + tick))], { width: 0.4, color: GREY })
+  pdf.polyline([toPage(frame, shift(to, tick)), toPage(frame, shift(to, offset + tick))], { width: 0.4, color: GREY })
+  pdf.polyline([toPage(frame, shift(from, offset)), toPage(frame, shift(to, offset))], { width: 0.7, color: DIMENSION })
+
+  const middle = toPage(frame, shift({ x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }, offset))
+  const width = pdf.textWidth(label, 9, true) + 6
+  pdf.rect(middle.x - width / 2, middle.y - 7, width, 12, { fill: WHITE })
+  pdf.text(middle.x, middle.y + 2.5, label, { size: 9, bold: true, color: DIMENSION, align: 'center' })
+}
+
+function drawDiagram(
+  pdf: PdfDocument,
+  booking: JobSheetBooking,
+  interiorElements: unknown,
+  box: Box
+) {
+  const { lengthMeters: length, widthMeters: width, rotationDegrees } = booking.configuration
+  const rotation = (rotationDegrees * Math.PI) / 180
+  const offset = Math.max(length, width) * 0.08
+
+  // Fit the rotated field plus its dimension lines inside the box at a standard scale
+  const reach = { x: width / 2 + offset * 2.5, y: length / 2 + offset * 2.5 }
+  const extentEast = Math.abs(reach.x * Math.cos(rotation)) + Math.abs(reach.y * Math.sin(rotation))
+  const extentNorth = Math.abs(reach.x * Math.sin(rotation)) + Math.abs(reach.y * Math.cos(rotation))
+  const scaleDenominator = standardScale(box, extentEast, extentNorth)
+
+  const frame: DiagramFrame = {
+    cx: box.x + box.width / 2,
+    cy: box.y + box.height / 2,
+    scale: POINTS_PER_METER / scaleDenominator,
+    scaleDenominator,
+    rotation,
+  }
+
+  const halfL = length / 2
+  const halfW = width / 2
+  const corners = [
+    { x: -halfW, y: halfL },
+    { x: halfW, y: halfL },
+    { x: halfW, y: -halfL },
+    { x: -halfW, y: -halfL },
+  ]
+
+  // Turf behind the markings so white lines stay visible
+  const apron = offset * 0.4
+  pdf.polygon(
+    [
+      { x: -halfW - apron, y: halfL + apron },
+      { x: halfW + apron, y: halfL + apron },
+      { x: halfW + apron, y: -halfL - apron },
+      { x: -halfW - apron, y: -halfL - apron },
+    ].map((p) => toPage(frame, p)),
+    { fill: TURF }
+  )
+
+  drawMarkings(pdf, frame, interiorElements, length, width, booking.configuration.lineColor)
+
+  dimension(pdf, frame, corners[3], corners[0], { x: -1, y: 0 }, offset, `${length} m`)
+  dimension(pdf, frame, corners[3], corners[2], { x: 0, y: -1 }, offset, `${width} m`)
+
+  // Label the top line so the crew can orient the template on site
+  const top = toPage(frame, { x: 0, y: halfL + offset * 1.2 })
+  pdf.text(top.x, top.y + 3, 'TOP', { size: 7, bold: true, color: GREY, align: 'center' })
+
+  drawNorthArrow(pdf, box.x + box.width - 22, box.y + 14)
+  drawScaleBar(pdf, frame, box.x + 8, box.y + box.height - 10)
+}
+
+function drawNorthArrow(pdf: PdfDocument, x: number, y: number) {
+  pdf.polyline([{ x, y: y + 24 }, { x, y: y + 4 }], { width: 1.2, color: DIMENSION })
+  pdf.polyline([{ x: x - 4, y: y + 10 }, { x, y: y + 4 }, { x: x + 4, y: y + 10 }], { width: 1.2, color: DIMENSION })
+  pdf.text(x, y + 34, 'N', { size: 9, bold: true, color: DIMENSION, align: 'center' })
+}
+
+function drawScaleBar(pdf: PdfDocument, frame: DiagramFrame, x: number, y: number) {
+  // Longest standard length that stays under ~120pt
+  const meters = [...SCALE_BAR_LENGTHS].reverse().find((m) => m * frame.scale <= 120) ?? SCALE_BAR_LENGTHS[0]
+  const length = meters * frame.scale
+
+  pdf.rect(x, y - 4, length / 2, 4, { fill: DIMENSION })
+  pdf.rect(x, y - 4, length, 4, { stroke: DIMENSION, width: 0.6 })
+  pdf.text(x, y - 8, '0', { size: 7, color: GREY, align: 'center' })
+  pdf.text(x + length, y - 8, `${meters} m`, { size: 7, color: GREY, align: 'center' })
+  pdf.text(x + length + 18, y, `Scale 1:${frame.scaleDenominator} at A4`, { size: 7, color: GREY })
+}
+
+function header(pdf: PdfDocument, title: string, reference: string, status: string) {
+  pdf.text(MARGIN, 54, title, { size: 18, bold: true })
+  pdf.text(A4.width - MARGIN, 46, reference, { size: 12, bold: true, align: 'right' })
+  pdf.text(A4.width - MARGIN, 59, `Status: ${capitalize(status)}`, { size: 9, color: GREY, align: 'right' })
+  pdf.polyline([{ x: MARGIN, y: 68 }, { x: A4.width - MARGIN, y: 68 }], { width: 0.8, color: LIGHT_GREY })
+}
+
+function footer(pdf: PdfDocument) {
+  pdf.text(
+    MARGIN,
+    A4.height - 36,
+    `Coordinates are WGS84 decimal degrees. Diagrams are drawn north-up. Generated ${new Date().toLocaleDateString()}.`,
+    { size: 7, color: GREY }
+  )
+}
+
+function customerRows(user: JobSheetBooking['user'], contactPreference: string): Array<[string, string]> {
+  return [
+    ['Name', user.fullName],
+    ...(user.organization ? [['Organisation', user.organization] as [string, string]] : []),
+    ['Phone', user.phone],
+    ['Email', user.email],
+    ['Contact by', capitalize(contactPreference)],
+  ]
+}
+
+// Wrapped notes, truncated to a few lines; returns the y below them
+function notesBlock(pdf: PdfDocument, y: number, notes: string): number {
+  if (!notes) return y
+
+  pdf.text(MARGIN, y, 'NOTES', { size: 8, bold: true, color: GREY })
+  y += ROW_HEIGHT + 2
+  let lines = pdf.wrapText(notes, CONTENT_WIDTH, 9.5)
+  if (lines.length > MAX_NOTE_LINES) {
+    lines = [...lines.slice(0, MAX_NOTE_LINES - 1), `${lines[MAX_NOTE_LINES - 1]} ...`]
+  }
+  lines.forEach((line, i) => pdf.text(MARGIN, y + i * ROW_HEIGHT, line, { size: 9.5 }))
+  return y + lines.length * ROW_HEIGHT + 8
+}
+
+export function renderJobSheet(booking: JobSheetBooking, interiorElements: unknown): Buffer {
+  const { configuration, user } = booking
+  const { sportsground } = configuration
+  const pdf = new PdfDocument(`Job sheet ${booking.referenceNumber}`)
+
+  header(pdf, 'Line Marking Job Sheet', booking.referenceNumber, booking.status)
+
+  // Compass bearing of the field's length axis; the field is symmetric so both ends are given
+  const bearing = (((360 - configuration.rotationDegrees) % 360) + 360) % 360
+  const reverseBearing = (bearing + 180) % 360
+
+  const columnWidth = (CONTENT_WIDTH - 20) / 2
+  const leftBottom = section(pdf, MARGIN, 88, columnWidth, 'Site', [
+    ['Sportsground', sportsground.name],
+    ['Address', sportsground.address],
+    ['Site coordinates', formatCoordinate(sportsground.latitude, sportsground.longitude)],
+    ['Field centre', formatCoordinate(configuration.latitude, configuration.longitude)],
+    ['Field', configuration.name],
+    ['Template', configuration.template.name],
+    ['Dimensions', `${configuration.lengthMeters} m x ${configuration.widthMeters} m`],
+    ['Rotation', `${configuration.rotationDegrees.toFixed(1)}°`],
+    ['Length bearing', `${bearing.toFixed(1)}° / ${reverseBearing.toFixed(1)}°`],
+    ['Line colour', capitalize(configuration.lineColor)],
+  ])
+
+  const rightX = MARGIN + columnWidth + 20
+  const scheduleBottom = section(pdf, rightX, 88, columnWidth, 'Schedule', [
+    ['Preferred date', booking.preferredDate.toLocaleDateString()],
+    ['Preferred time', capitalize(booking.preferredTime)],
+    ['Alternative date', booking.alternativeDate?.toLocaleDateString() ?? 'None'],
+    ...(booking.bookingGroup ? [['Group', booking.bookingGroup.groupReferenceNumber] as [string, string]] : []),
+  ])
+  const rightBottom = section(pdf, rightX, scheduleBottom, columnWidth, 'Customer', customerRows(user, booking.contactPreference))
+
+  const notes = [booking.notes, booking.bookingGroup?.notes].filter((n): n is string => !!n?.trim()).join('\n')
+  const y = notesBlock(pdf, Math.max(leftBottom, rightBottom), notes)
+
+  // Field diagram fills the rest of the page
+  pdf.text(MARGIN, y, 'FIELD DIAGRAM', { size: 8, bold: true, color: GREY })
+  const box = { x: MARGIN, y: y + 8, width: CONTENT_WIDTH, height: A4.height - 56 - (y + 8) }
+  pdf.rect(box.x, box.y, box.width, box.height, { stroke: LIGHT_GREY, width: 0.8 })
+  drawDiagram(pdf, booking, interiorElements, box)
+  footer(pdf)
+
+  return pdf.toBuffer()
+}
+
+// Shorten text with an ellipsis to fit a table cell
+function fitText(pdf: PdfDocument, value: string, maxWidth: number, size: number): string {
+  if (pdf.textWidth(value, size) <= maxWidth) return value
+  let fitted = value
+  while (fitted.length > 1 && pdf.textWidth(`${fitted}...`, size) > maxWidth) fitted = fitted.slice(0, -1)
+  return `${fitted.trimEnd()}...`
+}
+
+// All of the group's fields positioned relative to each other around the ground
+function drawSitePlan(pdf: PdfDocument, group: JobSheetGroup, box: Box) {
+  const origin = { lat: group.sportsground.latitude, lng: group.sportsground.longitude }
+
+  const fields = group.bookings.map(({ configuration }) => {
+    const rotation = (configuration.rotationDegrees * Math.PI) / 180
+    const { east, north } = latLngToEnu(origin, { lat: configuration.latitude, lng: configuration.longitude })
+    const halfL = configuration.lengthMeters / 2
+    const halfW = configuration.widthMeters / 2
+    const corners = [
+      { x: -halfW, y: halfL },
+      { x: halfW, y: halfL },
+      { x: halfW, y: -halfL },
+      { x: -halfW, y: -halfL },
+    ].map((p) => ({
+      east: east + p.x * Math.cos(rotation) - p.y * Math.sin(rotation),
+      north: north + p.x * Math.sin(rotation) + p.y * Math.cos(rotation),
+    }))
+    return { configuration, rotation, east, north, corners }
+  })
+
+  // Centre the plan on the bounding box of every field
+  const corners = fields.flatMap((f) => f.corners)
+  const minEast = Math.min(...corners.map((c) => c.east))
+  const maxEast = Math.max(...corners.map((c) => c.east))
+  const minNorth = Math.min(...corners.map((c) => c.north))
+  const maxNorth = Math.max(...corners.map((c) => c.north))
+  const margin = Math.max(maxEast - minEast, maxNorth - minNorth, 20) * 0.08
+  const scaleDenominator = standardScale(box, (maxEast - minEast) / 2 + margin, (maxNorth - minNorth) / 2 + margin)
+  const scale = POINTS_PER_METER / scaleDenominator
+  const centre = { east: (minEast + maxEast) / 2, north: (minNorth + maxNorth) / 2 }
+
+  const frameFor = (east: number, north: number, rotation: number): DiagramFrame => ({
+    cx: box.x + box.width / 2 + (east - centre.east) * scale,
+    cy: box.y + box.height / 2 - (north - centre.north) * scale,
+    scale,
+    scaleDenominator,
+    rotation,
+  })
+
+  pdf.rect(box.x, box.y, box.width, box.height, { fill: TURF })
+
+  for (const field of fields) {
+    const { configuration } = field
+    drawMarkings(
+      pdf,
+      frameFor(field.east, field.north, field.rotation),
+      configuration.interiorElements,
+      configuration.lengthMeters,
+      configuration.widthMeters,
+      configuration.lineColor
+    )
+  }
+
+  // Numbered tags matching the field table
+  fields.forEach((field, i) => {
+    const frame = frameFor(field.east, field.north, field.rotation)
+    const label = `${i + 1}`
+    const width = Math.max(pdf.textWidth(label, 9, true) + 8, 14)
+    pdf.rect(frame.cx - width / 2, frame.cy - 7, width, 14, { fill: WHITE, stroke: DIMENSION, width: 0.6 })
+    pdf.text(frame.cx, frame.cy + 3.2, label, { size: 9, bold: true, color: DIMENSION, align: 'center' })
+  })
+
+  pdf.rect(box.x, box.y, box.width, box.height, { stroke: LIGHT_GREY, width: 0.8 })
+  pdf.rect(box.x + box.width - 36, box.y + 6, 30, 44, { fill: WHITE })
+  drawNorthArrow(pdf, box.x + box.width - 21, box.y + 10)
+  pdf.rect(box.x + 4, box.y + box.height - 26, 230, 22, { fill: WHITE })
+  drawScaleBar(pdf, frameFor(0, 0, 0), box.x + 12, box.y + box.height - 8)
+}
+
+// Field table rows, continuing onto new pages as needed; returns the y below the table
+function drawFieldTable(pdf: PdfDocument, group: JobSheetGroup, y: number): number {
+  const drawHeading = (top: number) => {
+    let x = MARGIN
+    for (const [heading, width] of FIELD_COLUMNS) {
+      pdf.text(x + 3, top, heading.toUpperCase(), { size: 7.5, bold: true, color: GREY })
+      x += width
+    }
+    pdf.polyline([{ x: MARGIN, y: top + 5 }, { x: A4.width - MARGIN, y: top + 5 }], { width: 0.6, color: LIGHT_GREY })
+    return top + 5 + TABLE_ROW_HEIGHT - 4
+  }
+
+  y = drawHeading(y)
+
+  group.bookings.forEach((booking, i) => {
+    if (y > A4.height - 60) {
+      footer(pdf)
+      pdf.addPage()
+      header(pdf, 'Group Job Sheet', group.groupReferenceNumber, group.status)
+      y = drawHeading(88)
+    }
+
+    const { configuration } = booking
+    const cells = [
+      `${i + 1}`,
+      configuration.name,
+      configuration.template.name,
+      `${configuration.lengthMeters} x ${configuration.widthMeters} m`,
+      `${configuration.rotationDegrees.toFixed(1)}°`,
+      capitalize(configuration.lineColor),
+      booking.preferredDate.toLocaleDateString(),
+      capitalize(booking.preferredTime),
+    ]
+
+    let x = MARGIN
+    cells.forEach((cell, column) => {
+      const width = FIELD_COLUMNS[column][1]
+      if (column === 5) {
+        // Swatch so the crew can match paint to the plan
+        pdf.rect(x + 3, y - 7, 8, 8, { fill: hexToRgb(lineColorHex(configuration.lineColor)), stroke: GREY, width: 0.4 })
+        pdf.text(x + 14, y, fitText(pdf, cell, width - 17, 8.5), { size: 8.5 })
+      } else {
+        pdf.text(x + 3, y, fitText(pdf, cell, width - 6, 8.5), { size: 8.5, bold: column === 0 })
+      }
+      x += width
+    })
+
+    pdf.polyline([{ x: MARGIN, y: y + 5 }, { x: A4.width - MARGIN, y: y + 5 }], { width: 0.3, color: LIGHT_GREY })
+    y += TABLE_ROW_HEIGHT
+  })
+
+  return y
+}
+
+export function renderGroupJobSheet(group: JobSheetGroup): Buffer {
+  const { sportsground, user } = group
+  const pdf = new PdfDocument(`Group job sheet ${group.groupReferenceNumber}`)
+
+  header(pdf, 'Group Job Sheet', group.groupReferenceNumber, group.status)
+
+  const columnWidth = (CONTENT_WIDTH - 20) / 2
+  const leftBottom = section(pdf, MARGIN, 88, columnWidth, 'Site', [
+    ['Sportsground', sportsground.name],
+    ['Address', sportsground.address],
+    ['Site coordinates', formatCoordinate(sportsground.latitude, sportsground.longitude)],
+    ['Fields', `${group.bookings.length}`],
+    ['Preferred date', group.defaultPreferredDate.toLocaleDateString()],
+    ['Preferred time', capitalize(group.defaultPreferredTime)],
+    ['Alternative date', group.alternativeDate?.toLocaleDateString() ?? 'None'],
+  ])
+  const rightBottom = section(pdf, MARGIN + columnWidth + 20, 88, columnWidth, 'Customer', customerRows(user, group.contactPreference))
+
+  let y = notesBlock(pdf, Math.max(leftBottom, rightBottom), group.notes?.trim() ?? '')
+
+  // Keep the table on the first page when the plan can still be a useful size.
+  // The table needs a row per field plus its title, heading and spacing.
+  const tableHeight = TABLE_ROW_HEIGHT * group.bookings.length + 56
+  const available = A4.height - 56 - (y + 8)
+  const tableFits = available - tableHeight >= MIN_PLAN_HEIGHT
+  const planHeight = tableFits ? available - tableHeight : available
+
+  pdf.text(MARGIN, y, 'SITE PLAN', { size: 8, bold: true, color: GREY })
+  drawSitePlan(pdf, group, { x: MARGIN, y: y + 8, width: CONTENT_WIDTH, height: planHeight })
+  y += 8 + planHeight + 22
+
+  if (!tableFits) {
+    footer(pdf)
+    pdf.addPage()
+    header(pdf, 'Group Job Sheet', group.groupReferenceNumber, group.status)
+    y = 88
+  }
+
+  pdf.text(MARGIN, y, 'FIELDS', { size: 8, bold: true, color: GREY })
+  drawFieldTable(pdf, group, y + 16)
+  footer(pdf)
+
+  return pdf.toBuffer()
+}
@@ -0,0 +1,236 @@
+// Minimal PDF writer for server-rendered documents such as crew job sheets.
+//
+// Supports the standard Helvetica fonts, text, polylines and rectangles on A4
+// pages, which is all a job sheet needs and avoids shipping a PDF library.
+// Positions are in points (1/72 inch) from the top-left corner of the page.
+
+export type Rgb = [number, number, number]
+
+export interface PdfPoint {
+  x: number
+  y: number
+}
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: Rgb
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface StrokeOptions {
+  width?: number
+  color?: Rgb
+  dash?: number[]
+  closed?: boolean
+}
+
+export interface FillOptions {
+  fill?: Rgb
+  stroke?: Rgb
+  width?: number
+}
+
+export const A4 = { width: 595.28, height: 841.89 }
+
+export const BLACK: Rgb = [0, 0, 0]
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+}
+
+// Approximate Helvetica advance widths (per 1pt of font size), good enough for
+// centring and wrapping without embedding the font metrics
+function charWidth(char: string): number {
+  if (' .,:;!|\'ijl'.includes(char)) return 0.26
+  if ('ftrI()[]-/'.includes(char)) return 0.32
+  if ('mwMW@'.includes(char)) return 0.87
+  if (/[A-Z]/.test(char)) return 0.68
+  return 0.556
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+
+export class PdfDocument {
+  private pages: string[][] = []
+  private title: string
+
+  constructor(title: string) {
+    this.title = title
+    this.addPage()
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get content(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+
+  // Flip from top-left page coordinates to PDF's bottom-left origin
+  private y(y: number): number {
+    return A4.height - y
+  }
+
+  textWidth(value: string, size: number, bold = false): number {
+    let width = 0
+    for (const char of value) width += charWidth(char)
+    return width * size * (bold ? 1.05 : 1)
+  }
+
+  // Greedy word wrap to the given width
+  wrapText(value: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = []
+    for (const paragraph of value.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  // Draw text with its baseline at y
+  text(x: number, y: number, value: string, options: TextOptions = {}) {
+    const size = options.size ?? 10
+    const bold = options.bold ?? false
+    const width = this.textWidth(value, size, bold)
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x
+
+    this.content.push(
+      'BT',
+      this.color(options.color ?? BLACK, 'rg'),
+      `/${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+      `${formatNumber(left)} ${formatNumber(this.y(y))} Td`,
+      `(${encodeText(value)}) Tj`,
+      'ET'
+    )
+  }
+
+  polyline(points: PdfPoint[], options: StrokeOptions = {}) {
+    if (points.length < 2) return
+
+    const path = points.map((p, i) => `${formatNumber(p.x)} ${formatNumber(this.y(p.y))} ${i === 0 ? 'm' : 'l'}`)
+    this.content.push(
+      'q',
+      this.color(options.color ?? BLACK, 'RG'),
+      `${formatNumber(options.width ?? 1)} w`,
+      '1 J 1 j',
+      `[${(options.dash ?? []).map(formatNumber).join(' ')}] 0 d`,
+      ...path,
+      options.closed ? 's' : 'S',
+      'Q'
+    )
+  }
+
+  // Closed shape, filled and/or outlined
+  polygon(points: PdfPoint[], options: FillOptions = {}) {
+    if (points.length < 3) return
+
+    const path = points.map((p, i) => `${formatNumber(p.x)} ${formatNumber(this.y(p.y))} ${i === 0 ? 'm' : 'l'}`)
+    this.content.push(
+      'q',
+      ...this.paint(options),
+      ...path,
+      'h',
+      this.paintOperator(options),
+      'Q'
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: FillOptions = {}) {
+    this.content.push(
+      'q',
+      ...this.paint(options),
+      `${formatNumber(x)} ${formatNumber(this.y(y + height))} ${formatNumber(width)} ${formatNumber(height)} re`,
+      this.paintOperator(options),
+      'Q'
+    )
+  }
+
+  private paint(options: FillOptions): string[] {
+    return [
+      ...(options.fill ? [this.color(options.fill, 'rg')] : []),
+      ...(options.stroke ? [this.color(options.stroke, 'RG'), `${formatNumber(options.width ?? 1)} w`] : []),
+    ]
+  }
+
+  private paintOperator(options: FillOptions): string {
+    return options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S'
+  }
+
+  private color([r, g, b]: Rgb, operator: 'rg' | 'RG'): string {
+    return `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} ${operator}`
+  }
+
+  toBuffer(): Buffer {
+    // Every string below holds single-byte characters only, so string offsets
+    // are byte offsets
+    const objects: string[] = []
+    const pageCount = this.pages.length
+    const firstPageObject = 5
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+    objects.push(
+      `<< /Type /Pages /Count ${pageCount} /Kids [${this.pages.map((_, i) => `${firstPageObject + i * 2} 0 R`).join(' ')}] >>`
+    )
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    this.pages.forEach((content, i) => {
+      const stream = content.join('\n')
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + i * 2 + 1} 0 R >>`
+      )
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+    })
+
+    objects.push(`<< /Title (${encodeText(this.title)}) /Producer (XACTLINE) >>`)
+    const infoObject = objects.length
+
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+    objects.forEach((body, i) => {
+      offsets.push(output.length)
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`
+    })
+
+    const xref = output.length
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObject} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+}
+
+// Map text to WinAnsi bytes (held as Latin-1 characters) and escape PDF string delimiters
+function encodeText(value: string): string {
+  let encoded = ''
+  for (const char of value) {
+    const extra = WIN_ANSI_EXTRAS[char]
+    const code = char.charCodeAt(0)
+    const byte = extra !== undefined
+      ? String.fromCharCode(extra)
+      : code < 32 || (code > 126 && code < 160) || code > 255 ? '?' : char
+    encoded += byte === '\\' || byte === '(' || byte === ')' ? `\\${byte}` : byte
+  }
+  return encoded
+}
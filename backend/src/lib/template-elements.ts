@@ -0,0 +1,170 @@
+import { z } from 'zod'
+import { validateFormula } from 'xactline-shared/formula'
+import { elementPaths, MIN_DASH_METRES, TemplateElement } from 'xactline-shared/field-geometry'
+
+// Markings may overhang the field boundary by this much (metres) before the
+// template is rejected, to absorb rounding in the stored formulas.
+const BOUNDS_TOLERANCE = 0.05
+
+// A coordinate is either a number of metres or a formula over field_length/field_width
+const coordinateSchema = z.union([z.number().finite(), z.string().min(1, 'Formula cannot be empty')])
+  .superRefine((value, ctx) => {
+    const error = validateFormula(value)
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid formula: ${error}` })
+    }
+  })
+
+const pointSchema = z.object({
+  x: coordinateSchema,
+  y: coordinateSchema
+})
+
+const dashSchema = z.object({
+  length: z.number().finite().min(MIN_DASH_METRES, `Dashes must be at least ${MIN_DASH_METRES}m long`),
+  gap: z.number().finite().min(MIN_DASH_METRES, `Gaps between dashes must be at least ${MIN_DASH_METRES}m`)
+})
+
+const baseElement = {
+  id: z.string().min(1, 'Element id is required'),
+  description: z.string().optional()
+}
+
+const lineShape = {
+  ...baseElement,
+  start: pointSchema,
+  end: pointSchema
+}
+
+const arcShape = {
+  ...baseElement,
+  center: pointSchema,
+  radius: coordinateSchema,
+  startAngle: z.number().min(-360).max(720).optional(),
+  endAngle: z.number().min(-360).max(720).optional(),
+  quadrant: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).optional()
+}
+
+const circleShape = {
+  ...baseElement,
+  center: pointSchema,
+  radius: coordinateSchema,
+  radius_unit: z.string().optional()
+}
+
+// Element schemas pass unknown keys through so authoring hints such as
+// size_unit survive a round trip.
+export const templateElementSchema = z.discriminatedUnion('type', [
+  z.object({ ...lineShape, type: z.literal('line') }).passthrough(),
+  z.object({ ...lineShape, type: z.literal('dashed_line'), dash: dashSchema.optional() }).passthrough(),
+  z.object({
+    ...baseElement,
+    type: z.literal('rectangle'),
+    position: pointSchema,
+    size: z.object({ width: coordinateSchema, height: coordinateSchema }),
+    size_unit: z.string().optional()
+  }).passthrough(),
+  z.object({ ...arcShape, type: z.literal('arc') }).passthrough(),
+  z.object({ ...arcShape, type: z.literal('dashed_arc'), dash: dashSchema.optional() }).passthrough(),
+  z.object({ ...circleShape, type: z.literal('circle') }).passthrough(),
+  z.object({ ...circleShape, type: z.literal('dashed_circle'), dash: dashSchema.optional() }).passthrough(),
+  z.object({
+    ...baseElement,
+    type: z.literal('point'),
+    position: pointSchema,
+    radius: coordinateSchema.optional()
+  }).passthrough()
+]).superRefine((element, ctx) => {
+  if ((element.type === 'arc' || element.type === 'dashed_arc') && !element.quadrant &&
+      (element.startAngle === undefined || element.endAngle === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Arc requires either a quadrant or both startAngle and endAngle',
+      path: ['startAngle']
+    })
+  }
+})
+
+export const interiorElementsSchema = z.object({
+  elements: z.array(templateElementSchema),
+  fixedElements: z.array(z.string()).optional(),
+  specifications: z.record(z.number()).optional()
+}).passthrough().superRefine((value, ctx) => {
+  const ids = new Set<string>()
+  value.elements.forEach((element, index) => {
+    if (ids.has(element.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate element id "${element.id}"`,
+        path: ['elements', index, 'id']
+      })
+    }
+    ids.add(element.id)
+  })
+
+  value.fixedElements?.forEach((id, index) => {
+    if (!ids.has(id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Fixed element "${id}" does not match any element id`,
+        path: ['fixedElements', index]
+      })
+    }
+  })
+})
+
+export type InteriorElementsInput = z.infer<typeof interiorElementsSchema>
+
+interface TemplateDimensions {
+  minLength: number
+  maxLength: number
+  minWidth: number
+  maxWidth: number
+}
+
+// Check every element stays inside the field at each extreme of the template's
+// size range. Returns zod-style issues with per-element paths.
+export function findElementBoundsIssues(
+  interiorElements: InteriorElementsInput,
+  dimensions: TemplateDimensions
+): z.ZodIssue[] {
+  const issues: z.ZodIssue[] = []
+  const sizes = [
+    { length: dimensions.minLength, width: dimensions.minWidth },
+    { length: dimensions.minLength, width: dimensions.maxWidth },
+    { length: dimensions.maxLength, width: dimensions.minWidth },
+    { length: dimensions.maxLength, width: dimensions.maxWidth }
+  ]
+
+  interiorElements.elements.forEach((element, index) => {
+    for (const { length, width } of sizes) {
+      let paths
+      try {
+        paths = elementPaths(element as TemplateElement, length, width)
+      } catch (error) {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          message: `Cannot evaluate element at ${length}m x ${width}m: ${(error as Error).message}`,
+          path: ['interiorElements', 'elements', index]
+        })
+        return
+      }
+
+      const outside = paths.flat().some((p) =>
+        p.x < -BOUNDS_TOLERANCE || p.x > width + BOUNDS_TOLERANCE ||
+        p.y < -BOUNDS_TOLERANCE || p.y > length + BOUNDS_TOLERANCE
+      )
+
+      if (outside) {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          message: `Element "${element.id}" falls outside the field at ${length}m x ${width}m`,
+          path: ['interiorElements', 'elements', index]
+        })
+        return
+      }
+    }
+  })
+
+  return issues
+}
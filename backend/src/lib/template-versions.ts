@@ -0,0 +1,208 @@
+import { Prisma, FieldTemplate, FieldTemplateVersion } from '@prisma/client'
+import { parseInteriorElements, TemplateElement } from 'xactline-shared/field-geometry'
+
+// Template fields captured in each immutable version. Name, sport, description
+// and isActive are metadata and can change without publishing a new version.
+export const VERSIONED_FIELDS = [
+  'minLength',
+  'maxLength',
+  'minWidth',
+  'maxWidth',
+  'defaultLength',
+  'defaultWidth',
+  'interiorElements'
+] as const
+
+type VersionedField = typeof VERSIONED_FIELDS[number]
+
+export type TemplateSnapshot = Pick<FieldTemplate, VersionedField>
+
+type TemplateChanges = Partial<Record<VersionedField, unknown>>
+
+// JSON.stringify with sorted keys, as Postgres jsonb does not keep key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+function snapshotOf(source: TemplateSnapshot) {
+  return {
+    minLength: source.minLength,
+    maxLength: source.maxLength,
+    minWidth: source.minWidth,
+    maxWidth: source.maxWidth,
+    defaultLength: source.defaultLength,
+    defaultWidth: source.defaultWidth,
+    interiorElements: source.interiorElements as Prisma.InputJsonValue
+  }
+}
+
+// True when applying the changes would alter the template's limits or markings
+export function hasVersionedChanges(template: TemplateSnapshot, changes: TemplateChanges): boolean {
+  return VERSIONED_FIELDS.some((field) =>
+    changes[field] !== undefined && stableStringify(changes[field]) !== stableStringify(template[field])
+  )
+}
+
+// Return the template's current version, creating it from the template row for
+// templates that predate versioning.
+export async function ensureCurrentVersion(
+  client: Prisma.TransactionClient,
+  template: FieldTemplate
+): Promise<FieldTemplateVersion> {
+  return client.fieldTemplateVersion.upsert({
+    where: { templateId_version: { templateId: template.id, version: template.currentVersion } },
+    create: { templateId: template.id, version: template.currentVersion, ...snapshotOf(template) },
+    update: {}
+  })
+}
+
+// Version numbers are read then written, so edits to the same template take
+// turns until their transaction ends
+async function lockVersions(client: Prisma.TransactionClient, templateId: string) {
+  await client.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`template_version:${templateId}`}))`
+}
+
+// Publish a new version when the changes touch the template's limits or
+// markings. Configurations saved before versioning are pinned to the previous
+// version first so their markings don't change underneath them. Returns null
+// when nothing versioned changed. The template is re-read under the lock, so a
+// row loaded before the transaction is fine to pass in.
+export async function publishTemplateVersion(
+  client: Prisma.TransactionClient,
+  { id }: Pick<FieldTemplate, 'id'>,
+  changes: TemplateChanges,
+  createdById?: string
+): Promise<FieldTemplateVersion | null> {
+  await lockVersions(client, id)
+  const template = await client.fieldTemplate.findUniqueOrThrow({ where: { id } })
+
+  if (!hasVersionedChanges(template, changes)) {
+    return null
+  }
+
+  const previous = await ensureCurrentVersion(client, template)
+
+  await client.fieldConfiguration.updateMany({
+    where: { templateId: template.id, templateVersionId: null },
+    data: { templateVersionId: previous.id }
+  })
+
+  const next = { ...snapshotOf(template) }
+  for (const field of VERSIONED_FIELDS) {
+    if (changes[field] !== undefined) {
+      Object.assign(next, { [field]: changes[field] })
+    }
+  }
+
+  return client.fieldTemplateVersion.create({
+    data: {
+      templateId: template.id,
+      version: previous.version + 1,
+      ...next,
+      createdById
+    }
+  })
+}
+
+export interface ElementSummary {
+  id: string
+  type: string
+  description?: string
+}
+
+export interface ValueChange {
+  path: string
+  from: unknown
+  to: unknown
+}
+
+export interface TemplateVersionDiff {
+  from: number
+  to: number
+  dimensions: Array<{ field: string; from: number; to: number }>
+  elements: {
+    added: ElementSummary[]
+    removed: ElementSummary[]
+    changed: Array<ElementSummary & { changes: ValueChange[] }>
+  }
+}
+
+function summarise(element: TemplateElement): ElementSummary {
+  return { id: element.id, type: element.type, description: element.description }
+}
+
+// Flatten an element into dotted paths, e.g. { 'start.x': 0, 'start.y': 'field_length' }
+function flatten(value: unknown, prefix = '', into: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, into)
+    }
+  } else if (prefix) {
+    into[prefix] = value
+  }
+  return into
+}
+
+function fixedIds(interiorElements: unknown): Set<string> {
+  const fixed = (interiorElements as { fixedElements?: unknown } | null)?.fixedElements
+  return new Set(Array.isArray(fixed) ? fixed.filter((id): id is string => typeof id === 'string') : [])
+}
+
+// Compare two versions of a template. Elements are matched by id.
+export function diffTemplateVersions(from: FieldTemplateVersion, to: FieldTemplateVersion): TemplateVersionDiff {
+  const dimensions = VERSIONED_FIELDS
+    .filter((field): field is Exclude<VersionedField, 'interiorElements'> => field !== 'interiorElements')
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }))
+
+  const before = new Map(parseInteriorElements(from.interiorElements).map((e) => [e.id, e]))
+  const after = new Map(parseInteriorElements(to.interiorElements).map((e) => [e.id, e]))
+  const fixedBefore = fixedIds(from.interiorElements)
+  const fixedAfter = fixedIds(to.interiorElements)
+
+  const diff: TemplateVersionDiff = {
+    from: from.version,
+    to: to.version,
+    dimensions,
+    elements: { added: [], removed: [], changed: [] }
+  }
+
+  for (const [id, element] of before) {
+    if (!after.has(id)) diff.elements.removed.push(summarise(element))
+  }
+
+  for (const [id, element] of after) {
+    const previous = before.get(id)
+    if (!previous) {
+      diff.elements.added.push(summarise(element))
+      continue
+    }
+
+    const oldValues = flatten(previous)
+    const newValues = flatten(element)
+    const paths = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)])).sort()
+    const changes: ValueChange[] = paths
+      .filter((path) => stableStringify(oldValues[path]) !== stableStringify(newValues[path]))
+      .map((path) => ({ path, from: oldValues[path] ?? null, to: newValues[path] ?? null }))
+
+    if (fixedBefore.has(id) !== fixedAfter.has(id)) {
+      changes.push({ path: 'fixed', from: fixedBefore.has(id), to: fixedAfter.has(id) })
+    }
+
+    if (changes.length > 0) {
+      diff.elements.changed.push({ ...summarise(element), changes })
+    }
+  }
+
+  return diff
+}
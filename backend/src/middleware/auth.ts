@@ -11,38 +11,100 @@ export interface AuthRequest extends Request {
 interface JWTPayload {
   userId: string
   email: string
+  // Set on stream tokens; login tokens have none
+  purpose?: 'event_stream'
 }
 
-export function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
-  try {
-    const authHeader = req.headers.authorization
+const JWT_SECRET = () => process.env.JWT_SECRET || 'development-secret'
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' })
-    }
+// EventSource can't send headers, so event streams are opened with a token in
+// the URL. That ends up in access logs and browser history, so it is a
+// separate token that only opens streams and expires almost at once.
+const STREAM_TOKEN_TTL_SECONDS = 60
 
-    const token = authHeader.split(' ')[1]
+export function signStreamToken(userId: string, email: string): { token: string; expiresIn: number } {
+  const token = jwt.sign(
+    { userId, email, purpose: 'event_stream' },
+    JWT_SECRET(),
+    { expiresIn: STREAM_TOKEN_TTL_SECONDS }
+  )
+  return { token, expiresIn: STREAM_TOKEN_TTL_SECONDS }
+}
 
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'development-secret'
-    ) as JWTPayload
+// The bearer token from the Authorization header
+export function requestToken(req: Request): string | null {
+  const authHeader = req.headers.authorization
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1]
+  }
+  return null
+}
 
-    req.userId = decoded.userId
-    req.userEmail = decoded.email
+// The stream token an event-stream request carries as ?token=
+function streamToken(req: Request): string | null {
+  if (req.headers.accept === 'text/event-stream' && typeof req.query.token === 'string') {
+    return req.query.token
+  }
+  return null
+}
 
-    next()
-  } catch (error) {
-    if (error instanceof jwt.TokenExpiredError) {
-      return res.status(401).json({ error: 'Token expired' })
-    }
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({ error: 'Invalid token' })
+// Verify a token and check it is the kind the caller expects, so stream
+// tokens can't stand in for logins and logins aren't accepted in URLs
+function verifyToken(token: string, purpose: JWTPayload['purpose']): JWTPayload {
+  const decoded = jwt.verify(token, JWT_SECRET()) as JWTPayload
+  if (decoded.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError('Wrong kind of token')
+  }
+  return decoded
+}
+
+// Who sent the request, if anyone, without rejecting it
+export function identifyRequest(req: Request): JWTPayload | null {
+  try {
+    const login = requestToken(req)
+    if (login) return verifyToken(login, undefined)
+    const stream = streamToken(req)
+    return stream ? verifyToken(stream, 'event_stream') : null
+  } catch {
+    return null
+  }
+}
+
+function authenticateWith(
+  readToken: (req: Request) => string | null,
+  purpose: JWTPayload['purpose']
+) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const token = readToken(req)
+
+      if (!token) {
+        return res.status(401).json({ error: 'No token provided' })
+      }
+
+      const decoded = verifyToken(token, purpose)
+
+      req.userId = decoded.userId
+      req.userEmail = decoded.email
+
+      next()
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return res.status(401).json({ error: 'Token expired' })
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        return res.status(401).json({ error: 'Invalid token' })
+      }
+      return res.status(401).json({ error: 'Authentication failed' })
     }
-    return res.status(401).json({ error: 'Authentication failed' })
   }
 }
 
+export const authenticate = authenticateWith(requestToken, undefined)
+
+// For event streams: accepts only a stream token from signStreamToken
+export const authenticateStream = authenticateWith(streamToken, 'event_stream')
+
 export function optionalAuth(req: AuthRequest, res: Response, next: NextFunction) {
   try {
     const authHeader = req.headers.authorization
@@ -53,10 +115,7 @@ export function optionalAuth(req: AuthRequest, res: Response, next: NextFunction
 
     const token = authHeader.split(' ')[1]
 
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'development-secret'
-    ) as JWTPayload
+    const decoded = verifyToken(token, undefined)
 
     req.userId = decoded.userId
     req.userEmail = decoded.email
@@ -1,9 +1,26 @@
 import { Router, Response } from 'express'
 import { z } from 'zod'
 import { v4 as uuidv4 } from 'uuid'
+import { Prisma } from '@prisma/client'
+import { findSiteIssues, siteLayoutOf } from 'xactline-shared/site-layout'
 import { prisma } from '../lib/prisma.js'
+import { interiorElementsSchema, findElementBoundsIssues } from '../lib/template-elements.js'
+import { ensureCurrentVersion, publishTemplateVersion, diffTemplateVersions } from '../lib/template-versions.js'
+import { EXPORT_FORMATS, exportConfiguration, exportFileName } from '../lib/field-export.js'
+import { renderJobSheet, renderGroupJobSheet } from '../lib/job-sheet.js'
+import { bookedConfiguration, freezeConfiguration, hasChangedSince, lockBookedConfiguration, needsSnapshot, parseSnapshot } from '../lib/configuration-snapshots.js'
+import { findDimensionIssues, limitsFor } from '../lib/configuration-compliance.js'
+import { recordInitialRevision, recordRevision } from '../lib/configuration-revisions.js'
+import { EQUIPMENT_TYPES, loadCrewConflicts } from '../lib/crew-schedule.js'
+import { loadLeadDays, loadWorkingHours } from '../lib/availability.js'
+import { BOOKING_STATUSES, BookingConflictError, BookingTransitionError, allowedTransitions, transitionBooking } from '../lib/booking-status.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
 import { requireAdmin, requireSuperAdmin } from '../middleware/admin.js'
+import { notifyBookingTransition } from '../services/booking-notifications.js'
+import { publishBookingEvent } from '../services/booking-events.js'
+import { RecurringScheduleError, SCHEDULE_STATUSES, endSchedule, generateOccurrences, skipOccurrence } from '../services/recurring-bookings.js'
+import { WeatherRescheduleError, checkWeather, loadFlaggedBookings, rescheduleFlaggedBookings } from '../services/weather-rescheduling.js'
+import { EMAIL_STATUSES, resendEmail } from '../services/email-outbox.js'
 import { sendAdminInvitationEmail, sendUserInvitationEmail, sendVerificationEmail, sendPasswordResetEmail } from '../services/email.js'
 
 const router = Router()
@@ -66,6 +83,17 @@ router.get('/stats', requireAdmin, async (req: AuthRequest, res: Response) => {
   }
 })
 
+// GET /api/admin/badges - Counts shown beside the admin sidebar links
+router.get('/badges', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const pendingBookings = await prisma.booking.count({ where: { status: 'pending' } })
+    res.json({ pendingBookings })
+  } catch (error) {
+    console.error('Get admin badges error:', error)
+    res.status(500).json({ error: 'Failed to get badge counts' })
+  }
+})
+
 // ============ USER MANAGEMENT ============
 
 // GET /api/admin/users - List all users with pagination/filtering
@@ -646,6 +674,7 @@ router.get('/bookings/calendar', requireAdmin, async (req: AuthRequest, res: Res
     const sportsgroundId = req.query.sportsgroundId as string
     const configurationId = req.query.configurationId as string
     const userId = req.query.userId as string
+    const crewId = req.query.crewId as string
 
     if (!startDate || !endDate) {
       return res.status(400).json({ error: 'startDate and endDate are required' })
@@ -682,12 +711,23 @@ router.get('/bookings/calendar', requireAdmin, async (req: AuthRequest, res: Res
       where.userId = userId
     }
 
+    // Crew filter ("unassigned" for bookings without a crew)
+    if (crewId) {
+      where.crewId = crewId === 'unassigned' ? null : crewId
+    }
+
     const bookings = await prisma.booking.findMany({
       where,
       include: {
         user: {
           select: { id: true, fullName: true, email: true }
         },
+        crew: {
+          select: { id: true, name: true, color: true }
+        },
+        recurringSchedule: {
+          select: { id: true, name: true, frequency: true, intervalDays: true, status: true }
+        },
         configuration: {
           include: {
             sportsground: { select: { id: true, name: true } },
@@ -701,7 +741,10 @@ router.get('/bookings/calendar', requireAdmin, async (req: AuthRequest, res: Res
       ]
     })
 
-    res.json({ bookings })
+    // Checked across all bookings in range, not just the filtered ones
+    const crewConflicts = await loadCrewConflicts(prisma, new Date(startDate), new Date(endDate))
+
+    res.json({ bookings, crewConflicts })
   } catch (error) {
     console.error('Get admin calendar bookings error:', error)
     res.status(500).json({ error: 'Failed to get calendar bookings' })
@@ -731,7 +774,16 @@ router.get('/bookings/:id', requireAdmin, async (req: AuthRequest, res: Response
             template: true
           }
         },
-        bookingGroup: true
+        bookingGroup: true,
+        recurringSchedule: {
+          select: { id: true, name: true, frequency: true, intervalDays: true, status: true }
+        },
+        statusHistory: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            actor: { select: { id: true, fullName: true } }
+          }
+        }
       }
     })
 
@@ -739,26 +791,175 @@ router.get('/bookings/:id', requireAdmin, async (req: AuthRequest, res: Response
       return res.status(404).json({ error: 'Booking not found' })
     }
 
-    res.json(booking)
+    const snapshot = parseSnapshot(booking.configurationSnapshot)
+    res.json({
+      ...booking,
+      allowedTransitions: allowedTransitions(booking.status),
+      // The field has been edited since the booking was accepted
+      configurationChanged: snapshot ? hasChangedSince(snapshot, booking.configuration) : false
+    })
   } catch (error) {
     console.error('Get admin booking detail error:', error)
     res.status(500).json({ error: 'Failed to get booking details' })
   }
 })
 
-// PUT /api/admin/bookings/:id/status - Update booking status
-router.put('/bookings/:id/status', requireAdmin, async (req: AuthRequest, res: Response) => {
+// GET /api/admin/bookings/:id/job-sheet.pdf - Printable crew job sheet
+router.get('/bookings/:id/job-sheet.pdf', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            fullName: true,
+            email: true,
+            phone: true,
+            organization: true
+          }
+        },
+        configuration: {
+          include: {
+            sportsground: true,
+            template: true,
+            templateVersion: true
+          }
+        },
+        bookingGroup: true
+      }
+    })
+
+    if (!booking) {
+      return res.status(404).json({ error: 'Booking not found' })
+    }
+
+    // Crews mark the field as it was booked, not as it has since been edited
+    const configuration = bookedConfiguration(booking.configuration, booking.configurationSnapshot)
+    const pdf = renderJobSheet({ ...booking, configuration }, configuration.interiorElements)
+
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="job-sheet-${booking.referenceNumber}.pdf"`)
+    res.send(pdf)
+  } catch (error) {
+    console.error('Generate job sheet error:', error)
+    res.status(500).json({ error: 'Failed to generate job sheet' })
+  }
+})
+
+// GET /api/admin/bookings/:id/export?format=geojson|kml|dxf - Markings as booked, matching the job sheet
+router.get('/bookings/:id/export', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const format = z.enum(EXPORT_FORMATS).safeParse(req.query.format ?? 'geojson')
+    if (!format.success) {
+      return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` })
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        configuration: { include: { template: true, templateVersion: true } }
+      }
+    })
+
+    if (!booking) {
+      return res.status(404).json({ error: 'Booking not found' })
+    }
+
+    const configuration = bookedConfiguration(booking.configuration, booking.configurationSnapshot)
+    const file = exportConfiguration(configuration, configuration.interiorElements, format.data)
+
+    res.setHeader('Content-Type', file.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(configuration, file)}"`)
+    res.send(file.body)
+  } catch (error) {
+    console.error('Export booking markings error:', error)
+    res.status(500).json({ error: 'Failed to export booking markings' })
+  }
+})
+
+// GET /api/admin/bookings/groups/:id/job-sheet.pdf - Site plan and field table for a booking group
+router.get('/bookings/groups/:id/job-sheet.pdf', requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params
-    const { status } = req.body
 
-    if (!['pending', 'confirmed', 'completed', 'cancelled'].includes(status)) {
+    const bookingGroup = await prisma.bookingGroup.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            fullName: true,
+            email: true,
+            phone: true,
+            organization: true
+          }
+        },
+        sportsground: true,
+        bookings: {
+          orderBy: { referenceNumber: 'asc' },
+          include: {
+            configuration: {
+              include: {
+                template: true,
+                templateVersion: true
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!bookingGroup) {
+      return res.status(404).json({ error: 'Booking group not found' })
+    }
+
+    const pdf = renderGroupJobSheet({
+      ...bookingGroup,
+      bookings: bookingGroup.bookings.map((booking) => ({
+        ...booking,
+        configuration: bookedConfiguration(booking.configuration, booking.configurationSnapshot)
+      }))
+    })
+
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="job-sheet-${bookingGroup.groupReferenceNumber}.pdf"`)
+    res.send(pdf)
+  } catch (error) {
+    console.error('Generate group job sheet error:', error)
+    res.status(500).json({ error: 'Failed to generate group job sheet' })
+  }
+})
+
+const bookingStatusSchema = z.object({
+  status: z.enum(BOOKING_STATUSES),
+  reason: z.string().max(500).optional()
+})
+
+// PUT /api/admin/bookings/:id/status - Move a booking through its lifecycle
+router.put('/bookings/:id/status', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const validation = bookingStatusSchema.safeParse(req.body)
+    if (!validation.success) {
       return res.status(400).json({ error: 'Invalid status' })
     }
 
-    const booking = await prisma.booking.update({
+    const existing = await prisma.booking.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Booking not found' })
+    }
+
+    const transition = await prisma.$transaction((tx) =>
+      transitionBooking(tx, existing, validation.data.status, {
+        actorId: req.userId,
+        reason: validation.data.reason
+      })
+    )
+
+    const booking = await prisma.booking.findUnique({
       where: { id },
-      data: { status },
       include: {
         user: { select: { fullName: true, email: true } },
         configuration: {
@@ -769,15 +970,34 @@ router.put('/bookings/:id/status', requireAdmin, async (req: AuthRequest, res: R
       }
     })
 
-    // TODO: Send status update email to user
+    if (booking) {
+      publishBookingEvent('booking.status', booking, req.userId)
+    }
+    await notifyBookingTransition(transition)
 
-    res.json(booking)
+    res.json({ ...booking, allowedTransitions: allowedTransitions(validation.data.status) })
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('Update booking status error:', error)
     res.status(500).json({ error: 'Failed to update booking status' })
   }
 })
 
+// Booking shape returned by the create and update routes below
+const adminBookingInclude = {
+  user: { select: { id: true, fullName: true, email: true } },
+  crew: { select: { id: true, name: true, color: true } },
+  recurringSchedule: { select: { id: true, name: true, frequency: true, intervalDays: true } },
+  configuration: {
+    include: {
+      sportsground: { select: { id: true, name: true } },
+      template: { select: { id: true, name: true, sport: true } }
+    }
+  }
+} satisfies Prisma.BookingInclude
+
 // POST /api/admin/bookings - Create booking on behalf of a user
 const adminCreateBookingSchema = z.object({
   userId: z.string().uuid(),
@@ -786,7 +1006,7 @@ const adminCreateBookingSchema = z.object({
   preferredTime: z.string(),
   alternativeDate: z.string().optional(),
   notes: z.string().max(500).optional(),
-  contactPreference: z.enum(['phone', 'email'])
+  contactPreference: z.enum(['phone', 'email', 'both'])
 })
 
 router.post('/bookings', requireAdmin, async (req: AuthRequest, res: Response) => {
@@ -839,19 +1059,16 @@ router.post('/bookings', requireAdmin, async (req: AuthRequest, res: Response) =
         alternativeDate: data.alternativeDate ? new Date(data.alternativeDate) : null,
         notes: data.notes,
         contactPreference: data.contactPreference,
-        status: 'pending'
-      },
-      include: {
-        user: { select: { id: true, fullName: true, email: true } },
-        configuration: {
-          include: {
-            sportsground: { select: { id: true, name: true } },
-            template: { select: { id: true, name: true, sport: true } }
-          }
+        status: 'pending',
+        statusHistory: {
+          create: { toStatus: 'pending', actorId: req.userId, reason: 'Created by admin' }
         }
-      }
+      },
+      include: adminBookingInclude
     })
 
+    publishBookingEvent('booking.created', booking, req.userId)
+
     res.status(201).json(booking)
   } catch (error) {
     console.error('Admin create booking error:', error)
@@ -864,9 +1081,16 @@ const adminUpdateBookingSchema = z.object({
   preferredDate: z.string().optional(),
   preferredTime: z.string().optional(),
   alternativeDate: z.string().nullable().optional(),
-  status: z.enum(['pending', 'confirmed', 'completed', 'cancelled']).optional(),
+  status: z.enum(BOOKING_STATUSES).optional(),
+  statusReason: z.string().max(500).optional(),
   notes: z.string().max(500).optional(),
-  configurationId: z.string().uuid().optional()
+  configurationId: z.string().uuid().optional(),
+  crewId: z.string().uuid().nullable().optional(),
+  // The booking's updatedAt when the client loaded it. When given, the update
+  // is refused with 409 if the booking has changed since.
+  expectedUpdatedAt: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: 'Invalid expectedUpdatedAt'
+  }).optional()
 })
 
 router.put('/bookings/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
@@ -895,125 +1119,604 @@ router.put('/bookings/:id', requireAdmin, async (req: AuthRequest, res: Response
       }
     }
 
+    if (data.crewId) {
+      const crew = await prisma.crew.findUnique({ where: { id: data.crewId } })
+      if (!crew) {
+        return res.status(404).json({ error: 'Crew not found' })
+      }
+      if (!crew.active && data.crewId !== existing.crewId) {
+        return res.status(400).json({ error: 'Cannot assign bookings to an inactive crew' })
+      }
+    }
+
     const updateData: Record<string, unknown> = {}
     if (data.preferredDate) updateData.preferredDate = new Date(data.preferredDate)
     if (data.preferredTime) updateData.preferredTime = data.preferredTime
+
+    // A moved booking is due a fresh day-before reminder. The scheduler sends
+    // the date and time with every save, so only an actual change counts.
+    const dateChanged = !!data.preferredDate &&
+      new Date(data.preferredDate).getTime() !== existing.preferredDate.getTime()
+    const timeChanged = !!data.preferredTime && data.preferredTime !== existing.preferredTime
+    if (dateChanged || timeChanged) updateData.reminderSentAt = null
     if (data.alternativeDate !== undefined) {
       updateData.alternativeDate = data.alternativeDate ? new Date(data.alternativeDate) : null
     }
-    if (data.status) updateData.status = data.status
     if (data.notes !== undefined) updateData.notes = data.notes
     if (data.configurationId) updateData.configurationId = data.configurationId
-
-    const booking = await prisma.booking.update({
-      where: { id },
-      data: updateData,
-      include: {
-        user: { select: { id: true, fullName: true, email: true } },
-        configuration: {
-          include: {
-            sportsground: { select: { id: true, name: true } },
-            template: { select: { id: true, name: true, sport: true } }
-          }
+    if (data.crewId !== undefined) updateData.crewId = data.crewId
+
+    const { booking, transition } = await prisma.$transaction(async (tx) => {
+      // Claim the row only if it is unchanged. The update locks it, so a
+      // concurrent edit waits for this transaction and then fails the check.
+      if (data.expectedUpdatedAt) {
+        const claimed = await tx.booking.updateMany({
+          where: { id, updatedAt: new Date(data.expectedUpdatedAt) },
+          data: { updatedAt: new Date() }
+        })
+        if (claimed.count === 0) {
+          throw new BookingConflictError()
         }
       }
+
+      // Status changes go through the lifecycle so they are validated and recorded
+      const transition = data.status && data.status !== existing.status
+        ? await transitionBooking(tx, existing, data.status, { actorId: req.userId, reason: data.statusReason })
+        : null
+
+      let booking = await tx.booking.update({
+        where: { id },
+        data: updateData,
+        include: adminBookingInclude
+      })
+
+      // An accepted booking moved to another field is held to that field as it is now
+      if (data.configurationId && data.configurationId !== existing.configurationId && needsSnapshot(booking.status)) {
+        await freezeConfiguration(tx, id, { force: true })
+        booking = await tx.booking.findUniqueOrThrow({ where: { id }, include: adminBookingInclude })
+      }
+
+      return { booking, transition }
     })
 
-    res.json(booking)
+    publishBookingEvent(transition ? 'booking.status' : 'booking.updated', booking, req.userId)
+    if (transition) {
+      await notifyBookingTransition(transition)
+    }
+
+    // Warn (but don't refuse) when the assignment double-books the crew or
+    // takes it over its daily capacity
+    const crewConflicts = booking.crewId
+      ? (await loadCrewConflicts(prisma, booking.preferredDate, booking.preferredDate, booking.crewId))
+        .filter((c) => c.bookingIds.includes(booking.id))
+      : []
+
+    res.json({ ...booking, crewConflicts })
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return res.status(400).json({ error: error.message })
+    }
+    if (error instanceof BookingConflictError) {
+      // Send the current version so the client can show what changed
+      const current = await prisma.booking.findUnique({
+        where: { id: req.params.id },
+        include: adminBookingInclude
+      })
+      return res.status(409).json({ error: error.message, booking: current })
+    }
     console.error('Admin update booking error:', error)
     res.status(500).json({ error: 'Failed to update booking' })
   }
 })
 
-// ============ SPORTSGROUND MANAGEMENT ============
+// ============ CREW & EQUIPMENT MANAGEMENT ============
 
-// GET /api/admin/sportsgrounds - List all sportsgrounds
-router.get('/sportsgrounds', requireAdmin, async (req: AuthRequest, res: Response) => {
+const crewSchema = z.object({
+  name: z.string().min(1).max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value like #F97316').optional(),
+  dailyCapacity: z.number().int().min(1).max(50),
+  active: z.boolean().optional(),
+  notes: z.string().max(500).nullable().optional()
+})
+
+const equipmentSchema = z.object({
+  name: z.string().min(1).max(100),
+  type: z.enum(EQUIPMENT_TYPES),
+  crewId: z.string().uuid().nullable().optional(),
+  quantity: z.number().min(0).nullable().optional(),
+  unit: z.string().max(20).nullable().optional(),
+  active: z.boolean().optional(),
+  notes: z.string().max(500).nullable().optional()
+})
+
+// GET /api/admin/crews - List crews with their equipment
+router.get('/crews', requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1
-    const limit = parseInt(req.query.limit as string) || 20
-    const search = req.query.search as string
+    const crews = await prisma.crew.findMany({
+      where: req.query.active === 'true' ? { active: true } : undefined,
+      orderBy: { name: 'asc' },
+      include: {
+        equipment: { orderBy: { name: 'asc' } },
+        _count: { select: { bookings: true } }
+      }
+    })
 
-    const where: Record<string, unknown> = {}
+    res.json(crews)
+  } catch (error) {
+    console.error('Get crews error:', error)
+    res.status(500).json({ error: 'Failed to get crews' })
+  }
+})
 
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { address: { contains: search, mode: 'insensitive' } },
-        { user: { fullName: { contains: search, mode: 'insensitive' } } }
-      ]
+// POST /api/admin/crews - Create crew
+router.post('/crews', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const data = crewSchema.parse(req.body)
+
+    if (await prisma.crew.findUnique({ where: { name: data.name } })) {
+      return res.status(409).json({ error: 'A crew with this name already exists' })
     }
 
-    const [sportsgrounds, total] = await Promise.all([
-      prisma.sportsground.findMany({
-        where,
-        include: {
-          user: { select: { id: true, fullName: true, email: true, organization: true } },
-          _count: { select: { configurations: true } }
-        },
-        orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * limit,
-        take: limit
-      }),
-      prisma.sportsground.count({ where })
-    ])
+    const crew = await prisma.crew.create({ data })
+    res.status(201).json(crew)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Create crew error:', error)
+    res.status(500).json({ error: 'Failed to create crew' })
+  }
+})
 
-    res.json({
-      sportsgrounds,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
-    })
+// PUT /api/admin/crews/:id - Update crew
+router.put('/crews/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const data = crewSchema.partial().parse(req.body)
+
+    const existing = await prisma.crew.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Crew not found' })
+    }
+
+    if (data.name && data.name !== existing.name && await prisma.crew.findUnique({ where: { name: data.name } })) {
+      return res.status(409).json({ error: 'A crew with this name already exists' })
+    }
+
+    const crew = await prisma.crew.update({ where: { id }, data })
+    res.json(crew)
   } catch (error) {
-    console.error('Get admin sportsgrounds error:', error)
-    res.status(500).json({ error: 'Failed to get sportsgrounds' })
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Update crew error:', error)
+    res.status(500).json({ error: 'Failed to update crew' })
   }
 })
 
-// GET /api/admin/sportsgrounds/:id - Get single sportsground with details
-router.get('/sportsgrounds/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+// DELETE /api/admin/crews/:id - Delete a crew that has never been assigned work
+router.delete('/crews/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params
 
-    const sportsground = await prisma.sportsground.findUnique({
+    const existing = await prisma.crew.findUnique({
       where: { id },
-      include: {
-        user: { select: { id: true, fullName: true, email: true } },
-        configurations: {
-          include: {
-            template: { select: { id: true, name: true, sport: true } }
-          }
-        }
-      }
+      include: { _count: { select: { bookings: true } } }
     })
+    if (!existing) {
+      return res.status(404).json({ error: 'Crew not found' })
+    }
 
-    if (!sportsground) {
-      return res.status(404).json({ error: 'Sportsground not found' })
+    // Keep the record of who marked past jobs
+    if (existing._count.bookings > 0) {
+      return res.status(400).json({ error: 'This crew has bookings. Deactivate it instead of deleting it.' })
     }
 
-    res.json(sportsground)
+    await prisma.crew.delete({ where: { id } })
+    res.json({ message: 'Crew deleted successfully' })
   } catch (error) {
-    console.error('Get admin sportsground error:', error)
-    res.status(500).json({ error: 'Failed to get sportsground' })
+    console.error('Delete crew error:', error)
+    res.status(500).json({ error: 'Failed to delete crew' })
   }
 })
 
-const adminSportsgroundSchema = z.object({
-  userId: z.string().uuid(),
-  name: z.string().min(1, 'Name is required'),
-  address: z.string().min(1, 'Address is required'),
-  latitude: z.number().min(-90).max(90),
-  longitude: z.number().min(-180).max(180),
-  defaultZoom: z.number().min(1).max(22).optional(),
-  notes: z.string().optional()
+// GET /api/admin/equipment - List equipment
+router.get('/equipment', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const equipment = await prisma.equipment.findMany({
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+      include: { crew: { select: { id: true, name: true } } }
+    })
+
+    res.json(equipment)
+  } catch (error) {
+    console.error('Get equipment error:', error)
+    res.status(500).json({ error: 'Failed to get equipment' })
+  }
 })
 
-// POST /api/admin/sportsgrounds - Create sportsground for a user
-router.post('/sportsgrounds', requireAdmin, async (req: AuthRequest, res: Response) => {
+// POST /api/admin/equipment - Add equipment
+router.post('/equipment', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const data = equipmentSchema.parse(req.body)
+
+    if (data.crewId && !(await prisma.crew.findUnique({ where: { id: data.crewId } }))) {
+      return res.status(404).json({ error: 'Crew not found' })
+    }
+
+    const equipment = await prisma.equipment.create({
+      data,
+      include: { crew: { select: { id: true, name: true } } }
+    })
+    res.status(201).json(equipment)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Create equipment error:', error)
+    res.status(500).json({ error: 'Failed to create equipment' })
+  }
+})
+
+// PUT /api/admin/equipment/:id - Update equipment, including moving it between crews
+router.put('/equipment/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const data = equipmentSchema.partial().parse(req.body)
+
+    if (!(await prisma.equipment.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Equipment not found' })
+    }
+    if (data.crewId && !(await prisma.crew.findUnique({ where: { id: data.crewId } }))) {
+      return res.status(404).json({ error: 'Crew not found' })
+    }
+
+    const equipment = await prisma.equipment.update({
+      where: { id },
+      data,
+      include: { crew: { select: { id: true, name: true } } }
+    })
+    res.json(equipment)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Update equipment error:', error)
+    res.status(500).json({ error: 'Failed to update equipment' })
+  }
+})
+
+// DELETE /api/admin/equipment/:id - Remove equipment
+router.delete('/equipment/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    if (!(await prisma.equipment.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Equipment not found' })
+    }
+
+    await prisma.equipment.delete({ where: { id } })
+    res.json({ message: 'Equipment deleted successfully' })
+  } catch (error) {
+    console.error('Delete equipment error:', error)
+    res.status(500).json({ error: 'Failed to delete equipment' })
+  }
+})
+
+// ============ BOOKING AVAILABILITY ============
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be HH:MM')
+
+const workingHoursSchema = z.object({
+  days: z.array(z.object({
+    weekday: z.number().int().min(0).max(6),
+    isOpen: z.boolean(),
+    openTime: timeOfDay,
+    closeTime: timeOfDay,
+    dailyCapacity: z.number().int().min(1).nullable()
+  }).refine((day) => day.openTime < day.closeTime, {
+    message: 'Closing time must be after opening time'
+  })).max(7)
+})
+
+const blackoutDateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  reason: z.string().min(1).max(200)
+})
+
+// GET /api/admin/availability - Working hours, upcoming blackout dates and notice period
+router.get('/availability', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const today = new Date(new Date().toISOString().split('T')[0])
+    const [workingHours, blackoutDates, leadDays] = await Promise.all([
+      loadWorkingHours(prisma),
+      prisma.blackoutDate.findMany({
+        where: { date: { gte: today } },
+        orderBy: { date: 'asc' }
+      }),
+      loadLeadDays(prisma)
+    ])
+
+    res.json({ workingHours, blackoutDates, leadDays })
+  } catch (error) {
+    console.error('Get availability error:', error)
+    res.status(500).json({ error: 'Failed to get availability rules' })
+  }
+})
+
+// PUT /api/admin/availability/hours - Replace working hours for the given weekdays
+router.put('/availability/hours', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { days } = workingHoursSchema.parse(req.body)
+
+    await prisma.$transaction(days.map(({ weekday, ...day }) =>
+      prisma.workingHours.upsert({
+        where: { weekday },
+        update: day,
+        create: { weekday, ...day }
+      })
+    ))
+
+    res.json({ workingHours: await loadWorkingHours(prisma) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Update working hours error:', error)
+    res.status(500).json({ error: 'Failed to update working hours' })
+  }
+})
+
+// POST /api/admin/availability/blackouts - Block a date for customer bookings
+router.post('/availability/blackouts', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const data = blackoutDateSchema.parse(req.body)
+    const date = new Date(data.date)
+
+    if (await prisma.blackoutDate.findUnique({ where: { date } })) {
+      return res.status(409).json({ error: 'This date is already blocked' })
+    }
+
+    const blackoutDate = await prisma.blackoutDate.create({
+      data: { date, reason: data.reason, createdBy: req.userId }
+    })
+
+    // Existing bookings are left for an admin to reschedule
+    const affectedBookings = await prisma.booking.count({
+      where: { preferredDate: date, status: { notIn: ['cancelled', 'declined', 'completed'] } }
+    })
+
+    res.status(201).json({ ...blackoutDate, affectedBookings })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Create blackout date error:', error)
+    res.status(500).json({ error: 'Failed to block date' })
+  }
+})
+
+// DELETE /api/admin/availability/blackouts/:id - Reopen a blocked date
+router.delete('/availability/blackouts/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    if (!(await prisma.blackoutDate.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Blackout date not found' })
+    }
+
+    await prisma.blackoutDate.delete({ where: { id } })
+    res.json({ message: 'Blackout date removed' })
+  } catch (error) {
+    console.error('Delete blackout date error:', error)
+    res.status(500).json({ error: 'Failed to remove blackout date' })
+  }
+})
+
+// ============ RECURRING SCHEDULES ============
+
+const scheduleStatusSchema = z.object({
+  status: z.enum(SCHEDULE_STATUSES)
+})
+
+// PATCH /api/admin/recurring-schedules/:id/status - Pause, resume or end a schedule
+router.patch('/recurring-schedules/:id/status', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const { status } = scheduleStatusSchema.parse(req.body)
+
+    const existing = await prisma.recurringBookingSchedule.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring schedule not found' })
+    }
+    if (existing.status === 'ended') {
+      return res.status(400).json({ error: 'This schedule has ended' })
+    }
+
+    let cancelled = 0
+    if (status === 'ended') {
+      cancelled = await endSchedule(id, req.userId)
+    } else {
+      await prisma.recurringBookingSchedule.update({ where: { id }, data: { status } })
+      if (status === 'active') {
+        await generateOccurrences(id)
+      }
+    }
+
+    const schedule = await prisma.recurringBookingSchedule.findUniqueOrThrow({ where: { id } })
+    res.json({ ...schedule, cancelled })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    console.error('Update recurring schedule status error:', error)
+    res.status(500).json({ error: 'Failed to update recurring schedule' })
+  }
+})
+
+const skipOccurrenceSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+})
+
+// POST /api/admin/recurring-schedules/:id/skip - Skip one occurrence of a schedule
+router.post('/recurring-schedules/:id/skip', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const { date } = skipOccurrenceSchema.parse(req.body)
+
+    if (!(await prisma.recurringBookingSchedule.findUnique({ where: { id } }))) {
+      return res.status(404).json({ error: 'Recurring schedule not found' })
+    }
+
+    const cancelled = await skipOccurrence(id, new Date(date), req.userId)
+    res.json({ message: 'Occurrence skipped', cancelled })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    if (error instanceof RecurringScheduleError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Skip recurring occurrence error:', error)
+    res.status(500).json({ error: 'Failed to skip occurrence' })
+  }
+})
+
+// ============ WEATHER ============
+
+// GET /api/admin/weather/flagged - Upcoming bookings with rain forecast, and where each would move
+router.get('/weather/flagged', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const bookings = await loadFlaggedBookings()
+    res.json({ bookings })
+  } catch (error) {
+    console.error('Get weather flagged bookings error:', error)
+    res.status(500).json({ error: 'Failed to get weather flagged bookings' })
+  }
+})
+
+// POST /api/admin/weather/check - Refresh rain flags from the latest forecast now
+router.post('/weather/check', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await checkWeather()
+    res.json(result)
+  } catch (error) {
+    console.error('Weather check error:', error)
+    res.status(500).json({ error: 'Failed to check the weather forecast' })
+  }
+})
+
+const weatherRescheduleSchema = z.object({
+  // Omit to move every flagged booking
+  bookingIds: z.array(z.string().uuid()).min(1).max(200).optional()
+})
+
+// POST /api/admin/weather/reschedule - Move flagged bookings to their proposed slots
+router.post('/weather/reschedule', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { bookingIds } = weatherRescheduleSchema.parse(req.body)
+    const result = await rescheduleFlaggedBookings(bookingIds, req.userId)
+    res.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors })
+    }
+    if (error instanceof WeatherRescheduleError || error instanceof BookingTransitionError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Weather reschedule error:', error)
+    res.status(500).json({ error: 'Failed to reschedule bookings' })
+  }
+})
+
+// ============ SPORTSGROUND MANAGEMENT ============
+
+// GET /api/admin/sportsgrounds - List all sportsgrounds
+router.get('/sportsgrounds', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = parseInt(req.query.limit as string) || 20
+    const search = req.query.search as string
+
+    const where: Record<string, unknown> = {}
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { address: { contains: search, mode: 'insensitive' } },
+        { user: { fullName: { contains: search, mode: 'insensitive' } } }
+      ]
+    }
+
+    const [sportsgrounds, total] = await Promise.all([
+      prisma.sportsground.findMany({
+        where,
+        include: {
+          user: { select: { id: true, fullName: true, email: true, organization: true } },
+          _count: { select: { configurations: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.sportsground.count({ where })
+    ])
+
+    res.json({
+      sportsgrounds,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Get admin sportsgrounds error:', error)
+    res.status(500).json({ error: 'Failed to get sportsgrounds' })
+  }
+})
+
+// GET /api/admin/sportsgrounds/:id - Get single sportsground with details
+router.get('/sportsgrounds/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const sportsground = await prisma.sportsground.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, fullName: true, email: true } },
+        configurations: {
+          include: {
+            template: { select: { id: true, name: true, sport: true } }
+          }
+        }
+      }
+    })
+
+    if (!sportsground) {
+      return res.status(404).json({ error: 'Sportsground not found' })
+    }
+
+    res.json(sportsground)
+  } catch (error) {
+    console.error('Get admin sportsground error:', error)
+    res.status(500).json({ error: 'Failed to get sportsground' })
+  }
+})
+
+const adminSportsgroundSchema = z.object({
+  userId: z.string().uuid(),
+  name: z.string().min(1, 'Name is required'),
+  address: z.string().min(1, 'Address is required'),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  defaultZoom: z.number().min(1).max(22).optional(),
+  notes: z.string().optional()
+})
+
+// POST /api/admin/sportsgrounds - Create sportsground for a user
+router.post('/sportsgrounds', requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
     const data = adminSportsgroundSchema.parse(req.body)
 
@@ -1203,6 +1906,7 @@ router.get('/configurations/:id', requireAdmin, async (req: AuthRequest, res: Re
         user: { select: { id: true, fullName: true, email: true } },
         sportsground: { select: { id: true, name: true, address: true, userId: true } },
         template: true,
+        templateVersion: true,
         _count: { select: { bookings: true } }
       }
     })
@@ -1218,6 +1922,36 @@ router.get('/configurations/:id', requireAdmin, async (req: AuthRequest, res: Re
   }
 })
 
+// GET /api/admin/configurations/:id/export?format=geojson|kml|dxf - Download markings as geodata
+router.get('/configurations/:id/export', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const format = z.enum(EXPORT_FORMATS).safeParse(req.query.format ?? 'geojson')
+    if (!format.success) {
+      return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` })
+    }
+
+    const configuration = await prisma.fieldConfiguration.findUnique({
+      where: { id },
+      include: { template: true, templateVersion: true }
+    })
+
+    if (!configuration) {
+      return res.status(404).json({ error: 'Configuration not found' })
+    }
+
+    const interiorElements = configuration.templateVersion?.interiorElements ?? configuration.template.interiorElements
+    const file = exportConfiguration(configuration, interiorElements, format.data)
+
+    res.setHeader('Content-Type', file.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(configuration, file)}"`)
+    res.send(file.body)
+  } catch (error) {
+    console.error('Export admin configuration error:', error)
+    res.status(500).json({ error: 'Failed to export configuration' })
+  }
+})
+
 const adminConfigurationSchema = z.object({
   userId: z.string().uuid(),
   sportsgroundId: z.string().uuid(),
@@ -1257,16 +1991,16 @@ router.post('/configurations', requireAdmin, async (req: AuthRequest, res: Respo
       return res.status(400).json({ error: 'Template is not active' })
     }
 
-    // Validate dimensions against template constraints
-    if (data.lengthMeters < template.minLength || data.lengthMeters > template.maxLength) {
-      return res.status(400).json({
-        error: `Length must be between ${template.minLength}m and ${template.maxLength}m`
-      })
-    }
-    if (data.widthMeters < template.minWidth || data.widthMeters > template.maxWidth) {
-      return res.status(400).json({
-        error: `Width must be between ${template.minWidth}m and ${template.maxWidth}m`
-      })
+    const templateVersion = await ensureCurrentVersion(prisma, template)
+
+    // Validate dimensions against the markings being pinned, and placement
+    // against the ground's boundary and no-mark zones
+    const issues = [
+      ...findDimensionIssues(templateVersion, data),
+      ...findSiteIssues(siteLayoutOf(sportsground), data)
+    ]
+    if (issues.length > 0) {
+      return res.status(400).json({ error: issues.join('. ') })
     }
 
     const configuration = await prisma.fieldConfiguration.create({
@@ -1274,6 +2008,7 @@ router.post('/configurations', requireAdmin, async (req: AuthRequest, res: Respo
         userId: data.userId,
         sportsgroundId: data.sportsgroundId,
         templateId: data.templateId,
+        templateVersionId: templateVersion.id,
         name: data.name,
         latitude: data.latitude,
         longitude: data.longitude,
@@ -1290,6 +2025,8 @@ router.post('/configurations', requireAdmin, async (req: AuthRequest, res: Respo
       }
     })
 
+    await prisma.$transaction((tx) => recordRevision(tx, configuration, req.userId))
+
     res.status(201).json(configuration)
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1322,7 +2059,7 @@ router.put('/configurations/:id', requireAdmin, async (req: AuthRequest, res: Re
     // Verify configuration exists
     const existing = await prisma.fieldConfiguration.findUnique({
       where: { id },
-      include: { template: true, user: { select: { id: true } } }
+      include: { template: true, templateVersion: true, user: { select: { id: true } } }
     })
     if (!existing) {
       return res.status(404).json({ error: 'Configuration not found' })
@@ -1356,8 +2093,9 @@ router.put('/configurations/:id', requireAdmin, async (req: AuthRequest, res: Re
       }
     }
 
-    // If changing template, verify it exists and is active
-    let template = existing.template
+    // If changing template, verify it exists and is active, and pin its current version
+    let limits = limitsFor(existing)
+    let templateVersionId: string | undefined
     if (data.templateId && data.templateId !== existing.templateId) {
       const newTemplate = await prisma.fieldTemplate.findUnique({ where: { id: data.templateId } })
       if (!newTemplate) {
@@ -1366,48 +2104,61 @@ router.put('/configurations/:id', requireAdmin, async (req: AuthRequest, res: Re
       if (!newTemplate.isActive) {
         return res.status(400).json({ error: 'Template is not active' })
       }
-      template = newTemplate
-    }
-
-    // Validate dimensions if provided
-    if (data.lengthMeters !== undefined) {
-      if (data.lengthMeters < template.minLength || data.lengthMeters > template.maxLength) {
-        return res.status(400).json({
-          error: `Length must be between ${template.minLength}m and ${template.maxLength}m`
-        })
-      }
-    }
-    if (data.widthMeters !== undefined) {
-      if (data.widthMeters < template.minWidth || data.widthMeters > template.maxWidth) {
-        return res.status(400).json({
-          error: `Width must be between ${template.minWidth}m and ${template.maxWidth}m`
-        })
-      }
-    }
+      const templateVersion = await ensureCurrentVersion(prisma, newTemplate)
+      limits = templateVersion
+      templateVersionId = templateVersion.id
+    }
+
+    // Validate the resulting dimensions against the pinned markings, and the
+    // resulting placement against the ground's boundary and no-mark zones
+    const footprint = {
+      latitude: data.latitude ?? existing.latitude,
+      longitude: data.longitude ?? existing.longitude,
+      rotationDegrees: data.rotationDegrees ?? existing.rotationDegrees,
+      lengthMeters: data.lengthMeters ?? existing.lengthMeters,
+      widthMeters: data.widthMeters ?? existing.widthMeters
+    }
+    const ground = await prisma.sportsground.findUnique({ where: { id: data.sportsgroundId ?? existing.sportsgroundId } })
+    const issues = [
+      ...findDimensionIssues(limits, footprint),
+      ...(ground ? findSiteIssues(siteLayoutOf(ground), footprint) : [])
+    ]
+    if (issues.length > 0) {
+      return res.status(400).json({ error: issues.join('. ') })
+    }
+
+    const { configuration, lockedBookings } = await prisma.$transaction(async (tx) => {
+      // Accepted bookings keep the field as it was before this edit
+      await recordInitialRevision(tx, existing)
+      const lockedBookings = await lockBookedConfiguration(tx, id)
+      const configuration = await tx.fieldConfiguration.update({
+        where: { id },
+        data: {
+          userId: data.userId,
+          sportsgroundId: data.sportsgroundId,
+          templateId: data.templateId,
+          templateVersionId,
+          name: data.name,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          rotationDegrees: data.rotationDegrees,
+          lengthMeters: data.lengthMeters,
+          widthMeters: data.widthMeters,
+          lineColor: data.lineColor
+        },
+        include: {
+          user: { select: { id: true, fullName: true, email: true } },
+          sportsground: { select: { id: true, name: true, address: true } },
+          template: { select: { id: true, name: true, sport: true } },
+          _count: { select: { bookings: true } }
+        }
+      })
+      await recordRevision(tx, configuration, req.userId)
 
-    const configuration = await prisma.fieldConfiguration.update({
-      where: { id },
-      data: {
-        userId: data.userId,
-        sportsgroundId: data.sportsgroundId,
-        templateId: data.templateId,
-        name: data.name,
-        latitude: data.latitude,
-        longitude: data.longitude,
-        rotationDegrees: data.rotationDegrees,
-        lengthMeters: data.lengthMeters,
-        widthMeters: data.widthMeters,
-        lineColor: data.lineColor
-      },
-      include: {
-        user: { select: { id: true, fullName: true, email: true } },
-        sportsground: { select: { id: true, name: true, address: true } },
-        template: { select: { id: true, name: true, sport: true } },
-        _count: { select: { bookings: true } }
-      }
+      return { configuration, lockedBookings }
     })
 
-    res.json(configuration)
+    res.json({ ...configuration, lockedBookings })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message })
@@ -1453,7 +2204,7 @@ const templateSchema = z.object({
   maxWidth: z.number().positive(),
   defaultLength: z.number().positive(),
   defaultWidth: z.number().positive(),
-  interiorElements: z.any(),
+  interiorElements: interiorElementsSchema,
   isActive: z.boolean().optional()
 })
 
@@ -1479,6 +2230,12 @@ router.post('/templates', requireAdmin, async (req: AuthRequest, res: Response)
   try {
     const data = templateSchema.parse(req.body)
 
+    // Reject markings that leave the field at either end of the size range
+    const boundsIssues = findElementBoundsIssues(data.interiorElements, data)
+    if (boundsIssues.length > 0) {
+      return res.status(400).json({ error: 'Validation error', details: boundsIssues })
+    }
+
     const template = await prisma.fieldTemplate.create({
       data: {
         sport: data.sport,
@@ -1490,8 +2247,21 @@ router.post('/templates', requireAdmin, async (req: AuthRequest, res: Response)
         maxWidth: data.maxWidth,
         defaultLength: data.defaultLength,
         defaultWidth: data.defaultWidth,
-        interiorElements: data.interiorElements,
-        isActive: data.isActive ?? true
+        interiorElements: data.interiorElements as Prisma.InputJsonValue,
+        isActive: data.isActive ?? true,
+        versions: {
+          create: {
+            version: 1,
+            minLength: data.minLength,
+            maxLength: data.maxLength,
+            minWidth: data.minWidth,
+            maxWidth: data.maxWidth,
+            defaultLength: data.defaultLength,
+            defaultWidth: data.defaultWidth,
+            interiorElements: data.interiorElements as Prisma.InputJsonValue,
+            createdById: req.userId
+          }
+        }
       }
     })
 
@@ -1511,9 +2281,41 @@ router.put('/templates/:id', requireAdmin, async (req: AuthRequest, res: Respons
     const { id } = req.params
     const data = templateSchema.partial().parse(req.body)
 
-    const template = await prisma.fieldTemplate.update({
-      where: { id },
-      data
+    const existing = await prisma.fieldTemplate.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Template not found' })
+    }
+
+    // Re-check bounds whenever the markings or the size range change
+    const dimensionsChanged = ['minLength', 'maxLength', 'minWidth', 'maxWidth']
+      .some((key) => data[key as keyof typeof data] !== undefined)
+    if (data.interiorElements || dimensionsChanged) {
+      const elements = data.interiorElements ?? interiorElementsSchema.safeParse(existing.interiorElements).data
+      if (elements) {
+        const boundsIssues = findElementBoundsIssues(elements, {
+          minLength: data.minLength ?? existing.minLength,
+          maxLength: data.maxLength ?? existing.maxLength,
+          minWidth: data.minWidth ?? existing.minWidth,
+          maxWidth: data.maxWidth ?? existing.maxWidth
+        })
+        if (boundsIssues.length > 0) {
+          return res.status(400).json({ error: 'Validation error', details: boundsIssues })
+        }
+      }
+    }
+
+    // Changes to the limits or markings publish a new immutable version;
+    // existing configurations stay pinned to the version they were drawn with
+    const template = await prisma.$transaction(async (tx) => {
+      const version = await publishTemplateVersion(tx, existing, data, req.userId)
+      return tx.fieldTemplate.update({
+        where: { id },
+        data: {
+          ...data,
+          interiorElements: data.interiorElements as Prisma.InputJsonValue | undefined,
+          currentVersion: version?.version
+        }
+      })
     })
 
     res.json(template)
@@ -1526,6 +2328,66 @@ router.put('/templates/:id', requireAdmin, async (req: AuthRequest, res: Respons
   }
 })
 
+// GET /api/admin/templates/:id/versions - List a template's versions, newest first
+router.get('/templates/:id/versions', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const template = await prisma.fieldTemplate.findUnique({ where: { id } })
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' })
+    }
+
+    await ensureCurrentVersion(prisma, template)
+
+    const versions = await prisma.fieldTemplateVersion.findMany({
+      where: { templateId: id },
+      orderBy: { version: 'desc' },
+      include: {
+        _count: { select: { configurations: true } }
+      }
+    })
+
+    res.json(versions)
+  } catch (error) {
+    console.error('Get template versions error:', error)
+    res.status(500).json({ error: 'Failed to get template versions' })
+  }
+})
+
+// GET /api/admin/templates/:id/versions/diff?from=1&to=2 - Compare two versions
+// (defaults to the current version against the one before it)
+router.get('/templates/:id/versions/diff', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const template = await prisma.fieldTemplate.findUnique({ where: { id } })
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' })
+    }
+
+    const to = req.query.to ? parseInt(req.query.to as string) : template.currentVersion
+    const from = req.query.from ? parseInt(req.query.from as string) : to - 1
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ error: 'Versions must be numbers' })
+    }
+
+    const versions = await prisma.fieldTemplateVersion.findMany({
+      where: { templateId: id, version: { in: [from, to] } }
+    })
+    const fromVersion = versions.find((v) => v.version === from)
+    const toVersion = versions.find((v) => v.version === to)
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: 'Template version not found' })
+    }
+
+    res.json(diffTemplateVersions(fromVersion, toVersion))
+  } catch (error) {
+    console.error('Diff template versions error:', error)
+    res.status(500).json({ error: 'Failed to compare template versions' })
+  }
+})
+
 // DELETE /api/admin/templates/:id - Soft delete template
 router.delete('/templates/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
   try {
@@ -1783,4 +2645,111 @@ router.delete('/user-invitations/:id', requireAdmin, async (req: AuthRequest, re
   }
 })
 
+// ============ EMAIL OUTBOX ============
+
+// Everything but the body, which is only loaded for a single email
+const emailSummarySelect = {
+  id: true,
+  to: true,
+  subject: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  transport: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.EmailOutboxSelect
+
+// GET /api/admin/emails - List queued, sent and dead-lettered emails
+router.get('/emails', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = parseInt(req.query.limit as string) || 20
+    const status = req.query.status as string
+    const search = req.query.search as string
+
+    const where: Prisma.EmailOutboxWhereInput = {}
+
+    if (status) {
+      where.status = status
+    }
+
+    if (search) {
+      where.OR = [
+        { to: { contains: search, mode: 'insensitive' } },
+        { subject: { contains: search, mode: 'insensitive' } }
+      ]
+    }
+
+    const [emails, total, counts] = await Promise.all([
+      prisma.emailOutbox.findMany({
+        where,
+        select: emailSummarySelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.emailOutbox.count({ where }),
+      prisma.emailOutbox.groupBy({ by: ['status'], _count: true })
+    ])
+
+    res.json({
+      emails,
+      counts: Object.fromEntries(
+        EMAIL_STATUSES.map((s) => [s, counts.find((c) => c.status === s)?._count ?? 0])
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Get emails error:', error)
+    res.status(500).json({ error: 'Failed to get emails' })
+  }
+})
+
+// GET /api/admin/emails/:id - Get an email including its body
+router.get('/emails/:id', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const email = await prisma.emailOutbox.findUnique({ where: { id: req.params.id } })
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' })
+    }
+
+    res.json(email)
+  } catch (error) {
+    console.error('Get email error:', error)
+    res.status(500).json({ error: 'Failed to get email' })
+  }
+})
+
+// POST /api/admin/emails/:id/resend - Queue an email for another delivery attempt
+router.post('/emails/:id/resend', requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const existing = await prisma.emailOutbox.findUnique({ where: { id: req.params.id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Email not found' })
+    }
+    if (existing.status === 'sending') {
+      return res.status(400).json({ error: 'Email is being sent right now' })
+    }
+
+    await resendEmail(existing.id)
+    const email = await prisma.emailOutbox.findUnique({
+      where: { id: existing.id },
+      select: emailSummarySelect
+    })
+
+    res.json(email)
+  } catch (error) {
+    console.error('Resend email error:', error)
+    res.status(500).json({ error: 'Failed to resend email' })
+  }
+})
+
 export default router
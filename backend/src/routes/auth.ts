@@ -4,6 +4,7 @@ import jwt from 'jsonwebtoken'
 import { z } from 'zod'
 import { prisma } from '../lib/prisma.js'
 import { sendVerificationEmail, sendPasswordResetEmail } from '../services/email.js'
+import { notifyUser } from '../services/notifications.js'
 import { v4 as uuidv4 } from 'uuid'
 
 const router = Router()
@@ -419,6 +420,13 @@ router.post('/user/register', async (req: Request, res: Response) => {
       })
     ])
 
+    await notifyUser(invitation.invitedById, {
+      type: 'invitation_accepted',
+      title: `${user.fullName} accepted your invitation`,
+      body: user.email,
+      link: `/dashboard/admin/users/${user.id}`,
+    })
+
     res.status(201).json({
       message: 'Registration successful. You can now log in.',
       userId: user.id,
@@ -542,6 +550,13 @@ router.post('/admin/register', async (req: Request, res: Response) => {
       })
     ])
 
+    await notifyUser(invitation.invitedById, {
+      type: 'invitation_accepted',
+      title: `${user.fullName} accepted your admin invitation`,
+      body: user.email,
+      link: `/dashboard/admin/users/${user.id}`,
+    })
+
     res.status(201).json({
       message: 'Admin registration successful. You can now log in.',
       userId: user.id,
@@ -1,25 +1,18 @@
 import { Router, Response } from 'express'
 import { z } from 'zod'
 import { prisma } from '../lib/prisma.js'
+import { transitionBooking } from '../lib/booking-status.js'
+import { AvailabilityError, MAX_RANGE_DAYS, assertBookable, getAvailability } from '../lib/availability.js'
+import { generateGroupReferenceNumber, generateReferenceNumber } from '../lib/booking-references.js'
+import { hasChangedSince, parseSnapshot } from '../lib/configuration-snapshots.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
+import { notifyBookingReceived } from '../services/booking-notifications.js'
 import { sendBookingConfirmationEmail, sendProviderNotificationEmail } from '../services/email.js'
+import { notifyAdmins } from '../services/notifications.js'
+import { publishBookingEvent } from '../services/booking-events.js'
 
 const router = Router()
 
-// Generate booking reference number
-function generateReferenceNumber(): string {
-  const year = new Date().getFullYear()
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
-  return `BK-${year}-${random}`
-}
-
-// Generate group reference number
-function generateGroupReferenceNumber(): string {
-  const year = new Date().getFullYear()
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
-  return `BKG-${year}-${random}`
-}
-
 // Validation schemas
 const createBookingSchema = z.object({
   configurationId: z.string().uuid('Invalid configuration ID'),
@@ -31,7 +24,7 @@ const createBookingSchema = z.object({
     message: 'Invalid alternative date format',
   }).optional(),
   notes: z.string().max(500, 'Notes must be 500 characters or less').optional(),
-  contactPreference: z.enum(['phone', 'email']),
+  contactPreference: z.enum(['phone', 'email', 'both']),
 })
 
 const updateBookingSchema = z.object({
@@ -43,7 +36,7 @@ const updateBookingSchema = z.object({
     message: 'Invalid alternative date format',
   }).optional(),
   notes: z.string().max(500).optional(),
-  contactPreference: z.enum(['phone', 'email']).optional(),
+  contactPreference: z.enum(['phone', 'email', 'both']).optional(),
 })
 
 const createBatchBookingSchema = z.object({
@@ -100,6 +93,12 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
             },
           },
         },
+        recurringSchedule: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     })
@@ -133,6 +132,7 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       include: {
         sportsground: true,
         template: true,
+        complianceProfile: true,
       },
     })
 
@@ -140,6 +140,10 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Configuration not found' })
     }
 
+    if (configuration.isDraft) {
+      return res.status(400).json({ error: 'Review and save the imported configuration in the editor before booking' })
+    }
+
     // Get user details for email
     const user = await prisma.user.findUnique({
       where: { id: req.userId },
@@ -160,26 +164,40 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       }
     }
 
-    const booking = await prisma.booking.create({
-      data: {
-        userId: req.userId!,
-        configurationId: data.configurationId,
-        referenceNumber,
-        preferredDate: new Date(data.preferredDate),
-        preferredTime: data.preferredTime,
-        alternativeDate: data.alternativeDate ? new Date(data.alternativeDate) : null,
-        notes: data.notes,
-        contactPreference: data.contactPreference,
-        status: 'pending',
-      },
-      include: {
-        configuration: {
-          include: {
-            sportsground: true,
-            template: true,
+    // Checked in the same transaction as the insert so the day's capacity
+    // can't be taken by a concurrent request in between
+    const booking = await prisma.$transaction(async (tx) => {
+      await assertBookable(tx, [
+        { date: new Date(data.preferredDate), time: data.preferredTime },
+        ...(data.alternativeDate
+          ? [{ date: new Date(data.alternativeDate), time: data.preferredTime, countsTowardCapacity: false }]
+          : []),
+      ])
+
+      return tx.booking.create({
+        data: {
+          userId: req.userId!,
+          configurationId: data.configurationId,
+          referenceNumber,
+          preferredDate: new Date(data.preferredDate),
+          preferredTime: data.preferredTime,
+          alternativeDate: data.alternativeDate ? new Date(data.alternativeDate) : null,
+          notes: data.notes,
+          contactPreference: data.contactPreference,
+          status: 'pending',
+          statusHistory: {
+            create: { toStatus: 'pending', actorId: req.userId },
           },
         },
-      },
+        include: {
+          configuration: {
+            include: {
+              sportsground: true,
+              template: true,
+            },
+          },
+        },
+      })
     })
 
     // Send confirmation email to customer
@@ -190,12 +208,21 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       sportsgroundName: configuration.sportsground.name,
       sportsgroundAddress: configuration.sportsground.address,
       templateName: configuration.template.name,
+      complianceProfile: configuration.complianceProfile?.name,
       dimensions: `${configuration.lengthMeters}m x ${configuration.widthMeters}m`,
       lineColor: configuration.lineColor,
       preferredDate: booking.preferredDate.toLocaleDateString(),
       preferredTime: booking.preferredTime,
     })
 
+    await notifyBookingReceived(user.phone, booking.contactPreference, {
+      referenceNumber: booking.referenceNumber,
+      sportsgroundName: configuration.sportsground.name,
+      date: booking.preferredDate,
+      time: booking.preferredTime,
+      fieldCount: 1,
+    })
+
     // Get all admin emails to notify
     const admins = await prisma.user.findMany({
       where: {
@@ -217,6 +244,7 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       latitude: configuration.latitude,
       longitude: configuration.longitude,
       templateName: configuration.template.name,
+      complianceProfile: configuration.complianceProfile?.name,
       dimensions: `${configuration.lengthMeters}m x ${configuration.widthMeters}m`,
       rotation: configuration.rotationDegrees,
       lineColor: configuration.lineColor,
@@ -227,13 +255,44 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       contactPreference: booking.contactPreference,
     }, adminEmails)
 
+    publishBookingEvent('booking.created', booking, req.userId)
+    await notifyAdmins({
+      type: 'booking_created',
+      title: `New booking request ${booking.referenceNumber}`,
+      body: `${user.fullName} · ${configuration.sportsground.name} · ${booking.preferredDate.toLocaleDateString()}`,
+      link: `/dashboard/admin/bookings/${booking.id}`,
+    })
+
     res.status(201).json(booking)
   } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('Create booking error:', error)
     res.status(500).json({ error: 'Failed to create booking' })
   }
 })
 
+// GET /api/bookings/availability - Which days and times can be booked
+router.get('/availability', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const from = new Date(req.query.from as string)
+    const to = new Date(req.query.to as string)
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+      return res.status(400).json({ error: 'from and to dates are required' })
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: `Availability can be requested for up to ${MAX_RANGE_DAYS} days at a time` })
+    }
+
+    const days = await getAvailability(prisma, from, to)
+    res.json({ days })
+  } catch (error) {
+    console.error('Get availability error:', error)
+    res.status(500).json({ error: 'Failed to get availability' })
+  }
+})
+
 // GET /api/bookings/:id - Get booking details
 router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -251,6 +310,12 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
             template: true,
           },
         },
+        recurringSchedule: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     })
 
@@ -258,7 +323,13 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Booking not found' })
     }
 
-    res.json(booking)
+    const snapshot = parseSnapshot(booking.configurationSnapshot)
+    res.json({
+      ...booking,
+      // The field has been edited since the booking was accepted; the crew
+      // still marks the snapshot
+      configurationChanged: snapshot ? hasChangedSince(snapshot, booking.configuration) : false,
+    })
   } catch (error) {
     console.error('Get booking error:', error)
     res.status(500).json({ error: 'Failed to get booking' })
@@ -292,6 +363,7 @@ router.put('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       })
     }
 
+    const { preferredDate, preferredTime, alternativeDate } = validation.data
     const updateData: Record<string, unknown> = {}
     if (validation.data.preferredDate) {
       updateData.preferredDate = new Date(validation.data.preferredDate)
@@ -311,21 +383,39 @@ router.put('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       updateData.contactPreference = validation.data.contactPreference
     }
 
-    const booking = await prisma.booking.update({
-      where: { id },
-      data: updateData,
-      include: {
-        configuration: {
-          include: {
-            sportsground: true,
-            template: true,
+    const booking = await prisma.$transaction(async (tx) => {
+      // Moving the booking has to fit the same rules as booking it
+      if (preferredDate || preferredTime || alternativeDate) {
+        const time = preferredTime ?? existing.preferredTime
+        await assertBookable(tx, [
+          ...(preferredDate || preferredTime
+            ? [{ date: preferredDate ? new Date(preferredDate) : existing.preferredDate, time }]
+            : []),
+          ...(alternativeDate ? [{ date: new Date(alternativeDate), time, countsTowardCapacity: false }] : []),
+        ], { excludeBookingId: id })
+      }
+
+      return tx.booking.update({
+        where: { id },
+        data: updateData,
+        include: {
+          configuration: {
+            include: {
+              sportsground: true,
+              template: true,
+            },
           },
         },
-      },
+      })
     })
 
+    publishBookingEvent('booking.updated', booking, req.userId)
+
     res.json(booking)
   } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('Update booking error:', error)
     res.status(500).json({ error: 'Failed to update booking' })
   }
@@ -362,9 +452,17 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
     }
 
     // Update status to cancelled instead of deleting
-    await prisma.booking.update({
-      where: { id },
-      data: { status: 'cancelled' },
+    await prisma.$transaction((tx) =>
+      transitionBooking(tx, existing, 'cancelled', { actorId: req.userId, reason: 'Cancelled by customer' }),
+    )
+
+    const cancelled = await prisma.booking.findUniqueOrThrow({ where: { id } })
+    publishBookingEvent('booking.status', cancelled, req.userId)
+
+    await notifyAdmins({
+      type: 'booking_status',
+      title: `Booking ${existing.referenceNumber} cancelled by customer`,
+      link: `/dashboard/admin/bookings/${existing.id}`,
     })
 
     res.json({ message: 'Booking cancelled successfully' })
@@ -428,6 +526,12 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
       })
     }
 
+    if (configurations.some(c => c.isDraft)) {
+      return res.status(400).json({
+        error: 'Review and save imported configurations in the editor before booking'
+      })
+    }
+
     // Generate unique group reference number
     let groupReferenceNumber = generateGroupReferenceNumber()
     let attempts = 0
@@ -439,8 +543,19 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
       }
     }
 
-    // Create booking group and bookings in a transaction
+    // Create booking group and bookings in a transaction, checking the days
+    // are still free within it
     const result = await prisma.$transaction(async (tx) => {
+      await assertBookable(tx, [
+        ...data.configurations.map((c) => ({
+          date: new Date(c.preferredDate || data.defaultPreferredDate),
+          time: c.preferredTime || data.defaultPreferredTime,
+        })),
+        ...(data.alternativeDate
+          ? [{ date: new Date(data.alternativeDate), time: data.defaultPreferredTime, countsTowardCapacity: false }]
+          : []),
+      ])
+
       // Create the booking group
       const bookingGroup = await tx.bookingGroup.create({
         data: {
@@ -489,12 +604,16 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
             notes: data.notes,
             contactPreference: data.contactPreference,
             status: 'pending',
+            statusHistory: {
+              create: { toStatus: 'pending', actorId: req.userId },
+            },
           },
           include: {
             configuration: {
               include: {
                 template: true,
                 sportsground: true,
+                complianceProfile: true,
               },
             },
           },
@@ -526,6 +645,7 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
         sportsgroundName: sportsground.name,
         sportsgroundAddress: sportsground.address,
         templateName: booking.configuration.template.name,
+        complianceProfile: booking.configuration.complianceProfile?.name,
         dimensions: `${booking.configuration.lengthMeters}m x ${booking.configuration.widthMeters}m`,
         lineColor: booking.configuration.lineColor,
         preferredDate: booking.preferredDate.toLocaleDateString(),
@@ -533,6 +653,14 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
       })
     }
 
+    await notifyBookingReceived(user.phone, result.bookingGroup.contactPreference, {
+      referenceNumber: result.bookingGroup.groupReferenceNumber,
+      sportsgroundName: sportsground.name,
+      date: result.bookingGroup.defaultPreferredDate,
+      time: result.bookingGroup.defaultPreferredTime,
+      fieldCount: result.bookings.length,
+    })
+
     // Get all admin emails to notify
     const admins = await prisma.user.findMany({
       where: {
@@ -555,6 +683,7 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
         latitude: booking.configuration.latitude,
         longitude: booking.configuration.longitude,
         templateName: booking.configuration.template.name,
+        complianceProfile: booking.configuration.complianceProfile?.name,
         dimensions: `${booking.configuration.lengthMeters}m x ${booking.configuration.widthMeters}m`,
         rotation: booking.configuration.rotationDegrees,
         lineColor: booking.configuration.lineColor,
@@ -566,6 +695,16 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
       }, adminEmails)
     }
 
+    for (const booking of result.bookings) {
+      publishBookingEvent('booking.created', booking, req.userId)
+    }
+    await notifyAdmins({
+      type: 'booking_created',
+      title: `New booking group ${result.bookingGroup.groupReferenceNumber}`,
+      body: `${user.fullName} · ${sportsground.name} · ${result.bookings.length} fields`,
+      link: `/dashboard/admin/bookings/${result.bookings[0].id}`,
+    })
+
     res.status(201).json({
       bookingGroup: {
         id: result.bookingGroup.id,
@@ -583,6 +722,9 @@ router.post('/batch', authenticate, async (req: AuthRequest, res: Response) => {
       })),
     })
   } catch (error) {
+    if (error instanceof AvailabilityError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('Create batch booking error:', error)
     res.status(500).json({ error: 'Failed to create batch booking' })
   }
@@ -638,7 +780,10 @@ router.delete('/groups/:id', authenticate, async (req: AuthRequest, res: Respons
       return res.status(404).json({ error: 'Booking group not found' })
     }
 
-    if (bookingGroup.status !== 'pending') {
+    // Declined or already cancelled bookings stay as they are; everything
+    // else must still be pending, as for a single booking
+    const active = bookingGroup.bookings.filter((b) => b.status !== 'cancelled' && b.status !== 'declined')
+    if (active.length === 0 || active.some((b) => b.status !== 'pending')) {
       return res.status(400).json({
         error: 'Only pending booking groups can be cancelled'
       })
@@ -646,7 +791,7 @@ router.delete('/groups/:id', authenticate, async (req: AuthRequest, res: Respons
 
     // Check if any booking is within 48 hours
     const now = new Date()
-    for (const booking of bookingGroup.bookings) {
+    for (const booking of active) {
       const hoursUntilBooking = (booking.preferredDate.getTime() - now.getTime()) / (1000 * 60 * 60)
       if (hoursUntilBooking < 48) {
         return res.status(400).json({
@@ -655,17 +800,26 @@ router.delete('/groups/:id', authenticate, async (req: AuthRequest, res: Respons
       }
     }
 
-    // Cancel all bookings in the group
-    await prisma.$transaction([
-      prisma.booking.updateMany({
-        where: { bookingGroupId: id },
-        data: { status: 'cancelled' },
-      }),
-      prisma.bookingGroup.update({
-        where: { id },
-        data: { status: 'cancelled' },
-      }),
-    ])
+    // Cancel all bookings in the group; the group's status rolls up to cancelled
+    await prisma.$transaction(async (tx) => {
+      for (const booking of active) {
+        await transitionBooking(tx, booking, 'cancelled', {
+          actorId: req.userId,
+          reason: 'Booking group cancelled by customer',
+        })
+      }
+    })
+
+    const cancelled = await prisma.booking.findMany({ where: { bookingGroupId: id } })
+    for (const booking of cancelled) {
+      publishBookingEvent('booking.status', booking, req.userId)
+    }
+
+    await notifyAdmins({
+      type: 'booking_status',
+      title: `Booking group ${bookingGroup.groupReferenceNumber} cancelled by customer`,
+      link: `/dashboard/admin/bookings/${bookingGroup.bookings[0].id}`,
+    })
 
     res.json({ message: 'Booking group cancelled successfully' })
   } catch (error) {
@@ -0,0 +1,34 @@
+import { Router, Request, Response } from 'express'
+import { COMPLIANCE_LEVELS } from 'xactline-shared/field-compliance'
+import { prisma } from '../lib/prisma.js'
+
+const router = Router()
+
+// GET /api/compliance-profiles - List active compliance profiles, optionally for one sport
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const sport = req.query.sport as string | undefined
+
+    const profiles = await prisma.complianceProfile.findMany({
+      where: {
+        isActive: true,
+        ...(sport && { sport }),
+      },
+      orderBy: [
+        { sport: 'asc' },
+        { name: 'asc' },
+      ],
+    })
+
+    // Most demanding level first within each sport
+    const levelOrder = (level: string) => (COMPLIANCE_LEVELS as readonly string[]).indexOf(level)
+    profiles.sort((a, b) => a.sport.localeCompare(b.sport) || levelOrder(a.level) - levelOrder(b.level))
+
+    res.json(profiles)
+  } catch (error) {
+    console.error('List compliance profiles error:', error)
+    res.status(500).json({ error: 'Failed to list compliance profiles' })
+  }
+})
+
+export default router
@@ -1,7 +1,14 @@
 import { Router, Response } from 'express'
 import { z } from 'zod'
+import { evaluateCompliance } from 'xactline-shared/field-compliance'
+import { findSiteIssues, siteLayoutOf } from 'xactline-shared/site-layout'
 import { prisma } from '../lib/prisma.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
+import { ensureCurrentVersion } from '../lib/template-versions.js'
+import { findDimensionIssues, limitsFor } from '../lib/configuration-compliance.js'
+import { lockBookedConfiguration } from '../lib/configuration-snapshots.js'
+import { diffRevisions, layoutOf, recordInitialRevision, recordRevision } from '../lib/configuration-revisions.js'
+import { EXPORT_FORMATS, exportConfiguration, exportFileName } from '../lib/field-export.js'
 
 const router = Router()
 
@@ -16,6 +23,7 @@ const createConfigurationSchema = z.object({
   lengthMeters: z.number().positive('Length must be positive'),
   widthMeters: z.number().positive('Width must be positive'),
   lineColor: z.string().min(1, 'Line color is required'),
+  complianceProfileId: z.string().uuid('Invalid compliance profile ID').nullable().optional(),
 })
 
 const updateConfigurationSchema = createConfigurationSchema.partial().omit({
@@ -23,6 +31,14 @@ const updateConfigurationSchema = createConfigurationSchema.partial().omit({
   templateId: true,
 })
 
+// A compliance profile can only be picked for a field of the same sport
+async function profileApplies(profileId: string, sport: string): Promise<boolean> {
+  const profile = await prisma.complianceProfile.findFirst({
+    where: { id: profileId, isActive: true },
+  })
+  return profile?.sport === sport
+}
+
 // GET /api/configurations - List user's configurations
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -51,6 +67,23 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
             id: true,
             name: true,
             sport: true,
+            currentVersion: true,
+          },
+        },
+        templateVersion: {
+          select: {
+            id: true,
+            version: true,
+            interiorElements: true,
+          },
+        },
+        complianceProfile: {
+          select: {
+            id: true,
+            name: true,
+            level: true,
+            runOffSides: true,
+            runOffEnds: true,
           },
         },
       },
@@ -101,10 +134,27 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Template not found' })
     }
 
+    if (data.complianceProfileId && !(await profileApplies(data.complianceProfileId, template.sport))) {
+      return res.status(400).json({ error: 'Compliance profile not found for this sport' })
+    }
+
+    // Pin the template's current markings so later template edits don't change this field
+    const templateVersion = await ensureCurrentVersion(prisma, template)
+
+    // The field must fit the markings being pinned, and the ground's boundary and no-mark zones
+    const issues = [
+      ...findDimensionIssues(templateVersion, data),
+      ...findSiteIssues(siteLayoutOf(sportsground), data),
+    ]
+    if (issues.length > 0) {
+      return res.status(400).json({ error: issues.join('. ') })
+    }
+
     const configuration = await prisma.fieldConfiguration.create({
       data: {
         ...data,
         userId: req.userId!,
+        templateVersionId: templateVersion.id,
       },
       include: {
         sportsground: {
@@ -119,11 +169,30 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
             id: true,
             name: true,
             sport: true,
+            currentVersion: true,
+          },
+        },
+        templateVersion: {
+          select: {
+            id: true,
+            version: true,
+            interiorElements: true,
+          },
+        },
+        complianceProfile: {
+          select: {
+            id: true,
+            name: true,
+            level: true,
+            runOffSides: true,
+            runOffEnds: true,
           },
         },
       },
     })
 
+    await prisma.$transaction((tx) => recordRevision(tx, configuration, req.userId))
+
     res.status(201).json(configuration)
   } catch (error) {
     console.error('Create configuration error:', error)
@@ -144,6 +213,8 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       include: {
         sportsground: true,
         template: true,
+        templateVersion: true,
+        complianceProfile: true,
       },
     })
 
@@ -151,13 +222,52 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Configuration not found' })
     }
 
-    res.json(configuration)
+    // Report against the chosen profile, with run-off checked against the other fields on the ground
+    let complianceReport = null
+    if (configuration.complianceProfile) {
+      const neighbours = await prisma.fieldConfiguration.findMany({
+        where: { sportsgroundId: configuration.sportsgroundId, id: { not: configuration.id } },
+      })
+      complianceReport = evaluateCompliance(configuration.complianceProfile, configuration, neighbours)
+    }
+
+    res.json({ ...configuration, complianceReport })
   } catch (error) {
     console.error('Get configuration error:', error)
     res.status(500).json({ error: 'Failed to get configuration' })
   }
 })
 
+// GET /api/configurations/:id/export?format=geojson|kml|dxf - Download markings as geodata
+router.get('/:id/export', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const format = z.enum(EXPORT_FORMATS).safeParse(req.query.format ?? 'geojson')
+    if (!format.success) {
+      return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` })
+    }
+
+    const configuration = await prisma.fieldConfiguration.findFirst({
+      where: { id, userId: req.userId },
+      include: { template: true, templateVersion: true },
+    })
+
+    if (!configuration) {
+      return res.status(404).json({ error: 'Configuration not found' })
+    }
+
+    const interiorElements = configuration.templateVersion?.interiorElements ?? configuration.template.interiorElements
+    const file = exportConfiguration(configuration, interiorElements, format.data)
+
+    res.setHeader('Content-Type', file.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(configuration, file)}"`)
+    res.send(file.body)
+  } catch (error) {
+    console.error('Export configuration error:', error)
+    res.status(500).json({ error: 'Failed to export configuration' })
+  }
+})
+
 // PUT /api/configurations/:id - Update configuration
 router.put('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -173,34 +283,83 @@ router.put('/:id', authenticate, async (req: AuthRequest, res: Response) => {
     // Check ownership
     const existing = await prisma.fieldConfiguration.findFirst({
       where: { id, userId: req.userId },
+      include: { template: true, templateVersion: true, sportsground: true },
     })
 
     if (!existing) {
       return res.status(404).json({ error: 'Configuration not found' })
     }
 
-    const configuration = await prisma.fieldConfiguration.update({
-      where: { id },
-      data: validation.data,
-      include: {
-        sportsground: {
-          select: {
-            id: true,
-            name: true,
-            address: true,
+    if (validation.data.complianceProfileId && !(await profileApplies(validation.data.complianceProfileId, existing.template.sport))) {
+      return res.status(400).json({ error: 'Compliance profile not found for this sport' })
+    }
+
+    // Hold the field to the markings it is pinned to, and keep it inside the
+    // ground's boundary and out of its no-mark zones
+    const footprint = {
+      latitude: validation.data.latitude ?? existing.latitude,
+      longitude: validation.data.longitude ?? existing.longitude,
+      rotationDegrees: validation.data.rotationDegrees ?? existing.rotationDegrees,
+      lengthMeters: validation.data.lengthMeters ?? existing.lengthMeters,
+      widthMeters: validation.data.widthMeters ?? existing.widthMeters,
+    }
+    const issues = [
+      ...findDimensionIssues(limitsFor(existing), footprint),
+      ...findSiteIssues(siteLayoutOf(existing.sportsground), footprint),
+    ]
+    if (issues.length > 0) {
+      return res.status(400).json({ error: issues.join('. ') })
+    }
+
+    const { configuration, lockedBookings } = await prisma.$transaction(async (tx) => {
+      // Accepted bookings keep the field as it was before this edit
+      await recordInitialRevision(tx, existing)
+      const lockedBookings = await lockBookedConfiguration(tx, id)
+      // Saving from the editor confirms an imported draft
+      const configuration = await tx.fieldConfiguration.update({
+        where: { id },
+        data: { ...validation.data, isDraft: false },
+        include: {
+          sportsground: {
+            select: {
+              id: true,
+              name: true,
+              address: true,
+            },
           },
-        },
-        template: {
-          select: {
-            id: true,
-            name: true,
-            sport: true,
+          template: {
+            select: {
+              id: true,
+              name: true,
+              sport: true,
+              currentVersion: true,
+            },
+          },
+          templateVersion: {
+            select: {
+              id: true,
+              version: true,
+              interiorElements: true,
+            },
+          },
+          complianceProfile: {
+            select: {
+              id: true,
+              name: true,
+              level: true,
+              runOffSides: true,
+              runOffEnds: true,
+            },
           },
         },
-      },
+      })
+      await recordRevision(tx, configuration, req.userId)
+
+      return { configuration, lockedBookings }
     })
 
-    res.json(configuration)
+    // Tells the editor how many booked jobs keep the previous layout
+    res.json({ ...configuration, lockedBookings })
   } catch (error) {
     console.error('Update configuration error:', error)
     res.status(500).json({ error: 'Failed to update configuration' })
@@ -251,6 +410,8 @@ router.post('/:id/duplicate', authenticate, async (req: AuthRequest, res: Respon
         userId: req.userId!,
         sportsgroundId: original.sportsgroundId,
         templateId: original.templateId,
+        templateVersionId: original.templateVersionId,
+        complianceProfileId: original.complianceProfileId,
         name: name || `${original.name} (Copy)`,
         latitude: original.latitude,
         longitude: original.longitude,
@@ -272,11 +433,30 @@ router.post('/:id/duplicate', authenticate, async (req: AuthRequest, res: Respon
             id: true,
             name: true,
             sport: true,
+            currentVersion: true,
+          },
+        },
+        templateVersion: {
+          select: {
+            id: true,
+            version: true,
+            interiorElements: true,
+          },
+        },
+        complianceProfile: {
+          select: {
+            id: true,
+            name: true,
+            level: true,
+            runOffSides: true,
+            runOffEnds: true,
           },
         },
       },
     })
 
+    await prisma.$transaction((tx) => recordRevision(tx, configuration, req.userId))
+
     res.status(201).json(configuration)
   } catch (error) {
     console.error('Duplicate configuration error:', error)
@@ -284,4 +464,192 @@ router.post('/:id/duplicate', authenticate, async (req: AuthRequest, res: Respon
   }
 })
 
+// POST /api/configurations/:id/upgrade-template - Move to the template's latest markings
+router.post('/:id/upgrade-template', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const existing = await prisma.fieldConfiguration.findFirst({
+      where: { id, userId: req.userId },
+      include: { template: true },
+    })
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Configuration not found' })
+    }
+
+    const latest = await ensureCurrentVersion(prisma, existing.template)
+
+    if (existing.templateVersionId === latest.id) {
+      return res.status(400).json({ error: 'Configuration already uses the latest markings' })
+    }
+
+    // The field must still fit the limits of the new version
+    if (existing.lengthMeters < latest.minLength || existing.lengthMeters > latest.maxLength) {
+      return res.status(400).json({
+        error: `The latest markings require a length between ${latest.minLength}m and ${latest.maxLength}m`
+      })
+    }
+    if (existing.widthMeters < latest.minWidth || existing.widthMeters > latest.maxWidth) {
+      return res.status(400).json({
+        error: `The latest markings require a width between ${latest.minWidth}m and ${latest.maxWidth}m`
+      })
+    }
+
+    const { configuration, lockedBookings } = await prisma.$transaction(async (tx) => {
+      // Booked jobs keep the markings they were accepted with
+      await recordInitialRevision(tx, existing)
+      const lockedBookings = await lockBookedConfiguration(tx, id)
+      const configuration = await tx.fieldConfiguration.update({
+        where: { id },
+        data: { templateVersionId: latest.id },
+        include: {
+          sportsground: true,
+          template: true,
+          templateVersion: true,
+          complianceProfile: true,
+        },
+      })
+      await recordRevision(tx, configuration, req.userId)
+
+      return { configuration, lockedBookings }
+    })
+
+    res.json({ ...configuration, lockedBookings })
+  } catch (error) {
+    console.error('Upgrade configuration template error:', error)
+    res.status(500).json({ error: 'Failed to upgrade configuration markings' })
+  }
+})
+
+// GET /api/configurations/:id/revisions - List a configuration's saved layouts, newest first
+router.get('/:id/revisions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const configuration = await prisma.fieldConfiguration.findFirst({
+      where: { id, userId: req.userId },
+    })
+
+    if (!configuration) {
+      return res.status(404).json({ error: 'Configuration not found' })
+    }
+
+    const revisions = await prisma.fieldConfigurationRevision.findMany({
+      where: { configurationId: id },
+      orderBy: { revision: 'desc' },
+      include: {
+        template: { select: { id: true, name: true } },
+        templateVersion: { select: { id: true, version: true } },
+        complianceProfile: { select: { id: true, name: true } },
+      },
+    })
+
+    res.json(revisions)
+  } catch (error) {
+    console.error('Get configuration revisions error:', error)
+    res.status(500).json({ error: 'Failed to get configuration revisions' })
+  }
+})
+
+// GET /api/configurations/:id/revisions/diff?from=1&to=2 - Compare two revisions
+// (defaults to the latest revision against the one before it)
+router.get('/:id/revisions/diff', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const configuration = await prisma.fieldConfiguration.findFirst({
+      where: { id, userId: req.userId },
+      include: {
+        revisions: { orderBy: { revision: 'desc' }, take: 1 },
+      },
+    })
+
+    if (!configuration) {
+      return res.status(404).json({ error: 'Configuration not found' })
+    }
+
+    const to = req.query.to ? parseInt(req.query.to as string) : configuration.revisions[0]?.revision ?? 1
+    const from = req.query.from ? parseInt(req.query.from as string) : to - 1
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ error: 'Revisions must be numbers' })
+    }
+
+    const revisions = await prisma.fieldConfigurationRevision.findMany({
+      where: { configurationId: id, revision: { in: [from, to] } },
+    })
+    const fromRevision = revisions.find((r) => r.revision === from)
+    const toRevision = revisions.find((r) => r.revision === to)
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ error: 'Configuration revision not found' })
+    }
+
+    res.json(diffRevisions(fromRevision, toRevision))
+  } catch (error) {
+    console.error('Diff configuration revisions error:', error)
+    res.status(500).json({ error: 'Failed to compare configuration revisions' })
+  }
+})
+
+// POST /api/configurations/:id/revisions/:revision/restore - Put an earlier layout back
+router.post('/:id/revisions/:revision/restore', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const revisionNumber = parseInt(req.params.revision)
+    if (isNaN(revisionNumber)) {
+      return res.status(400).json({ error: 'Revision must be a number' })
+    }
+
+    const existing = await prisma.fieldConfiguration.findFirst({
+      where: { id, userId: req.userId },
+      include: { sportsground: true },
+    })
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Configuration not found' })
+    }
+
+    const revision = await prisma.fieldConfigurationRevision.findUnique({
+      where: { configurationId_revision: { configurationId: id, revision: revisionNumber } },
+      include: { template: true, templateVersion: true },
+    })
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Configuration revision not found' })
+    }
+
+    // The ground's boundary and no-mark zones may have changed since the revision was saved
+    const issues = [
+      ...findDimensionIssues(limitsFor(revision), revision),
+      ...findSiteIssues(siteLayoutOf(existing.sportsground), revision),
+    ]
+    if (issues.length > 0) {
+      return res.status(400).json({ error: issues.join('. ') })
+    }
+
+    const { configuration, lockedBookings } = await prisma.$transaction(async (tx) => {
+      // Accepted bookings keep the field as it was before the restore
+      const lockedBookings = await lockBookedConfiguration(tx, id)
+      const configuration = await tx.fieldConfiguration.update({
+        where: { id },
+        data: { ...layoutOf(revision), isDraft: false },
+        include: {
+          sportsground: true,
+          template: true,
+          templateVersion: true,
+          complianceProfile: true,
+        },
+      })
+      await recordRevision(tx, configuration, req.userId)
+
+      return { configuration, lockedBookings }
+    })
+
+    res.json({ ...configuration, lockedBookings })
+  } catch (error) {
+    console.error('Restore configuration revision error:', error)
+    res.status(500).json({ error: 'Failed to restore configuration revision' })
+  }
+})
+
 export default router
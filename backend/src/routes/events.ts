@@ -0,0 +1,58 @@
+import { Router, Response } from 'express'
+import { prisma } from '../lib/prisma.js'
+import { authenticate, authenticateStream, signStreamToken, AuthRequest } from '../middleware/auth.js'
+import { subscribeToBookingEvents } from '../services/booking-events.js'
+
+const router = Router()
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000
+
+// POST /api/events/token - Short-lived token for opening an event stream.
+// EventSource can't set headers, so the stream takes this as ?token= rather
+// than the login token, which would otherwise end up in logs and history.
+router.post('/token', authenticate, (req: AuthRequest, res: Response) => {
+  res.json(signStreamToken(req.userId!, req.userEmail!))
+})
+
+// GET /api/events/bookings?token= - Server-sent events for booking changes.
+// Admins get every booking; customers only their own.
+router.get('/bookings', authenticateStream, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { role: true, suspended: true },
+    })
+    if (!user || user.suspended) {
+      return res.status(401).json({ error: 'User not found' })
+    }
+    const isAdmin = user.role === 'admin' || user.role === 'super_admin'
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Stop nginx buffering the stream
+      'X-Accel-Buffering': 'no',
+    })
+    res.write('retry: 5000\n\n')
+
+    const unsubscribe = subscribeToBookingEvents((event) => {
+      if (!isAdmin && event.userId !== req.userId) return
+      res.write(`data: ${JSON.stringify(event)}\n\n`)
+    })
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  } catch (error) {
+    console.error('Booking event stream error:', error)
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open event stream' })
+    }
+  }
+})
+
+export default router
@@ -0,0 +1,110 @@
+import { Router, Response } from 'express'
+import { z } from 'zod'
+import { prisma } from '../lib/prisma.js'
+import { authenticate, AuthRequest } from '../middleware/auth.js'
+
+const router = Router()
+
+router.use(authenticate)
+
+const markAllSchema = z.object({
+  read: z.boolean(),
+  // Only these notifications; all of the user's notifications when omitted
+  ids: z.array(z.string().uuid()).max(100).optional(),
+})
+
+const markOneSchema = z.object({
+  read: z.boolean(),
+})
+
+function unreadCount(userId: string) {
+  return prisma.notification.count({ where: { userId, readAt: null } })
+}
+
+// GET /api/notifications - Current user's notifications, newest first
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { unread, limit = '20' } = req.query
+    const take = Math.min(Math.max(parseInt(limit as string) || 20, 1), 50)
+
+    const [notifications, count] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId: req.userId,
+          ...(unread === 'true' && { readAt: null }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take,
+      }),
+      unreadCount(req.userId!),
+    ])
+
+    res.json({ notifications, unreadCount: count })
+  } catch (error) {
+    console.error('Get notifications error:', error)
+    res.status(500).json({ error: 'Failed to get notifications' })
+  }
+})
+
+// PATCH /api/notifications - Mark several (or all) notifications read or unread
+router.patch('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = markAllSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      })
+    }
+
+    const { read, ids } = validation.data
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId: req.userId,
+        ...(ids && { id: { in: ids } }),
+        // Leave existing read times alone
+        readAt: read ? null : { not: null },
+      },
+      data: { readAt: read ? new Date() : null },
+    })
+
+    res.json({ updated: result.count, unreadCount: await unreadCount(req.userId!) })
+  } catch (error) {
+    console.error('Update notifications error:', error)
+    res.status(500).json({ error: 'Failed to update notifications' })
+  }
+})
+
+// PATCH /api/notifications/:id - Mark one notification read or unread
+router.patch('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = markOneSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      })
+    }
+
+    const existing = await prisma.notification.findFirst({
+      where: { id: req.params.id, userId: req.userId },
+    })
+    if (!existing) {
+      return res.status(404).json({ error: 'Notification not found' })
+    }
+
+    const notification = await prisma.notification.update({
+      where: { id: existing.id },
+      data: {
+        readAt: validation.data.read ? (existing.readAt ?? new Date()) : null,
+      },
+    })
+
+    res.json({ ...notification, unreadCount: await unreadCount(req.userId!) })
+  } catch (error) {
+    console.error('Update notification error:', error)
+    res.status(500).json({ error: 'Failed to update notification' })
+  }
+})
+
+export default router
@@ -0,0 +1,274 @@
+import { Router, Response } from 'express'
+import { z } from 'zod'
+import { prisma } from '../lib/prisma.js'
+import { authenticate, AuthRequest } from '../middleware/auth.js'
+import {
+  RECURRENCE_FREQUENCIES,
+  RecurringScheduleError,
+  endSchedule,
+  generateOccurrences,
+  intervalFor,
+  restoreOccurrence,
+  skipOccurrence,
+} from '../services/recurring-bookings.js'
+
+const router = Router()
+
+router.use(authenticate)
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+// Longest season a schedule can cover
+const MAX_SEASON_DAYS = 366
+
+const createScheduleSchema = z.object({
+  sportsgroundId: z.string().uuid('Invalid sportsground ID'),
+  configurationIds: z.array(z.string().uuid('Invalid configuration ID')).min(1, 'Choose at least one field').max(20),
+  name: z.string().min(1, 'Name is required').max(100),
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  intervalDays: z.number().int().min(1).max(90).optional(),
+  startDate: dateOnly,
+  endDate: dateOnly,
+  preferredTime: z.string().min(1, 'Preferred time is required'),
+  contactPreference: z.enum(['phone', 'email', 'both']),
+  notes: z.string().max(500, 'Notes must be 500 characters or less').optional(),
+})
+
+const updateScheduleSchema = z.object({
+  status: z.enum(['active', 'paused']).optional(),
+  name: z.string().min(1).max(100).optional(),
+  preferredTime: z.string().min(1).optional(),
+  notes: z.string().max(500).nullable().optional(),
+})
+
+const occurrenceSchema = z.object({
+  date: dateOnly,
+})
+
+// Upcoming bookings shown with each schedule
+const upcomingBookings = () => ({
+  where: { preferredDate: { gte: new Date(new Date().toISOString().split('T')[0]) } },
+  orderBy: [{ preferredDate: 'asc' as const }, { createdAt: 'asc' as const }],
+  select: {
+    id: true,
+    referenceNumber: true,
+    preferredDate: true,
+    preferredTime: true,
+    status: true,
+    configuration: { select: { id: true, name: true } },
+  },
+})
+
+const scheduleInclude = () => ({
+  sportsground: { select: { id: true, name: true } },
+  configurations: { select: { id: true, name: true } },
+  bookings: upcomingBookings(),
+})
+
+async function findOwnSchedule(id: string, userId: string) {
+  return prisma.recurringBookingSchedule.findFirst({ where: { id, userId } })
+}
+
+// GET /api/recurring-schedules - Current user's recurring schedules
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const schedules = await prisma.recurringBookingSchedule.findMany({
+      where: { userId: req.userId },
+      include: scheduleInclude(),
+      orderBy: [{ status: 'asc' }, { startDate: 'asc' }],
+    })
+
+    res.json(schedules)
+  } catch (error) {
+    console.error('Get recurring schedules error:', error)
+    res.status(500).json({ error: 'Failed to get recurring schedules' })
+  }
+})
+
+// POST /api/recurring-schedules - Start a recurring schedule and generate its first bookings
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = createScheduleSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      })
+    }
+
+    const data = validation.data
+    const startDate = new Date(data.startDate)
+    const endDate = new Date(data.endDate)
+    const today = new Date(new Date().toISOString().split('T')[0])
+
+    if (startDate < today) {
+      return res.status(400).json({ error: 'The schedule must start today or later' })
+    }
+    if (endDate < startDate) {
+      return res.status(400).json({ error: 'The season must end after it starts' })
+    }
+    if (endDate.getTime() - startDate.getTime() > MAX_SEASON_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: 'A schedule can cover at most a year' })
+    }
+
+    const configurations = await prisma.fieldConfiguration.findMany({
+      where: {
+        id: { in: data.configurationIds },
+        userId: req.userId,
+        sportsgroundId: data.sportsgroundId,
+      },
+    })
+
+    if (configurations.length !== data.configurationIds.length) {
+      return res.status(400).json({
+        error: 'One or more configurations are invalid or do not belong to the specified sportsground',
+      })
+    }
+
+    if (configurations.some(c => c.isDraft)) {
+      return res.status(400).json({
+        error: 'Review and save imported configurations in the editor before booking',
+      })
+    }
+
+    const schedule = await prisma.recurringBookingSchedule.create({
+      data: {
+        userId: req.userId!,
+        sportsgroundId: data.sportsgroundId,
+        name: data.name,
+        frequency: data.frequency,
+        intervalDays: intervalFor(data.frequency, data.intervalDays),
+        startDate,
+        endDate,
+        preferredTime: data.preferredTime,
+        contactPreference: data.contactPreference,
+        notes: data.notes,
+        configurations: { connect: data.configurationIds.map((id) => ({ id })) },
+      },
+    })
+
+    const generated = await generateOccurrences(schedule.id)
+
+    const created = await prisma.recurringBookingSchedule.findUniqueOrThrow({
+      where: { id: schedule.id },
+      include: scheduleInclude(),
+    })
+    res.status(201).json({ ...created, generated })
+  } catch (error) {
+    if (error instanceof RecurringScheduleError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Create recurring schedule error:', error)
+    res.status(500).json({ error: 'Failed to create recurring schedule' })
+  }
+})
+
+// PATCH /api/recurring-schedules/:id - Pause, resume or edit a schedule.
+// Time and notes changes apply to occurrences generated from now on.
+router.patch('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = updateScheduleSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      })
+    }
+
+    const existing = await findOwnSchedule(req.params.id, req.userId!)
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring schedule not found' })
+    }
+    if (existing.status === 'ended') {
+      return res.status(400).json({ error: 'This schedule has ended' })
+    }
+
+    await prisma.recurringBookingSchedule.update({
+      where: { id: existing.id },
+      data: validation.data,
+    })
+
+    // Catch up on anything that came into range while paused
+    if (validation.data.status === 'active') {
+      await generateOccurrences(existing.id)
+    }
+
+    const schedule = await prisma.recurringBookingSchedule.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: scheduleInclude(),
+    })
+    res.json(schedule)
+  } catch (error) {
+    console.error('Update recurring schedule error:', error)
+    res.status(500).json({ error: 'Failed to update recurring schedule' })
+  }
+})
+
+// POST /api/recurring-schedules/:id/skip - Skip one occurrence
+router.post('/:id/skip', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = occurrenceSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message })
+    }
+
+    const existing = await findOwnSchedule(req.params.id, req.userId!)
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring schedule not found' })
+    }
+
+    const cancelled = await skipOccurrence(existing.id, new Date(validation.data.date), req.userId)
+    res.json({ message: 'Occurrence skipped', cancelled })
+  } catch (error) {
+    if (error instanceof RecurringScheduleError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Skip occurrence error:', error)
+    res.status(500).json({ error: 'Failed to skip occurrence' })
+  }
+})
+
+// DELETE /api/recurring-schedules/:id/skip - Restore a skipped occurrence
+router.delete('/:id/skip', async (req: AuthRequest, res: Response) => {
+  try {
+    const validation = occurrenceSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message })
+    }
+
+    const existing = await findOwnSchedule(req.params.id, req.userId!)
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring schedule not found' })
+    }
+
+    const generated = await restoreOccurrence(existing.id, new Date(validation.data.date))
+    res.json({ message: 'Occurrence restored', generated })
+  } catch (error) {
+    if (error instanceof RecurringScheduleError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Restore occurrence error:', error)
+    res.status(500).json({ error: 'Failed to restore occurrence' })
+  }
+})
+
+// DELETE /api/recurring-schedules/:id - End the schedule and cancel its upcoming bookings
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const existing = await findOwnSchedule(req.params.id, req.userId!)
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring schedule not found' })
+    }
+    if (existing.status === 'ended') {
+      return res.status(400).json({ error: 'This schedule has already ended' })
+    }
+
+    const cancelled = await endSchedule(existing.id, req.userId)
+    res.json({ message: 'Recurring schedule ended', cancelled })
+  } catch (error) {
+    console.error('End recurring schedule error:', error)
+    res.status(500).json({ error: 'Failed to end recurring schedule' })
+  }
+})
+
+export default router
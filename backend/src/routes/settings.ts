@@ -3,6 +3,7 @@ import { z } from 'zod'
 import { prisma } from '../lib/prisma.js'
 import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.js'
 import { clearMaintenanceCache } from '../middleware/maintenance.js'
+import { notifyAllUsers } from '../services/notifications.js'
 
 const router = Router()
 
@@ -65,6 +66,7 @@ router.put('/:key', authenticate, requireAdmin, async (req: AuthRequest, res: Re
     }
 
     const { value } = validation.data
+    const previous = await prisma.systemSettings.findUnique({ where: { key } })
 
     // Upsert the setting
     const setting = await prisma.systemSettings.upsert({
@@ -85,6 +87,15 @@ router.put('/:key', authenticate, requireAdmin, async (req: AuthRequest, res: Re
       clearMaintenanceCache()
     }
 
+    // Announce a newly scheduled maintenance window to everyone
+    if (key === 'maintenance_window' && value !== previous?.value) {
+      await notifyAllUsers({
+        type: 'maintenance',
+        title: 'Scheduled maintenance',
+        body: value,
+      })
+    }
+
     res.json({ key: setting.key, value: setting.value })
   } catch (error) {
     console.error('Update setting error:', error)
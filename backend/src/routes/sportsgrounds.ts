@@ -1,11 +1,30 @@
-import { Router, Response } from 'express'
+import express, { Router, Response } from 'express'
+import { Prisma } from '@prisma/client'
 import { z } from 'zod'
+import { findFieldConflicts } from 'xactline-shared/field-conflicts'
+import { EXCLUSION_ZONE_KINDS, findSiteIssues, siteLayoutOf } from 'xactline-shared/site-layout'
 import { prisma } from '../lib/prisma.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
+import { detectFieldOutline, matchTemplate, FieldImportError } from '../lib/field-import.js'
+import { ensureCurrentVersion } from '../lib/template-versions.js'
+import { recordRevision } from '../lib/configuration-revisions.js'
 
 const router = Router()
 
 // Validation schemas
+const polygonSchema = z
+  .array(z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  }))
+  .min(3, 'A polygon needs at least three points')
+
+const exclusionZoneSchema = z.object({
+  name: z.string().min(1, 'Zone name is required'),
+  kind: z.enum(EXCLUSION_ZONE_KINDS),
+  points: polygonSchema,
+})
+
 const createSportsgroundSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   address: z.string().min(1, 'Address is required'),
@@ -13,10 +32,21 @@ const createSportsgroundSchema = z.object({
   longitude: z.number().min(-180).max(180),
   defaultZoom: z.number().min(1).max(22).optional(),
   notes: z.string().optional(),
+  boundary: polygonSchema.nullable().optional(),
+  exclusionZones: z.array(exclusionZoneSchema).optional(),
 })
 
 const updateSportsgroundSchema = createSportsgroundSchema.partial()
 
+const importQuerySchema = z.object({
+  name: z.string().min(1).optional(),
+  sport: z.string().min(1).optional(),
+})
+
+// Surveyed outlines are uploaded as the raw file body, which can be larger than
+// the default JSON limit
+const importBodyParser = express.text({ type: () => true, limit: '5mb' })
+
 // GET /api/sportsgrounds - List user's sportsgrounds
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -43,7 +73,7 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
       })
     }
 
-    const { name, address, latitude, longitude, defaultZoom, notes } = validation.data
+    const { name, address, latitude, longitude, defaultZoom, notes, boundary, exclusionZones } = validation.data
 
     const sportsground = await prisma.sportsground.create({
       data: {
@@ -54,6 +84,8 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
         longitude,
         defaultZoom: defaultZoom || 18,
         notes,
+        boundary: boundary ?? undefined,
+        exclusionZones,
       },
     })
 
@@ -92,6 +124,43 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
+// GET /api/sportsgrounds/:id/conflicts - Fields on the ground that overlap or crowd each other's run-off
+router.get('/:id/conflicts', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+
+    const sportsground = await prisma.sportsground.findFirst({
+      where: {
+        id,
+        userId: req.userId,
+      },
+      include: {
+        configurations: {
+          include: { complianceProfile: true },
+          orderBy: { name: 'asc' },
+        },
+      },
+    })
+
+    if (!sportsground) {
+      return res.status(404).json({ error: 'Sportsground not found' })
+    }
+
+    const conflicts = findFieldConflicts(sportsground.configurations.map((configuration) => ({
+      ...configuration,
+      runOff: configuration.complianceProfile && {
+        sides: configuration.complianceProfile.runOffSides,
+        ends: configuration.complianceProfile.runOffEnds,
+      },
+    })))
+
+    res.json({ fieldCount: sportsground.configurations.length, conflicts })
+  } catch (error) {
+    console.error('Get sportsground conflicts error:', error)
+    res.status(500).json({ error: 'Failed to check sportsground conflicts' })
+  }
+})
+
 // PUT /api/sportsgrounds/:id - Update sportsground
 router.put('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -113,18 +182,118 @@ router.put('/:id', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Sportsground not found' })
     }
 
+    const { boundary, ...data } = validation.data
     const sportsground = await prisma.sportsground.update({
       where: { id },
-      data: validation.data,
+      data: {
+        ...data,
+        // null clears a drawn boundary
+        boundary: boundary === null ? Prisma.DbNull : boundary,
+      },
+      include: {
+        configurations: {
+          select: {
+            id: true,
+            name: true,
+            latitude: true,
+            longitude: true,
+            rotationDegrees: true,
+            lengthMeters: true,
+            widthMeters: true,
+          },
+        },
+      },
     })
 
-    res.json(sportsground)
+    // Fields already laid out that the new boundary or zones leave stranded
+    const site = siteLayoutOf(sportsground)
+    const { configurations, ...updated } = sportsground
+    const fieldsOutside = configurations
+      .map((configuration) => ({
+        id: configuration.id,
+        name: configuration.name,
+        issues: findSiteIssues(site, configuration),
+      }))
+      .filter((field) => field.issues.length > 0)
+
+    res.json({ ...updated, fieldsOutside })
   } catch (error) {
     console.error('Update sportsground error:', error)
     res.status(500).json({ error: 'Failed to update sportsground' })
   }
 })
 
+// POST /api/sportsgrounds/:id/import?sport=&name= - Create a draft configuration
+// from a GeoJSON or KML field outline sent as the request body
+router.post('/:id/import', authenticate, importBodyParser, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const query = importQuerySchema.safeParse(req.query)
+    if (!query.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: query.error.errors
+      })
+    }
+
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return res.status(400).json({ error: 'Upload a GeoJSON or KML file' })
+    }
+
+    const sportsground = await prisma.sportsground.findFirst({
+      where: { id, userId: req.userId },
+    })
+
+    if (!sportsground) {
+      return res.status(404).json({ error: 'Sportsground not found' })
+    }
+
+    const outline = detectFieldOutline(req.body)
+    const templates = await prisma.fieldTemplate.findMany({ where: { isActive: true } })
+    const { template, warnings } = matchTemplate(templates, outline, query.data.sport)
+    const templateVersion = await ensureCurrentVersion(prisma, template)
+
+    const configuration = await prisma.fieldConfiguration.create({
+      data: {
+        userId: req.userId!,
+        sportsgroundId: sportsground.id,
+        templateId: template.id,
+        templateVersionId: templateVersion.id,
+        name: query.data.name || `Imported ${template.name}`,
+        latitude: outline.latitude,
+        longitude: outline.longitude,
+        rotationDegrees: outline.rotationDegrees,
+        lengthMeters: outline.lengthMeters,
+        widthMeters: outline.widthMeters,
+        lineColor: 'white',
+        isDraft: true,
+      },
+      include: {
+        template: {
+          select: {
+            id: true,
+            name: true,
+            sport: true,
+          },
+        },
+      },
+    })
+
+    await prisma.$transaction((tx) => recordRevision(tx, configuration, req.userId))
+
+    // Imported fields are drafts, so they are saved even if they break the site layout
+    const siteIssues = findSiteIssues(siteLayoutOf(sportsground), outline)
+
+    res.status(201).json({ configuration, outline, warnings: [...warnings, ...siteIssues] })
+  } catch (error) {
+    if (error instanceof FieldImportError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Import field layout error:', error)
+    res.status(500).json({ error: 'Failed to import field layout' })
+  }
+})
+
 // DELETE /api/sportsgrounds/:id - Delete sportsground
 router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
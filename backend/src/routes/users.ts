@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs'
 import { z } from 'zod'
 import { prisma } from '../lib/prisma.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
+import { NOTIFICATION_CATEGORY_KEYS } from '../services/booking-notifications.js'
 
 const router = Router()
 
@@ -11,6 +12,7 @@ const updateProfileSchema = z.object({
   fullName: z.string().min(1, 'Full name is required').optional(),
   phone: z.string().min(1, 'Phone number is required').optional(),
   organization: z.string().optional(),
+  notificationOptOuts: z.array(z.enum(NOTIFICATION_CATEGORY_KEYS)).optional(),
 })
 
 const changePasswordSchema = z.object({
@@ -31,6 +33,7 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
         organization: true,
         role: true,
         emailVerified: true,
+        notificationOptOuts: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -71,6 +74,7 @@ router.put('/me', authenticate, async (req: AuthRequest, res: Response) => {
         organization: true,
         role: true,
         emailVerified: true,
+        notificationOptOuts: true,
         createdAt: true,
         updatedAt: true,
       },
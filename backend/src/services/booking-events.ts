@@ -0,0 +1,52 @@
+import { EventEmitter } from 'node:events'
+
+// In-process feed of booking changes, streamed to browsers as server-sent
+// events by src/routes/events.ts. Routes publish after their transaction has
+// committed. This only reaches clients connected to the same API process; a
+// multi-instance deployment would need a shared channel such as Postgres
+// LISTEN/NOTIFY.
+
+export type BookingEventType = 'booking.created' | 'booking.updated' | 'booking.status'
+
+export interface BookingEvent {
+  type: BookingEventType
+  bookingId: string
+  bookingGroupId: string | null
+  // Booking owner, so customer streams only carry their own bookings
+  userId: string
+  status: string
+  updatedAt: string
+  actorId: string | null
+}
+
+interface PublishableBooking {
+  id: string
+  bookingGroupId: string | null
+  userId: string
+  status: string
+  updatedAt: Date
+}
+
+const emitter = new EventEmitter()
+// One listener per open stream
+emitter.setMaxListeners(0)
+
+export function publishBookingEvent(type: BookingEventType, booking: PublishableBooking, actorId?: string) {
+  const event: BookingEvent = {
+    type,
+    bookingId: booking.id,
+    bookingGroupId: booking.bookingGroupId,
+    userId: booking.userId,
+    status: booking.status,
+    updatedAt: booking.updatedAt.toISOString(),
+    actorId: actorId ?? null,
+  }
+  emitter.emit('booking', event)
+}
+
+export function subscribeToBookingEvents(listener: (event: BookingEvent) => void) {
+  emitter.on('booking', listener)
+  return () => {
+    emitter.off('booking', listener)
+  }
+}
@@ -0,0 +1,150 @@
+import { prisma } from '../lib/prisma.js'
+import type { BookingTransition } from '../lib/booking-status.js'
+import { hasStatusEmail, sendBookingStatusEmail } from './email.js'
+import { hasSmsTemplate, sendBookingSms, SmsBookingDetails } from './sms.js'
+import { notifyUser } from './notifications.js'
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:9500'
+
+// Categories a customer can opt out of from their profile, and the statuses each covers
+export const NOTIFICATION_CATEGORIES = {
+  booking_confirmations: ['confirmed', 'scheduled'],
+  booking_changes: ['rescheduled', 'cancelled', 'declined'],
+  booking_progress: ['in_progress', 'completed'],
+} as const
+
+export type NotificationCategory = keyof typeof NOTIFICATION_CATEGORIES
+
+export const NOTIFICATION_CATEGORY_KEYS = Object.keys(NOTIFICATION_CATEGORIES) as [
+  NotificationCategory,
+  ...NotificationCategory[],
+]
+
+export function notificationCategory(status: string): NotificationCategory | null {
+  const entry = Object.entries(NOTIFICATION_CATEGORIES).find(([, statuses]) =>
+    (statuses as readonly string[]).includes(status)
+  )
+  return entry ? (entry[0] as NotificationCategory) : null
+}
+
+// contactPreference picks the channels: "email", "phone" (SMS) or "both"
+export function wantsEmail(contactPreference: string): boolean {
+  return contactPreference === 'email' || contactPreference === 'both'
+}
+
+export function wantsSms(contactPreference: string): boolean {
+  return contactPreference === 'phone' || contactPreference === 'both'
+}
+
+// Text customers who asked for phone contact that their request arrived; the
+// acknowledgement email is sent by the booking routes regardless
+export async function notifyBookingReceived(phone: string, contactPreference: string, details: SmsBookingDetails) {
+  if (wantsSms(contactPreference)) {
+    await sendBookingSms(phone, 'received', details)
+  }
+}
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ')
+
+// Tell the customer about a booking status change, in the app and by email or
+// SMS. Call after the transition's transaction has committed; failures are
+// logged rather than thrown so a mail or SMS problem never fails the status
+// change itself.
+export async function notifyBookingTransition(transition: BookingTransition) {
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: transition.bookingId },
+      include: {
+        user: { select: { id: true, email: true, fullName: true, phone: true, notificationOptOuts: true } },
+        configuration: {
+          select: { name: true, sportsground: { select: { name: true } } },
+        },
+        bookingGroup: {
+          include: {
+            sportsground: { select: { name: true } },
+            bookings: {
+              orderBy: { createdAt: 'asc' },
+              select: { referenceNumber: true, status: true, configuration: { select: { name: true } } },
+            },
+          },
+        },
+      },
+    })
+    if (!booking) return
+
+    // Customers aren't told about changes they made themselves
+    if (transition.actorId === booking.user.id) return
+
+    const group = booking.bookingGroup
+    const groupChange = transition.group
+
+    // When this change moves the whole group to the same status, one message
+    // about the group covers it
+    const notice = group && groupChange && groupChange.from !== groupChange.to && groupChange.to === transition.to
+      ? {
+          status: groupChange.to,
+          label: 'Booking group',
+          contactPreference: group.contactPreference,
+          referenceNumber: group.groupReferenceNumber,
+          sportsgroundName: group.sportsground.name,
+          date: group.defaultPreferredDate,
+          time: group.defaultPreferredTime,
+          fields: group.bookings.map((b) => ({
+            referenceNumber: b.referenceNumber,
+            name: b.configuration.name,
+            status: b.status,
+          })),
+          path: '/dashboard/bookings',
+        }
+      : {
+          status: transition.to,
+          label: 'Booking',
+          contactPreference: booking.contactPreference,
+          referenceNumber: booking.referenceNumber,
+          sportsgroundName: booking.configuration.sportsground.name,
+          date: booking.preferredDate,
+          time: booking.preferredTime,
+          fields: [],
+          path: `/dashboard/bookings/${booking.id}`,
+        }
+
+    await notifyUser(booking.user.id, {
+      type: 'booking_status',
+      title: `${notice.label} ${notice.referenceNumber} ${formatStatus(notice.status)}`,
+      body: transition.reason,
+      link: notice.path,
+    })
+
+    if (!hasStatusEmail(notice.status)) return
+
+    const category = notificationCategory(notice.status)
+    if (category && booking.user.notificationOptOuts.includes(category)) return
+
+    if (wantsEmail(notice.contactPreference)) {
+      await sendBookingStatusEmail({
+        to: booking.user.email,
+        customerName: booking.user.fullName,
+        status: notice.status,
+        reason: transition.reason,
+        referenceNumber: notice.referenceNumber,
+        sportsgroundName: notice.sportsgroundName,
+        preferredDate: notice.date.toLocaleDateString(),
+        preferredTime: notice.time,
+        fields: notice.fields,
+        url: `${FRONTEND_URL}${notice.path}`,
+      })
+    }
+
+    if (wantsSms(notice.contactPreference) && hasSmsTemplate(notice.status)) {
+      await sendBookingSms(booking.user.phone, notice.status, {
+        referenceNumber: notice.referenceNumber,
+        sportsgroundName: notice.sportsgroundName,
+        date: notice.date,
+        time: notice.time,
+        fieldCount: Math.max(notice.fields.length, 1),
+      })
+    }
+  } catch (error) {
+    console.error('Failed to send booking status notification:', error)
+  }
+}
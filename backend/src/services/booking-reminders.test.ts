@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakePrisma, type FakePrisma } from '../test/fake-prisma.js'
+import { createFakeSmsProvider, setSmsProvider } from './sms.js'
+import { sendDayBeforeReminders } from './booking-reminders.js'
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }))
+vi.mock('../lib/prisma.js', () => ({
+  get prisma() {
+    return db.current
+  },
+}))
+
+// 10am local time, after the default 9am SMS_REMINDER_HOUR
+const NOW = new Date(2026, 9, 19, 10, 0)
+const TOMORROW = new Date(Date.UTC(2026, 9, 20))
+const NEXT_WEEK = new Date(Date.UTC(2026, 9, 26))
+
+let sequence = 0
+
+function booking(overrides: Record<string, unknown> = {}) {
+  sequence++
+  return {
+    id: `booking-${sequence}`,
+    referenceNumber: `XL-${1000 + sequence}`,
+    status: 'confirmed',
+    contactPreference: 'phone',
+    reminderSentAt: null,
+    preferredDate: TOMORROW,
+    preferredTime: 'morning',
+    createdAt: new Date(2026, 9, 1),
+    bookingGroupId: null,
+    bookingGroup: null,
+    user: { phone: '0412 345 678' },
+    configuration: { sportsground: { name: 'Memorial Oval' } },
+    ...overrides,
+  }
+}
+
+describe('sendDayBeforeReminders', () => {
+  const sms = createFakeSmsProvider()
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    sms.clear()
+    setSmsProvider(sms)
+  })
+
+  it('texts customers who chose phone contact about confirmed work tomorrow', async () => {
+    const due = booking()
+    const both = booking({ contactPreference: 'both', status: 'scheduled', user: { phone: '+61 498 765 432' } })
+    db.current = createFakePrisma({ booking: [due, both] })
+
+    expect(await sendDayBeforeReminders(NOW)).toBe(2)
+
+    expect(sms.sent.map((m) => m.to)).toEqual(['+61412345678', '+61498765432'])
+    expect(sms.sent[0].body).toContain('marking your field at Memorial Oval tomorrow')
+    expect(sms.sent[0].body).toContain(due.referenceNumber)
+    expect(due.reminderSentAt).toBeInstanceOf(Date)
+    expect(both.reminderSentAt).toBeInstanceOf(Date)
+  })
+
+  it('skips bookings that are not due a reminder', async () => {
+    const rows = [
+      booking({ contactPreference: 'email' }),
+      booking({ reminderSentAt: new Date(2026, 9, 18, 9) }),
+      booking({ preferredDate: NEXT_WEEK }),
+      booking({ preferredDate: new Date(Date.UTC(2026, 9, 19)) }),
+      booking({ status: 'pending' }),
+      booking({ status: 'cancelled' }),
+      booking({ status: 'completed' }),
+    ]
+    db.current = createFakePrisma({ booking: rows })
+
+    expect(await sendDayBeforeReminders(NOW)).toBe(0)
+    expect(sms.sent).toHaveLength(0)
+  })
+
+  it('sends one reminder for a booking group, under the group reference', async () => {
+    const group = { bookingGroupId: 'group-1', bookingGroup: { groupReferenceNumber: 'XG-2001' } }
+    const rows = [booking(group), booking(group), booking(group)]
+    db.current = createFakePrisma({ booking: rows })
+
+    expect(await sendDayBeforeReminders(NOW)).toBe(1)
+
+    expect(sms.sent).toHaveLength(1)
+    expect(sms.sent[0].body).toContain('marking 3 fields')
+    expect(sms.sent[0].body).toContain('XG-2001')
+    expect(rows.every((row) => row.reminderSentAt instanceof Date)).toBe(true)
+  })
+
+  it('leaves bookings it could not text to be retried', async () => {
+    const invalid = booking({ user: { phone: '12' } })
+    db.current = createFakePrisma({ booking: [invalid] })
+
+    expect(await sendDayBeforeReminders(NOW)).toBe(0)
+    expect(sms.sent).toHaveLength(0)
+    expect(invalid.reminderSentAt).toBeNull()
+  })
+
+  it('waits until the reminder hour', async () => {
+    const due = booking()
+    db.current = createFakePrisma({ booking: [due] })
+
+    expect(await sendDayBeforeReminders(new Date(2026, 9, 19, 7, 30))).toBe(0)
+    expect(sms.sent).toHaveLength(0)
+    expect(due.reminderSentAt).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import { prisma } from '../lib/prisma.js'
+import { wantsSms } from './booking-notifications.js'
+import { sendBookingSms } from './sms.js'
+
+// Day-before SMS reminders for customers who chose phone contact. The worker
+// checks hourly but only sends from SMS_REMINDER_HOUR (server local time) so
+// nobody is texted overnight, and Booking.reminderSentAt stops repeats.
+// Bookings in a group share one reminder.
+
+const REMINDER_HOUR = parseInt(process.env.SMS_REMINDER_HOUR || '9')
+const CHECK_INTERVAL_MS = 60 * 60 * 1000
+const REMINDER_STATUSES = ['confirmed', 'scheduled']
+
+// Booking dates are stored as midnight UTC of the chosen day
+function tomorrow(now: Date) {
+  const start = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate() + 1))
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) }
+}
+
+// Returns the number of reminders sent
+export async function sendDayBeforeReminders(now = new Date()): Promise<number> {
+  if (now.getHours() < REMINDER_HOUR) return 0
+
+  const { start, end } = tomorrow(now)
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: REMINDER_STATUSES },
+      reminderSentAt: null,
+      preferredDate: { gte: start, lt: end },
+    },
+    include: {
+      user: { select: { phone: true } },
+      configuration: { select: { sportsground: { select: { name: true } } } },
+      bookingGroup: { select: { groupReferenceNumber: true } },
+    },
+    orderBy: [{ preferredTime: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  const batches = new Map<string, typeof bookings>()
+  for (const booking of bookings) {
+    if (!wantsSms(booking.contactPreference)) continue
+    const key = booking.bookingGroupId ?? booking.id
+    batches.set(key, [...(batches.get(key) ?? []), booking])
+  }
+
+  let sent = 0
+  for (const batch of batches.values()) {
+    const [first] = batch
+    const ok = await sendBookingSms(first.user.phone, 'reminder', {
+      referenceNumber: first.bookingGroup?.groupReferenceNumber ?? first.referenceNumber,
+      sportsgroundName: first.configuration.sportsground.name,
+      date: first.preferredDate,
+      time: first.preferredTime,
+      fieldCount: batch.length,
+    })
+    if (!ok) continue
+
+    await prisma.booking.updateMany({
+      where: { id: { in: batch.map((b) => b.id) } },
+      data: { reminderSentAt: new Date() },
+    })
+    sent++
+  }
+  return sent
+}
+
+export function startReminderWorker() {
+  const tick = async () => {
+    try {
+      await sendDayBeforeReminders()
+    } catch (error) {
+      console.error('Reminder worker error:', error)
+    }
+  }
+
+  const timer = setInterval(tick, CHECK_INTERVAL_MS)
+  timer.unref()
+  void tick()
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,121 @@
+import { prisma } from '../lib/prisma.js'
+import { createEmailTransport, EmailTransport } from './email-transport.js'
+
+// Durable outbound email. Request handlers only write to the email_outbox
+// table; a polling worker delivers messages through the configured transport,
+// retrying failures with exponential backoff until MAX_ATTEMPTS, after which
+// the message is dead-lettered for an admin to inspect and resend.
+
+export const EMAIL_STATUSES = ['pending', 'sending', 'sent', 'dead'] as const
+
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '6')
+const POLL_INTERVAL_MS = parseInt(process.env.EMAIL_POLL_INTERVAL_MS || '5000')
+const BATCH_SIZE = 10
+const BASE_BACKOFF_MS = 60 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+// A message left in "sending" this long belongs to a worker that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000
+
+// 1 minute after the first failure, doubling up to an hour
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+}
+
+export async function enqueueEmail(to: string, subject: string, html: string) {
+  return prisma.emailOutbox.create({
+    data: { to, subject, html },
+  })
+}
+
+async function deliver(transport: EmailTransport, id: string) {
+  // Claim the message so a second worker can't send it too
+  const claimed = await prisma.emailOutbox.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'sending' },
+  })
+  if (claimed.count === 0) return
+
+  const message = await prisma.emailOutbox.findUniqueOrThrow({ where: { id } })
+  const attempts = message.attempts + 1
+
+  try {
+    await transport.send(message)
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: { status: 'sent', attempts, sentAt: new Date(), lastError: null, transport: transport.name },
+    })
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error)
+    const dead = attempts >= MAX_ATTEMPTS
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        lastError,
+        transport: transport.name,
+        nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+      },
+    })
+    console.error(
+      dead
+        ? `Email ${id} to ${message.to} dead-lettered after ${attempts} attempts: ${lastError}`
+        : `Email ${id} to ${message.to} failed (attempt ${attempts}), retrying: ${lastError}`
+    )
+  }
+}
+
+// Deliver everything that is due. Returns the number of messages attempted.
+export async function processOutbox(transport: EmailTransport): Promise<number> {
+  await prisma.emailOutbox.updateMany({
+    where: { status: 'sending', updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+    data: { status: 'pending' },
+  })
+
+  const due = await prisma.emailOutbox.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+    select: { id: true },
+  })
+
+  for (const { id } of due) {
+    await deliver(transport, id)
+  }
+  return due.length
+}
+
+// Put a dead (or stuck) message back in the queue for immediate delivery
+export async function resendEmail(id: string) {
+  return prisma.emailOutbox.update({
+    where: { id },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+  })
+}
+
+export function startEmailWorker() {
+  const transport = createEmailTransport()
+  let running = false
+
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      // Keep going while full batches come back so a backlog drains quickly
+      let attempted
+      do {
+        attempted = await processOutbox(transport)
+      } while (attempted === BATCH_SIZE)
+    } catch (error) {
+      console.error('Email worker error:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  console.log(`Email worker started using the ${transport.name} transport`)
+  const timer = setInterval(tick, POLL_INTERVAL_MS)
+  timer.unref()
+  void tick()
+  return () => clearInterval(timer)
+}
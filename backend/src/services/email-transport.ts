@@ -0,0 +1,117 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import nodemailer from 'nodemailer'
+
+// Delivery backends for the email outbox. Pick one with EMAIL_TRANSPORT:
+//   resend  - Resend HTTP API (RESEND_API_KEY)
+//   smtp    - any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+//   file    - writes each message as an .html file under EMAIL_SINK_DIR for offline testing
+//   console - logs the recipient and subject only
+// Without EMAIL_TRANSPORT, Resend is used when an API key is set and the
+// console otherwise.
+
+export interface OutgoingEmail {
+  id: string
+  to: string
+  subject: string
+  html: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: OutgoingEmail): Promise<void>
+}
+
+const FROM_EMAIL = process.env.EMAIL_FROM || 'onboarding@resend.dev'
+const FROM_NAME = process.env.FROM_NAME || 'XACTLINE'
+const FROM = `${FROM_NAME} <${FROM_EMAIL}>`
+
+function resendTransport(apiKey: string): EmailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: FROM,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Resend API error (${response.status}): ${error}`)
+      }
+    },
+  }
+}
+
+function smtpTransport(): EmailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587')
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: FROM,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+      })
+    },
+  }
+}
+
+function fileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const file = path.join(directory, `${stamp}-${message.id}.html`)
+      const header = `<!--\nTo: ${message.to}\nFrom: ${FROM}\nSubject: ${message.subject}\n-->\n`
+      await writeFile(file, header + message.html, 'utf8')
+      console.log(`Email to ${message.to} written to ${file}`)
+    },
+  }
+}
+
+function consoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`Would send email to ${message.to}: ${message.subject}`)
+    },
+  }
+}
+
+export function createEmailTransport(): EmailTransport {
+  const apiKey = process.env.RESEND_API_KEY
+  const kind = process.env.EMAIL_TRANSPORT || (apiKey ? 'resend' : 'console')
+
+  switch (kind) {
+    case 'resend':
+      if (!apiKey) throw new Error('EMAIL_TRANSPORT=resend requires RESEND_API_KEY')
+      return resendTransport(apiKey)
+    case 'smtp':
+      return smtpTransport()
+    case 'file':
+      return fileTransport(process.env.EMAIL_SINK_DIR || path.resolve('tmp', 'emails'))
+    case 'console':
+      return consoleTransport()
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}" (expected resend, smtp, file or console)`)
+  }
+}
@@ -1,8 +1,6 @@
 import { prisma } from '../lib/prisma.js'
+import { enqueueEmail } from './email-outbox.js'
 
-const RESEND_API_KEY = process.env.RESEND_API_KEY
-const FROM_EMAIL = process.env.EMAIL_FROM || 'onboarding@resend.dev'
-const FROM_NAME = process.env.FROM_NAME || 'XACTLINE'
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:9500'
 
 // Get provider email from database settings, falling back to env var
@@ -18,34 +16,10 @@ export async function getProviderEmail(): Promise<string> {
   }
 }
 
-// Send email using Resend API
+// Queue an email for delivery by the outbox worker, so a slow or failing
+// mail provider never holds up the request that triggered it
 async function sendEmail(to: string, subject: string, html: string) {
-  if (!RESEND_API_KEY) {
-    console.log('RESEND_API_KEY not configured, skipping email send')
-    console.log(`Would send email to ${to}: ${subject}`)
-    return
-  }
-
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${RESEND_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      from: `${FROM_NAME} <${FROM_EMAIL}>`,
-      to: [to],
-      subject,
-      html,
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Resend API error: ${error}`)
-  }
-
-  return response.json()
+  return enqueueEmail(to, subject, html)
 }
 
 // Email templates
@@ -88,7 +62,7 @@ export async function sendVerificationEmail(email: string, token: string) {
 
   try {
     await sendEmail(email, 'Verify your XACTLINE account', html)
-    console.log(`Verification email sent to ${email}`)
+    console.log(`Verification email queued for ${email}`)
   } catch (error) {
     console.error('Failed to send verification email:', error)
     // Don't throw - email sending shouldn't break registration
@@ -135,7 +109,7 @@ export async function sendPasswordResetEmail(email: string, token: string) {
 
   try {
     await sendEmail(email, 'Reset your XACTLINE password', html)
-    console.log(`Password reset email sent to ${email}`)
+    console.log(`Password reset email queued for ${email}`)
   } catch (error) {
     console.error('Failed to send password reset email:', error)
   }
@@ -148,6 +122,8 @@ interface BookingConfirmationData {
   sportsgroundName: string
   sportsgroundAddress: string
   templateName: string
+  // Competition level the field is laid out for, when one was chosen
+  complianceProfile?: string | null
   dimensions: string
   lineColor: string
   preferredDate: string
@@ -200,6 +176,12 @@ export async function sendBookingConfirmationEmail(data: BookingConfirmationData
               <span class="details-label">Field Type:</span>
               <span>${data.templateName}</span>
             </div>
+            ${data.complianceProfile ? `
+            <div class="details-row">
+              <span class="details-label">Compliance:</span>
+              <span>${data.complianceProfile}</span>
+            </div>
+            ` : ''}
             <div class="details-row">
               <span class="details-label">Dimensions:</span>
               <span>${data.dimensions}</span>
@@ -237,7 +219,7 @@ export async function sendBookingConfirmationEmail(data: BookingConfirmationData
 
   try {
     await sendEmail(data.to, `Booking Request Received - ${data.referenceNumber}`, html)
-    console.log(`Booking confirmation email sent to ${data.to}`)
+    console.log(`Booking confirmation email queued for ${data.to}`)
   } catch (error) {
     console.error('Failed to send booking confirmation email:', error)
   }
@@ -254,6 +236,8 @@ interface ProviderNotificationData {
   latitude: number
   longitude: number
   templateName: string
+  // Competition level the field is laid out for, when one was chosen
+  complianceProfile?: string | null
   dimensions: string
   rotation: number
   lineColor: string
@@ -323,6 +307,7 @@ export async function sendProviderNotificationEmail(data: ProviderNotificationDa
           <div class="section">
             <h3>Field Configuration</h3>
             <div class="row"><span class="label">Template:</span> ${data.templateName}</div>
+            ${data.complianceProfile ? `<div class="row"><span class="label">Compliance:</span> ${data.complianceProfile}</div>` : ''}
             <div class="row"><span class="label">Dimensions:</span> ${data.dimensions}</div>
             <div class="row"><span class="label">Rotation:</span> ${data.rotation}°</div>
             <div class="row"><span class="label">Line Color:</span> ${data.lineColor}</div>
@@ -351,7 +336,7 @@ export async function sendProviderNotificationEmail(data: ProviderNotificationDa
   for (const recipient of recipients) {
     try {
       await sendEmail(recipient, `[NEW BOOKING] ${data.referenceNumber} - ${data.sportsgroundName}`, html)
-      console.log(`Provider notification email sent to ${recipient} for ${data.referenceNumber}`)
+      console.log(`Provider notification email queued for ${recipient} for ${data.referenceNumber}`)
     } catch (error) {
       console.error(`Failed to send provider notification email to ${recipient}:`, error)
     }
@@ -416,7 +401,7 @@ export async function sendAdminInvitationEmail(email: string, token: string, inv
 
   try {
     await sendEmail(email, 'You are invited to join XACTLINE as an Administrator', html)
-    console.log(`Admin invitation email sent to ${email}`)
+    console.log(`Admin invitation email queued for ${email}`)
   } catch (error) {
     console.error('Failed to send admin invitation email:', error)
     throw error // Re-throw to let the caller handle it
@@ -480,9 +465,166 @@ export async function sendUserInvitationEmail(email: string, token: string, invi
 
   try {
     await sendEmail(email, 'You are invited to join XACTLINE', html)
-    console.log(`User invitation email sent to ${email}`)
+    console.log(`User invitation email queued for ${email}`)
   } catch (error) {
     console.error('Failed to send user invitation email:', error)
     throw error // Re-throw to let the caller handle it
   }
 }
+
+// Customer-facing wording for each booking status change
+const STATUS_EMAIL_COPY: Record<string, { subject: string; heading: string; intro: string; color: string }> = {
+  confirmed: {
+    subject: 'Booking Confirmed',
+    heading: 'Your Booking is Confirmed',
+    intro: 'Good news: we have confirmed your line marking booking.',
+    color: '#2563eb',
+  },
+  scheduled: {
+    subject: 'Crew Scheduled',
+    heading: 'Your Crew is Scheduled',
+    intro: 'A line marking crew has been scheduled for your booking.',
+    color: '#4f46e5',
+  },
+  in_progress: {
+    subject: 'Marking Under Way',
+    heading: 'Marking Under Way',
+    intro: 'Our crew is on site and has started marking your field.',
+    color: '#7c3aed',
+  },
+  completed: {
+    subject: 'Marking Completed',
+    heading: 'Your Field is Marked',
+    intro: 'Our crew has finished marking your field. Thank you for choosing XACTLINE.',
+    color: '#16a34a',
+  },
+  rescheduled: {
+    subject: 'Booking Rescheduled',
+    heading: 'Your Booking Needs a New Date',
+    intro: 'We need to reschedule your booking. We will confirm the new date with you shortly.',
+    color: '#ea580c',
+  },
+  cancelled: {
+    subject: 'Booking Cancelled',
+    heading: 'Your Booking has been Cancelled',
+    intro: 'Your line marking booking has been cancelled.',
+    color: '#dc2626',
+  },
+  declined: {
+    subject: 'Booking Declined',
+    heading: 'We are Unable to Take This Booking',
+    intro: 'Unfortunately we are unable to take on this booking.',
+    color: '#4b5563',
+  },
+}
+
+export function hasStatusEmail(status: string): boolean {
+  return status in STATUS_EMAIL_COPY
+}
+
+interface BookingStatusEmailData {
+  to: string
+  customerName: string
+  status: string
+  reason?: string | null
+  referenceNumber: string
+  sportsgroundName: string
+  preferredDate: string
+  preferredTime: string
+  // One entry per field for a booking group; empty for a single booking
+  fields: Array<{ referenceNumber: string; name: string; status: string }>
+  url: string
+}
+
+export async function sendBookingStatusEmail(data: BookingStatusEmailData) {
+  const copy = STATUS_EMAIL_COPY[data.status]
+  if (!copy) return
+
+  const fieldRows = data.fields
+    .map((field) => `
+            <div class="details-row">
+              <span class="details-label">${field.referenceNumber}</span>
+              <span>${field.name} (${field.status.replace(/_/g, ' ')})</span>
+            </div>`)
+    .join('')
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: ${copy.color}; color: white; padding: 20px; text-align: center; }
+        .content { padding: 30px; background: #f9f9f9; }
+        .details { background: white; padding: 20px; border-radius: 6px; margin: 20px 0; }
+        .details-row { display: flex; padding: 8px 0; border-bottom: 1px solid #eee; }
+        .details-label { font-weight: bold; width: 150px; }
+        .reason { background: #fff7ed; padding: 15px; border-radius: 6px; border-left: 4px solid ${copy.color}; margin: 20px 0; }
+        .button { display: inline-block; padding: 12px 24px; background: ${copy.color}; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>XACTLINE</h1>
+        </div>
+        <div class="content">
+          <h2>${copy.heading}</h2>
+          <p>Hi ${data.customerName},</p>
+          <p>${copy.intro}</p>
+
+          ${data.reason ? `
+          <div class="reason">
+            <strong>Reason:</strong>
+            <p>${data.reason}</p>
+          </div>
+          ` : ''}
+
+          <div class="details">
+            <h3>Booking Details</h3>
+            <div class="details-row">
+              <span class="details-label">Reference:</span>
+              <span>${data.referenceNumber}</span>
+            </div>
+            <div class="details-row">
+              <span class="details-label">Location:</span>
+              <span>${data.sportsgroundName}</span>
+            </div>
+            <div class="details-row">
+              <span class="details-label">Date:</span>
+              <span>${data.preferredDate}</span>
+            </div>
+            <div class="details-row">
+              <span class="details-label">Time:</span>
+              <span>${data.preferredTime}</span>
+            </div>
+          </div>
+
+          ${fieldRows ? `
+          <div class="details">
+            <h3>Fields</h3>${fieldRows}
+          </div>
+          ` : ''}
+
+          <a href="${data.url}" class="button">View Booking</a>
+
+          <p>If you have any questions, please don't hesitate to contact us.</p>
+        </div>
+        <div class="footer">
+          <p>You can choose which booking updates you receive by email from your <a href="${FRONTEND_URL}/dashboard/profile">profile settings</a>.</p>
+          <p>&copy; ${new Date().getFullYear()} XACTLINE. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+
+  try {
+    await sendEmail(data.to, `${copy.subject} - ${data.referenceNumber}`, html)
+    console.log(`Booking status email (${data.status}) queued for ${data.to} for ${data.referenceNumber}`)
+  } catch (error) {
+    console.error('Failed to send booking status email:', error)
+  }
+}
@@ -0,0 +1,63 @@
+import { prisma } from '../lib/prisma.js'
+
+// In-app notifications shown under the navbar bell. Like the email helpers
+// these never throw, so a failed notification can't fail the request that
+// triggered it.
+
+export const NOTIFICATION_TYPES = [
+  'booking_created',
+  'booking_status',
+  'maintenance',
+  'invitation_accepted',
+  'weather_alert',
+] as const
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number]
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  body?: string | null
+  // Frontend path to open, e.g. /dashboard/bookings/<id>
+  link?: string
+}
+
+export async function notifyUsers(userIds: string[], input: NotificationInput) {
+  if (userIds.length === 0) return
+
+  try {
+    await prisma.notification.createMany({
+      data: userIds.map((userId) => ({ userId, ...input })),
+    })
+  } catch (error) {
+    console.error(`Failed to create ${input.type} notifications:`, error)
+  }
+}
+
+export async function notifyUser(userId: string, input: NotificationInput) {
+  await notifyUsers([userId], input)
+}
+
+export async function notifyAdmins(input: NotificationInput) {
+  try {
+    const admins = await prisma.user.findMany({
+      where: { role: { in: ['admin', 'super_admin'] }, suspended: false },
+      select: { id: true },
+    })
+    await notifyUsers(admins.map((a) => a.id), input)
+  } catch (error) {
+    console.error(`Failed to notify admins (${input.type}):`, error)
+  }
+}
+
+export async function notifyAllUsers(input: NotificationInput) {
+  try {
+    const users = await prisma.user.findMany({
+      where: { suspended: false },
+      select: { id: true },
+    })
+    await notifyUsers(users.map((u) => u.id), input)
+  } catch (error) {
+    console.error(`Failed to notify all users (${input.type}):`, error)
+  }
+}
@@ -0,0 +1,350 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma.js'
+import { AvailabilityError, assertBookable } from '../lib/availability.js'
+import { generateGroupReferenceNumber, generateReferenceNumber } from '../lib/booking-references.js'
+import { BookingTransition, transitionBooking } from '../lib/booking-status.js'
+import { publishBookingEvent } from './booking-events.js'
+import { notifyBookingTransition } from './booking-notifications.js'
+import { notifyAdmins, notifyUser } from './notifications.js'
+
+// Recurring line-marking. A schedule repeats every intervalDays from its
+// start date until the end of the season. The worker keeps pending bookings
+// generated RECURRING_HORIZON_DAYS ahead, so each occurrence goes through the
+// normal confirm/schedule lifecycle, appears on the calendars and can be
+// skipped individually. Occurrences the availability rules don't allow
+// (blackout dates, closed days, full days) are skipped and the customer told.
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'fortnightly', 'every_n_days'] as const
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number]
+
+export const SCHEDULE_STATUSES = ['active', 'paused', 'ended'] as const
+
+const HORIZON_DAYS = parseInt(process.env.RECURRING_HORIZON_DAYS || '28')
+const CHECK_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Generated bookings that haven't started and can still be called off
+const CANCELLABLE_STATUSES = ['pending', 'confirmed', 'scheduled', 'rescheduled']
+
+export class RecurringScheduleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurringScheduleError'
+  }
+}
+
+export function intervalFor(frequency: RecurrenceFrequency, intervalDays?: number): number {
+  if (frequency === 'weekly') return 7
+  if (frequency === 'fortnightly') return 14
+  if (!intervalDays || intervalDays < 1) {
+    throw new RecurringScheduleError('Choose how many days apart the occurrences are')
+  }
+  return intervalDays
+}
+
+interface Recurrence {
+  startDate: Date
+  endDate: Date
+  intervalDays: number
+}
+
+// Dates are stored as midnight UTC of the chosen day
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+const dayKey = (date: Date) => date.toISOString().split('T')[0]
+
+// Occurrences of the series between from and to (inclusive)
+export function occurrenceDates(recurrence: Recurrence, from: Date, to: Date): Date[] {
+  const start = recurrence.startDate.getTime()
+  const step = recurrence.intervalDays * DAY_MS
+  const last = Math.min(startOfDay(to).getTime(), recurrence.endDate.getTime())
+
+  const dates: Date[] = []
+  const first = Math.max(0, Math.ceil((startOfDay(from).getTime() - start) / step))
+  for (let time = start + first * step; time <= last; time += step) {
+    dates.push(new Date(time))
+  }
+  return dates
+}
+
+export function isOccurrence(recurrence: Recurrence, date: Date): boolean {
+  const offset = startOfDay(date).getTime() - recurrence.startDate.getTime()
+  return offset >= 0 &&
+    date <= recurrence.endDate &&
+    offset % (recurrence.intervalDays * DAY_MS) === 0
+}
+
+const scheduleInclude = {
+  configurations: { select: { id: true, name: true, isDraft: true } },
+  sportsground: { select: { id: true, name: true } },
+} satisfies Prisma.RecurringBookingScheduleInclude
+
+type ScheduleWithConfigurations = Prisma.RecurringBookingScheduleGetPayload<{ include: typeof scheduleInclude }>
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })
+
+// Create the bookings for one occurrence: one per field, grouped when the
+// schedule covers several. Returns false when the rules don't allow the date
+// or the occurrence already exists.
+async function createOccurrence(schedule: ScheduleWithConfigurations, date: Date): Promise<boolean> {
+  const configurations = schedule.configurations.filter((c) => !c.isDraft)
+  if (configurations.length === 0) return false
+
+  try {
+    const bookings = await prisma.$transaction(async (tx) => {
+      await assertBookable(tx, configurations.map(() => ({ date, time: schedule.preferredTime })))
+
+      // Bookings from an earlier skip of this date stay on record as cancelled,
+      // but no longer count as the schedule's occurrence
+      await tx.booking.updateMany({
+        where: {
+          recurringScheduleId: schedule.id,
+          configurationId: { in: configurations.map((c) => c.id) },
+          preferredDate: date,
+          status: { in: ['cancelled', 'declined'] },
+        },
+        data: { recurringScheduleId: null },
+      })
+
+      let bookingGroupId: string | null = null
+      if (configurations.length > 1) {
+        let groupReferenceNumber = generateGroupReferenceNumber()
+        while (await tx.bookingGroup.findUnique({ where: { groupReferenceNumber } })) {
+          groupReferenceNumber = generateGroupReferenceNumber()
+        }
+        const group = await tx.bookingGroup.create({
+          data: {
+            userId: schedule.userId,
+            sportsgroundId: schedule.sportsgroundId,
+            groupReferenceNumber,
+            defaultPreferredDate: date,
+            defaultPreferredTime: schedule.preferredTime,
+            notes: schedule.notes,
+            contactPreference: schedule.contactPreference,
+            status: 'pending',
+          },
+        })
+        bookingGroupId = group.id
+      }
+
+      const created = []
+      for (const configuration of configurations) {
+        let referenceNumber = generateReferenceNumber()
+        while (await tx.booking.findUnique({ where: { referenceNumber } })) {
+          referenceNumber = generateReferenceNumber()
+        }
+        created.push(await tx.booking.create({
+          data: {
+            userId: schedule.userId,
+            configurationId: configuration.id,
+            bookingGroupId,
+            recurringScheduleId: schedule.id,
+            referenceNumber,
+            preferredDate: date,
+            preferredTime: schedule.preferredTime,
+            notes: schedule.notes,
+            contactPreference: schedule.contactPreference,
+            status: 'pending',
+            statusHistory: {
+              create: { toStatus: 'pending', reason: `Generated from recurring schedule "${schedule.name}"` },
+            },
+          },
+        }))
+      }
+      return created
+    })
+
+    bookings.forEach((booking) => publishBookingEvent('booking.created', booking))
+    await notifyAdmins({
+      type: 'booking_created',
+      title: `Recurring booking ${bookings[0].referenceNumber} generated`,
+      body: `${schedule.name} · ${schedule.sportsground.name} · ${formatDate(date)}`,
+      link: `/dashboard/admin/bookings/${bookings[0].id}`,
+    })
+    return true
+  } catch (error) {
+    if (error instanceof AvailabilityError) {
+      await notifyUser(schedule.userId, {
+        type: 'booking_status',
+        title: `${schedule.name}: ${formatDate(date)} skipped`,
+        body: error.message,
+        link: '/dashboard/bookings/recurring',
+      })
+      return false
+    }
+    // Another run generated this occurrence first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false
+    throw error
+  }
+}
+
+// Generate any occurrences of an active schedule that fall inside the
+// horizon and haven't been generated yet. Returns the number created.
+export async function generateOccurrences(scheduleId: string, now = new Date()): Promise<number> {
+  const schedule = await prisma.recurringBookingSchedule.findUnique({
+    where: { id: scheduleId },
+    include: scheduleInclude,
+  })
+  if (!schedule || schedule.status === 'ended') return 0
+
+  // The schedule ends once the season's last day has gone by, not when its
+  // last occurrence is generated, so upcoming ones can still be skipped
+  const today = startOfDay(now)
+  if (today > schedule.endDate) {
+    await prisma.recurringBookingSchedule.update({
+      where: { id: schedule.id },
+      data: { status: 'ended' },
+    })
+    return 0
+  }
+  if (schedule.status !== 'active') return 0
+
+  // Occurrences that went by while the schedule was paused aren't made up
+  const from = new Date(Math.max(
+    schedule.generatedThrough ? schedule.generatedThrough.getTime() + DAY_MS : schedule.startDate.getTime(),
+    today.getTime()
+  ))
+  // generatedThrough stops at the end of the season, so once it gets there
+  // there is nothing left to generate
+  const to = new Date(Math.min(today.getTime() + HORIZON_DAYS * DAY_MS, schedule.endDate.getTime()))
+  if (from > to) return 0
+
+  const skipped = new Set(schedule.skippedDates.map(dayKey))
+  let created = 0
+  for (const date of occurrenceDates(schedule, from, to)) {
+    if (skipped.has(dayKey(date))) continue
+    if (await createOccurrence(schedule, date)) created++
+  }
+
+  await prisma.recurringBookingSchedule.update({
+    where: { id: schedule.id },
+    data: { generatedThrough: to },
+  })
+  return created
+}
+
+export async function generateAllOccurrences(now = new Date()): Promise<number> {
+  const schedules = await prisma.recurringBookingSchedule.findMany({
+    // Paused schedules are included so they end with their season
+    where: { status: { in: ['active', 'paused'] } },
+    select: { id: true },
+  })
+
+  let created = 0
+  for (const schedule of schedules) {
+    created += await generateOccurrences(schedule.id, now)
+  }
+  return created
+}
+
+// Cancel a schedule's not-yet-started bookings matching where, notifying
+// the customer unless they made the change
+async function cancelBookings(
+  scheduleId: string,
+  where: Prisma.BookingWhereInput,
+  reason: string,
+  actorId?: string
+): Promise<number> {
+  const bookings = await prisma.booking.findMany({
+    where: { ...where, recurringScheduleId: scheduleId, status: { in: CANCELLABLE_STATUSES } },
+  })
+
+  const transitions = await prisma.$transaction(async (tx) => {
+    const results: BookingTransition[] = []
+    for (const booking of bookings) {
+      results.push(await transitionBooking(tx, booking, 'cancelled', { actorId, reason }))
+    }
+    return results
+  })
+
+  for (const booking of bookings) {
+    publishBookingEvent('booking.status', { ...booking, status: 'cancelled', updatedAt: new Date() }, actorId)
+  }
+  for (const transition of transitions) {
+    await notifyBookingTransition(transition)
+  }
+  return transitions.length
+}
+
+// Skip one occurrence, cancelling its bookings if they were already generated.
+// Returns the number of bookings cancelled.
+export async function skipOccurrence(scheduleId: string, date: Date, actorId?: string): Promise<number> {
+  const schedule = await prisma.recurringBookingSchedule.findUniqueOrThrow({ where: { id: scheduleId } })
+  if (schedule.status === 'ended') {
+    throw new RecurringScheduleError('This schedule has ended')
+  }
+  if (!isOccurrence(schedule, date)) {
+    throw new RecurringScheduleError(`${formatDate(date)} isn't one of this schedule's dates`)
+  }
+
+  const day = startOfDay(date)
+  if (!schedule.skippedDates.some((d) => dayKey(d) === dayKey(day))) {
+    await prisma.recurringBookingSchedule.update({
+      where: { id: scheduleId },
+      data: { skippedDates: { push: day } },
+    })
+  }
+
+  return cancelBookings(scheduleId, { preferredDate: day }, `Skipped from recurring schedule "${schedule.name}"`, actorId)
+}
+
+// Put a skipped occurrence back, generating it now if its turn has passed
+export async function restoreOccurrence(scheduleId: string, date: Date, now = new Date()): Promise<boolean> {
+  const schedule = await prisma.recurringBookingSchedule.findUniqueOrThrow({
+    where: { id: scheduleId },
+    include: scheduleInclude,
+  })
+  if (schedule.status === 'ended') {
+    throw new RecurringScheduleError('This schedule has ended')
+  }
+
+  if (!isOccurrence(schedule, date)) {
+    throw new RecurringScheduleError(`${formatDate(date)} isn't one of this schedule's dates`)
+  }
+
+  const day = startOfDay(date)
+  if (!schedule.skippedDates.some((d) => dayKey(d) === dayKey(day))) {
+    throw new RecurringScheduleError(`${formatDate(date)} hasn't been skipped`)
+  }
+
+  await prisma.recurringBookingSchedule.update({
+    where: { id: scheduleId },
+    data: { skippedDates: schedule.skippedDates.filter((d) => dayKey(d) !== dayKey(day)) },
+  })
+
+  const alreadyPassed = schedule.generatedThrough && day <= schedule.generatedThrough
+  if (schedule.status === 'active' && alreadyPassed && day >= startOfDay(now)) {
+    return createOccurrence(schedule, day)
+  }
+  return false
+}
+
+// End the series early, cancelling its upcoming bookings
+export async function endSchedule(scheduleId: string, actorId?: string, now = new Date()): Promise<number> {
+  const schedule = await prisma.recurringBookingSchedule.update({
+    where: { id: scheduleId },
+    data: { status: 'ended' },
+  })
+
+  return cancelBookings(
+    scheduleId,
+    { preferredDate: { gte: startOfDay(now) } },
+    `Recurring schedule "${schedule.name}" ended`,
+    actorId
+  )
+}
+
+export function startRecurringBookingWorker() {
+  const tick = async () => {
+    try {
+      await generateAllOccurrences()
+    } catch (error) {
+      console.error('Recurring booking worker error:', error)
+    }
+  }
+
+  const timer = setInterval(tick, CHECK_INTERVAL_MS)
+  timer.unref()
+  void tick()
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,164 @@
+// SMS delivery behind a provider interface. Pick one with SMS_PROVIDER:
+//   twilio - Twilio Messaging API (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)
+//   fake   - keeps sent messages in memory and logs them; the default, so
+//            development and tests never text a real phone
+
+export interface SmsMessage {
+  to: string
+  body: string
+}
+
+export interface SmsProvider {
+  name: string
+  send(message: SmsMessage): Promise<void>
+}
+
+export interface FakeSmsProvider extends SmsProvider {
+  sent: Array<SmsMessage & { sentAt: Date }>
+  clear(): void
+}
+
+export function createFakeSmsProvider(): FakeSmsProvider {
+  const sent: FakeSmsProvider['sent'] = []
+  return {
+    name: 'fake',
+    sent,
+    async send(message) {
+      sent.push({ ...message, sentAt: new Date() })
+      console.log(`SMS (fake) to ${message.to}: ${message.body}`)
+    },
+    clear() {
+      sent.length = 0
+    },
+  }
+}
+
+function twilioProvider(accountSid: string, authToken: string, from: string): SmsProvider {
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`
+  const credentials = Buffer.from(`${accountSid}:${authToken}`).toString('base64')
+
+  return {
+    name: 'twilio',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Twilio API error (${response.status}): ${error}`)
+      }
+    },
+  }
+}
+
+function createSmsProvider(): SmsProvider {
+  const kind = process.env.SMS_PROVIDER || 'fake'
+
+  switch (kind) {
+    case 'twilio': {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+        throw new Error('SMS_PROVIDER=twilio requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER')
+      }
+      return twilioProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)
+    }
+    case 'fake':
+      return createFakeSmsProvider()
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${kind}" (expected twilio or fake)`)
+  }
+}
+
+let provider: SmsProvider | null = null
+
+export function getSmsProvider(): SmsProvider {
+  provider ??= createSmsProvider()
+  return provider
+}
+
+// Swap the provider, e.g. for a fake in tests
+export function setSmsProvider(next: SmsProvider) {
+  provider = next
+}
+
+const DEFAULT_COUNTRY_CODE = process.env.SMS_DEFAULT_COUNTRY_CODE || '61'
+
+// Convert a phone number as typed at registration to E.164, treating numbers
+// without a country code as local (Australian by default). Returns null when
+// the result can't be a valid number.
+export function normalisePhoneNumber(phone: string, countryCode = DEFAULT_COUNTRY_CODE): string | null {
+  const compact = phone.replace(/[\s\-().]/g, '')
+
+  let e164: string
+  if (compact.startsWith('+')) {
+    e164 = compact
+  } else if (compact.startsWith('00')) {
+    e164 = `+${compact.slice(2)}`
+  } else if (compact.startsWith('0')) {
+    e164 = `+${countryCode}${compact.slice(1)}`
+  } else {
+    e164 = `+${countryCode}${compact}`
+  }
+
+  return /^\+[1-9]\d{7,14}$/.test(e164) ? e164 : null
+}
+
+export interface SmsBookingDetails {
+  referenceNumber: string
+  sportsgroundName: string
+  date: Date
+  time: string
+  // More than one for a booking group
+  fieldCount: number
+}
+
+export type SmsTemplate = 'received' | 'confirmed' | 'rescheduled' | 'reminder' | 'completed'
+
+// Booking dates are stored as midnight UTC, so format them in UTC to keep the day
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })
+
+const fields = (count: number) => (count > 1 ? `${count} fields` : 'your field')
+
+// Kept short: anything over 160 characters is billed as more than one message
+const SMS_TEMPLATES: Record<SmsTemplate, (d: SmsBookingDetails) => string> = {
+  received: (d) =>
+    `XACTLINE: We've received your request ${d.referenceNumber} to mark ${fields(d.fieldCount)} at ${d.sportsgroundName} on ${formatDate(d.date)}. We'll be in touch to confirm.`,
+  confirmed: (d) =>
+    `XACTLINE: Booking ${d.referenceNumber} is confirmed. We'll mark ${fields(d.fieldCount)} at ${d.sportsgroundName} on ${formatDate(d.date)} (${d.time}).`,
+  rescheduled: (d) =>
+    `XACTLINE: Booking ${d.referenceNumber} at ${d.sportsgroundName} has moved to ${formatDate(d.date)} (${d.time}). Check your bookings for details.`,
+  reminder: (d) =>
+    `XACTLINE reminder: our crew is marking ${fields(d.fieldCount)} at ${d.sportsgroundName} tomorrow, ${formatDate(d.date)} (${d.time}). Ref ${d.referenceNumber}.`,
+  completed: (d) =>
+    `XACTLINE: ${d.fieldCount > 1 ? 'Your fields are' : 'Your field is'} marked at ${d.sportsgroundName} (ref ${d.referenceNumber}). Thanks for choosing XACTLINE.`,
+}
+
+export function hasSmsTemplate(name: string): name is SmsTemplate {
+  return name in SMS_TEMPLATES
+}
+
+// Send a templated booking SMS. Like the email helpers this never throws;
+// returns whether the message was handed to the provider.
+export async function sendBookingSms(phone: string, template: SmsTemplate, details: SmsBookingDetails): Promise<boolean> {
+  const to = normalisePhoneNumber(phone)
+  if (!to) {
+    console.error(`Skipping ${template} SMS for ${details.referenceNumber}: invalid phone number "${phone}"`)
+    return false
+  }
+
+  try {
+    await getSmsProvider().send({ to, body: SMS_TEMPLATES[template](details) })
+    console.log(`Booking ${template} SMS sent to ${to} for ${details.referenceNumber}`)
+    return true
+  } catch (error) {
+    console.error(`Failed to send booking ${template} SMS:`, error)
+    return false
+  }
+}
@@ -0,0 +1,150 @@
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakePrisma, type FakePrisma, type FakePrismaData } from '../test/fake-prisma.js'
+import { createFileWeatherProvider, setWeatherProvider } from './weather.js'
+import { proposeSlots } from './weather-rescheduling.js'
+
+const db = vi.hoisted(() => ({ current: null as FakePrisma | null }))
+vi.mock('../lib/prisma.js', () => ({
+  get prisma() {
+    return db.current
+  },
+}))
+
+const NOW = new Date('2026-10-19T10:00:00.000Z')
+// The rained-out day; the earliest new slot is the day after
+const RAIN_DAY = new Date('2026-10-21T00:00:00.000Z')
+
+const MEMORIAL_OVAL = { sportsgroundId: 'memorial-oval', latitude: -33.87, longitude: 151.21 }
+const RIVERSIDE_PARK = { sportsgroundId: 'riverside-park', latitude: -37.81, longitude: 144.96 }
+
+const forecastFile = join(mkdtempSync(join(tmpdir(), 'xactline-weather-')), 'forecast.json')
+
+// Forecasts through the file-backed provider, as in development
+function forecast(entries: Array<{ date: string; precipitationMm: number; latitude?: number; longitude?: number }>) {
+  writeFileSync(forecastFile, JSON.stringify(entries.map((entry) => ({ precipitationProbability: 90, ...entry }))))
+}
+
+function request(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    referenceNumber: `XL-${id}`,
+    crewId: null as string | null,
+    preferredDate: RAIN_DAY,
+    preferredTime: 'morning',
+    ...MEMORIAL_OVAL,
+    ...overrides,
+  }
+}
+
+function existingBooking(id: string, date: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    referenceNumber: `XL-${id}`,
+    crewId: null,
+    preferredDate: new Date(`${date}T00:00:00.000Z`),
+    preferredTime: 'morning',
+    status: 'confirmed',
+    ...overrides,
+  }
+}
+
+// The same limit on every day of the week
+const dailyCapacity = (limit: number) =>
+  Array.from({ length: 7 }, (_, weekday) => ({ weekday, isOpen: true, openTime: '06:00', closeTime: '21:00', dailyCapacity: limit }))
+
+function useDatabase(data: FakePrismaData) {
+  db.current = createFakePrisma(data)
+}
+
+describe('proposeSlots', () => {
+  beforeEach(() => {
+    forecast([])
+    setWeatherProvider(createFileWeatherProvider(forecastFile))
+    useDatabase({})
+  })
+
+  it('proposes the next open day at the same time', async () => {
+    const proposals = await proposeSlots([request('a')], NOW)
+
+    expect(proposals.get('a')).toEqual({ date: '2026-10-22', time: 'morning' })
+  })
+
+  it('skips days with rain forecast at the sportsground', async () => {
+    forecast([
+      { date: '2026-10-22', precipitationMm: 18, ...MEMORIAL_OVAL },
+      { date: '2026-10-23', precipitationMm: 9, ...MEMORIAL_OVAL },
+      // Too light to stop marking
+      { date: '2026-10-24', precipitationMm: 1, ...MEMORIAL_OVAL },
+    ])
+
+    const proposals = await proposeSlots([request('a'), request('b', RIVERSIDE_PARK)], NOW)
+
+    expect(proposals.get('a')?.date).toBe('2026-10-24')
+    // The rain is hundreds of kilometres from this ground
+    expect(proposals.get('b')?.date).toBe('2026-10-22')
+  })
+
+  it('skips days that are fully booked', async () => {
+    useDatabase({
+      workingHours: dailyCapacity(2),
+      booking: [
+        existingBooking('x', '2026-10-22'),
+        existingBooking('y', '2026-10-22'),
+        existingBooking('cancelled', '2026-10-23', { status: 'cancelled' }),
+        existingBooking('z', '2026-10-23'),
+      ],
+    })
+
+    const proposals = await proposeSlots([request('a')], NOW)
+
+    expect(proposals.get('a')?.date).toBe('2026-10-23')
+  })
+
+  it('counts earlier proposals in the batch against capacity', async () => {
+    useDatabase({ workingHours: dailyCapacity(1) })
+
+    const proposals = await proposeSlots([request('a'), request('b'), request('c')], NOW)
+
+    expect([...proposals.values()].map((slot) => slot?.date)).toEqual(['2026-10-22', '2026-10-23', '2026-10-24'])
+  })
+
+  it('avoids days that would overload the crew', async () => {
+    useDatabase({
+      crew: [{ id: 'crew-1', name: 'North crew', dailyCapacity: 1 }],
+      booking: [existingBooking('x', '2026-10-22', { crewId: 'crew-1', preferredTime: 'afternoon' })],
+    })
+
+    const proposals = await proposeSlots([request('a', { crewId: 'crew-1' }), request('b')], NOW)
+
+    expect(proposals.get('a')?.date).toBe('2026-10-23')
+    // Without a crew the day is still open
+    expect(proposals.get('b')?.date).toBe('2026-10-22')
+  })
+
+  it('keeps moved bookings for a one-job-a-day crew on separate days', async () => {
+    useDatabase({ crew: [{ id: 'crew-1', name: 'North crew', dailyCapacity: 1 }] })
+
+    const proposals = await proposeSlots([
+      request('a', { crewId: 'crew-1' }),
+      request('b', { crewId: 'crew-1' }),
+    ], NOW)
+
+    expect(proposals.get('a')?.date).toBe('2026-10-22')
+    expect(proposals.get('b')?.date).toBe('2026-10-23')
+  })
+
+  it('returns null when no dry day is open within the search window', async () => {
+    const wet = Array.from({ length: 40 }, (_, day) => ({
+      date: new Date(RAIN_DAY.getTime() + day * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      precipitationMm: 25,
+    }))
+    forecast(wet)
+
+    const proposals = await proposeSlots([request('a')], NOW)
+
+    expect(proposals.get('a')).toBeNull()
+  })
+})
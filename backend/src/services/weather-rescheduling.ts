@@ -0,0 +1,378 @@
+import { prisma } from '../lib/prisma.js'
+import { AvailabilityError, DayAvailability, TIME_SLOTS, assertBookable, getAvailability } from '../lib/availability.js'
+import { BookingTransition, transitionBooking } from '../lib/booking-status.js'
+import { ScheduledBooking, findCrewConflicts, loadCrewSchedule } from '../lib/crew-schedule.js'
+import { publishBookingEvent } from './booking-events.js'
+import { notifyBookingTransition } from './booking-notifications.js'
+import { notifyAdmins } from './notifications.js'
+import { DailyForecast, describeForecast, getWeatherProvider, isRainy } from './weather.js'
+
+// Rain checks for outdoor bookings. The worker fetches the forecast for each
+// sportsground with confirmed work coming up and flags bookings on days with
+// heavy rain (Booking.weatherFlaggedAt), clearing the flag when the forecast
+// improves. Admins see the flagged jobs in the scheduler with the next slot
+// that's open, dry and has capacity, and can move them all at once; each
+// customer is told through the normal rescheduled notification.
+
+// Bookings crews are committed to, which are the ones worth moving
+const WEATHER_STATUSES = ['confirmed', 'scheduled']
+
+const LOOKAHEAD_DAYS = parseInt(process.env.WEATHER_LOOKAHEAD_DAYS || '7')
+const CHECK_INTERVAL_MS = parseInt(process.env.WEATHER_CHECK_INTERVAL_MINUTES || '180') * 60 * 1000
+// How far past the original date to look for a new slot
+const SEARCH_DAYS = 28
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Booking dates are stored as midnight UTC of the chosen day
+const dayKey = (date: Date) => date.toISOString().split('T')[0]
+const startOfDay = (date: Date) => new Date(`${dayKey(date)}T00:00:00.000Z`)
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })
+
+export class WeatherRescheduleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WeatherRescheduleError'
+  }
+}
+
+interface SportsgroundForecast {
+  latitude: number
+  longitude: number
+}
+
+// Forecasts by sportsground and day, fetched once per sportsground
+async function loadForecasts(
+  sportsgrounds: Map<string, SportsgroundForecast>,
+  from: Date,
+  to: Date
+): Promise<Map<string, Map<string, DailyForecast>>> {
+  const provider = getWeatherProvider()
+  const forecasts = new Map<string, Map<string, DailyForecast>>()
+
+  for (const [id, location] of sportsgrounds) {
+    const days = await provider.getDailyForecast(location, from, to)
+    forecasts.set(id, new Map(days.map((day) => [day.date, day])))
+  }
+  return forecasts
+}
+
+const weatherBookingInclude = {
+  configuration: {
+    select: {
+      name: true,
+      sportsground: { select: { id: true, name: true, latitude: true, longitude: true } },
+    },
+  },
+} as const
+
+// Flag or clear upcoming confirmed bookings from the latest forecast.
+// Returns how many were checked and how many are flagged now.
+export async function checkWeather(now = new Date()): Promise<{ checked: number; flagged: number }> {
+  const from = startOfDay(now)
+  const to = new Date(from.getTime() + LOOKAHEAD_DAYS * DAY_MS)
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: WEATHER_STATUSES },
+      preferredDate: { gte: from, lte: to },
+    },
+    include: weatherBookingInclude,
+  })
+  if (bookings.length === 0) return { checked: 0, flagged: 0 }
+
+  const sportsgrounds = new Map(bookings.map((b) => [b.configuration.sportsground.id, b.configuration.sportsground]))
+  const forecasts = await loadForecasts(sportsgrounds, from, to)
+
+  let flagged = 0
+  const newlyFlagged: typeof bookings = []
+  for (const booking of bookings) {
+    const forecast = forecasts.get(booking.configuration.sportsground.id)?.get(dayKey(booking.preferredDate))
+    const rainy = forecast !== undefined && isRainy(forecast)
+
+    if (rainy) {
+      flagged++
+      const summary = describeForecast(forecast)
+      if (!booking.weatherFlaggedAt) newlyFlagged.push(booking)
+      if (!booking.weatherFlaggedAt || booking.weatherForecast !== summary) {
+        await prisma.booking.update({
+          where: { id: booking.id },
+          data: { weatherFlaggedAt: booking.weatherFlaggedAt ?? now, weatherForecast: summary },
+        })
+      }
+    } else if (booking.weatherFlaggedAt) {
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: { weatherFlaggedAt: null, weatherForecast: null },
+      })
+    }
+  }
+
+  if (newlyFlagged.length > 0) {
+    await notifyAdmins({
+      type: 'weather_alert',
+      title: `Rain forecast for ${newlyFlagged.length} booking${newlyFlagged.length === 1 ? '' : 's'}`,
+      body: newlyFlagged
+        .slice(0, 5)
+        .map((b) => `${b.referenceNumber} · ${b.configuration.sportsground.name} · ${formatDate(b.preferredDate)}`)
+        .join('\n'),
+      link: '/dashboard/admin/scheduler',
+    })
+  }
+
+  return { checked: bookings.length, flagged }
+}
+
+export interface ProposedSlot {
+  // YYYY-MM-DD
+  date: string
+  time: string
+}
+
+interface ProposalRequest {
+  id: string
+  referenceNumber: string
+  crewId: string | null
+  preferredDate: Date
+  preferredTime: string
+  sportsgroundId: string
+  latitude: number
+  longitude: number
+}
+
+function slotOnDay(day: DayAvailability, time: string): string | null {
+  if (day.slots.length === 0) return null
+  // Clock times are kept; admins can move them within the day afterwards
+  if (day.slots.includes(time) || !(TIME_SLOTS as readonly string[]).includes(time)) {
+    return time
+  }
+  return day.slots[0]
+}
+
+// The next slot after each booking's date that the availability rules allow,
+// isn't forecast rain at its sportsground, still has capacity once the
+// earlier proposals are counted and doesn't double-book or overload the
+// booking's crew. null when nothing fits within SEARCH_DAYS.
+export async function proposeSlots(
+  requests: ProposalRequest[],
+  now = new Date()
+): Promise<Map<string, ProposedSlot | null>> {
+  const proposals = new Map<string, ProposedSlot | null>()
+  if (requests.length === 0) return proposals
+
+  const ordered = [...requests].sort((a, b) => a.preferredDate.getTime() - b.preferredDate.getTime())
+  const from = new Date(Math.max(
+    startOfDay(ordered[0].preferredDate).getTime() + DAY_MS,
+    startOfDay(now).getTime()
+  ))
+  const to = new Date(startOfDay(ordered[ordered.length - 1].preferredDate).getTime() + SEARCH_DAYS * DAY_MS)
+
+  const availability = new Map((await getAvailability(prisma, from, to, now)).map((day) => [day.date, day]))
+  const sportsgrounds = new Map(requests.map((r) => [r.sportsgroundId, { latitude: r.latitude, longitude: r.longitude }]))
+  const forecasts = await loadForecasts(sportsgrounds, from, to)
+
+  const crewIds = [...new Set(requests.flatMap((r) => (r.crewId ? [r.crewId] : [])))]
+  const crewSchedule = crewIds.length > 0
+    ? await loadCrewSchedule(prisma, from, to, crewIds)
+    : { bookings: [], crews: [] }
+  // The crews' other work, plus proposals made earlier in this batch; the
+  // bookings being moved no longer hold their old slots
+  const moving = new Set(requests.map((r) => r.id))
+  const crewBookings: ScheduledBooking[] = crewSchedule.bookings.filter((b) => !moving.has(b.id))
+
+  // Places taken by proposals made earlier in this batch
+  const claimed = new Map<string, number>()
+
+  for (const request of ordered) {
+    let proposal: ProposedSlot | null = null
+    const original = startOfDay(request.preferredDate).getTime()
+
+    for (let offset = 1; offset <= SEARCH_DAYS && !proposal; offset++) {
+      const key = dayKey(new Date(original + offset * DAY_MS))
+      const day = availability.get(key)
+      if (!day || !day.bookable) continue
+
+      const forecast = forecasts.get(request.sportsgroundId)?.get(key)
+      if (forecast && isRainy(forecast)) continue
+      if (day.remaining !== null && (claimed.get(key) ?? 0) >= day.remaining) continue
+
+      const time = slotOnDay(day, request.preferredTime)
+      if (!time) continue
+
+      const moved: ScheduledBooking = {
+        id: request.id,
+        referenceNumber: request.referenceNumber,
+        crewId: request.crewId,
+        preferredDate: new Date(key),
+        preferredTime: time,
+        status: 'rescheduled',
+      }
+      if (request.crewId) {
+        const sameDay = crewBookings.filter((b) => b.crewId === request.crewId && dayKey(b.preferredDate) === key)
+        const conflicts = findCrewConflicts([...sameDay, moved], crewSchedule.crews)
+        if (conflicts.some((c) => c.bookingIds.includes(request.id))) continue
+        crewBookings.push(moved)
+      }
+
+      proposal = { date: key, time }
+      claimed.set(key, (claimed.get(key) ?? 0) + 1)
+    }
+
+    proposals.set(request.id, proposal)
+  }
+  return proposals
+}
+
+const toProposalRequest = (booking: {
+  id: string
+  referenceNumber: string
+  crewId: string | null
+  preferredDate: Date
+  preferredTime: string
+  configuration: { sportsground: { id: string; latitude: number; longitude: number } }
+}): ProposalRequest => ({
+  id: booking.id,
+  referenceNumber: booking.referenceNumber,
+  crewId: booking.crewId,
+  preferredDate: booking.preferredDate,
+  preferredTime: booking.preferredTime,
+  sportsgroundId: booking.configuration.sportsground.id,
+  latitude: booking.configuration.sportsground.latitude,
+  longitude: booking.configuration.sportsground.longitude,
+})
+
+function flaggedWhere(now: Date, ids?: string[]) {
+  return {
+    id: ids ? { in: ids } : undefined,
+    status: { in: WEATHER_STATUSES },
+    weatherFlaggedAt: { not: null },
+    preferredDate: { gte: startOfDay(now) },
+  }
+}
+
+// Flagged upcoming bookings with the slot each would move to
+export async function loadFlaggedBookings(now = new Date()) {
+  const bookings = await prisma.booking.findMany({
+    where: flaggedWhere(now),
+    include: {
+      ...weatherBookingInclude,
+      user: { select: { id: true, fullName: true } },
+    },
+    orderBy: [{ preferredDate: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  const proposals = await proposeSlots(bookings.map(toProposalRequest), now)
+  return bookings.map((booking) => ({ ...booking, proposedSlot: proposals.get(booking.id) ?? null }))
+}
+
+export interface RescheduleResult {
+  rescheduled: Array<{ id: string; referenceNumber: string; from: string; to: ProposedSlot }>
+  // Flagged bookings with no dry, open slot in range, or whose slot was
+  // taken before they could be moved
+  unplaced: Array<{ id: string; referenceNumber: string }>
+}
+
+// Move flagged bookings (all of them, or just bookingIds) to their proposed
+// slots, marking each rescheduled and telling the customer why
+export async function rescheduleFlaggedBookings(
+  bookingIds: string[] | undefined,
+  actorId?: string,
+  now = new Date()
+): Promise<RescheduleResult> {
+  const bookings = await prisma.booking.findMany({
+    where: flaggedWhere(now, bookingIds),
+    include: weatherBookingInclude,
+  })
+  if (bookingIds && bookings.length !== bookingIds.length) {
+    throw new WeatherRescheduleError('Some of these bookings are no longer flagged for rain')
+  }
+
+  const proposals = await proposeSlots(bookings.map(toProposalRequest), now)
+  const result: RescheduleResult = { rescheduled: [], unplaced: [] }
+
+  for (const booking of bookings) {
+    const slot = proposals.get(booking.id)
+    if (!slot) {
+      result.unplaced.push({ id: booking.id, referenceNumber: booking.referenceNumber })
+      continue
+    }
+
+    const newDate = new Date(slot.date)
+    const reason = `Rain is forecast at ${booking.configuration.sportsground.name} on ${formatDate(booking.preferredDate)}` +
+      `${booking.weatherForecast ? ` (${booking.weatherForecast})` : ''}, so we've moved this booking to ${formatDate(newDate)} (${slot.time}).`
+
+    const moved = await prisma.$transaction(async (tx) => {
+      // Proposals were worked out before this transaction, and customers may
+      // have taken the day's last place since; check again under the day's lock
+      try {
+        await assertBookable(tx, [{ date: newDate, time: slot.time }], { now, excludeBookingId: booking.id })
+      } catch (error) {
+        if (error instanceof AvailabilityError) return null
+        throw error
+      }
+
+      const transition: BookingTransition = await transitionBooking(tx, booking, 'rescheduled', { actorId, reason })
+      const updated = await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          preferredDate: newDate,
+          preferredTime: slot.time,
+          // A moved booking is due a fresh day-before reminder
+          reminderSentAt: null,
+          weatherFlaggedAt: null,
+          weatherForecast: null,
+        },
+      })
+
+      // Once every booking in the group is on the same new slot, the group's
+      // own date follows them
+      if (booking.bookingGroupId) {
+        const siblings = await tx.booking.findMany({
+          where: { bookingGroupId: booking.bookingGroupId, status: { notIn: ['cancelled', 'declined'] } },
+          select: { preferredDate: true, preferredTime: true },
+        })
+        if (siblings.every((b) => dayKey(b.preferredDate) === slot.date && b.preferredTime === slot.time)) {
+          await tx.bookingGroup.update({
+            where: { id: booking.bookingGroupId },
+            data: { defaultPreferredDate: newDate, defaultPreferredTime: slot.time },
+          })
+        }
+      }
+      return { updated, transition }
+    })
+    if (!moved) {
+      result.unplaced.push({ id: booking.id, referenceNumber: booking.referenceNumber })
+      continue
+    }
+    const { updated, transition } = moved
+
+    publishBookingEvent('booking.status', updated, actorId)
+    // Bookings in a group can move to different days, so each customer notice
+    // is about the booking and its own new date rather than the whole group
+    await notifyBookingTransition({ ...transition, group: null })
+    result.rescheduled.push({
+      id: booking.id,
+      referenceNumber: booking.referenceNumber,
+      from: dayKey(booking.preferredDate),
+      to: slot,
+    })
+  }
+
+  return result
+}
+
+export function startWeatherWorker() {
+  const tick = async () => {
+    try {
+      await checkWeather()
+    } catch (error) {
+      console.error('Weather worker error:', error)
+    }
+  }
+
+  const timer = setInterval(tick, CHECK_INTERVAL_MS)
+  timer.unref()
+  void tick()
+  return () => clearInterval(timer)
+}
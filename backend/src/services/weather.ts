@@ -0,0 +1,147 @@
+import { readFile } from 'node:fs/promises'
+
+// Daily rain forecasts behind a provider interface. Pick one with WEATHER_PROVIDER:
+//   open-meteo - Open-Meteo forecast API (no key needed, up to 16 days ahead)
+//   file       - reads forecasts from the JSON file at WEATHER_FORECAST_FILE; the
+//                default, so development and tests never call out
+//
+// The file holds an array of days. Entries without coordinates apply to every
+// sportsground; others apply within about 10 km of their latitude/longitude:
+//   [{ "date": "2026-10-21", "precipitationMm": 12, "precipitationProbability": 90,
+//      "latitude": -33.87, "longitude": 151.21 }]
+
+export interface DailyForecast {
+  // YYYY-MM-DD
+  date: string
+  precipitationMm: number
+  // Chance of rain in percent, when the provider gives one
+  precipitationProbability: number | null
+}
+
+export interface ForecastLocation {
+  latitude: number
+  longitude: number
+}
+
+export interface WeatherProvider {
+  name: string
+  // Forecast for each day between from and to (inclusive) that the provider covers
+  getDailyForecast(location: ForecastLocation, from: Date, to: Date): Promise<DailyForecast[]>
+}
+
+// Rain heavy and likely enough to stop line marking
+const RAIN_MM = parseFloat(process.env.WEATHER_RAIN_MM || '5')
+const RAIN_PROBABILITY = parseInt(process.env.WEATHER_RAIN_PROBABILITY || '60')
+
+export function isRainy(forecast: DailyForecast): boolean {
+  return forecast.precipitationMm >= RAIN_MM &&
+    (forecast.precipitationProbability === null || forecast.precipitationProbability >= RAIN_PROBABILITY)
+}
+
+export function describeForecast(forecast: DailyForecast): string {
+  const amount = `${Math.round(forecast.precipitationMm * 10) / 10} mm rain`
+  return forecast.precipitationProbability === null ? amount : `${amount} (${forecast.precipitationProbability}%)`
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0]
+
+interface FileForecastEntry extends DailyForecast {
+  latitude?: number
+  longitude?: number
+}
+
+// Degrees either side of an entry's coordinates it applies to
+const FILE_MATCH_DEGREES = 0.1
+
+export function createFileWeatherProvider(filePath: string): WeatherProvider {
+  return {
+    name: 'file',
+    async getDailyForecast(location, from, to) {
+      let entries: FileForecastEntry[]
+      try {
+        // Read on every call so tests and demos can change the forecast while running
+        entries = JSON.parse(await readFile(filePath, 'utf8'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw new Error(`Invalid weather forecast file ${filePath}: ${(error as Error).message}`)
+      }
+
+      const first = dayKey(from)
+      const last = dayKey(to)
+      return entries
+        .filter((entry) => entry.date >= first && entry.date <= last)
+        .filter((entry) =>
+          entry.latitude === undefined || entry.longitude === undefined ||
+          (Math.abs(entry.latitude - location.latitude) <= FILE_MATCH_DEGREES &&
+            Math.abs(entry.longitude - location.longitude) <= FILE_MATCH_DEGREES)
+        )
+        .map((entry) => ({
+          date: entry.date,
+          precipitationMm: entry.precipitationMm,
+          precipitationProbability: entry.precipitationProbability ?? null,
+        }))
+    },
+  }
+}
+
+// Furthest ahead Open-Meteo forecasts
+const OPEN_METEO_MAX_DAYS = 16
+
+function openMeteoProvider(): WeatherProvider {
+  return {
+    name: 'open-meteo',
+    async getDailyForecast(location, from, to) {
+      const limit = new Date(Date.now() + (OPEN_METEO_MAX_DAYS - 1) * 24 * 60 * 60 * 1000)
+      const end = to < limit ? to : limit
+      if (from > end) return []
+
+      const query = new URLSearchParams({
+        latitude: location.latitude.toString(),
+        longitude: location.longitude.toString(),
+        daily: 'precipitation_sum,precipitation_probability_max',
+        timezone: 'auto',
+        start_date: dayKey(from),
+        end_date: dayKey(end),
+      })
+      const response = await fetch(`https://api.open-meteo.com/v1/forecast?${query.toString()}`)
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Open-Meteo API error (${response.status}): ${error}`)
+      }
+
+      const body = await response.json() as {
+        daily: { time: string[]; precipitation_sum: Array<number | null>; precipitation_probability_max: Array<number | null> }
+      }
+      return body.daily.time.map((date, i) => ({
+        date,
+        precipitationMm: body.daily.precipitation_sum[i] ?? 0,
+        precipitationProbability: body.daily.precipitation_probability_max[i] ?? null,
+      }))
+    },
+  }
+}
+
+function createWeatherProvider(): WeatherProvider {
+  const kind = process.env.WEATHER_PROVIDER || 'file'
+
+  switch (kind) {
+    case 'open-meteo':
+      return openMeteoProvider()
+    case 'file':
+      return createFileWeatherProvider(process.env.WEATHER_FORECAST_FILE || './tmp/weather-forecast.json')
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${kind}" (expected open-meteo or file)`)
+  }
+}
+
+let provider: WeatherProvider | null = null
+
+export function getWeatherProvider(): WeatherProvider {
+  provider ??= createWeatherProvider()
+  return provider
+}
+
+// Swap the provider, e.g. for a fake in tests
+export function setWeatherProvider(next: WeatherProvider) {
+  provider = next
+}
@@ -0,0 +1,78 @@
+// In-memory stand-in for the Prisma client, covering only the queries the
+// services under test make. Rows are plain objects with their relations
+// already attached; select, include and orderBy are ignored.
+
+type Row = Record<string, unknown>
+
+type Filter = {
+  in?: unknown[]
+  notIn?: unknown[]
+  not?: unknown
+  gte?: Date
+  gt?: Date
+  lte?: Date
+  lt?: Date
+}
+
+const isFilter = (value: unknown): value is Filter =>
+  !!value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value)
+
+const same = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (condition === undefined) return true
+  if (!isFilter(condition)) return same(value, condition)
+
+  const { in: anyOf, notIn, not, gte, gt, lte, lt } = condition
+  if (anyOf && !anyOf.some((option) => same(value, option))) return false
+  if (notIn && notIn.some((option) => same(value, option))) return false
+  if ('not' in condition && same(value, not)) return false
+  const time = value instanceof Date ? value.getTime() : NaN
+  if (gte && !(time >= gte.getTime())) return false
+  if (gt && !(time > gt.getTime())) return false
+  if (lte && !(time <= lte.getTime())) return false
+  if (lt && !(time < lt.getTime())) return false
+  return true
+}
+
+export function matches(row: Row, where: Row | undefined): boolean {
+  return Object.entries(where ?? {}).every(([field, condition]) => matchesValue(row[field] ?? null, condition))
+}
+
+function table(rows: Row[]) {
+  return {
+    rows,
+    async findMany({ where }: { where?: Row } = {}) {
+      return rows.filter((row) => matches(row, where))
+    },
+    async findUnique({ where }: { where: Row }) {
+      return rows.find((row) => matches(row, where)) ?? null
+    },
+    async updateMany({ where, data }: { where?: Row; data: Row }) {
+      const updated = rows.filter((row) => matches(row, where))
+      for (const row of updated) Object.assign(row, data)
+      return { count: updated.length }
+    },
+  }
+}
+
+export interface FakePrismaData {
+  booking?: Row[]
+  crew?: Row[]
+  workingHours?: Row[]
+  blackoutDate?: Row[]
+  systemSettings?: Row[]
+}
+
+export function createFakePrisma(data: FakePrismaData = {}) {
+  return {
+    booking: table(data.booking ?? []),
+    crew: table(data.crew ?? []),
+    workingHours: table(data.workingHours ?? []),
+    blackoutDate: table(data.blackoutDate ?? []),
+    systemSettings: table(data.systemSettings ?? []),
+  }
+}
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>
@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api, BlackoutDate, WorkingDay } from '@/lib/api'
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+// Display Monday first
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+// Must match LEAD_DAYS_SETTING in the backend's src/lib/availability.ts
+const LEAD_DAYS_SETTING = 'booking_lead_days'
+
+export default function AdminAvailabilityPage() {
+  const [workingHours, setWorkingHours] = useState<WorkingDay[]>([])
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([])
+  const [leadDays, setLeadDays] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSavingHours, setIsSavingHours] = useState(false)
+  const [isSavingLeadDays, setIsSavingLeadDays] = useState(false)
+  const [isAddingBlackout, setIsAddingBlackout] = useState(false)
+  const [newBlackout, setNewBlackout] = useState({ date: '', reason: '' })
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      const response = await api.getAvailabilityRules()
+      if (response.data) {
+        setWorkingHours(response.data.workingHours)
+        setBlackoutDates(response.data.blackoutDates)
+        setLeadDays(response.data.leadDays.toString())
+      } else if (response.error) {
+        setError(response.error)
+      }
+      setIsLoading(false)
+    }
+    fetchRules()
+  }, [])
+
+  const updateDay = (weekday: number, changes: Partial<WorkingDay>) => {
+    setWorkingHours((prev) => prev.map((day) => (day.weekday === weekday ? { ...day, ...changes } : day)))
+  }
+
+  const handleSaveHours = async () => {
+    setError('')
+    setSuccess('')
+
+    const invalid = workingHours.find((day) => day.isOpen && day.openTime >= day.closeTime)
+    if (invalid) {
+      setError(`${WEEKDAY_NAMES[invalid.weekday]}: closing time must be after opening time`)
+      return
+    }
+
+    setIsSavingHours(true)
+    const response = await api.updateWorkingHours(workingHours)
+    if (response.error) {
+      setError(response.error)
+    } else if (response.data) {
+      setWorkingHours(response.data.workingHours)
+      setSuccess('Working hours saved')
+    }
+    setIsSavingHours(false)
+  }
+
+  const handleSaveLeadDays = async () => {
+    setError('')
+    setSuccess('')
+
+    const days = parseInt(leadDays)
+    if (isNaN(days) || days < 0) {
+      setError('Notice period must be zero or more days')
+      return
+    }
+
+    setIsSavingLeadDays(true)
+    const response = await api.updateSetting(LEAD_DAYS_SETTING, days.toString())
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setSuccess('Notice period saved')
+    }
+    setIsSavingLeadDays(false)
+  }
+
+  const handleAddBlackout = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSuccess('')
+
+    if (!newBlackout.date || !newBlackout.reason.trim()) {
+      setError('Choose a date and give a reason customers will see')
+      return
+    }
+
+    setIsAddingBlackout(true)
+    const response = await api.createBlackoutDate({ date: newBlackout.date, reason: newBlackout.reason.trim() })
+    if (response.error) {
+      setError(response.error)
+    } else if (response.data) {
+      const { affectedBookings, ...blackout } = response.data
+      setBlackoutDates((prev) => [...prev, blackout].sort((a, b) => a.date.localeCompare(b.date)))
+      setNewBlackout({ date: '', reason: '' })
+      setSuccess(affectedBookings > 0
+        ? `Date blocked. ${affectedBookings} existing booking${affectedBookings === 1 ? ' is' : 's are'} on this day and may need rescheduling.`
+        : 'Date blocked')
+    }
+    setIsAddingBlackout(false)
+  }
+
+  const handleDeleteBlackout = async (id: string) => {
+    setError('')
+    const response = await api.deleteBlackoutDate(id)
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setBlackoutDates((prev) => prev.filter((b) => b.id !== id))
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Booking Availability</h1>
+        <p className="text-gray-500">Control which days and times customers can request. Admins can still book outside these rules.</p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {success}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {/* Working Hours */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Working Hours</h2>
+            <p className="text-sm text-gray-500">Time preferences outside these hours are hidden from customers. Leave capacity empty for no daily limit.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Day</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Open</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hours</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bookings per day</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {WEEKDAY_ORDER.map((weekday) => {
+                  const day = workingHours.find((d) => d.weekday === weekday)
+                  if (!day) return null
+                  return (
+                    <tr key={weekday} className={day.isOpen ? '' : 'bg-gray-50'}>
+                      <td className="px-4 py-3 font-medium text-gray-900">{WEEKDAY_NAMES[weekday]}</td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={day.isOpen}
+                          onChange={(e) => updateDay(weekday, { isOpen: e.target.checked })}
+                          className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="time"
+                            value={day.openTime}
+                            onChange={(e) => updateDay(weekday, { openTime: e.target.value })}
+                            disabled={!day.isOpen}
+                            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none disabled:opacity-50"
+                          />
+                          <span className="text-gray-500">to</span>
+                          <input
+                            type="time"
+                            value={day.closeTime}
+                            onChange={(e) => updateDay(weekday, { closeTime: e.target.value })}
+                            disabled={!day.isOpen}
+                            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none disabled:opacity-50"
+                          />
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min={1}
+                          value={day.dailyCapacity ?? ''}
+                          onChange={(e) => updateDay(weekday, { dailyCapacity: e.target.value ? parseInt(e.target.value) : null })}
+                          disabled={!day.isOpen}
+                          placeholder="No limit"
+                          className="w-28 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none disabled:opacity-50"
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-4 border-t border-gray-200 flex justify-end">
+            <button
+              onClick={handleSaveHours}
+              disabled={isSavingHours}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isSavingHours ? 'Saving...' : 'Save Hours'}
+            </button>
+          </div>
+        </div>
+
+        {/* Notice Period */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Notice Period</h2>
+            <p className="text-sm text-gray-500">How many days ahead customers must book. 1 means the earliest date is tomorrow.</p>
+          </div>
+          <div className="p-4 flex gap-3">
+            <input
+              type="number"
+              min={0}
+              value={leadDays}
+              onChange={(e) => setLeadDays(e.target.value)}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+            />
+            <span className="self-center text-gray-600">days</span>
+            <button
+              onClick={handleSaveLeadDays}
+              disabled={isSavingLeadDays}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isSavingLeadDays ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+
+        {/* Blackout Dates */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Blackout Dates</h2>
+            <p className="text-sm text-gray-500">Public holidays and other days customers can&apos;t book. The reason is shown to them.</p>
+          </div>
+          <form onSubmit={handleAddBlackout} className="p-4 flex flex-col md:flex-row gap-3 border-b border-gray-200">
+            <input
+              type="date"
+              value={newBlackout.date}
+              onChange={(e) => setNewBlackout({ ...newBlackout, date: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+            />
+            <input
+              type="text"
+              value={newBlackout.reason}
+              onChange={(e) => setNewBlackout({ ...newBlackout, reason: e.target.value })}
+              placeholder="e.g. Christmas Day"
+              maxLength={200}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={isAddingBlackout}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isAddingBlackout ? 'Adding...' : 'Block Date'}
+            </button>
+          </form>
+          {blackoutDates.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No upcoming blackout dates</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {blackoutDates.map((blackout) => (
+                <li key={blackout.id} className="p-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {new Date(blackout.date).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+                    </p>
+                    <p className="text-sm text-gray-500">{blackout.reason}</p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteBlackout(blackout.id)}
+                    className="px-3 py-1 border border-red-300 text-red-700 text-sm rounded hover:bg-red-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,10 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
-import { api } from '@/lib/api'
+import { api, ConfigurationSnapshot } from '@/lib/api'
+import { ConfigurationExport, saveFile } from '@/components/configuration-export'
 
 interface BookingDetail {
   id: string
@@ -35,44 +36,117 @@ interface BookingDetail {
       sport: string
     }
   }
+  bookingGroup: {
+    id: string
+    groupReferenceNumber: string
+  } | null
+  statusHistory: Array<{
+    id: string
+    fromStatus: string | null
+    toStatus: string
+    reason: string | null
+    createdAt: string
+    actor: { id: string; fullName: string } | null
+  }>
+  allowedTransitions: string[]
+  configurationSnapshot: ConfigurationSnapshot | null
+  configurationChanged: boolean
+}
+
+// Button label and colour for each status an admin can move a booking to
+const STATUS_ACTIONS: Record<string, { label: string; className: string }> = {
+  confirmed: { label: 'Confirm Booking', className: 'bg-blue-600 hover:bg-blue-700' },
+  scheduled: { label: 'Schedule Crew', className: 'bg-indigo-600 hover:bg-indigo-700' },
+  in_progress: { label: 'Start Marking', className: 'bg-purple-600 hover:bg-purple-700' },
+  completed: { label: 'Mark as Completed', className: 'bg-green-600 hover:bg-green-700' },
+  rescheduled: { label: 'Reschedule', className: 'bg-orange-500 hover:bg-orange-600' },
+  declined: { label: 'Decline Booking', className: 'bg-gray-600 hover:bg-gray-700' },
+  cancelled: { label: 'Cancel Booking', className: 'bg-red-600 hover:bg-red-700' },
 }
 
+// Statuses the customer is owed an explanation for; the API rejects them without a reason
+const REASON_REQUIRED = ['rescheduled', 'cancelled', 'declined']
+
+const TIMELINE_DOT: Record<string, string> = {
+  completed: 'bg-green-400',
+  cancelled: 'bg-red-400',
+  declined: 'bg-red-400',
+  rescheduled: 'bg-orange-400',
+  pending: 'bg-gray-400',
+}
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ')
+
 export default function AdminBookingDetailPage() {
   const params = useParams()
   const [booking, setBooking] = useState<BookingDetail | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [updatingStatus, setUpdatingStatus] = useState(false)
+  const [statusReason, setStatusReason] = useState('')
+  const [statusError, setStatusError] = useState('')
+  const [downloadingJobSheet, setDownloadingJobSheet] = useState<'booking' | 'group' | null>(null)
+  const [jobSheetError, setJobSheetError] = useState('')
 
-  useEffect(() => {
-    const fetchBooking = async () => {
-      const response = await api.getAdminBooking(params.id as string)
-      if (response.data) {
-        setBooking(response.data)
-      } else {
-        setError(response.error || 'Failed to load booking')
-      }
-      setIsLoading(false)
+  const fetchBooking = useCallback(async () => {
+    const response = await api.getAdminBooking(params.id as string)
+    if (response.data) {
+      setBooking(response.data)
+    } else {
+      setError(response.error || 'Failed to load booking')
     }
-    fetchBooking()
+    setIsLoading(false)
   }, [params.id])
 
+  useEffect(() => {
+    fetchBooking()
+  }, [fetchBooking])
+
   const handleStatusChange = async (newStatus: string) => {
     if (!booking) return
+    if (REASON_REQUIRED.includes(newStatus) && !statusReason.trim()) {
+      setStatusError(`Enter a reason before marking this booking ${formatStatus(newStatus)}`)
+      return
+    }
+
     setUpdatingStatus(true)
-    const response = await api.updateBookingStatus(booking.id, newStatus)
-    if (!response.error) {
-      setBooking({ ...booking, status: newStatus })
+    setStatusError('')
+    const response = await api.updateBookingStatus(booking.id, newStatus, statusReason.trim() || undefined)
+    if (response.error) {
+      setStatusError(response.error)
+    } else {
+      setStatusReason('')
+      // Reload to pick up the new timeline entry and next allowed moves
+      await fetchBooking()
     }
     setUpdatingStatus(false)
   }
 
+  const handleDownloadJobSheet = async (scope: 'booking' | 'group') => {
+    if (!booking) return
+    setDownloadingJobSheet(scope)
+    setJobSheetError('')
+    const response = scope === 'group' && booking.bookingGroup
+      ? await api.downloadGroupJobSheet(booking.bookingGroup.id)
+      : await api.downloadJobSheet(booking.id)
+    if (response.data) {
+      saveFile(response.data.blob, response.data.filename)
+    } else {
+      setJobSheetError(response.error || 'Failed to generate job sheet')
+    }
+    setDownloadingJobSheet(null)
+  }
+
   const getStatusBadge = (status: string) => {
     const styles: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
       confirmed: 'bg-blue-100 text-blue-800',
+      scheduled: 'bg-indigo-100 text-indigo-800',
+      in_progress: 'bg-purple-100 text-purple-800',
       completed: 'bg-green-100 text-green-800',
+      rescheduled: 'bg-orange-100 text-orange-800',
       cancelled: 'bg-red-100 text-red-800',
+      declined: 'bg-gray-200 text-gray-800',
     }
     return styles[status] || 'bg-gray-100 text-gray-800'
   }
@@ -111,7 +185,7 @@ export default function AdminBookingDetailPage() {
             <p className="text-gray-500 font-mono">{booking.referenceNumber}</p>
           </div>
           <span className={`px-4 py-2 rounded-full text-sm font-medium capitalize ${getStatusBadge(booking.status)}`}>
-            {booking.status}
+            {formatStatus(booking.status)}
           </span>
         </div>
       </div>
@@ -208,6 +282,19 @@ export default function AdminBookingDetailPage() {
                 <p className="font-medium text-gray-900 capitalize">{booking.configuration.template.sport}</p>
               </div>
             </div>
+            {booking.configurationSnapshot && booking.configurationChanged && (
+              <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+                This field has been edited since the booking was accepted. The job sheet and exports use the layout as booked:{' '}
+                {booking.configurationSnapshot.lengthMeters}m × {booking.configurationSnapshot.widthMeters}m{' '}
+                {booking.configurationSnapshot.templateName}
+                {booking.configurationSnapshot.templateVersion !== null && ` (markings v${booking.configurationSnapshot.templateVersion})`}
+                , rotated {booking.configurationSnapshot.rotationDegrees}°.
+              </div>
+            )}
+            <div className="mt-4 pt-4 border-t">
+              <label className="block text-sm text-gray-500 mb-2">Export Markings</label>
+              <ConfigurationExport configurationId={booking.configuration.id} bookingId={booking.id} admin />
+            </div>
           </div>
         </div>
 
@@ -215,80 +302,104 @@ export default function AdminBookingDetailPage() {
         <div className="space-y-6">
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Update Status</h3>
+            {booking.allowedTransitions.length > 0 ? (
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="statusReason" className="block text-sm text-gray-500 mb-1">
+                    Reason <span className="text-gray-400">(required to reschedule, decline or cancel)</span>
+                  </label>
+                  <textarea
+                    id="statusReason"
+                    value={statusReason}
+                    onChange={(e) => setStatusReason(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    placeholder="Shown to the customer with the status change"
+                  />
+                </div>
+                {booking.allowedTransitions.map((status) => {
+                  const action = STATUS_ACTIONS[status]
+                  return (
+                    <button
+                      key={status}
+                      onClick={() => handleStatusChange(status)}
+                      disabled={updatingStatus}
+                      className={`w-full px-4 py-2 text-white rounded-lg disabled:opacity-50 transition-colors ${
+                        action?.className ?? 'bg-gray-600 hover:bg-gray-700'
+                      }`}
+                    >
+                      {updatingStatus ? 'Updating...' : action?.label ?? formatStatus(status)}
+                    </button>
+                  )
+                })}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center text-sm">
+                This booking has been {formatStatus(booking.status)}. No further actions available.
+              </p>
+            )}
+            {statusError && <p className="text-sm text-red-600 mt-2">{statusError}</p>}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Crew Job Sheet</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Printable PDF with the field diagram to scale, site location and customer contact.
+            </p>
             <div className="space-y-3">
-              {booking.status === 'pending' && (
-                <>
-                  <button
-                    onClick={() => handleStatusChange('confirmed')}
-                    disabled={updatingStatus}
-                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
-                  >
-                    {updatingStatus ? 'Updating...' : 'Confirm Booking'}
-                  </button>
-                  <button
-                    onClick={() => handleStatusChange('cancelled')}
-                    disabled={updatingStatus}
-                    className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
-                  >
-                    {updatingStatus ? 'Updating...' : 'Cancel Booking'}
-                  </button>
-                </>
-              )}
-              {booking.status === 'confirmed' && (
-                <>
-                  <button
-                    onClick={() => handleStatusChange('completed')}
-                    disabled={updatingStatus}
-                    className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
-                  >
-                    {updatingStatus ? 'Updating...' : 'Mark as Completed'}
-                  </button>
-                  <button
-                    onClick={() => handleStatusChange('cancelled')}
-                    disabled={updatingStatus}
-                    className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
-                  >
-                    {updatingStatus ? 'Updating...' : 'Cancel Booking'}
-                  </button>
-                </>
-              )}
-              {(booking.status === 'completed' || booking.status === 'cancelled') && (
-                <p className="text-gray-500 text-center text-sm">
-                  This booking has been {booking.status}. No further actions available.
-                </p>
+              <button
+                onClick={() => handleDownloadJobSheet('booking')}
+                disabled={downloadingJobSheet !== null}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                {downloadingJobSheet === 'booking' ? 'Generating...' : 'Download Job Sheet (PDF)'}
+              </button>
+              {booking.bookingGroup && (
+                <button
+                  onClick={() => handleDownloadJobSheet('group')}
+                  disabled={downloadingJobSheet !== null}
+                  className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  {downloadingJobSheet === 'group'
+                    ? 'Generating...'
+                    : `Group Site Plan (${booking.bookingGroup.groupReferenceNumber})`}
+                </button>
               )}
             </div>
+            {jobSheetError && <p className="text-sm text-red-600 mt-2">{jobSheetError}</p>}
           </div>
 
-          {/* Status History (placeholder) */}
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Status Timeline</h3>
             <div className="space-y-4">
-              <div className="flex items-start">
-                <div className="w-2 h-2 mt-2 bg-gray-400 rounded-full"></div>
-                <div className="ml-3">
-                  <p className="text-sm font-medium text-gray-900">Booking Created</p>
-                  <p className="text-xs text-gray-500">
-                    {new Date(booking.createdAt).toLocaleString()}
-                  </p>
-                </div>
-              </div>
-              {booking.status !== 'pending' && (
+              {booking.statusHistory.length === 0 && (
                 <div className="flex items-start">
-                  <div className={`w-2 h-2 mt-2 rounded-full ${
-                    booking.status === 'cancelled' ? 'bg-red-400' :
-                    booking.status === 'completed' ? 'bg-green-400' : 'bg-blue-400'
-                  }`}></div>
+                  <div className="w-2 h-2 mt-2 bg-gray-400 rounded-full"></div>
+                  <div className="ml-3">
+                    <p className="text-sm font-medium text-gray-900">Booking Created</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(booking.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              )}
+              {booking.statusHistory.map((entry) => (
+                <div key={entry.id} className="flex items-start">
+                  <div className={`w-2 h-2 mt-2 rounded-full ${TIMELINE_DOT[entry.toStatus] ?? 'bg-blue-400'}`}></div>
                   <div className="ml-3">
                     <p className="text-sm font-medium text-gray-900 capitalize">
-                      {booking.status}
+                      {entry.fromStatus ? formatStatus(entry.toStatus) : 'Booking Created'}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {new Date(booking.updatedAt).toLocaleString()}
+                      {new Date(entry.createdAt).toLocaleString()}
+                      {entry.actor && ` · ${entry.actor.fullName}`}
                     </p>
+                    {entry.reason && (
+                      <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{entry.reason}</p>
+                    )}
                   </div>
                 </div>
-              )}
+              ))}
             </div>
           </div>
         </div>
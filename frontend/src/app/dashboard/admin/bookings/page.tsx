@@ -4,6 +4,7 @@ import { useEffect, useState, useMemo } from 'react'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { api } from '@/lib/api'
+import { useBookingEvents } from '@/lib/use-booking-events'
 
 interface Booking {
   id: string
@@ -21,6 +22,16 @@ interface Booking {
   }
 }
 
+// One-click next step from each status; anything else is done from the booking detail page
+const NEXT_ACTION: Record<string, { status: string; label: string; className: string }> = {
+  pending: { status: 'confirmed', label: 'Confirm', className: 'bg-blue-600 hover:bg-blue-700' },
+  confirmed: { status: 'scheduled', label: 'Schedule', className: 'bg-indigo-600 hover:bg-indigo-700' },
+  scheduled: { status: 'in_progress', label: 'Start', className: 'bg-purple-600 hover:bg-purple-700' },
+  in_progress: { status: 'completed', label: 'Complete', className: 'bg-green-600 hover:bg-green-700' },
+}
+
+const CANCELLABLE = ['pending', 'confirmed', 'scheduled', 'rescheduled']
+
 type SortField = 'referenceNumber' | 'customer' | 'location' | 'preferredDate' | 'status' | 'createdAt'
 type SortDirection = 'asc' | 'desc'
 
@@ -34,6 +45,7 @@ export default function AdminBookingsPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [pagination, setPagination] = useState({ page: 1, pages: 1, total: 0 })
   const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [actionError, setActionError] = useState('')
   const [viewMode, setViewMode] = useState<'cards' | 'table'>('table')
   const [sortField, setSortField] = useState<SortField>('preferredDate')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
@@ -45,8 +57,9 @@ export default function AdminBookingsPage() {
     }
   }, [])
 
-  const fetchBookings = async () => {
-    setIsLoading(true)
+  // quiet skips the loading spinner, for refreshes the user didn't ask for
+  const fetchBookings = async (quiet = false) => {
+    if (!quiet) setIsLoading(true)
     const response = await api.getAdminBookings({
       page: pagination.page,
       status: statusFilter || undefined,
@@ -63,6 +76,11 @@ export default function AdminBookingsPage() {
     fetchBookings()
   }, [pagination.page, statusFilter])
 
+  // Keep the list current while other admins and customers make changes
+  useBookingEvents(() => {
+    fetchBookings(true)
+  })
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
     setPagination((prev) => ({ ...prev, page: 1 }))
@@ -70,9 +88,18 @@ export default function AdminBookingsPage() {
   }
 
   const handleStatusChange = async (bookingId: string, newStatus: string) => {
+    let reason: string | undefined
+    if (newStatus === 'cancelled') {
+      reason = prompt('Reason for cancelling this booking (shown to the customer):')?.trim()
+      if (!reason) return
+    }
+
     setUpdatingId(bookingId)
-    const response = await api.updateBookingStatus(bookingId, newStatus)
-    if (!response.error) {
+    setActionError('')
+    const response = await api.updateBookingStatus(bookingId, newStatus, reason)
+    if (response.error) {
+      setActionError(response.error)
+    } else {
       setBookings((prev) =>
         prev.map((b) => (b.id === bookingId ? { ...b, status: newStatus } : b))
       )
@@ -84,8 +111,12 @@ export default function AdminBookingsPage() {
     const styles: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
       confirmed: 'bg-blue-100 text-blue-800',
+      scheduled: 'bg-indigo-100 text-indigo-800',
+      in_progress: 'bg-purple-100 text-purple-800',
       completed: 'bg-green-100 text-green-800',
+      rescheduled: 'bg-orange-100 text-orange-800',
       cancelled: 'bg-red-100 text-red-800',
+      declined: 'bg-gray-200 text-gray-800',
     }
     return styles[status] || 'bg-gray-100 text-gray-800'
   }
@@ -173,8 +204,12 @@ export default function AdminBookingsPage() {
             <option value="">All Statuses</option>
             <option value="pending">Pending</option>
             <option value="confirmed">Confirmed</option>
+            <option value="scheduled">Scheduled</option>
+            <option value="in_progress">In Progress</option>
             <option value="completed">Completed</option>
+            <option value="rescheduled">Rescheduled</option>
             <option value="cancelled">Cancelled</option>
+            <option value="declined">Declined</option>
           </select>
           <button
             type="submit"
@@ -208,6 +243,12 @@ export default function AdminBookingsPage() {
         </form>
       </div>
 
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          {actionError}
+        </div>
+      )}
+
       {/* Bookings Content */}
       {isLoading ? (
         <div className="bg-white rounded-lg shadow flex items-center justify-center h-64">
@@ -227,7 +268,7 @@ export default function AdminBookingsPage() {
                   <div className="flex items-center gap-3 mb-2">
                     <span className="font-mono text-sm font-semibold text-gray-900">{booking.referenceNumber}</span>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusBadge(booking.status)}`}>
-                      {booking.status}
+                      {booking.status.replace(/_/g, ' ')}
                     </span>
                   </div>
                   <div className="grid md:grid-cols-2 gap-4 text-sm">
@@ -255,25 +296,16 @@ export default function AdminBookingsPage() {
                   </div>
                 </div>
                 <div className="flex flex-row md:flex-col gap-2 justify-end flex-shrink-0">
-                  {booking.status === 'pending' && (
+                  {NEXT_ACTION[booking.status] && (
                     <button
-                      onClick={() => handleStatusChange(booking.id, 'confirmed')}
+                      onClick={() => handleStatusChange(booking.id, NEXT_ACTION[booking.status].status)}
                       disabled={updatingId === booking.id}
-                      className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50"
+                      className={`px-3 py-1 text-white text-sm rounded disabled:opacity-50 ${NEXT_ACTION[booking.status].className}`}
                     >
-                      {updatingId === booking.id ? '...' : 'Confirm'}
+                      {updatingId === booking.id ? '...' : NEXT_ACTION[booking.status].label}
                     </button>
                   )}
-                  {booking.status === 'confirmed' && (
-                    <button
-                      onClick={() => handleStatusChange(booking.id, 'completed')}
-                      disabled={updatingId === booking.id}
-                      className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
-                    >
-                      {updatingId === booking.id ? '...' : 'Complete'}
-                    </button>
-                  )}
-                  {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                  {CANCELLABLE.includes(booking.status) && (
                     <button
                       onClick={() => handleStatusChange(booking.id, 'cancelled')}
                       disabled={updatingId === booking.id}
@@ -373,30 +405,21 @@ export default function AdminBookingsPage() {
                     </td>
                     <td className="px-6 py-4">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusBadge(booking.status)}`}>
-                        {booking.status}
+                        {booking.status.replace(/_/g, ' ')}
                       </span>
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
-                        {booking.status === 'pending' && (
-                          <button
-                            onClick={() => handleStatusChange(booking.id, 'confirmed')}
-                            disabled={updatingId === booking.id}
-                            className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50"
-                          >
-                            {updatingId === booking.id ? '...' : 'Confirm'}
-                          </button>
-                        )}
-                        {booking.status === 'confirmed' && (
+                        {NEXT_ACTION[booking.status] && (
                           <button
-                            onClick={() => handleStatusChange(booking.id, 'completed')}
+                            onClick={() => handleStatusChange(booking.id, NEXT_ACTION[booking.status].status)}
                             disabled={updatingId === booking.id}
-                            className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                            className={`px-3 py-1 text-white text-sm rounded disabled:opacity-50 ${NEXT_ACTION[booking.status].className}`}
                           >
-                            {updatingId === booking.id ? '...' : 'Complete'}
+                            {updatingId === booking.id ? '...' : NEXT_ACTION[booking.status].label}
                           </button>
                         )}
-                        {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                        {CANCELLABLE.includes(booking.status) && (
                           <button
                             onClick={() => handleStatusChange(booking.id, 'cancelled')}
                             disabled={updatingId === booking.id}
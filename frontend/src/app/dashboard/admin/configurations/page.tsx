@@ -4,6 +4,7 @@ import { useEffect, useState, useMemo, useRef } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { api } from '@/lib/api'
+import { downloadConfiguration, EXPORT_FORMATS, type ExportFormat } from '@/components/configuration-export'
 
 interface Configuration {
   id: string
@@ -239,6 +240,14 @@ export default function AdminConfigurationsPage() {
     setIsSubmitting(false)
   }
 
+  const handleExport = async (config: Configuration, format: ExportFormat) => {
+    setOpenMenuId(null)
+    const exportError = await downloadConfiguration(config.id, format, true)
+    if (exportError) {
+      alert(exportError)
+    }
+  }
+
   const openEditModal = (config: Configuration) => {
     setSelectedConfiguration(config)
     setEditName(config.name)
@@ -308,6 +317,16 @@ export default function AdminConfigurationsPage() {
                 Transfer Ownership
               </button>
               <hr className="my-1" />
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format.value}
+                  onClick={() => handleExport(config, format.value)}
+                  className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                  Export {format.label}
+                </button>
+              ))}
+              <hr className="my-1" />
               <button
                 onClick={() => openDeleteModal(config)}
                 className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50"
@@ -0,0 +1,551 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api, Crew, Equipment } from '@/lib/api'
+
+type CrewWithEquipment = Crew & {
+  equipment: Omit<Equipment, 'crew'>[]
+  _count: { bookings: number }
+}
+
+const EQUIPMENT_TYPE_LABELS: Record<Equipment['type'], string> = {
+  line_marker: 'Line marker',
+  paint: 'Paint',
+  vehicle: 'Vehicle',
+  other: 'Other',
+}
+
+interface CrewForm {
+  id?: string
+  name: string
+  color: string
+  dailyCapacity: string
+  active: boolean
+  notes: string
+}
+
+interface EquipmentForm {
+  id?: string
+  name: string
+  type: Equipment['type']
+  crewId: string
+  quantity: string
+  unit: string
+  active: boolean
+  notes: string
+}
+
+const emptyCrewForm: CrewForm = { name: '', color: '#F97316', dailyCapacity: '4', active: true, notes: '' }
+const emptyEquipmentForm: EquipmentForm = { name: '', type: 'line_marker', crewId: '', quantity: '', unit: '', active: true, notes: '' }
+
+export default function AdminCrewsPage() {
+  const [crews, setCrews] = useState<CrewWithEquipment[]>([])
+  const [equipment, setEquipment] = useState<Equipment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const [crewForm, setCrewForm] = useState<CrewForm | null>(null)
+  const [equipmentForm, setEquipmentForm] = useState<EquipmentForm | null>(null)
+  const [formError, setFormError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const fetchData = async () => {
+    const [crewsResponse, equipmentResponse] = await Promise.all([api.getCrews(), api.getEquipment()])
+    if (crewsResponse.data) setCrews(crewsResponse.data)
+    if (equipmentResponse.data) setEquipment(equipmentResponse.data)
+    const loadError = crewsResponse.error || equipmentResponse.error
+    if (loadError) setError(loadError)
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const openCrewForm = (crew?: CrewWithEquipment) => {
+    setFormError('')
+    setCrewForm(crew
+      ? {
+          id: crew.id,
+          name: crew.name,
+          color: crew.color,
+          dailyCapacity: crew.dailyCapacity.toString(),
+          active: crew.active,
+          notes: crew.notes || '',
+        }
+      : emptyCrewForm)
+  }
+
+  const openEquipmentForm = (item?: Equipment) => {
+    setFormError('')
+    setEquipmentForm(item
+      ? {
+          id: item.id,
+          name: item.name,
+          type: item.type,
+          crewId: item.crewId || '',
+          quantity: item.quantity?.toString() || '',
+          unit: item.unit || '',
+          active: item.active,
+          notes: item.notes || '',
+        }
+      : emptyEquipmentForm)
+  }
+
+  const handleSaveCrew = async () => {
+    if (!crewForm) return
+    setFormError('')
+
+    const dailyCapacity = parseInt(crewForm.dailyCapacity)
+    if (!crewForm.name.trim()) {
+      setFormError('Name is required')
+      return
+    }
+    if (isNaN(dailyCapacity) || dailyCapacity < 1) {
+      setFormError('Daily capacity must be at least 1 booking')
+      return
+    }
+
+    setIsSaving(true)
+    const data = {
+      name: crewForm.name.trim(),
+      color: crewForm.color,
+      dailyCapacity,
+      active: crewForm.active,
+      notes: crewForm.notes.trim() || null,
+    }
+    const response = crewForm.id ? await api.updateCrew(crewForm.id, data) : await api.createCrew(data)
+    setIsSaving(false)
+
+    if (response.error) {
+      setFormError(response.error)
+      return
+    }
+    setSuccess(crewForm.id ? 'Crew updated' : 'Crew created')
+    setCrewForm(null)
+    fetchData()
+  }
+
+  const handleSaveEquipment = async () => {
+    if (!equipmentForm) return
+    setFormError('')
+
+    const quantity = equipmentForm.quantity ? parseFloat(equipmentForm.quantity) : null
+    if (!equipmentForm.name.trim()) {
+      setFormError('Name is required')
+      return
+    }
+    if (quantity !== null && (isNaN(quantity) || quantity < 0)) {
+      setFormError('Quantity must be a positive number')
+      return
+    }
+
+    setIsSaving(true)
+    const data = {
+      name: equipmentForm.name.trim(),
+      type: equipmentForm.type,
+      crewId: equipmentForm.crewId || null,
+      quantity,
+      unit: equipmentForm.unit.trim() || null,
+      active: equipmentForm.active,
+      notes: equipmentForm.notes.trim() || null,
+    }
+    const response = equipmentForm.id
+      ? await api.updateEquipment(equipmentForm.id, data)
+      : await api.createEquipment(data)
+    setIsSaving(false)
+
+    if (response.error) {
+      setFormError(response.error)
+      return
+    }
+    setSuccess(equipmentForm.id ? 'Equipment updated' : 'Equipment added')
+    setEquipmentForm(null)
+    fetchData()
+  }
+
+  const handleDeleteCrew = async (crew: CrewWithEquipment) => {
+    if (!confirm(`Delete ${crew.name}? Their equipment will become unassigned.`)) {
+      return
+    }
+    setError('')
+    setDeletingId(crew.id)
+    const response = await api.deleteCrew(crew.id)
+    if (response.error) {
+      setError(response.error)
+    } else {
+      fetchData()
+    }
+    setDeletingId(null)
+  }
+
+  const handleDeleteEquipment = async (item: Equipment) => {
+    if (!confirm(`Remove ${item.name}?`)) {
+      return
+    }
+    setError('')
+    setDeletingId(item.id)
+    const response = await api.deleteEquipment(item.id)
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setEquipment((prev) => prev.filter((e) => e.id !== item.id))
+    }
+    setDeletingId(null)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Crews & Equipment</h1>
+        <p className="text-gray-500">Manage line-marking crews, their daily capacity and the equipment they use</p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {success}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {/* Crews */}
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Crews</h2>
+              <p className="text-sm text-gray-500">Bookings are assigned to a crew from the scheduler</p>
+            </div>
+            <button
+              onClick={() => openCrewForm()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+            >
+              New Crew
+            </button>
+          </div>
+          {crews.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No crews yet. Add a crew to start assigning bookings.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Crew</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Daily Capacity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Equipment</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bookings</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {crews.map((crew) => (
+                    <tr key={crew.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: crew.color }} />
+                          <span className="font-medium text-gray-900">{crew.name}</span>
+                          {!crew.active && (
+                            <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">Inactive</span>
+                          )}
+                        </div>
+                        {crew.notes && <p className="text-sm text-gray-500 truncate max-w-xs">{crew.notes}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-900">
+                        {crew.dailyCapacity} booking{crew.dailyCapacity !== 1 ? 's' : ''}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {crew.equipment.length > 0 ? crew.equipment.map((e) => e.name).join(', ') : '—'}
+                      </td>
+                      <td className="px-6 py-4 text-gray-900">{crew._count.bookings}</td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openCrewForm(crew)}
+                            className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDeleteCrew(crew)}
+                            disabled={deletingId === crew.id || crew._count.bookings > 0}
+                            className="px-3 py-1 border border-red-300 text-red-700 text-sm rounded hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={crew._count.bookings > 0 ? 'Crews with bookings can be deactivated but not deleted' : ''}
+                          >
+                            {deletingId === crew.id ? '...' : 'Delete'}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Equipment */}
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Equipment</h2>
+              <p className="text-sm text-gray-500">Line-marking machines, paint stock and vehicles</p>
+            </div>
+            <button
+              onClick={() => openEquipmentForm()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+            >
+              Add Equipment
+            </button>
+          </div>
+          {equipment.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No equipment recorded.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Crew</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {equipment.map((item) => (
+                    <tr key={item.id} className={`hover:bg-gray-50 ${item.active ? '' : 'opacity-60'}`}>
+                      <td className="px-6 py-4">
+                        <p className="font-medium text-gray-900">{item.name}</p>
+                        {item.notes && <p className="text-sm text-gray-500 truncate max-w-xs">{item.notes}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-900">{EQUIPMENT_TYPE_LABELS[item.type]}</td>
+                      <td className="px-6 py-4 text-gray-900">
+                        {item.quantity !== null ? `${item.quantity}${item.unit ? ` ${item.unit}` : ''}` : '—'}
+                      </td>
+                      <td className="px-6 py-4 text-gray-900">{item.crew?.name || 'Unassigned'}</td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEquipmentForm(item)}
+                            className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDeleteEquipment(item)}
+                            disabled={deletingId === item.id}
+                            className="px-3 py-1 border border-red-300 text-red-700 text-sm rounded hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {deletingId === item.id ? '...' : 'Delete'}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Crew Modal */}
+      {crewForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{crewForm.id ? 'Edit Crew' : 'New Crew'}</h3>
+            {formError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{formError}</div>
+            )}
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={crewForm.name}
+                  onChange={(e) => setCrewForm({ ...crewForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Daily capacity</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={crewForm.dailyCapacity}
+                    onChange={(e) => setCrewForm({ ...crewForm, dailyCapacity: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Bookings per day</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Colour</label>
+                  <input
+                    type="color"
+                    value={crewForm.color}
+                    onChange={(e) => setCrewForm({ ...crewForm, color: e.target.value })}
+                    className="w-full h-10 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={crewForm.notes}
+                  onChange={(e) => setCrewForm({ ...crewForm, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={crewForm.active}
+                  onChange={(e) => setCrewForm({ ...crewForm, active: e.target.checked })}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                />
+                Active (can be assigned new bookings)
+              </label>
+            </div>
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={() => setCrewForm(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveCrew}
+                disabled={isSaving}
+                className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Equipment Modal */}
+      {equipmentForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{equipmentForm.id ? 'Edit Equipment' : 'Add Equipment'}</h3>
+            {formError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{formError}</div>
+            )}
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={equipmentForm.name}
+                  onChange={(e) => setEquipmentForm({ ...equipmentForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={equipmentForm.type}
+                    onChange={(e) => setEquipmentForm({ ...equipmentForm, type: e.target.value as Equipment['type'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  >
+                    {Object.entries(EQUIPMENT_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Crew</label>
+                  <select
+                    value={equipmentForm.crewId}
+                    onChange={(e) => setEquipmentForm({ ...equipmentForm, crewId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  >
+                    <option value="">Unassigned</option>
+                    {crews.map((crew) => (
+                      <option key={crew.id} value={crew.id}>{crew.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={equipmentForm.quantity}
+                    onChange={(e) => setEquipmentForm({ ...equipmentForm, quantity: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                  <input
+                    type="text"
+                    value={equipmentForm.unit}
+                    onChange={(e) => setEquipmentForm({ ...equipmentForm, unit: e.target.value })}
+                    placeholder="e.g. litres"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={equipmentForm.notes}
+                  onChange={(e) => setEquipmentForm({ ...equipmentForm, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={equipmentForm.active}
+                  onChange={(e) => setEquipmentForm({ ...equipmentForm, active: e.target.checked })}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                />
+                In service
+              </label>
+            </div>
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={() => setEquipmentForm(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEquipment}
+                disabled={isSaving}
+                className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { api, OutboxEmail } from '@/lib/api'
+
+type EmailStatus = OutboxEmail['status']
+
+const STATUS_TABS: Array<{ value: EmailStatus | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'dead', label: 'Dead Letter' },
+  { value: 'pending', label: 'Queued' },
+  { value: 'sending', label: 'Sending' },
+  { value: 'sent', label: 'Sent' },
+]
+
+const STATUS_BADGES: Record<EmailStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+}
+
+const STATUS_LABELS: Record<EmailStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  dead: 'Dead letter',
+}
+
+export default function AdminEmailsPage() {
+  const [emails, setEmails] = useState<OutboxEmail[]>([])
+  const [counts, setCounts] = useState<Record<EmailStatus, number> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | ''>('')
+  const [searchQuery, setSearchQuery] = useState('')
+  // The search last submitted; typing doesn't refetch until the form is sent
+  const [appliedQuery, setAppliedQuery] = useState('')
+  const [pagination, setPagination] = useState({ page: 1, pages: 1, total: 0 })
+  const [resendingId, setResendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [preview, setPreview] = useState<(OutboxEmail & { html: string }) | null>(null)
+
+  const fetchEmails = useCallback(async () => {
+    setIsLoading(true)
+    const response = await api.getAdminEmails({
+      page: pagination.page,
+      status: statusFilter || undefined,
+      search: appliedQuery || undefined,
+    })
+    if (response.data) {
+      setEmails(response.data.emails)
+      setCounts(response.data.counts)
+      setPagination(response.data.pagination)
+    } else {
+      setError(response.error || 'Failed to load emails')
+    }
+    setIsLoading(false)
+  }, [pagination.page, statusFilter, appliedQuery])
+
+  useEffect(() => {
+    fetchEmails()
+  }, [fetchEmails])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (searchQuery === appliedQuery && pagination.page === 1) {
+      fetchEmails()
+      return
+    }
+    setAppliedQuery(searchQuery)
+    setPagination((prev) => ({ ...prev, page: 1 }))
+  }
+
+  const handleResend = async (id: string) => {
+    setResendingId(id)
+    setError('')
+    const response = await api.resendAdminEmail(id)
+    if (response.error) {
+      setError(response.error)
+    } else {
+      await fetchEmails()
+    }
+    setResendingId(null)
+  }
+
+  const handlePreview = async (id: string) => {
+    const response = await api.getAdminEmail(id)
+    if (response.data) {
+      setPreview(response.data)
+    } else {
+      setError(response.error || 'Failed to load email')
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Email Outbox</h1>
+        <p className="text-gray-600">
+          Outgoing emails are queued and retried automatically. Messages that keep failing land in the dead letter list.
+        </p>
+      </div>
+
+      {/* Status Tabs */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex flex-wrap gap-2 mb-4">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              onClick={() => {
+                setStatusFilter(tab.value)
+                setPagination((prev) => ({ ...prev, page: 1 }))
+              }}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                statusFilter === tab.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {tab.label}
+              {tab.value && counts && (
+                <span className="ml-2 opacity-75">{counts[tab.value]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+        <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+          <input
+            type="text"
+            placeholder="Search by recipient or subject..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="flex-1 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            className="px-6 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+          >
+            Search
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg shadow flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+        </div>
+      ) : emails.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          No emails found
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subject</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Queued</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {emails.map((email) => (
+                  <tr key={email.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 text-sm text-gray-900">{email.to}</td>
+                    <td className="px-6 py-4">
+                      <p className="text-sm text-gray-900">{email.subject}</p>
+                      {email.lastError && email.status !== 'sent' && (
+                        <p className="text-xs text-red-600 mt-1 break-words max-w-md">{email.lastError}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[email.status]}`}>
+                        {STATUS_LABELS[email.status]}
+                      </span>
+                      {email.status === 'pending' && email.attempts > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Retry {new Date(email.nextAttemptAt).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {email.attempts}
+                      {email.transport && <span className="block text-xs">via {email.transport}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {new Date(email.createdAt).toLocaleString()}
+                      {email.sentAt && (
+                        <span className="block text-xs">Sent {new Date(email.sentAt).toLocaleString()}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handlePreview(email.id)}
+                          className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50"
+                        >
+                          View
+                        </button>
+                        {email.status !== 'sending' && (
+                          <button
+                            onClick={() => handleResend(email.id)}
+                            disabled={resendingId === email.id}
+                            className="px-3 py-1 bg-orange-600 text-white text-sm rounded hover:bg-orange-700 disabled:opacity-50"
+                          >
+                            {resendingId === email.id ? '...' : email.status === 'pending' ? 'Send Now' : 'Resend'}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {!isLoading && pagination.pages > 1 && (
+        <div className="mt-4 bg-white rounded-lg shadow px-6 py-4 flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Showing page {pagination.page} of {pagination.pages} ({pagination.total} total)
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPagination((prev) => ({ ...prev, page: prev.page - 1 }))}
+              disabled={pagination.page === 1}
+              className="px-3 py-1 border rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPagination((prev) => ({ ...prev, page: prev.page + 1 }))}
+              disabled={pagination.page === pagination.pages}
+              className="px-3 py-1 border rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Preview Modal */}
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+            <div className="p-4 border-b flex justify-between items-start">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{preview.subject}</h3>
+                <p className="text-sm text-gray-500">To: {preview.to}</p>
+              </div>
+              <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-600">
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            {/* Sandboxed so nothing in the message body can run in the admin session */}
+            <iframe
+              title="Email preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="flex-1 w-full min-h-[60vh]"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
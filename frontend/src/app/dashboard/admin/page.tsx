@@ -43,8 +43,12 @@ export default function AdminDashboard() {
     const styles: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
       confirmed: 'bg-blue-100 text-blue-800',
+      scheduled: 'bg-indigo-100 text-indigo-800',
+      in_progress: 'bg-purple-100 text-purple-800',
       completed: 'bg-green-100 text-green-800',
+      rescheduled: 'bg-orange-100 text-orange-800',
       cancelled: 'bg-red-100 text-red-800',
+      declined: 'bg-gray-200 text-gray-800',
     }
     return styles[status] || 'bg-gray-100 text-gray-800'
   }
@@ -240,7 +244,7 @@ export default function AdminDashboard() {
                   </td>
                   <td className="px-6 py-4">
                     <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusBadge(booking.status)}`}>
-                      {booking.status}
+                      {booking.status.replace(/_/g, ' ')}
                     </span>
                   </td>
                   <td className="px-6 py-4">
@@ -275,7 +279,7 @@ export default function AdminDashboard() {
               <div className="flex items-start justify-between mb-2">
                 <span className="font-mono text-sm text-gray-900">{booking.referenceNumber}</span>
                 <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusBadge(booking.status)}`}>
-                  {booking.status}
+                  {booking.status.replace(/_/g, ' ')}
                 </span>
               </div>
               <p className="font-medium text-gray-900">{booking.user.fullName}</p>
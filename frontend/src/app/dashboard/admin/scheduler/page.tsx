@@ -7,7 +7,10 @@ import timeGridPlugin from '@fullcalendar/timegrid'
 import interactionPlugin from '@fullcalendar/interaction'
 import type { EventClickArg, DatesSetArg } from '@fullcalendar/core'
 import type { DateClickArg } from '@fullcalendar/interaction'
-import { api } from '@/lib/api'
+import { api, Crew, CrewConflict, RecurringSchedule } from '@/lib/api'
+import { useBookingEvents } from '@/lib/use-booking-events'
+import { CrewTimeline } from '@/components/admin/crew-timeline'
+import { WeatherPanel } from '@/components/admin/weather-panel'
 import Link from 'next/link'
 
 interface CalendarBooking {
@@ -15,9 +18,15 @@ interface CalendarBooking {
   referenceNumber: string
   preferredDate: string
   preferredTime: string
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled'
+  status: string
   notes: string | null
+  updatedAt: string
+  crewId: string | null
   user: { id: string; fullName: string; email: string }
+  crew: { id: string; name: string; color: string } | null
+  weatherFlaggedAt: string | null
+  weatherForecast: string | null
+  recurringSchedule: Pick<RecurringSchedule, 'id' | 'name' | 'frequency' | 'intervalDays' | 'status'> | null
   configuration: {
     id: string
     name: string
@@ -44,18 +53,39 @@ interface User {
   organization: string | null
 }
 
-const statusColors = {
+const statusColors: Record<string, { bg: string; border: string; text: string }> = {
   pending: { bg: '#FEF3C7', border: '#F59E0B', text: '#92400E' },
   confirmed: { bg: '#DBEAFE', border: '#3B82F6', text: '#1E40AF' },
+  scheduled: { bg: '#E0E7FF', border: '#6366F1', text: '#3730A3' },
+  in_progress: { bg: '#EDE9FE', border: '#8B5CF6', text: '#5B21B6' },
   completed: { bg: '#D1FAE5', border: '#10B981', text: '#065F46' },
+  rescheduled: { bg: '#FFEDD5', border: '#F97316', text: '#9A3412' },
   cancelled: { bg: '#FEE2E2', border: '#EF4444', text: '#991B1B' },
+  declined: { bg: '#E5E7EB', border: '#6B7280', text: '#1F2937' },
 }
 
+const STATUS_OPTIONS = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'rescheduled', label: 'Rescheduled' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'declined', label: 'Declined' },
+]
+
+// The API rejects these changes without a reason for the customer
+const REASON_REQUIRED = ['rescheduled', 'cancelled', 'declined']
+
+type EditForm = { preferredDate: string; preferredTime: string; status: string; statusReason: string; notes: string; crewId: string }
+
 export default function AdminSchedulerPage() {
   const calendarRef = useRef<FullCalendar>(null)
   const [bookings, setBookings] = useState<CalendarBooking[]>([])
+  const [crewConflicts, setCrewConflicts] = useState<CrewConflict[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [currentView, setCurrentView] = useState<'week' | 'month'>('week')
+  const [currentView, setCurrentView] = useState<'week' | 'month' | 'crews'>('week')
   const [dateRange, setDateRange] = useState<{ start: Date; end: Date }>({
     start: getWeekStart(new Date()),
     end: getWeekEnd(new Date())
@@ -72,6 +102,7 @@ export default function AdminSchedulerPage() {
   const [sportsgrounds, setSportsgrounds] = useState<Sportsground[]>([])
   const [configurations, setConfigurations] = useState<Configuration[]>([])
   const [users, setUsers] = useState<User[]>([])
+  const [crews, setCrews] = useState<Crew[]>([])
 
   // Modals
   const [selectedBooking, setSelectedBooking] = useState<CalendarBooking | null>(null)
@@ -84,15 +115,19 @@ export default function AdminSchedulerPage() {
   const [mobileDate, setMobileDate] = useState(new Date())
 
   // Edit form state
-  const [editForm, setEditForm] = useState({
+  const [editForm, setEditForm] = useState<EditForm>({
     preferredDate: '',
     preferredTime: '',
     status: '',
-    notes: ''
+    statusReason: '',
+    notes: '',
+    crewId: ''
   })
   const [isUpdating, setIsUpdating] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  // Crew conflicts caused by the last save; the change is kept but flagged
+  const [crewWarnings, setCrewWarnings] = useState<string[]>([])
 
   // Create form state
   const [createForm, setCreateForm] = useState({
@@ -101,7 +136,7 @@ export default function AdminSchedulerPage() {
     preferredDate: '',
     preferredTime: '',
     notes: '',
-    contactPreference: 'email' as 'phone' | 'email'
+    contactPreference: 'email' as 'phone' | 'email' | 'both'
   })
   const [isCreating, setIsCreating] = useState(false)
 
@@ -152,19 +187,22 @@ export default function AdminSchedulerPage() {
   }
 
   const fetchFilterOptions = async () => {
-    const [sgRes, configRes, userRes] = await Promise.all([
+    const [sgRes, configRes, userRes, crewRes] = await Promise.all([
       api.getAdminSportsgrounds({ limit: 1000 }),
       api.getAdminConfigurations({ limit: 1000 }),
-      api.getAdminUsersSimple()
+      api.getAdminUsersSimple(),
+      api.getCrews()
     ])
 
     if (sgRes.data) setSportsgrounds(sgRes.data.sportsgrounds)
     if (configRes.data) setConfigurations(configRes.data.configurations)
     if (userRes.data) setUsers(userRes.data.users)
+    if (crewRes.data) setCrews(crewRes.data)
   }
 
-  const fetchBookings = async () => {
-    setIsLoading(true)
+  // quiet skips the loading spinner, for refreshes the user didn't ask for
+  const fetchBookings = async (quiet = false) => {
+    if (!quiet) setIsLoading(true)
     console.log('Fetching bookings for range:', {
       start: dateRange.start.toISOString(),
       end: dateRange.end.toISOString()
@@ -182,10 +220,17 @@ export default function AdminSchedulerPage() {
     if (response.data) {
       console.log('Bookings received:', response.data.bookings.length, response.data.bookings)
       setBookings(response.data.bookings)
+      setCrewConflicts(response.data.crewConflicts)
     }
     setIsLoading(false)
+    return response.data?.bookings
   }
 
+  // Another dispatcher (or a customer) changed a booking
+  useBookingEvents(() => {
+    fetchBookings(true)
+  })
+
   const handleDatesSet = useCallback((arg: DatesSetArg) => {
     setDateRange(prev => {
       // Only update if dates actually changed to prevent infinite loop
@@ -197,18 +242,23 @@ export default function AdminSchedulerPage() {
     })
   }, [])
 
-  const handleEventClick = useCallback((info: EventClickArg) => {
-    const booking = info.event.extendedProps.booking as CalendarBooking
+  const openBookingEditor = useCallback((booking: CalendarBooking) => {
     setSelectedBooking(booking)
     setEditForm({
       preferredDate: booking.preferredDate.split('T')[0],
       preferredTime: booking.preferredTime,
       status: booking.status,
-      notes: booking.notes || ''
+      statusReason: '',
+      notes: booking.notes || '',
+      crewId: booking.crewId || ''
     })
     setShowBookingModal(true)
   }, [])
 
+  const handleEventClick = useCallback((info: EventClickArg) => {
+    openBookingEditor(info.event.extendedProps.booking as CalendarBooking)
+  }, [openBookingEditor])
+
   const handleDateClick = useCallback((info: DateClickArg) => {
     const date = info.dateStr.split('T')[0]
     const time = info.date.getHours().toString().padStart(2, '0') + ':00'
@@ -235,13 +285,47 @@ export default function AdminSchedulerPage() {
       preferredDate: editForm.preferredDate,
       preferredTime: editForm.preferredTime,
       status: editForm.status,
-      notes: editForm.notes || undefined
+      statusReason: editForm.statusReason || undefined,
+      notes: editForm.notes || undefined,
+      crewId: editForm.crewId || null,
+      expectedUpdatedAt: selectedBooking.updatedAt
     })
 
-    if (response.error) {
+    if (response.status === 409) {
+      // Someone else saved first: show their version rather than overwrite it
+      const latest = (await fetchBookings(true))?.find(b => b.id === selectedBooking.id)
+      if (latest) openBookingEditor(latest)
+      setError('Someone else changed this booking while you were editing it. The form now shows the latest details; reapply your changes and save again.')
+    } else if (response.error) {
       setError(response.error)
     } else {
       setSuccess('Booking updated successfully')
+      setCrewWarnings(response.data?.crewConflicts.map(c => c.message) ?? [])
+      setShowBookingModal(false)
+      setSelectedBooking(null)
+      fetchBookings()
+    }
+    setIsUpdating(false)
+  }
+
+  // Skip this booking's date in its series, or pause/resume the whole series
+  const handleSeriesAction = async (action: 'skip' | 'paused' | 'active') => {
+    const schedule = selectedBooking?.recurringSchedule
+    if (!selectedBooking || !schedule) return
+
+    setIsUpdating(true)
+    setError('')
+
+    const response = action === 'skip'
+      ? await api.skipAdminRecurringOccurrence(schedule.id, selectedBooking.preferredDate.split('T')[0])
+      : await api.updateAdminRecurringScheduleStatus(schedule.id, action)
+
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setSuccess(action === 'skip'
+        ? `${selectedBooking.referenceNumber} skipped in "${schedule.name}"`
+        : `"${schedule.name}" ${action === 'paused' ? 'paused' : 'resumed'}`)
       setShowBookingModal(false)
       setSelectedBooking(null)
       fetchBookings()
@@ -319,7 +403,7 @@ export default function AdminSchedulerPage() {
 
       return {
         id: booking.id,
-        title: `${booking.referenceNumber} - ${booking.configuration?.name || 'Unknown'}${timeLabel}`,
+        title: `${booking.weatherFlaggedAt ? '🌧 ' : ''}${booking.recurringSchedule ? '↻ ' : ''}${booking.referenceNumber} - ${booking.configuration?.name || 'Unknown'}${timeLabel}`,
         start: startDate,
         end: endDate,
         backgroundColor: statusColors[booking.status]?.bg || '#ccc',
@@ -349,24 +433,39 @@ export default function AdminSchedulerPage() {
       .sort((a, b) => a.preferredTime.localeCompare(b.preferredTime))
   }, [filteredBookings, mobileDate])
 
-  const handleViewChange = (view: 'week' | 'month') => {
+  const handleViewChange = (view: 'week' | 'month' | 'crews') => {
     setCurrentView(view)
+    if (view === 'crews') {
+      // The crew timeline always shows a Monday-to-Sunday week
+      setDateRange({ start: getWeekStart(dateRange.start), end: getWeekEnd(dateRange.start) })
+      return
+    }
     const calendarApi = calendarRef.current?.getApi()
     if (calendarApi) {
       calendarApi.changeView(view === 'week' ? 'timeGridWeek' : 'dayGridMonth')
     }
   }
 
+  const shiftCrewWeek = (weeks: number) => {
+    const start = new Date(dateRange.start)
+    start.setDate(start.getDate() + weeks * 7)
+    setDateRange({ start: getWeekStart(start), end: getWeekEnd(start) })
+  }
+
   const StatusBadge = ({ status }: { status: string }) => {
     const colors: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
       confirmed: 'bg-blue-100 text-blue-800',
+      scheduled: 'bg-indigo-100 text-indigo-800',
+      in_progress: 'bg-purple-100 text-purple-800',
       completed: 'bg-green-100 text-green-800',
-      cancelled: 'bg-red-100 text-red-800'
+      rescheduled: 'bg-orange-100 text-orange-800',
+      cancelled: 'bg-red-100 text-red-800',
+      declined: 'bg-gray-200 text-gray-800'
     }
     return (
       <span className={`px-2 py-1 rounded-full text-xs font-medium ${colors[status] || 'bg-gray-100 text-gray-800'}`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {STATUS_OPTIONS.find((option) => option.value === status)?.label ?? status}
       </span>
     )
   }
@@ -448,24 +547,15 @@ export default function AdminSchedulerPage() {
             {mobileDayBookings.map(booking => (
               <div
                 key={booking.id}
-                onClick={() => {
-                  setSelectedBooking(booking)
-                  setEditForm({
-                    preferredDate: booking.preferredDate.split('T')[0],
-                    preferredTime: booking.preferredTime,
-                    status: booking.status,
-                    notes: booking.notes || ''
-                  })
-                  setShowBookingModal(true)
-                }}
+                onClick={() => openBookingEditor(booking)}
                 className="bg-white rounded-lg shadow p-4 cursor-pointer hover:shadow-md transition-shadow"
-                style={{ borderLeft: `4px solid ${statusColors[booking.status].border}` }}
+                style={{ borderLeft: `4px solid ${statusColors[booking.status]?.border || '#999'}` }}
               >
                 <div className="flex justify-between items-start mb-2">
                   <p className="font-medium text-gray-900">{booking.preferredTime}</p>
                   <StatusBadge status={booking.status} />
                 </div>
-                <p className="text-sm font-medium text-gray-900">{booking.referenceNumber}</p>
+                <p className="text-sm font-medium text-gray-900">{booking.weatherFlaggedAt ? '🌧 ' : ''}{booking.recurringSchedule ? '↻ ' : ''}{booking.referenceNumber}</p>
                 <p className="text-sm text-gray-600">{booking.configuration.name}</p>
                 <p className="text-sm text-gray-500">{booking.user.fullName}</p>
               </div>
@@ -481,6 +571,8 @@ export default function AdminSchedulerPage() {
             setEditForm={setEditForm}
             onClose={() => { setShowBookingModal(false); setSelectedBooking(null); setError('') }}
             onSubmit={handleUpdateBooking}
+            onSeriesAction={handleSeriesAction}
+            crews={crews}
             isUpdating={isUpdating}
             error={error}
           />
@@ -544,6 +636,31 @@ export default function AdminSchedulerPage() {
         </div>
       )}
 
+      {/* Confirmed bookings with rain forecast */}
+      <WeatherPanel
+        onRescheduled={(message) => {
+          setSuccess(message)
+          fetchBookings(true)
+        }}
+      />
+
+      {/* Crew conflicts from the last save */}
+      {crewWarnings.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 flex justify-between items-start gap-4">
+          <div>
+            <p className="font-medium">Crew conflict</p>
+            <ul className="text-sm list-disc list-inside">
+              {crewWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+          <button onClick={() => setCrewWarnings([])} className="text-amber-600 hover:text-amber-800 text-sm">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow p-4 mb-6">
         <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
@@ -563,6 +680,12 @@ export default function AdminSchedulerPage() {
               >
                 Month
               </button>
+              <button
+                onClick={() => handleViewChange('crews')}
+                className={`flex-1 px-3 py-2 text-sm ${currentView === 'crews' ? 'bg-orange-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                Crews
+              </button>
             </div>
           </div>
 
@@ -575,11 +698,10 @@ export default function AdminSchedulerPage() {
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
             >
               <option value="">All Statuses</option>
-              <option value="pending">Pending</option>
-              <option value="confirmed">Confirmed</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
-              <option value="pending,confirmed">Active (Pending & Confirmed)</option>
+              {STATUS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+              <option value="pending,confirmed,scheduled,in_progress,rescheduled">Active (Not Yet Completed)</option>
             </select>
           </div>
 
@@ -652,22 +774,12 @@ export default function AdminSchedulerPage() {
 
         {/* Legend */}
         <div className="mt-4 flex flex-wrap gap-4 text-sm">
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded" style={{ backgroundColor: statusColors.pending.bg, border: `2px solid ${statusColors.pending.border}` }}></div>
-            <span>Pending</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded" style={{ backgroundColor: statusColors.confirmed.bg, border: `2px solid ${statusColors.confirmed.border}` }}></div>
-            <span>Confirmed</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded" style={{ backgroundColor: statusColors.completed.bg, border: `2px solid ${statusColors.completed.border}` }}></div>
-            <span>Completed</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded" style={{ backgroundColor: statusColors.cancelled.bg, border: `2px solid ${statusColors.cancelled.border}` }}></div>
-            <span>Cancelled</span>
-          </div>
+          {STATUS_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded" style={{ backgroundColor: statusColors[option.value].bg, border: `2px solid ${statusColors[option.value].border}` }}></div>
+              <span>{option.label}</span>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -678,27 +790,77 @@ export default function AdminSchedulerPage() {
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
           </div>
         )}
-        <FullCalendar
-          ref={calendarRef}
-          plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
-          initialView={currentView === 'week' ? 'timeGridWeek' : 'dayGridMonth'}
-          headerToolbar={{
-            left: 'prev,next today',
-            center: 'title',
-            right: ''
-          }}
-          events={calendarEvents}
-          eventClick={handleEventClick}
-          dateClick={handleDateClick}
-          datesSet={handleDatesSet}
-          height="auto"
-          slotMinTime="06:00:00"
-          slotMaxTime="22:00:00"
-          allDaySlot={false}
-          nowIndicator={true}
-          eventDisplay="block"
-          dayMaxEvents={3}
-        />
+        {currentView === 'crews' ? (
+          <>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex gap-2">
+                <button onClick={() => shiftCrewWeek(-1)} className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50">
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+                <button onClick={() => shiftCrewWeek(1)} className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50">
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => setDateRange({ start: getWeekStart(new Date()), end: getWeekEnd(new Date()) })}
+                  className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+                >
+                  Today
+                </button>
+              </div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                {dateRange.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – {dateRange.end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+              </h2>
+              <Link href="/dashboard/admin/crews" className="text-sm text-orange-600 hover:text-orange-700">
+                Manage crews
+              </Link>
+            </div>
+            {crewConflicts.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                <p className="font-medium">{crewConflicts.length} crew conflict{crewConflicts.length !== 1 ? 's' : ''} this week</p>
+                <ul className="list-disc list-inside">
+                  {crewConflicts.map((conflict) => (
+                    <li key={`${conflict.type}-${conflict.bookingIds.join('-')}`}>{conflict.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <CrewTimeline
+              crews={crews}
+              bookings={filteredBookings}
+              conflicts={crewConflicts}
+              start={dateRange.start}
+              statusColors={statusColors}
+              onBookingClick={openBookingEditor}
+            />
+          </>
+        ) : (
+          <FullCalendar
+            ref={calendarRef}
+            plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
+            initialView={currentView === 'week' ? 'timeGridWeek' : 'dayGridMonth'}
+            initialDate={dateRange.start}
+            headerToolbar={{
+              left: 'prev,next today',
+              center: 'title',
+              right: ''
+            }}
+            events={calendarEvents}
+            eventClick={handleEventClick}
+            dateClick={handleDateClick}
+            datesSet={handleDatesSet}
+            height="auto"
+            slotMinTime="06:00:00"
+            slotMaxTime="22:00:00"
+            allDaySlot={false}
+            nowIndicator={true}
+            eventDisplay="block"
+            dayMaxEvents={3}
+          />
+        )}
       </div>
 
       {/* Booking Modal */}
@@ -709,6 +871,8 @@ export default function AdminSchedulerPage() {
           setEditForm={setEditForm}
           onClose={() => { setShowBookingModal(false); setSelectedBooking(null); setError('') }}
           onSubmit={handleUpdateBooking}
+          onSeriesAction={handleSeriesAction}
+          crews={crews}
           isUpdating={isUpdating}
           error={error}
         />
@@ -743,14 +907,18 @@ function BookingModal({
   setEditForm,
   onClose,
   onSubmit,
+  onSeriesAction,
+  crews,
   isUpdating,
   error
 }: {
   booking: CalendarBooking
-  editForm: { preferredDate: string; preferredTime: string; status: string; notes: string }
-  setEditForm: React.Dispatch<React.SetStateAction<{ preferredDate: string; preferredTime: string; status: string; notes: string }>>
+  editForm: EditForm
+  setEditForm: React.Dispatch<React.SetStateAction<EditForm>>
   onClose: () => void
   onSubmit: (e: React.FormEvent) => void
+  onSeriesAction: (action: 'skip' | 'paused' | 'active') => void
+  crews: Crew[]
   isUpdating: boolean
   error: string
 }) {
@@ -780,6 +948,48 @@ function BookingModal({
             <p><span className="text-gray-500">Preferred Time:</span> <span className="font-medium capitalize">{booking.preferredTime}</span></p>
           </div>
 
+          {booking.weatherFlaggedAt && (
+            <div className="mb-6 p-3 bg-sky-50 border border-sky-200 rounded-lg text-sm text-sky-900">
+              🌧 Rain forecast for this day: {booking.weatherForecast}. Use the rain panel above the calendar to move it to the next dry slot.
+            </div>
+          )}
+
+          {booking.recurringSchedule && (
+            <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+              <p className="text-sm">
+                <span className="text-gray-500">Recurring series:</span>{' '}
+                <span className="font-medium">↻ {booking.recurringSchedule.name}</span>{' '}
+                <span className="text-gray-500">
+                  ({booking.recurringSchedule.frequency === 'weekly'
+                    ? 'weekly'
+                    : booking.recurringSchedule.frequency === 'fortnightly'
+                    ? 'fortnightly'
+                    : `every ${booking.recurringSchedule.intervalDays} days`}, {booking.recurringSchedule.status})
+                </span>
+              </p>
+              {booking.recurringSchedule.status !== 'ended' && (
+                <div className="flex gap-2 mt-3">
+                  <button
+                    type="button"
+                    onClick={() => onSeriesAction('skip')}
+                    disabled={isUpdating}
+                    className="px-3 py-1 border border-red-300 text-red-700 text-sm rounded hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Skip this date
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onSeriesAction(booking.recurringSchedule?.status === 'active' ? 'paused' : 'active')}
+                    disabled={isUpdating}
+                    className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {booking.recurringSchedule.status === 'active' ? 'Pause series' : 'Resume series'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
               {error}
@@ -815,13 +1025,41 @@ function BookingModal({
                 onChange={(e) => setEditForm({ ...editForm, status: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
               >
-                <option value="pending">Pending</option>
-                <option value="confirmed">Confirmed</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Crew</label>
+              <select
+                value={editForm.crewId}
+                onChange={(e) => setEditForm({ ...editForm, crewId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+              >
+                <option value="">Unassigned</option>
+                {crews.filter(c => c.active || c.id === booking.crewId).map(c => (
+                  <option key={c.id} value={c.id}>{c.name}{c.active ? '' : ' (inactive)'}</option>
+                ))}
+              </select>
+            </div>
+
+            {editForm.status !== booking.status && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason for status change{REASON_REQUIRED.includes(editForm.status) ? '' : ' (optional)'}
+                </label>
+                <input
+                  type="text"
+                  value={editForm.statusReason}
+                  onChange={(e) => setEditForm({ ...editForm, statusReason: e.target.value })}
+                  required={REASON_REQUIRED.includes(editForm.status)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+                />
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
               <textarea
@@ -867,8 +1105,8 @@ function CreateBookingModal({
   isCreating,
   error
 }: {
-  createForm: { userId: string; configurationId: string; preferredDate: string; preferredTime: string; notes: string; contactPreference: 'phone' | 'email' }
-  setCreateForm: React.Dispatch<React.SetStateAction<{ userId: string; configurationId: string; preferredDate: string; preferredTime: string; notes: string; contactPreference: 'phone' | 'email' }>>
+  createForm: { userId: string; configurationId: string; preferredDate: string; preferredTime: string; notes: string; contactPreference: 'phone' | 'email' | 'both' }
+  setCreateForm: React.Dispatch<React.SetStateAction<{ userId: string; configurationId: string; preferredDate: string; preferredTime: string; notes: string; contactPreference: 'phone' | 'email' | 'both' }>>
   users: User[]
   sportsgrounds: Sportsground[]
   configurations: Configuration[]
@@ -979,11 +1217,12 @@ function CreateBookingModal({
               <label className="block text-sm font-medium text-gray-700 mb-1">Contact Preference *</label>
               <select
                 value={createForm.contactPreference}
-                onChange={(e) => setCreateForm({ ...createForm, contactPreference: e.target.value as 'phone' | 'email' })}
+                onChange={(e) => setCreateForm({ ...createForm, contactPreference: e.target.value as 'phone' | 'email' | 'both' })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
               >
                 <option value="email">Email</option>
-                <option value="phone">Phone</option>
+                <option value="phone">Phone (SMS)</option>
+                <option value="both">Both</option>
               </select>
             </div>
 
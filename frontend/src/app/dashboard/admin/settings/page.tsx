@@ -20,6 +20,10 @@ export default function AdminSettingsPage() {
   // Maintenance mode state
   const [maintenanceMode, setMaintenanceMode] = useState(false)
 
+  // Scheduled maintenance announcement
+  const [maintenanceWindow, setMaintenanceWindow] = useState('')
+  const [isAnnouncing, setIsAnnouncing] = useState(false)
+
   useEffect(() => {
     const fetchSettings = async () => {
       const response = await api.getSettings()
@@ -27,6 +31,7 @@ export default function AdminSettingsPage() {
         setSettings(response.data)
         setProviderEmail(response.data.provider_email || '')
         setMaintenanceMode(response.data.maintenance_mode === 'true')
+        setMaintenanceWindow(response.data.maintenance_window || '')
       } else if (response.error) {
         setError(response.error)
       }
@@ -53,6 +58,32 @@ export default function AdminSettingsPage() {
     setIsTogglingMaintenance(false)
   }
 
+  const handleAnnounceMaintenance = async () => {
+    setError('')
+    setSuccess('')
+
+    const value = maintenanceWindow.trim()
+    if (!value) {
+      setError('Describe when the maintenance will happen')
+      return
+    }
+    if (value === settings.maintenance_window) {
+      setError('This maintenance window has already been announced')
+      return
+    }
+
+    setIsAnnouncing(true)
+    const response = await api.updateSetting('maintenance_window', value)
+
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setSuccess('Maintenance window announced to all users')
+      setSettings({ ...settings, maintenance_window: value })
+    }
+    setIsAnnouncing(false)
+  }
+
   const handleSaveProviderEmail = async () => {
     setError('')
     setSuccess('')
@@ -158,6 +189,36 @@ export default function AdminSettingsPage() {
           </div>
         </div>
 
+        {/* Scheduled Maintenance */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Scheduled Maintenance</h2>
+            <p className="text-sm text-gray-500">Warn users ahead of planned downtime</p>
+          </div>
+          <div className="p-4">
+            <p className="text-sm text-gray-500 mb-2">
+              Every user gets an in-app notification with this message when you announce it.
+            </p>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={maintenanceWindow}
+                onChange={(e) => setMaintenanceWindow(e.target.value)}
+                placeholder="e.g. Sunday 9 November, 10pm to midnight"
+                maxLength={200}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+              />
+              <button
+                onClick={handleAnnounceMaintenance}
+                disabled={isAnnouncing}
+                className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 transition-colors"
+              >
+                {isAnnouncing ? 'Announcing...' : 'Announce'}
+              </button>
+            </div>
+          </div>
+        </div>
+
         {/* User Management */}
         <div className="bg-white rounded-lg shadow">
           <div className="p-4 border-b border-gray-200">
@@ -266,7 +327,7 @@ export default function AdminSettingsPage() {
               <div className="mt-2 text-sm text-blue-700">
                 <p>When a customer submits a new booking:</p>
                 <ul className="list-disc list-inside mt-1">
-                  <li>All users with admin or super admin roles receive an email notification</li>
+                  <li>All users with admin or super admin roles receive an email and an in-app notification</li>
                   <li>If no admin users exist, the fallback provider email above is used</li>
                   <li>The customer also receives a confirmation email</li>
                 </ul>
@@ -3,7 +3,10 @@
 import { useEffect, useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
+import type { InteriorElements } from 'xactline-shared/field-geometry'
 import { api } from '@/lib/api'
+import { TemplateDesigner, toInteriorElements } from '@/components/admin/template-designer'
+import { TemplateVersionHistory } from '@/components/admin/template-version-history'
 
 const SPORTS = [
   { value: 'soccer', label: 'Soccer/Football' },
@@ -38,6 +41,7 @@ export default function EditTemplatePage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
+  const [errorDetails, setErrorDetails] = useState<string[]>([])
 
   const [form, setForm] = useState({
     name: '',
@@ -52,7 +56,7 @@ export default function EditTemplatePage() {
     isActive: true,
   })
 
-  const [interiorElements, setInteriorElements] = useState('[]')
+  const [interiorElements, setInteriorElements] = useState<InteriorElements>({ elements: [], fixedElements: [] })
 
   useEffect(() => {
     const fetchTemplate = async () => {
@@ -72,7 +76,7 @@ export default function EditTemplatePage() {
             defaultWidth: template.defaultWidth,
             isActive: template.isActive,
           })
-          setInteriorElements(JSON.stringify(template.interiorElements, null, 2))
+          setInteriorElements(toInteriorElements(template.interiorElements))
         } else {
           setError('Template not found')
         }
@@ -96,18 +100,9 @@ export default function EditTemplatePage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+    setErrorDetails([])
     setIsSubmitting(true)
 
-    // Validate interior elements JSON
-    let parsedElements
-    try {
-      parsedElements = JSON.parse(interiorElements)
-    } catch {
-      setError('Invalid JSON format for interior elements')
-      setIsSubmitting(false)
-      return
-    }
-
     // Validate dimensions
     if (form.defaultLength < form.minLength || form.defaultLength > form.maxLength) {
       setError('Default length must be between min and max length')
@@ -122,11 +117,17 @@ export default function EditTemplatePage() {
 
     const response = await api.updateTemplate(params.id as string, {
       ...form,
-      interiorElements: parsedElements,
+      interiorElements,
     })
 
     if (response.error) {
       setError(response.error)
+      // Show per-element problems reported by the server, e.g. "interiorElements.elements.3.start.x"
+      setErrorDetails(
+        (response.details || []).map((detail) =>
+          detail.path?.length ? `${detail.path.join('.')}: ${detail.message}` : detail.message
+        )
+      )
       setIsSubmitting(false)
       return
     }
@@ -170,6 +171,13 @@ export default function EditTemplatePage() {
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
             {error}
+            {errorDetails.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm font-mono">
+                {errorDetails.map((detail) => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -333,18 +341,21 @@ export default function EditTemplatePage() {
         </div>
 
         <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-2">Interior Elements (Advanced)</h2>
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Field Markings</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Add lines, arcs, circles, rectangles and spots. Positions can be formulas so markings scale with the
+            field; the previews show the template at its min, default and max dimensions.
+          </p>
+          <TemplateDesigner value={interiorElements} onChange={setInteriorElements} dimensions={form} />
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Version History</h2>
           <p className="text-sm text-gray-500 mb-4">
-            Define the field markers and lines as JSON. This is an advanced feature for defining the interior
-            structure of the field template.
+            Saving changes to the dimensions or markings publishes a new version. Existing configurations keep the
+            version they were designed with until their owner upgrades.
           </p>
-          <textarea
-            value={interiorElements}
-            onChange={(e) => setInteriorElements(e.target.value)}
-            rows={10}
-            className="w-full px-4 py-2 font-mono text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
-            placeholder="[]"
-          />
+          <TemplateVersionHistory templateId={params.id as string} />
         </div>
 
         <div className="flex items-center gap-4">
@@ -3,7 +3,9 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import type { InteriorElements } from 'xactline-shared/field-geometry'
 import { api } from '@/lib/api'
+import { TemplateDesigner } from '@/components/admin/template-designer'
 
 const SPORTS = [
   { value: 'soccer', label: 'Soccer/Football' },
@@ -21,6 +23,7 @@ export default function NewTemplatePage() {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
+  const [errorDetails, setErrorDetails] = useState<string[]>([])
 
   const [form, setForm] = useState({
     name: '',
@@ -35,7 +38,7 @@ export default function NewTemplatePage() {
     isActive: true,
   })
 
-  const [interiorElements, setInteriorElements] = useState('[]')
+  const [interiorElements, setInteriorElements] = useState<InteriorElements>({ elements: [], fixedElements: [] })
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target
@@ -49,18 +52,9 @@ export default function NewTemplatePage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+    setErrorDetails([])
     setIsSubmitting(true)
 
-    // Validate interior elements JSON
-    let parsedElements
-    try {
-      parsedElements = JSON.parse(interiorElements)
-    } catch {
-      setError('Invalid JSON format for interior elements')
-      setIsSubmitting(false)
-      return
-    }
-
     // Validate dimensions
     if (form.defaultLength < form.minLength || form.defaultLength > form.maxLength) {
       setError('Default length must be between min and max length')
@@ -75,11 +69,17 @@ export default function NewTemplatePage() {
 
     const response = await api.createTemplate({
       ...form,
-      interiorElements: parsedElements,
+      interiorElements,
     })
 
     if (response.error) {
       setError(response.error)
+      // Show per-element problems reported by the server, e.g. "interiorElements.elements.3.start.x"
+      setErrorDetails(
+        (response.details || []).map((detail) =>
+          detail.path?.length ? `${detail.path.join('.')}: ${detail.message}` : detail.message
+        )
+      )
       setIsSubmitting(false)
       return
     }
@@ -107,6 +107,13 @@ export default function NewTemplatePage() {
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">
             {error}
+            {errorDetails.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm font-mono">
+                {errorDetails.map((detail) => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -270,18 +277,12 @@ export default function NewTemplatePage() {
         </div>
 
         <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-2">Interior Elements (Advanced)</h2>
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Field Markings</h2>
           <p className="text-sm text-gray-500 mb-4">
-            Define the field markers and lines as JSON. This is an advanced feature for defining the interior
-            structure of the field template.
+            Add lines, arcs, circles, rectangles and spots. Positions can be formulas so markings scale with the
+            field; the previews show the template at its min, default and max dimensions.
           </p>
-          <textarea
-            value={interiorElements}
-            onChange={(e) => setInteriorElements(e.target.value)}
-            rows={10}
-            className="w-full px-4 py-2 font-mono text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
-            placeholder="[]"
-          />
+          <TemplateDesigner value={interiorElements} onChange={setInteriorElements} dimensions={form} />
         </div>
 
         <div className="flex items-center gap-4">
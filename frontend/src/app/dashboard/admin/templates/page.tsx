@@ -10,6 +10,7 @@ interface Template {
   sport: string
   description?: string
   isActive: boolean
+  currentVersion: number
   createdAt: string
   _count: {
     configurations: number
@@ -171,7 +172,10 @@ export default function AdminTemplatesPage() {
               <div className="flex flex-col md:flex-row justify-between gap-4">
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-3">
-                    <h3 className="font-medium text-gray-900">{template.name}</h3>
+                    <h3 className="font-medium text-gray-900">
+                      {template.name}
+                      <span className="ml-2 text-xs font-normal text-gray-400">v{template.currentVersion}</span>
+                    </h3>
                     <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium capitalize">
                       {template.sport}
                     </span>
@@ -285,7 +289,10 @@ export default function AdminTemplatesPage() {
                   <tr key={template.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4">
                       <div>
-                        <p className="font-medium text-gray-900">{template.name}</p>
+                        <p className="font-medium text-gray-900">
+                          {template.name}
+                          <span className="ml-2 text-xs font-normal text-gray-400">v{template.currentVersion}</span>
+                        </p>
                         {template.description && (
                           <p className="text-sm text-gray-500 truncate max-w-xs">{template.description}</p>
                         )}
@@ -118,8 +118,12 @@ export default function AdminUserDetailPage() {
     const styles: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
       confirmed: 'bg-blue-100 text-blue-800',
+      scheduled: 'bg-indigo-100 text-indigo-800',
+      in_progress: 'bg-purple-100 text-purple-800',
       completed: 'bg-green-100 text-green-800',
+      rescheduled: 'bg-orange-100 text-orange-800',
       cancelled: 'bg-red-100 text-red-800',
+      declined: 'bg-gray-200 text-gray-800',
     }
     return styles[status] || 'bg-gray-100 text-gray-800'
   }
@@ -285,7 +289,7 @@ export default function AdminUserDetailPage() {
                       </p>
                     </div>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusBadge(booking.status)}`}>
-                      {booking.status}
+                      {booking.status.replace(/_/g, ' ')}
                     </span>
                   </div>
                 </div>
@@ -3,7 +3,7 @@
 import { useEffect, useState, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { api } from '@/lib/api'
+import { api, ConfigurationSnapshot } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 
@@ -38,13 +38,19 @@ interface Booking {
       defaultZoom: number
     }
   }
+  configurationSnapshot: ConfigurationSnapshot | null
+  configurationChanged: boolean
 }
 
-const STATUS_STYLES: Record<string, { bg: string; text: string; border: string }> = {
-  pending: { bg: 'bg-yellow-50', text: 'text-yellow-800', border: 'border-yellow-200' },
-  confirmed: { bg: 'bg-blue-50', text: 'text-blue-800', border: 'border-blue-200' },
-  completed: { bg: 'bg-green-50', text: 'text-green-800', border: 'border-green-200' },
-  cancelled: { bg: 'bg-red-50', text: 'text-red-800', border: 'border-red-200' },
+const STATUS_STYLES: Record<string, { bg: string; text: string; border: string; label: string }> = {
+  pending: { bg: 'bg-yellow-50', text: 'text-yellow-800', border: 'border-yellow-200', label: 'Pending' },
+  confirmed: { bg: 'bg-blue-50', text: 'text-blue-800', border: 'border-blue-200', label: 'Confirmed' },
+  scheduled: { bg: 'bg-indigo-50', text: 'text-indigo-800', border: 'border-indigo-200', label: 'Scheduled' },
+  in_progress: { bg: 'bg-purple-50', text: 'text-purple-800', border: 'border-purple-200', label: 'In Progress' },
+  completed: { bg: 'bg-green-50', text: 'text-green-800', border: 'border-green-200', label: 'Completed' },
+  rescheduled: { bg: 'bg-orange-50', text: 'text-orange-800', border: 'border-orange-200', label: 'Rescheduled' },
+  cancelled: { bg: 'bg-red-50', text: 'text-red-800', border: 'border-red-200', label: 'Cancelled' },
+  declined: { bg: 'bg-gray-50', text: 'text-gray-800', border: 'border-gray-200', label: 'Declined' },
 }
 
 // Load Google Maps script
@@ -176,8 +182,8 @@ export default function BookingDetailPage() {
   const formatContactPreference = (pref: string) => {
     const prefMap: Record<string, string> = {
       email: 'Email',
-      phone: 'Phone',
-      both: 'Either email or phone',
+      phone: 'Phone (SMS)',
+      both: 'Email and SMS',
     }
     return prefMap[pref] || pref
   }
@@ -248,7 +254,7 @@ export default function BookingDetailPage() {
             <span
               className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${statusStyle.bg} ${statusStyle.text}`}
             >
-              {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+              {statusStyle.label}
             </span>
           </div>
           <p className="text-gray-600">
@@ -338,7 +344,7 @@ export default function BookingDetailPage() {
                   <span
                     className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyle.bg} ${statusStyle.text}`}
                   >
-                    {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                    {statusStyle.label}
                   </span>
                 </div>
               </div>
@@ -396,6 +402,14 @@ export default function BookingDetailPage() {
               <CardTitle className="text-lg">Field Configuration</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {booking.configurationSnapshot && booking.configurationChanged && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  This field has been edited since the booking was accepted. Our crew will mark it as booked:{' '}
+                  {booking.configurationSnapshot.lengthMeters}m x {booking.configurationSnapshot.widthMeters}m,
+                  rotated {booking.configurationSnapshot.rotationDegrees}°. Make a new booking to have the new layout marked.
+                </div>
+              )}
+
               <div>
                 <p className="text-sm font-medium text-gray-500">Configuration Name</p>
                 <Link
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useBookingCart, SelectedConfiguration } from '@/lib/booking-cart-context'
 import { api } from '@/lib/api'
+import { useBookingAvailability } from '@/lib/use-booking-availability'
+import { AvailableDatePicker } from '@/components/booking/available-date-picker'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 
@@ -27,6 +29,13 @@ interface BookingResult {
   }>
 }
 
+const TIME_OPTIONS = [
+  { value: 'morning', label: 'Morning (6am-12pm)', shortLabel: 'Morning' },
+  { value: 'afternoon', label: 'Afternoon (12pm-6pm)', shortLabel: 'Afternoon' },
+  { value: 'evening', label: 'Evening (6pm-9pm)', shortLabel: 'Evening' },
+  { value: 'flexible', label: 'Flexible', shortLabel: 'Flexible' },
+]
+
 export default function MultiBookingPage() {
   const router = useRouter()
   const {
@@ -50,6 +59,7 @@ export default function MultiBookingPage() {
   const [contactPreference, setContactPreference] = useState<'email' | 'phone' | 'both'>('email')
   const [notes, setNotes] = useState('')
   const [termsAccepted, setTermsAccepted] = useState(false)
+  const availability = useBookingAvailability()
 
   // Redirect if cart is empty
   useEffect(() => {
@@ -70,10 +80,17 @@ export default function MultiBookingPage() {
     return colorMap[color.toLowerCase()] || '#FFFFFF'
   }
 
-  const getTomorrowDate = () => {
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    return tomorrow.toISOString().split('T')[0]
+  // Time preferences open on a day; until its availability has loaded, all of them
+  const timeOptionsFor = (date: string) => {
+    const slots = availability.days.get(date)?.slots
+    return slots ? TIME_OPTIONS.filter((option) => slots.includes(option.value)) : TIME_OPTIONS
+  }
+
+  const handleDefaultDateChange = (date: string) => {
+    setDefaultPreferredDate(date)
+    if (!timeOptionsFor(date).some((option) => option.value === defaultPreferredTime)) {
+      setDefaultPreferredTime('flexible')
+    }
   }
 
   const handleSubmit = async () => {
@@ -237,12 +254,10 @@ export default function MultiBookingPage() {
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Preferred Date <span className="text-red-500">*</span>
             </label>
-            <input
-              type="date"
+            <AvailableDatePicker
               value={defaultPreferredDate}
-              onChange={(e) => setDefaultPreferredDate(e.target.value)}
-              min={getTomorrowDate()}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              onChange={handleDefaultDateChange}
+              availability={availability}
             />
           </div>
 
@@ -251,12 +266,7 @@ export default function MultiBookingPage() {
               Preferred Time
             </label>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-              {[
-                { value: 'morning', label: 'Morning (6am-12pm)' },
-                { value: 'afternoon', label: 'Afternoon (12pm-6pm)' },
-                { value: 'evening', label: 'Evening (6pm-9pm)' },
-                { value: 'flexible', label: 'Flexible' },
-              ].map((option) => (
+              {timeOptionsFor(defaultPreferredDate).map((option) => (
                 <label
                   key={option.value}
                   className={`flex items-center justify-center p-3 border rounded-lg cursor-pointer transition-colors ${
@@ -312,12 +322,14 @@ export default function MultiBookingPage() {
                   <div className="grid grid-cols-2 gap-3 mt-3">
                     <div>
                       <label className="block text-xs text-gray-500 mb-1">Date</label>
-                      <input
-                        type="date"
+                      <AvailableDatePicker
                         value={config.customDate || ''}
-                        onChange={(e) => updateConfigurationDate(config.id, e.target.value, config.customTime || defaultPreferredTime)}
-                        min={getTomorrowDate()}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                        onChange={(date) => {
+                          const time = config.customTime || defaultPreferredTime
+                          const fits = timeOptionsFor(date).some((option) => option.value === time)
+                          updateConfigurationDate(config.id, date, fits ? time : 'flexible')
+                        }}
+                        availability={availability}
                       />
                     </div>
                     <div>
@@ -327,10 +339,9 @@ export default function MultiBookingPage() {
                         onChange={(e) => updateConfigurationDate(config.id, config.customDate || '', e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
                       >
-                        <option value="morning">Morning</option>
-                        <option value="afternoon">Afternoon</option>
-                        <option value="evening">Evening</option>
-                        <option value="flexible">Flexible</option>
+                        {timeOptionsFor(config.customDate || defaultPreferredDate).map((option) => (
+                          <option key={option.value} value={option.value}>{option.shortLabel}</option>
+                        ))}
                       </select>
                     </div>
                   </div>
@@ -372,12 +383,11 @@ export default function MultiBookingPage() {
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Alternative Date (Optional)
             </label>
-            <input
-              type="date"
+            <AvailableDatePicker
               value={alternativeDate}
-              onChange={(e) => setAlternativeDate(e.target.value)}
-              min={getTomorrowDate()}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              onChange={setAlternativeDate}
+              availability={availability}
+              clearable
             />
             <p className="text-xs text-gray-500 mt-1">
               Provide a backup date in case the preferred date is unavailable
@@ -391,8 +401,8 @@ export default function MultiBookingPage() {
             <div className="grid grid-cols-3 gap-2">
               {[
                 { value: 'email', label: 'Email' },
-                { value: 'phone', label: 'Phone' },
-                { value: 'both', label: 'Either' },
+                { value: 'phone', label: 'Phone (SMS)' },
+                { value: 'both', label: 'Both' },
               ].map((option) => (
                 <label
                   key={option.value}
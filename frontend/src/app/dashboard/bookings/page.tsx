@@ -3,6 +3,7 @@
 import { useEffect, useState, useMemo } from 'react'
 import Link from 'next/link'
 import { api } from '@/lib/api'
+import { useBookingEvents } from '@/lib/use-booking-events'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 
@@ -33,13 +34,18 @@ interface Booking {
       address: string
     }
   }
+  recurringSchedule?: { id: string; name: string } | null
 }
 
-const STATUS_STYLES: Record<string, { bg: string; text: string }> = {
-  pending: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
-  confirmed: { bg: 'bg-blue-100', text: 'text-blue-800' },
-  completed: { bg: 'bg-green-100', text: 'text-green-800' },
-  cancelled: { bg: 'bg-red-100', text: 'text-red-800' },
+const STATUS_STYLES: Record<string, { bg: string; text: string; label: string }> = {
+  pending: { bg: 'bg-yellow-100', text: 'text-yellow-800', label: 'Pending' },
+  confirmed: { bg: 'bg-blue-100', text: 'text-blue-800', label: 'Confirmed' },
+  scheduled: { bg: 'bg-indigo-100', text: 'text-indigo-800', label: 'Scheduled' },
+  in_progress: { bg: 'bg-purple-100', text: 'text-purple-800', label: 'In Progress' },
+  completed: { bg: 'bg-green-100', text: 'text-green-800', label: 'Completed' },
+  rescheduled: { bg: 'bg-orange-100', text: 'text-orange-800', label: 'Rescheduled' },
+  cancelled: { bg: 'bg-red-100', text: 'text-red-800', label: 'Cancelled' },
+  declined: { bg: 'bg-gray-200', text: 'text-gray-800', label: 'Declined' },
 }
 
 type SortField = 'referenceNumber' | 'configuration' | 'sportsground' | 'preferredDate' | 'status' | 'createdAt'
@@ -69,6 +75,11 @@ export default function BookingsPage() {
     fetchBookings()
   }, [])
 
+  // Pick up status changes made by our team without a reload
+  useBookingEvents(() => {
+    fetchBookings()
+  })
+
   const handleCancel = async (id: string) => {
     if (!confirm('Are you sure you want to cancel this booking? Please note cancellations within 48 hours of the scheduled service may incur fees.')) {
       return
@@ -234,14 +245,24 @@ export default function BookingsPage() {
           <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
           <p className="text-gray-600 mt-1">Manage your line marking service requests</p>
         </div>
-        <Link href="/dashboard/configurations">
-          <Button>
-            <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            New Booking
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/dashboard/bookings/recurring">
+            <Button variant="outline">
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              Recurring
+            </Button>
+          </Link>
+          <Link href="/dashboard/configurations">
+            <Button>
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              New Booking
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Filters Row */}
@@ -265,10 +286,9 @@ export default function BookingsPage() {
             className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
           >
             <option value="all">All Statuses</option>
-            <option value="pending">Pending</option>
-            <option value="confirmed">Confirmed</option>
-            <option value="completed">Completed</option>
-            <option value="cancelled">Cancelled</option>
+            {Object.entries(STATUS_STYLES).map(([status, style]) => (
+              <option key={status} value={status}>{style.label}</option>
+            ))}
           </select>
 
           {/* Sportsground Filter */}
@@ -437,6 +457,9 @@ export default function BookingsPage() {
                   <tr key={booking.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="text-sm font-medium text-gray-900">{booking.referenceNumber}</span>
+                      {booking.recurringSchedule && (
+                        <div className="text-xs text-green-700" title={booking.recurringSchedule.name}>↻ Recurring</div>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-sm text-gray-900">{booking.configuration.name}</div>
@@ -457,7 +480,7 @@ export default function BookingsPage() {
                           STATUS_STYLES[booking.status]?.bg || 'bg-gray-100'
                         } ${STATUS_STYLES[booking.status]?.text || 'text-gray-800'}`}
                       >
-                        {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                        {STATUS_STYLES[booking.status]?.label || booking.status}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -506,8 +529,16 @@ export default function BookingsPage() {
                           STATUS_STYLES[booking.status]?.bg || 'bg-gray-100'
                         } ${STATUS_STYLES[booking.status]?.text || 'text-gray-800'}`}
                       >
-                        {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                        {STATUS_STYLES[booking.status]?.label || booking.status}
                       </span>
+                      {booking.recurringSchedule && (
+                        <Link
+                          href="/dashboard/bookings/recurring"
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-50 text-green-700 hover:bg-green-100"
+                        >
+                          ↻ {booking.recurringSchedule.name}
+                        </Link>
+                      )}
                     </div>
 
                     <div className="grid md:grid-cols-2 gap-4 text-sm">
@@ -0,0 +1,518 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { api, RecurrenceFrequency, RecurringSchedule } from '@/lib/api'
+import { useBookingEvents } from '@/lib/use-booking-events'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+type Sportsground = { id: string; name: string }
+type Configuration = { id: string; name: string; isDraft: boolean; template: { name: string } }
+
+const TIME_OPTIONS = [
+  { value: 'morning', label: 'Morning (6am-12pm)' },
+  { value: 'afternoon', label: 'Afternoon (12pm-6pm)' },
+  { value: 'evening', label: 'Evening (6pm-9pm)' },
+  { value: 'flexible', label: 'Flexible' },
+]
+
+const FREQUENCY_OPTIONS: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: 'weekly', label: 'Every week' },
+  { value: 'fortnightly', label: 'Every fortnight' },
+  { value: 'every_n_days', label: 'Every N days' },
+]
+
+const STATUS_STYLES: Record<RecurringSchedule['status'], { bg: string; text: string; label: string }> = {
+  active: { bg: 'bg-green-100', text: 'text-green-800', label: 'Active' },
+  paused: { bg: 'bg-yellow-100', text: 'text-yellow-800', label: 'Paused' },
+  ended: { bg: 'bg-gray-200', text: 'text-gray-800', label: 'Ended' },
+}
+
+// How many upcoming dates each schedule lists
+const UPCOMING_COUNT = 8
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayKey = (value: string | Date) => new Date(value).toISOString().split('T')[0]
+
+const formatDay = (key: string) =>
+  new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' })
+
+const describeFrequency = (schedule: RecurringSchedule) =>
+  schedule.frequency === 'weekly'
+    ? 'Every week'
+    : schedule.frequency === 'fortnightly'
+    ? 'Every fortnight'
+    : `Every ${schedule.intervalDays} days`
+
+// The schedule's next dates from today, whether generated yet or not
+function upcomingDates(schedule: RecurringSchedule): string[] {
+  const start = new Date(schedule.startDate).getTime()
+  const end = new Date(schedule.endDate).getTime()
+  const step = schedule.intervalDays * DAY_MS
+  const today = new Date(`${dayKey(new Date())}T00:00:00Z`).getTime()
+
+  const dates: string[] = []
+  let time = start + Math.max(0, Math.ceil((today - start) / step)) * step
+  for (; time <= end && dates.length < UPCOMING_COUNT; time += step) {
+    dates.push(dayKey(new Date(time)))
+  }
+  return dates
+}
+
+const emptyForm = {
+  name: '',
+  sportsgroundId: '',
+  configurationIds: [] as string[],
+  frequency: 'weekly' as RecurrenceFrequency,
+  intervalDays: '10',
+  startDate: '',
+  endDate: '',
+  preferredTime: 'flexible',
+  contactPreference: 'email' as 'email' | 'phone' | 'both',
+  notes: '',
+}
+
+export default function RecurringBookingsPage() {
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([])
+  const [sportsgrounds, setSportsgrounds] = useState<Sportsground[]>([])
+  const [configurations, setConfigurations] = useState<Configuration[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchSchedules = async () => {
+    const response = await api.getRecurringSchedules()
+    if (response.data) {
+      setSchedules(response.data)
+    } else if (response.error) {
+      setError(response.error)
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    fetchSchedules()
+    api.getSportsgrounds().then((response) => {
+      if (response.data) setSportsgrounds(response.data)
+    })
+  }, [])
+
+  // Generated occurrences and status changes show up without a reload
+  useBookingEvents(() => {
+    fetchSchedules()
+  })
+
+  useEffect(() => {
+    if (!form.sportsgroundId) {
+      setConfigurations([])
+      return
+    }
+    api.getConfigurations(form.sportsgroundId).then((response) => {
+      if (response.data) setConfigurations(response.data)
+    })
+  }, [form.sportsgroundId])
+
+  const toggleConfiguration = (id: string) => {
+    setForm((prev) => ({
+      ...prev,
+      configurationIds: prev.configurationIds.includes(id)
+        ? prev.configurationIds.filter((c) => c !== id)
+        : [...prev.configurationIds, id],
+    }))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSuccess('')
+
+    if (!form.name.trim() || !form.sportsgroundId || form.configurationIds.length === 0) {
+      setError('Give the schedule a name and choose at least one field')
+      return
+    }
+    if (!form.startDate || !form.endDate) {
+      setError('Choose when the season starts and ends')
+      return
+    }
+    if (form.endDate < form.startDate) {
+      setError('The season must end after it starts')
+      return
+    }
+
+    setIsSubmitting(true)
+    const response = await api.createRecurringSchedule({
+      name: form.name.trim(),
+      sportsgroundId: form.sportsgroundId,
+      configurationIds: form.configurationIds,
+      frequency: form.frequency,
+      intervalDays: form.frequency === 'every_n_days' ? parseInt(form.intervalDays) : undefined,
+      startDate: form.startDate,
+      endDate: form.endDate,
+      preferredTime: form.preferredTime,
+      contactPreference: form.contactPreference,
+      notes: form.notes || undefined,
+    })
+    if (response.error) {
+      setError(response.error)
+    } else if (response.data) {
+      const { generated, ...schedule } = response.data
+      setSchedules((prev) => [schedule, ...prev])
+      setForm(emptyForm)
+      setShowForm(false)
+      setSuccess(generated > 0
+        ? `Schedule created. ${generated} upcoming booking${generated === 1 ? ' has' : 's have'} been requested.`
+        : 'Schedule created. Bookings are requested automatically as each date gets closer.')
+    }
+    setIsSubmitting(false)
+  }
+
+  // Run an action against one schedule, then reload so generated bookings show
+  const runAction = async (id: string, action: () => Promise<{ error?: string }>, message: string) => {
+    setError('')
+    setSuccess('')
+    setBusyId(id)
+    const response = await action()
+    if (response.error) {
+      setError(response.error)
+    } else {
+      setSuccess(message)
+      await fetchSchedules()
+    }
+    setBusyId(null)
+  }
+
+  const handleEnd = (schedule: RecurringSchedule) => {
+    if (!confirm(`End "${schedule.name}"? Its upcoming bookings will be cancelled.`)) return
+    runAction(schedule.id, () => api.endRecurringSchedule(schedule.id), 'Schedule ended')
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+          <Link href="/dashboard/bookings" className="text-sm text-green-600 hover:text-green-700">
+            ← Back to bookings
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">Recurring Bookings</h1>
+          <p className="text-gray-600 mt-1">Keep your fields marked through the season without booking each visit</p>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)}>New Schedule</Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>New Recurring Schedule</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Winter season remarking"
+                    maxLength={100}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Sportsground</label>
+                  <select
+                    value={form.sportsgroundId}
+                    onChange={(e) => setForm({ ...form, sportsgroundId: e.target.value, configurationIds: [] })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">Choose a sportsground</option>
+                    {sportsgrounds.map((sg) => (
+                      <option key={sg.id} value={sg.id}>{sg.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {form.sportsgroundId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Fields</label>
+                  {configurations.length === 0 ? (
+                    <p className="text-sm text-gray-500">No field configurations at this sportsground yet.</p>
+                  ) : (
+                    <div className="grid md:grid-cols-2 gap-2">
+                      {configurations.map((config) => (
+                        <label
+                          key={config.id}
+                          className={`flex items-center gap-2 p-2 border rounded-md ${config.isDraft ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}
+                          title={config.isDraft ? 'Review this imported configuration in the editor first' : undefined}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={form.configurationIds.includes(config.id)}
+                            onChange={() => toggleConfiguration(config.id)}
+                            disabled={config.isDraft}
+                            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                          />
+                          <span className="text-sm text-gray-900">{config.name}</span>
+                          <span className="text-xs text-gray-500">{config.template.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Repeat</label>
+                  <select
+                    value={form.frequency}
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    {FREQUENCY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  {form.frequency === 'every_n_days' && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className="text-sm text-gray-600">Every</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={90}
+                        value={form.intervalDays}
+                        onChange={(e) => setForm({ ...form, intervalDays: e.target.value })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                      />
+                      <span className="text-sm text-gray-600">days</span>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Season starts</label>
+                  <input
+                    type="date"
+                    value={form.startDate}
+                    min={dayKey(new Date())}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Season ends</label>
+                  <input
+                    type="date"
+                    value={form.endDate}
+                    min={form.startDate || dayKey(new Date())}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Preferred time</label>
+                  <select
+                    value={form.preferredTime}
+                    onChange={(e) => setForm({ ...form, preferredTime: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    {TIME_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Contact preference</label>
+                  <select
+                    value={form.contactPreference}
+                    onChange={(e) => setForm({ ...form, contactPreference: e.target.value as 'email' | 'phone' | 'both' })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="email">Email</option>
+                    <option value="phone">Phone</option>
+                    <option value="both">Both</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  maxLength={500}
+                  rows={2}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Each visit is requested as a normal booking a few weeks ahead. Dates we&apos;re closed are skipped and you&apos;ll be notified.
+              </p>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => { setShowForm(false); setForm(emptyForm) }}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Creating...' : 'Create Schedule'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+        </div>
+      ) : schedules.length === 0 ? (
+        !showForm && (
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No recurring schedules</h3>
+              <p className="text-gray-500">Set up a schedule to have your fields remarked every week or fortnight through the season.</p>
+            </CardContent>
+          </Card>
+        )
+      ) : (
+        <div className="space-y-4">
+          {schedules.map((schedule) => {
+            const skipped = new Set(schedule.skippedDates.map(dayKey))
+            const generatedThrough = schedule.generatedThrough ? dayKey(schedule.generatedThrough) : null
+            const isBusy = busyId === schedule.id
+            const style = STATUS_STYLES[schedule.status]
+
+            return (
+              <Card key={schedule.id}>
+                <CardContent className="p-6">
+                  <div className="flex flex-col md:flex-row justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-3 mb-1">
+                        <h3 className="text-lg font-semibold text-gray-900">{schedule.name}</h3>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style.bg} ${style.text}`}>
+                          {style.label}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {describeFrequency(schedule)} · {schedule.sportsground.name} · {schedule.configurations.map((c) => c.name).join(', ')}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Season {formatDay(dayKey(schedule.startDate))} – {formatDay(dayKey(schedule.endDate))}
+                      </p>
+                    </div>
+                    {schedule.status !== 'ended' && (
+                      <div className="flex gap-2 items-start">
+                        {schedule.status === 'active' ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() => runAction(schedule.id, () => api.updateRecurringSchedule(schedule.id, { status: 'paused' }), 'Schedule paused')}
+                          >
+                            Pause
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() => runAction(schedule.id, () => api.updateRecurringSchedule(schedule.id, { status: 'active' }), 'Schedule resumed')}
+                          >
+                            Resume
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          disabled={isBusy}
+                          onClick={() => handleEnd(schedule)}
+                        >
+                          End
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {schedule.status !== 'ended' && (
+                    <ul className="mt-4 divide-y divide-gray-100 border-t border-gray-100">
+                      {upcomingDates(schedule).map((date) => {
+                        const bookings = schedule.bookings.filter((b) => dayKey(b.preferredDate) === date)
+                        const isSkipped = skipped.has(date)
+                        const live = bookings.filter((b) => b.status !== 'cancelled' && b.status !== 'declined')
+                        // Generation passed this date without creating anything
+                        const missed = !isSkipped && live.length === 0 && generatedThrough !== null && date <= generatedThrough
+
+                        return (
+                          <li key={date} className="py-2 flex items-center justify-between text-sm">
+                            <div>
+                              <span className={isSkipped ? 'text-gray-400 line-through' : 'text-gray-900'}>{formatDay(date)}</span>
+                              <span className="ml-3 text-xs text-gray-500">
+                                {isSkipped
+                                  ? 'Skipped'
+                                  : live.length > 0
+                                  ? live.map((b) => `${b.referenceNumber} (${b.status})`).join(', ')
+                                  : missed
+                                  ? 'Not booked'
+                                  : schedule.status === 'paused'
+                                  ? 'Paused'
+                                  : 'Will be requested closer to the date'}
+                              </span>
+                            </div>
+                            {isSkipped ? (
+                              <button
+                                type="button"
+                                disabled={isBusy}
+                                onClick={() => runAction(schedule.id, () => api.restoreRecurringOccurrence(schedule.id, date), `${formatDay(date)} restored`)}
+                                className="text-xs text-green-600 hover:text-green-700 disabled:opacity-50"
+                              >
+                                Restore
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                disabled={isBusy}
+                                onClick={() => runAction(schedule.id, () => api.skipRecurringOccurrence(schedule.id, date), `${formatDay(date)} skipped`)}
+                                className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                              >
+                                Skip
+                              </button>
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,8 +4,9 @@ import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { api } from '@/lib/api'
+import { useBookingAvailability } from '@/lib/use-booking-availability'
+import { AvailableDatePicker } from '@/components/booking/available-date-picker'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 
@@ -37,8 +38,8 @@ const TIME_PREFERENCES = [
 
 const CONTACT_PREFERENCES = [
   { value: 'email', label: 'Email' },
-  { value: 'phone', label: 'Phone' },
-  { value: 'both', label: 'Either email or phone' },
+  { value: 'phone', label: 'Phone (SMS updates)' },
+  { value: 'both', label: 'Both email and SMS' },
 ]
 
 export default function BookConfigurationPage() {
@@ -48,6 +49,7 @@ export default function BookConfigurationPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
+  const availability = useBookingAvailability()
 
   const [formData, setFormData] = useState({
     preferredDate: '',
@@ -93,7 +95,7 @@ export default function BookConfigurationPage() {
       preferredDate: new Date(formData.preferredDate).toISOString(),
       alternativeDate: formData.alternateDate ? new Date(formData.alternateDate).toISOString() : undefined,
       preferredTime: formData.preferredTime,
-      contactPreference: formData.contactPreference as 'phone' | 'email',
+      contactPreference: formData.contactPreference as 'phone' | 'email' | 'both',
       notes: formData.notes || undefined,
     })
 
@@ -118,11 +120,19 @@ export default function BookConfigurationPage() {
     return colorMap[color.toLowerCase()] || '#FFFFFF'
   }
 
-  // Get minimum date (tomorrow)
-  const getMinDate = () => {
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    return tomorrow.toISOString().split('T')[0]
+  // Time preferences open on the chosen day; flexible is always allowed
+  const availableSlots = availability.days.get(formData.preferredDate)?.slots
+  const timePreferences = availableSlots
+    ? TIME_PREFERENCES.filter((option) => availableSlots.includes(option.value))
+    : TIME_PREFERENCES
+
+  const handlePreferredDateChange = (preferredDate: string) => {
+    const slots = availability.days.get(preferredDate)?.slots ?? []
+    setFormData({
+      ...formData,
+      preferredDate,
+      preferredTime: slots.includes(formData.preferredTime) ? formData.preferredTime : 'flexible',
+    })
   }
 
   if (isLoading) {
@@ -192,12 +202,11 @@ export default function BookConfigurationPage() {
 
               <div className="space-y-2">
                 <Label htmlFor="preferredDate">Preferred Date *</Label>
-                <Input
+                <AvailableDatePicker
                   id="preferredDate"
-                  type="date"
-                  min={getMinDate()}
                   value={formData.preferredDate}
-                  onChange={(e) => setFormData({ ...formData, preferredDate: e.target.value })}
+                  onChange={handlePreferredDateChange}
+                  availability={availability}
                   disabled={isSubmitting}
                 />
                 <p className="text-xs text-gray-500">Select your first choice date for the service</p>
@@ -205,13 +214,13 @@ export default function BookConfigurationPage() {
 
               <div className="space-y-2">
                 <Label htmlFor="alternateDate">Alternate Date (optional)</Label>
-                <Input
+                <AvailableDatePicker
                   id="alternateDate"
-                  type="date"
-                  min={getMinDate()}
                   value={formData.alternateDate}
-                  onChange={(e) => setFormData({ ...formData, alternateDate: e.target.value })}
+                  onChange={(alternateDate) => setFormData({ ...formData, alternateDate })}
+                  availability={availability}
                   disabled={isSubmitting}
+                  clearable
                 />
                 <p className="text-xs text-gray-500">Provide a backup date if your first choice is unavailable</p>
               </div>
@@ -219,7 +228,7 @@ export default function BookConfigurationPage() {
               <div className="space-y-2">
                 <Label>Preferred Time</Label>
                 <div className="space-y-2">
-                  {TIME_PREFERENCES.map((option) => (
+                  {timePreferences.map((option) => (
                     <label key={option.value} className="flex items-center">
                       <input
                         type="radio"
@@ -1,11 +1,14 @@
 'use client'
 
-import { useEffect, useState, useRef } from 'react'
+import { useCallback, useEffect, useState, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
+import type { ComplianceReport } from 'xactline-shared/field-compliance'
 import { api } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ConfigurationExport } from '@/components/configuration-export'
+import { ConfigurationRevisions } from '@/components/configuration-revisions'
 
 interface Configuration {
   id: string
@@ -30,7 +33,18 @@ interface Configuration {
     id: string
     name: string
     sport: string
+    currentVersion: number
   }
+  templateVersion: {
+    id: string
+    version: number
+  } | null
+  complianceProfile: {
+    id: string
+    name: string
+  } | null
+  // Pass/fail against the compliance profile, when one is chosen
+  complianceReport?: ComplianceReport | null
 }
 
 // Load Google Maps script
@@ -66,22 +80,24 @@ export default function ConfigurationDetailPage() {
   const [configuration, setConfiguration] = useState<Configuration | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isUpgrading, setIsUpgrading] = useState(false)
+  const [upgradeError, setUpgradeError] = useState('')
 
   const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_PLACES_API_KEY
 
-  useEffect(() => {
-    const fetchConfiguration = async () => {
-      const response = await api.getConfiguration(params.id as string)
-      if (response.data) {
-        setConfiguration(response.data as Configuration)
-      }
-      setIsLoading(false)
+  const fetchConfiguration = useCallback(async () => {
+    const response = await api.getConfiguration(params.id as string)
+    if (response.data) {
+      setConfiguration(response.data as Configuration)
     }
+    setIsLoading(false)
+  }, [params.id])
 
+  useEffect(() => {
     if (params.id) {
       fetchConfiguration()
     }
-  }, [params.id])
+  }, [params.id, fetchConfiguration])
 
   // Initialize map
   useEffect(() => {
@@ -141,6 +157,26 @@ export default function ConfigurationDetailPage() {
     }
   }
 
+  const handleUpgrade = async () => {
+    setIsUpgrading(true)
+    setUpgradeError('')
+    const response = await api.upgradeConfigurationTemplate(params.id as string)
+    if (response.error) {
+      setUpgradeError(response.error)
+    } else {
+      // New markings don't move or resize the field, so the compliance report still stands
+      setConfiguration((current) => ({
+        ...(response.data as Configuration),
+        complianceReport: current?.complianceReport ?? null,
+      }))
+    }
+    setIsUpgrading(false)
+  }
+
+  // Configurations saved before versioning have no pinned version and already follow the latest markings
+  const hasNewerMarkings =
+    !!configuration?.templateVersion && configuration.templateVersion.version < configuration.template.currentVersion
+
   const getColorHex = (color: string): string => {
     const colorMap: Record<string, string> = {
       white: '#FFFFFF',
@@ -262,10 +298,29 @@ export default function ConfigurationDetailPage() {
               <CardTitle className="text-lg">Field Configuration</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {hasNewerMarkings && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                  <p className="text-sm text-amber-800">
+                    The {configuration.template.name} markings have been updated since this field was designed
+                    (version {configuration.templateVersion?.version} → {configuration.template.currentVersion}).
+                    Your field keeps its current markings until you choose to upgrade.
+                  </p>
+                  {upgradeError && <p className="text-sm text-red-600 mt-2">{upgradeError}</p>}
+                  <Button size="sm" className="mt-3" onClick={handleUpgrade} disabled={isUpgrading}>
+                    {isUpgrading ? 'Upgrading...' : 'Upgrade to latest markings'}
+                  </Button>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm font-medium text-gray-500">Template</p>
-                  <p className="text-gray-900">{configuration.template.name}</p>
+                  <p className="text-gray-900">
+                    {configuration.template.name}
+                    {configuration.templateVersion && (
+                      <span className="text-sm text-gray-500 ml-1">(v{configuration.templateVersion.version})</span>
+                    )}
+                  </p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Sport</p>
@@ -273,6 +328,35 @@ export default function ConfigurationDetailPage() {
                 </div>
               </div>
 
+              {configuration.complianceProfile && (
+                <div>
+                  <p className="text-sm font-medium text-gray-500">Compliance</p>
+                  <p className="text-gray-900">
+                    {configuration.complianceProfile.name}
+                    {configuration.complianceReport && (
+                      <span
+                        className={`ml-2 text-sm font-medium ${
+                          configuration.complianceReport.passed ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {configuration.complianceReport.passed ? '✓ Meets' : '✗ Does not meet'}
+                      </span>
+                    )}
+                  </p>
+                  {configuration.complianceReport && !configuration.complianceReport.passed && (
+                    <ul className="mt-1 text-sm text-red-700">
+                      {configuration.complianceReport.checks
+                        .filter((check) => !check.passed)
+                        .map((check) => (
+                          <li key={check.id}>
+                            {check.label}: {check.detail}
+                          </li>
+                        ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm font-medium text-gray-500">Length (Touchline)</p>
@@ -314,6 +398,16 @@ export default function ConfigurationDetailPage() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Export Markings</CardTitle>
+              <CardDescription>Download the marking lines for GPS line-marking equipment</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConfigurationExport configurationId={configuration.id} />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Sportsground</CardTitle>
@@ -364,6 +458,10 @@ export default function ConfigurationDetailPage() {
                   })}
                 </p>
               </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Saved Layouts</p>
+                <ConfigurationRevisions configurationId={configuration.id} onRestored={fetchConfiguration} />
+              </div>
             </CardContent>
           </Card>
 
@@ -15,6 +15,7 @@ interface Configuration {
   widthMeters: number
   lineColor: string
   rotationDegrees: number
+  isDraft: boolean
   createdAt: string
   updatedAt: string
   sportsground: {
@@ -29,6 +30,8 @@ interface Configuration {
   }
 }
 
+const DRAFT_TITLE = 'Imported drafts must be saved in the editor before they can be booked'
+
 type SortField = 'name' | 'sportsground' | 'template' | 'dimensions' | 'lineColor' | 'createdAt'
 type SortDirection = 'asc' | 'desc'
 
@@ -391,7 +394,7 @@ export default function ConfigurationsPage() {
               <tbody className="divide-y divide-gray-200">
                 {filteredAndSortedConfigurations.map((config) => {
                   const selected = isSelected(config.id)
-                  const canAdd = canAddConfiguration(config.sportsground.id)
+                  const canAdd = !config.isDraft && canAddConfiguration(config.sportsground.id)
                   return (
                   <tr
                     key={config.id}
@@ -408,7 +411,7 @@ export default function ConfigurationsPage() {
                           disabled={!canAdd && !selected}
                           onChange={() => handleToggleSelection(config)}
                           className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
-                          title={!canAdd && !selected ? `Only configurations from ${cartSportsgroundName} can be selected` : undefined}
+                          title={config.isDraft ? DRAFT_TITLE : !canAdd && !selected ? `Only configurations from ${cartSportsgroundName} can be selected` : undefined}
                         />
                       </div>
                     </td>
@@ -419,6 +422,11 @@ export default function ConfigurationsPage() {
                       >
                         {config.name}
                       </Link>
+                      {config.isDraft && (
+                        <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
+                          Draft
+                        </span>
+                      )}
                     </td>
                     <td className={`px-4 py-3 ${!canAdd && !selected ? 'text-gray-400' : 'text-gray-600'}`}>{config.sportsground.name}</td>
                     <td className={`px-4 py-3 ${!canAdd && !selected ? 'text-gray-400' : 'text-gray-600'}`}>{config.template.name}</td>
@@ -471,7 +479,7 @@ export default function ConfigurationsPage() {
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredAndSortedConfigurations.map((config) => {
             const selected = isSelected(config.id)
-            const canAdd = canAddConfiguration(config.sportsground.id)
+            const canAdd = !config.isDraft && canAddConfiguration(config.sportsground.id)
             return (
             <Card
               key={config.id}
@@ -489,13 +497,18 @@ export default function ConfigurationsPage() {
                   disabled={!canAdd && !selected}
                   onChange={() => handleToggleSelection(config)}
                   className="h-5 w-5 text-green-600 border-gray-300 rounded focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer bg-white shadow-sm"
-                  title={!canAdd && !selected ? `Only configurations from ${cartSportsgroundName} can be selected` : 'Add to booking cart'}
+                  title={config.isDraft ? DRAFT_TITLE : !canAdd && !selected ? `Only configurations from ${cartSportsgroundName} can be selected` : 'Add to booking cart'}
                 />
               </div>
               <CardHeader className="pb-3">
                 <div className="flex justify-between items-start">
                   <div className="flex-1 min-w-0 pl-7">
                     <CardTitle className={`text-lg truncate ${!canAdd && !selected ? 'text-gray-500' : ''}`}>{config.name}</CardTitle>
+                    {config.isDraft && (
+                      <span className="inline-block mt-1 px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
+                        Draft
+                      </span>
+                    )}
                     <CardDescription className="truncate">{config.sportsground.name}</CardDescription>
                   </div>
                   <div className="flex items-center space-x-1 ml-2">
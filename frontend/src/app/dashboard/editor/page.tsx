@@ -1,13 +1,21 @@
 'use client'
 
-import { useEffect, useState, useRef, useCallback } from 'react'
+import { useEffect, useMemo, useState, useRef, useCallback } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { api } from '@/lib/api'
+import { evaluateCompliance, type FieldFootprint } from 'xactline-shared/field-compliance'
+import { conflictsWith } from 'xactline-shared/field-conflicts'
+import { generateFieldPaths } from 'xactline-shared/field-geometry'
+import { fieldToLatLng, latLngToEnu, latLngToField, type LatLng } from 'xactline-shared/projection'
+import { findSiteIssues, siteLayoutOf, type ExclusionZone } from 'xactline-shared/site-layout'
+import { api, ComplianceProfile } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { CompliancePanel } from '@/components/editor/compliance-panel'
+import { ConflictWarnings } from '@/components/editor/conflict-warnings'
+import { useUndoHistory } from '@/lib/use-undo-history'
 
 interface Sportsground {
   id: string
@@ -16,6 +24,8 @@ interface Sportsground {
   latitude: number
   longitude: number
   defaultZoom: number
+  boundary: LatLng[] | null
+  exclusionZones: ExclusionZone[]
 }
 
 interface Configuration {
@@ -27,6 +37,9 @@ interface Configuration {
   lengthMeters: number
   widthMeters: number
   lineColor: string
+  template?: { id: string }
+  templateVersion?: { id: string; version: number; interiorElements: unknown } | null
+  complianceProfile?: { id: string; name: string; runOffSides: number; runOffEnds: number } | null
 }
 
 interface FieldTemplate {
@@ -39,6 +52,17 @@ interface FieldTemplate {
   maxWidth: number
   defaultLength: number
   defaultWidth: number
+  interiorElements: unknown
+}
+
+// The parts of the field covered by undo/redo
+interface FieldSnapshot {
+  center: { lat: number; lng: number }
+  length: number
+  width: number
+  rotation: number
+  lineColor: string
+  template: FieldTemplate | null
 }
 
 const LINE_COLORS = [
@@ -106,6 +130,7 @@ export default function EditorPage() {
   const [existingConfigs, setExistingConfigs] = useState<Configuration[]>([])
   const [visibleConfigs, setVisibleConfigs] = useState<Set<string>>(new Set())
   const configOverlaysRef = useRef<Map<string, google.maps.Polyline[]>>(new Map())
+  const siteOverlaysRef = useRef<google.maps.Polygon[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isMapLoaded, setIsMapLoaded] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
@@ -154,9 +179,61 @@ export default function EditorPage() {
   const [fieldWidth, setFieldWidth] = useState(64)
   const [lineColor, setLineColor] = useState('white')
   const [rotation, setRotation] = useState(0)
+  const [complianceProfileId, setComplianceProfileId] = useState<string | null>(null)
+  const [complianceProfiles, setComplianceProfiles] = useState<ComplianceProfile[]>([])
+  // Where the field is mid-drag; resize and rotate drags only commit to state on release
+  const [dragFootprint, setDragFootprint] = useState<FieldFootprint | null>(null)
 
   const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_PLACES_API_KEY
 
+  // Undo/redo for moves, resizes, rotations, colour and template changes. Drags
+  // are recorded once, when the marker is released.
+  const fieldSnapshot = useMemo<FieldSnapshot | null>(
+    () =>
+      fieldPlaced && fieldCenter
+        ? { center: fieldCenter, length: fieldLength, width: fieldWidth, rotation, lineColor, template: selectedTemplate }
+        : null,
+    [fieldPlaced, fieldCenter, fieldLength, fieldWidth, rotation, lineColor, selectedTemplate]
+  )
+  const applyFieldSnapshot = useCallback((snapshot: FieldSnapshot) => {
+    setFieldCenter(snapshot.center)
+    setFieldLength(snapshot.length)
+    setFieldWidth(snapshot.width)
+    setRotation(snapshot.rotation)
+    setLineColor(snapshot.lineColor)
+    setSelectedTemplate(snapshot.template)
+    // Undoing a reset puts the field back on the map
+    setFieldPlaced(true)
+  }, [])
+  const isDragging = useCallback(() => isDraggingRef.current, [])
+  const {
+    undo,
+    redo,
+    checkpoint,
+    reset: resetHistory,
+    canUndo,
+    canRedo,
+  } = useUndoHistory(fieldSnapshot, applyFieldSnapshot, isDragging)
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo, except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
   // Keep refs in sync with state
   useEffect(() => {
     fieldCenterRef.current = fieldCenter
@@ -178,6 +255,27 @@ export default function EditorPage() {
     selectedTemplateRef.current = selectedTemplate
   }, [selectedTemplate])
 
+  // Compliance profiles for the template's sport; a profile from another sport
+  // no longer applies once the template changes
+  const templateSport = selectedTemplate?.sport
+  useEffect(() => {
+    if (!templateSport) {
+      setComplianceProfiles([])
+      return
+    }
+
+    let cancelled = false
+    api.getComplianceProfiles(templateSport).then((response) => {
+      if (cancelled) return
+      const profiles = response.data ?? []
+      setComplianceProfiles(profiles)
+      setComplianceProfileId((id) => (id && profiles.some((p) => p.id === id) ? id : null))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [templateSport])
+
   // Load data
   useEffect(() => {
     const loadData = async () => {
@@ -202,7 +300,10 @@ export default function EditorPage() {
       cornerMarkersRef.current.forEach(m => m.setMap(null))
       cornerMarkersRef.current = []
 
+      resetHistory()
+
       const templatesResponse = await api.getTemplates()
+      const loadedTemplates = templatesResponse.data || []
       if (templatesResponse.data) {
         setTemplates(templatesResponse.data)
         if (templatesResponse.data.length > 0) {
@@ -230,6 +331,14 @@ export default function EditorPage() {
         const configResponse = await api.getConfiguration(configurationId)
         if (configResponse.data) {
           const config = configResponse.data as {
+            templateId: string
+            templateVersion: {
+              minLength: number
+              maxLength: number
+              minWidth: number
+              maxWidth: number
+              interiorElements: unknown
+            } | null
             lengthMeters: number
             widthMeters: number
             lineColor: string
@@ -237,12 +346,32 @@ export default function EditorPage() {
             latitude: number
             longitude: number
             name: string
+            complianceProfile: { id: string } | null
           }
           setFieldLength(config.lengthMeters || 100)
           setFieldWidth(config.widthMeters || 64)
           setLineColor(config.lineColor || 'white')
           setRotation(config.rotationDegrees || 0)
           setConfigName(config.name || '')
+          setComplianceProfileId(config.complianceProfile?.id ?? null)
+
+          // Render the configuration with its own template's markings, using the
+          // limits and markings of the version it is pinned to
+          const configTemplate = loadedTemplates.find((t) => t.id === config.templateId)
+          if (configTemplate) {
+            setSelectedTemplate(
+              config.templateVersion
+                ? {
+                    ...configTemplate,
+                    minLength: config.templateVersion.minLength,
+                    maxLength: config.templateVersion.maxLength,
+                    minWidth: config.templateVersion.minWidth,
+                    maxWidth: config.templateVersion.maxWidth,
+                    interiorElements: config.templateVersion.interiorElements,
+                  }
+                : configTemplate
+            )
+          }
 
           // Only set field as placed if we have valid coordinates
           if (config.latitude && config.longitude) {
@@ -259,13 +388,14 @@ export default function EditorPage() {
         // No configuration - reset to defaults
         setRotation(0)
         setLineColor('white')
+        setComplianceProfileId(null)
       }
 
       setIsLoading(false)
     }
 
     loadData()
-  }, [sportsgroundId, configurationId])
+  }, [sportsgroundId, configurationId, resetHistory])
 
   // Initialize Google Map
   useEffect(() => {
@@ -323,52 +453,47 @@ export default function EditorPage() {
     }
   }, [GOOGLE_API_KEY, isLoading, sportsground])
 
-  // Helper to convert local coordinates to lat/lng with rotation
-  const toLatLng = useCallback(
-    (center: { lat: number; lng: number }, x: number, y: number, rot?: number) => {
-      // x is along the width (goal line direction), y is along the length (touchline direction)
-      const metersPerDegreeLat = 111320
-      const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
+  // Show the ground's boundary and no-mark zones under the fields
+  useEffect(() => {
+    if (!mapRef.current || !isMapLoaded || !sportsground) return
 
-      const rotationRad = ((rot ?? rotation) * Math.PI) / 180
+    const site = siteLayoutOf(sportsground)
+    const outline = (points: LatLng[], color: string, fillOpacity: number) =>
+      new google.maps.Polygon({
+        paths: points,
+        map: mapRef.current,
+        strokeColor: color,
+        strokeOpacity: 0.9,
+        strokeWeight: 2,
+        fillColor: color,
+        fillOpacity,
+        // Let clicks through to place the field
+        clickable: false,
+      })
 
-      // Rotate in meters first (around origin)
-      const rotatedX = x * Math.cos(rotationRad) - y * Math.sin(rotationRad)
-      const rotatedY = x * Math.sin(rotationRad) + y * Math.cos(rotationRad)
+    siteOverlaysRef.current = [
+      ...(site.boundary ? [outline(site.boundary, '#22c55e', 0)] : []),
+      ...site.exclusionZones.map((zone) => outline(zone.points, '#ef4444', 0.2)),
+    ]
 
-      // Then convert to lat/lng
-      const dLat = rotatedY / metersPerDegreeLat
-      const dLng = rotatedX / metersPerDegreeLng
+    return () => {
+      siteOverlaysRef.current.forEach((polygon) => polygon.setMap(null))
+      siteOverlaysRef.current = []
+    }
+  }, [isMapLoaded, sportsground])
 
-      return {
-        lat: center.lat + dLat,
-        lng: center.lng + dLng,
-      }
-    },
+  // Helper to convert local coordinates to lat/lng with rotation
+  // x is along the width (goal line direction), y is along the length (touchline direction)
+  const toLatLng = useCallback(
+    (center: { lat: number; lng: number }, x: number, y: number, rot?: number) =>
+      fieldToLatLng(center, x, y, rot ?? rotation),
     [rotation]
   )
 
   // Helper to convert lat/lng back to local coordinates (meters from center)
   const fromLatLng = useCallback(
-    (center: { lat: number; lng: number }, point: { lat: number; lng: number }, rot?: number) => {
-      const metersPerDegreeLat = 111320
-      const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
-
-      const rotationRad = ((rot ?? rotation) * Math.PI) / 180
-
-      // Get the difference in degrees and convert to meters first
-      const dLat = point.lat - center.lat
-      const dLng = point.lng - center.lng
-
-      const metersY = dLat * metersPerDegreeLat
-      const metersX = dLng * metersPerDegreeLng
-
-      // Then reverse the rotation in meters
-      const x = metersX * Math.cos(-rotationRad) - metersY * Math.sin(-rotationRad)
-      const y = metersX * Math.sin(-rotationRad) + metersY * Math.cos(-rotationRad)
-
-      return { x, y }
-    },
+    (center: { lat: number; lng: number }, point: { lat: number; lng: number }, rot?: number) =>
+      latLngToField(center, point, rot ?? rotation),
     [rotation]
   )
 
@@ -378,21 +503,8 @@ export default function EditorPage() {
       const halfL = length / 2
       const halfW = width / 2
 
-      // Helper to convert coords with specific rotation - rotate in meters first
-      const toPos = (x: number, y: number) => {
-        const metersPerDegreeLat = 111320
-        const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
-        const rotationRad = (rot * Math.PI) / 180
-
-        // Rotate in meters first
-        const rotatedX = x * Math.cos(rotationRad) - y * Math.sin(rotationRad)
-        const rotatedY = x * Math.sin(rotationRad) + y * Math.cos(rotationRad)
-
-        // Then convert to lat/lng
-        const dLat = rotatedY / metersPerDegreeLat
-        const dLng = rotatedX / metersPerDegreeLng
-        return { lat: center.lat + dLat, lng: center.lng + dLng }
-      }
+      // Helper to convert coords with specific rotation
+      const toPos = (x: number, y: number) => fieldToLatLng(center, x, y, rot)
 
       // Use built-in symbol for reliable drag detection
       const resizeIconPath = google.maps.SymbolPath.FORWARD_CLOSED_ARROW
@@ -466,114 +578,13 @@ export default function EditorPage() {
       const halfL = L / 2
       const halfW = W / 2
 
-      // Helper with explicit rotation - rotate in meters first, then convert to lat/lng
-      const toLatLngLocal = (x: number, y: number) => {
-        const metersPerDegreeLat = 111320
-        const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
-        const rotationRad = (rot * Math.PI) / 180
-
-        // Rotate the point in meters around origin first
-        const rotatedX = x * Math.cos(rotationRad) - y * Math.sin(rotationRad)
-        const rotatedY = x * Math.sin(rotationRad) + y * Math.cos(rotationRad)
-
-        // Then convert to lat/lng
-        const dLat = rotatedY / metersPerDegreeLat
-        const dLng = rotatedX / metersPerDegreeLng
+      // Helper with explicit rotation
+      const toLatLngLocal = (x: number, y: number) => fieldToLatLng(center, x, y, rot)
 
-        return { lat: center.lat + dLat, lng: center.lng + dLng }
-      }
-
-      const penaltyDepth = 16.5
-      const penaltyWidth = 40.3 / 2
-      const goalAreaDepth = 5.5
-      const goalAreaWidth = 18.3 / 2
-      const centerCircleRadius = 9.15
-      const penaltySpotDist = 11
-      const penaltyArcRadius = 9.15
-      const cornerArcRadius = 1
-
-      const lines: { lat: number; lng: number }[][] = []
-
-      // Outer boundary
-      lines.push([
-        toLatLngLocal(-halfW, -halfL),
-        toLatLngLocal(halfW, -halfL),
-        toLatLngLocal(halfW, halfL),
-        toLatLngLocal(-halfW, halfL),
-        toLatLngLocal(-halfW, -halfL),
-      ])
-
-      // Center line
-      lines.push([toLatLngLocal(-halfW, 0), toLatLngLocal(halfW, 0)])
-
-      // Center circle
-      const centerCircle: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 36; i++) {
-        const angle = (i / 36) * 2 * Math.PI
-        centerCircle.push(toLatLngLocal(centerCircleRadius * Math.cos(angle), centerCircleRadius * Math.sin(angle)))
-      }
-      lines.push(centerCircle)
-
-      // Penalty areas
-      lines.push([
-        toLatLngLocal(-penaltyWidth, halfL),
-        toLatLngLocal(-penaltyWidth, halfL - penaltyDepth),
-        toLatLngLocal(penaltyWidth, halfL - penaltyDepth),
-        toLatLngLocal(penaltyWidth, halfL),
-      ])
-      lines.push([
-        toLatLngLocal(-penaltyWidth, -halfL),
-        toLatLngLocal(-penaltyWidth, -halfL + penaltyDepth),
-        toLatLngLocal(penaltyWidth, -halfL + penaltyDepth),
-        toLatLngLocal(penaltyWidth, -halfL),
-      ])
-
-      // Goal areas
-      lines.push([
-        toLatLngLocal(-goalAreaWidth, halfL),
-        toLatLngLocal(-goalAreaWidth, halfL - goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, halfL - goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, halfL),
-      ])
-      lines.push([
-        toLatLngLocal(-goalAreaWidth, -halfL),
-        toLatLngLocal(-goalAreaWidth, -halfL + goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, -halfL + goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, -halfL),
-      ])
-
-      // Penalty arcs
-      const topPenaltyArc: { lat: number; lng: number }[] = []
-      const topPenaltySpotY = halfL - penaltySpotDist
-      for (let i = -10; i <= 10; i++) {
-        const angle = (i / 10) * (Math.PI / 3) - Math.PI / 2
-        const px = penaltyArcRadius * Math.cos(angle)
-        const py = topPenaltySpotY + penaltyArcRadius * Math.sin(angle)
-        if (py < halfL - penaltyDepth) topPenaltyArc.push(toLatLngLocal(px, py))
-      }
-      if (topPenaltyArc.length > 1) lines.push(topPenaltyArc)
-
-      const bottomPenaltyArc: { lat: number; lng: number }[] = []
-      const bottomPenaltySpotY = -halfL + penaltySpotDist
-      for (let i = -10; i <= 10; i++) {
-        const angle = (i / 10) * (Math.PI / 3) + Math.PI / 2
-        const px = penaltyArcRadius * Math.cos(angle)
-        const py = bottomPenaltySpotY + penaltyArcRadius * Math.sin(angle)
-        if (py > -halfL + penaltyDepth) bottomPenaltyArc.push(toLatLngLocal(px, py))
-      }
-      if (bottomPenaltyArc.length > 1) lines.push(bottomPenaltyArc)
-
-      // Corner arcs
-      for (const [cx, cy] of [[-halfW, halfL], [halfW, halfL], [halfW, -halfL], [-halfW, -halfL]]) {
-        const corner: { lat: number; lng: number }[] = []
-        const signX = cx > 0 ? -1 : 1
-        const signY = cy > 0 ? -1 : 1
-        for (let i = 0; i <= 9; i++) {
-          const angle = (i / 9) * (Math.PI / 2)
-          corner.push(toLatLngLocal(cx + signX * cornerArcRadius * Math.sin(angle), cy + signY * cornerArcRadius * Math.cos(angle)))
-        }
-        lines.push(corner)
-      }
+      // Generate the template's markings in local coordinates, then project them
+      const lines = generateFieldPaths(selectedTemplateRef.current?.interiorElements, L, W).map((path) =>
+        path.points.map((p) => toLatLngLocal(p.x, p.y))
+      )
 
       // Create polylines
       lines.forEach((linePath) => {
@@ -606,170 +617,29 @@ export default function EditorPage() {
       createLabel(toLatLngLocal(halfW + labelOffset, 0), `${L}m`)
       createLabel(toLatLngLocal(0, halfL + labelOffset), `${W}m`)
       createLabel(toLatLngLocal(0, -halfL - labelOffset), `${W}m`)
+
+      // Keep the conflict warnings following the drag
+      if (isDraggingRef.current) {
+        setDragFootprint({
+          latitude: center.lat,
+          longitude: center.lng,
+          rotationDegrees: rot,
+          lengthMeters: length,
+          widthMeters: width,
+        })
+      }
     },
     []
   )
 
-  // Generate soccer field lines
-  const generateSoccerFieldLines = useCallback(
+  // Generate the selected template's field lines
+  const generateFieldLines = useCallback(
     (center: { lat: number; lng: number }) => {
-      const L = fieldLength // Total length (touchline)
-      const W = fieldWidth  // Total width (goal line)
-
-      // Standard soccer field dimensions (scaled to actual field size)
-      // All measurements from center of field
-      const halfL = L / 2
-      const halfW = W / 2
-
-      // Penalty area: 16.5m from goal line, 40.3m wide (20.15m each side of goal)
-      const penaltyDepth = 16.5
-      const penaltyWidth = 40.3 / 2
-
-      // Goal area: 5.5m from goal line, 18.3m wide (9.15m each side of goal)
-      const goalAreaDepth = 5.5
-      const goalAreaWidth = 18.3 / 2
-
-      // Center circle radius: 9.15m
-      const centerCircleRadius = 9.15
-
-      // Penalty spot: 11m from goal line
-      const penaltySpotDist = 11
-
-      // Penalty arc radius: 9.15m from penalty spot
-      const penaltyArcRadius = 9.15
-
-      // Corner arc radius: 1m
-      const cornerArcRadius = 1
-
-      const lines: { lat: number; lng: number }[][] = []
-
-      // 1. Outer boundary (rectangle)
-      lines.push([
-        toLatLng(center, -halfW, -halfL),
-        toLatLng(center, halfW, -halfL),
-        toLatLng(center, halfW, halfL),
-        toLatLng(center, -halfW, halfL),
-        toLatLng(center, -halfW, -halfL),
-      ])
-
-      // 2. Center line
-      lines.push([
-        toLatLng(center, -halfW, 0),
-        toLatLng(center, halfW, 0),
-      ])
-
-      // 3. Center circle (approximated with points)
-      const centerCircle: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 36; i++) {
-        const angle = (i / 36) * 2 * Math.PI
-        centerCircle.push(
-          toLatLng(center, centerCircleRadius * Math.cos(angle), centerCircleRadius * Math.sin(angle))
-        )
-      }
-      lines.push(centerCircle)
-
-      // 4. Top penalty area (y = halfL side)
-      lines.push([
-        toLatLng(center, -penaltyWidth, halfL),
-        toLatLng(center, -penaltyWidth, halfL - penaltyDepth),
-        toLatLng(center, penaltyWidth, halfL - penaltyDepth),
-        toLatLng(center, penaltyWidth, halfL),
-      ])
-
-      // 5. Bottom penalty area (y = -halfL side)
-      lines.push([
-        toLatLng(center, -penaltyWidth, -halfL),
-        toLatLng(center, -penaltyWidth, -halfL + penaltyDepth),
-        toLatLng(center, penaltyWidth, -halfL + penaltyDepth),
-        toLatLng(center, penaltyWidth, -halfL),
-      ])
-
-      // 6. Top goal area
-      lines.push([
-        toLatLng(center, -goalAreaWidth, halfL),
-        toLatLng(center, -goalAreaWidth, halfL - goalAreaDepth),
-        toLatLng(center, goalAreaWidth, halfL - goalAreaDepth),
-        toLatLng(center, goalAreaWidth, halfL),
-      ])
-
-      // 7. Bottom goal area
-      lines.push([
-        toLatLng(center, -goalAreaWidth, -halfL),
-        toLatLng(center, -goalAreaWidth, -halfL + goalAreaDepth),
-        toLatLng(center, goalAreaWidth, -halfL + goalAreaDepth),
-        toLatLng(center, goalAreaWidth, -halfL),
-      ])
-
-      // 8. Top penalty arc (arc outside penalty area)
-      const topPenaltyArc: { lat: number; lng: number }[] = []
-      const topPenaltySpotY = halfL - penaltySpotDist
-      for (let i = -10; i <= 10; i++) {
-        const angle = (i / 10) * (Math.PI / 3) - Math.PI / 2 // Arc facing down
-        const px = penaltyArcRadius * Math.cos(angle)
-        const py = topPenaltySpotY + penaltyArcRadius * Math.sin(angle)
-        if (py < halfL - penaltyDepth) {
-          topPenaltyArc.push(toLatLng(center, px, py))
-        }
-      }
-      if (topPenaltyArc.length > 1) lines.push(topPenaltyArc)
-
-      // 9. Bottom penalty arc
-      const bottomPenaltyArc: { lat: number; lng: number }[] = []
-      const bottomPenaltySpotY = -halfL + penaltySpotDist
-      for (let i = -10; i <= 10; i++) {
-        const angle = (i / 10) * (Math.PI / 3) + Math.PI / 2 // Arc facing up
-        const px = penaltyArcRadius * Math.cos(angle)
-        const py = bottomPenaltySpotY + penaltyArcRadius * Math.sin(angle)
-        if (py > -halfL + penaltyDepth) {
-          bottomPenaltyArc.push(toLatLng(center, px, py))
-        }
-      }
-      if (bottomPenaltyArc.length > 1) lines.push(bottomPenaltyArc)
-
-      // 10. Corner arcs
-      // Top-left corner
-      const topLeftCorner: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 9; i++) {
-        const angle = (i / 9) * (Math.PI / 2)
-        topLeftCorner.push(
-          toLatLng(center, -halfW + cornerArcRadius * Math.sin(angle), halfL - cornerArcRadius * Math.cos(angle))
-        )
-      }
-      lines.push(topLeftCorner)
-
-      // Top-right corner
-      const topRightCorner: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 9; i++) {
-        const angle = (i / 9) * (Math.PI / 2)
-        topRightCorner.push(
-          toLatLng(center, halfW - cornerArcRadius * Math.sin(angle), halfL - cornerArcRadius * Math.cos(angle))
-        )
-      }
-      lines.push(topRightCorner)
-
-      // Bottom-left corner
-      const bottomLeftCorner: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 9; i++) {
-        const angle = (i / 9) * (Math.PI / 2)
-        bottomLeftCorner.push(
-          toLatLng(center, -halfW + cornerArcRadius * Math.sin(angle), -halfL + cornerArcRadius * Math.cos(angle))
-        )
-      }
-      lines.push(bottomLeftCorner)
-
-      // Bottom-right corner
-      const bottomRightCorner: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 9; i++) {
-        const angle = (i / 9) * (Math.PI / 2)
-        bottomRightCorner.push(
-          toLatLng(center, halfW - cornerArcRadius * Math.sin(angle), -halfL + cornerArcRadius * Math.cos(angle))
-        )
-      }
-      lines.push(bottomRightCorner)
-
-      return lines
+      return generateFieldPaths(selectedTemplate?.interiorElements, fieldLength, fieldWidth).map((path) =>
+        path.points.map((p) => toLatLng(center, p.x, p.y))
+      )
     },
-    [fieldLength, fieldWidth, toLatLng]
+    [fieldLength, fieldWidth, selectedTemplate, toLatLng]
   )
 
   // Draw/update field overlay
@@ -783,7 +653,7 @@ export default function EditorPage() {
     fieldOverlaysRef.current = []
 
     // Generate field lines
-    const fieldLines = generateSoccerFieldLines(fieldCenter)
+    const fieldLines = generateFieldLines(fieldCenter)
 
     // Create polylines for each line
     fieldLines.forEach((linePath) => {
@@ -816,12 +686,22 @@ export default function EditorPage() {
         title: 'Drag to move field',
       })
 
+      marker.addListener('dragstart', () => {
+        isDraggingRef.current = true
+      })
+
       marker.addListener('drag', (e: google.maps.MapMouseEvent) => {
         if (e.latLng) {
           setFieldCenter({ lat: e.latLng.lat(), lng: e.latLng.lng() })
         }
       })
 
+      // The centre follows the drag live, so record the move once it's dropped
+      marker.addListener('dragend', () => {
+        isDraggingRef.current = false
+        checkpoint()
+      })
+
       dragMarkerRef.current = marker
     }
 
@@ -880,25 +760,14 @@ export default function EditorPage() {
           const center = fieldCenterRef.current
           const halfL = fieldLengthRef.current / 2
           const halfW = fieldWidthRef.current / 2
-          const rotationRad = (rotationRef.current * Math.PI) / 180
-          const metersPerDegreeLat = 111320
-          const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
 
           // Calculate and store the fixed (opposite) edge's WORLD position
           if (edge.type === 'length') {
             // For length edges (top/bottom), fixed edge is on opposite Y side
-            const fixedLocalY = -edge.dir * halfL
-            fixedEdgeWorldPosRef.current = {
-              lat: center.lat + (fixedLocalY / metersPerDegreeLat) * Math.cos(rotationRad),
-              lng: center.lng + (fixedLocalY / metersPerDegreeLat) * Math.sin(rotationRad) * (metersPerDegreeLat / metersPerDegreeLng)
-            }
+            fixedEdgeWorldPosRef.current = fieldToLatLng(center, 0, -edge.dir * halfL, rotationRef.current)
           } else {
             // For width edges (left/right), fixed edge is on opposite X side
-            const fixedLocalX = -edge.dir * halfW
-            fixedEdgeWorldPosRef.current = {
-              lat: center.lat - (fixedLocalX / metersPerDegreeLng) * Math.sin(rotationRad) * (metersPerDegreeLng / metersPerDegreeLat),
-              lng: center.lng + (fixedLocalX / metersPerDegreeLng) * Math.cos(rotationRad)
-            }
+            fixedEdgeWorldPosRef.current = fieldToLatLng(center, -edge.dir * halfW, 0, rotationRef.current)
           }
         })
 
@@ -907,21 +776,14 @@ export default function EditorPage() {
             // Use the ORIGINAL center from drag start for position calculations
             const originalCenter = dragStartCenterRef.current
             const fixedEdgeWorld = fixedEdgeWorldPosRef.current
-            const metersPerDegreeLat = 111320
-            const metersPerDegreeLng = 111320 * Math.cos((originalCenter.lat * Math.PI) / 180)
-            const rotationRad = (rotationRef.current * Math.PI) / 180
-
-            // Get drag position relative to ORIGINAL center
-            const dLat = e.latLng.lat() - originalCenter.lat
-            const dLng = e.latLng.lng() - originalCenter.lng
+            const rot = rotationRef.current
 
-            // Convert to meters first (uniform units), then apply inverse rotation
-            const metersNorth = dLat * metersPerDegreeLat
-            const metersEast = dLng * metersPerDegreeLng
-
-            // Convert from geographic to local coordinates (inverse rotation)
-            const localX = metersEast * Math.cos(-rotationRad) - metersNorth * Math.sin(-rotationRad)
-            const localY = metersEast * Math.sin(-rotationRad) + metersNorth * Math.cos(-rotationRad)
+            // Get drag position in local coordinates relative to ORIGINAL center
+            const { x: localX, y: localY } = latLngToField(
+              originalCenter,
+              { lat: e.latLng.lat(), lng: e.latLng.lng() },
+              rot
+            )
 
             let newLength = fieldLengthRef.current
             let newWidth = fieldWidthRef.current
@@ -929,12 +791,7 @@ export default function EditorPage() {
             const template = selectedTemplateRef.current
 
             // Also get fixed edge in local coords relative to original center
-            const fixedDLat = fixedEdgeWorld.lat - originalCenter.lat
-            const fixedDLng = fixedEdgeWorld.lng - originalCenter.lng
-            const fixedMetersNorth = fixedDLat * metersPerDegreeLat
-            const fixedMetersEast = fixedDLng * metersPerDegreeLng
-            const fixedLocalX = fixedMetersEast * Math.cos(-rotationRad) - fixedMetersNorth * Math.sin(-rotationRad)
-            const fixedLocalY = fixedMetersEast * Math.sin(-rotationRad) + fixedMetersNorth * Math.cos(-rotationRad)
+            const { x: fixedLocalX, y: fixedLocalY } = latLngToField(originalCenter, fixedEdgeWorld, rot)
 
             if (edge.type === 'length') {
               // New length is distance between fixed edge and dragged edge (in Y direction)
@@ -949,10 +806,7 @@ export default function EditorPage() {
 
               // New center is at fixedEdge + (newLength/2 * edge.dir) in the field's Y direction
               const centerOffsetFromFixed = (newLength / 2) * edge.dir
-              newCenter = {
-                lat: fixedEdgeWorld.lat + (centerOffsetFromFixed / metersPerDegreeLat) * Math.cos(rotationRad),
-                lng: fixedEdgeWorld.lng + (centerOffsetFromFixed / metersPerDegreeLat) * Math.sin(rotationRad) * (metersPerDegreeLat / metersPerDegreeLng)
-              }
+              newCenter = fieldToLatLng(fixedEdgeWorld, 0, centerOffsetFromFixed, rot)
 
               fieldLengthRef.current = newLength
               fieldCenterRef.current = newCenter
@@ -968,10 +822,7 @@ export default function EditorPage() {
 
               // New center is at fixedEdge + (newWidth/2 * edge.dir) in the field's X direction
               const centerOffsetFromFixed = (newWidth / 2) * edge.dir
-              newCenter = {
-                lat: fixedEdgeWorld.lat - (centerOffsetFromFixed / metersPerDegreeLng) * Math.sin(rotationRad) * (metersPerDegreeLng / metersPerDegreeLat),
-                lng: fixedEdgeWorld.lng + (centerOffsetFromFixed / metersPerDegreeLng) * Math.cos(rotationRad)
-              }
+              newCenter = fieldToLatLng(fixedEdgeWorld, centerOffsetFromFixed, 0, rot)
 
               fieldWidthRef.current = newWidth
               fieldCenterRef.current = newCenter
@@ -993,6 +844,7 @@ export default function EditorPage() {
           if (fieldCenterRef.current) {
             setFieldCenter(fieldCenterRef.current)
           }
+          setDragFootprint(null)
         })
 
         edgeMarkersRef.current.push(marker)
@@ -1053,11 +905,7 @@ export default function EditorPage() {
           // Store the starting angle from center to mouse position
           if (e.latLng && fieldCenterRef.current) {
             const center = fieldCenterRef.current
-            const metersPerDegreeLat = 111320
-            const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
-
-            const dx = (e.latLng.lng() - center.lng) * metersPerDegreeLng
-            const dy = (e.latLng.lat() - center.lat) * metersPerDegreeLat
+            const { east: dx, north: dy } = latLngToEnu(center, { lat: e.latLng.lat(), lng: e.latLng.lng() })
 
             dragStartAngleRef.current = Math.atan2(dy, dx)
             dragStartRotationRef.current = rotationRef.current
@@ -1067,11 +915,7 @@ export default function EditorPage() {
         marker.addListener('drag', (e: google.maps.MapMouseEvent) => {
           if (e.latLng && fieldCenterRef.current) {
             const center = fieldCenterRef.current
-            const metersPerDegreeLat = 111320
-            const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
-
-            const dx = (e.latLng.lng() - center.lng) * metersPerDegreeLng
-            const dy = (e.latLng.lat() - center.lat) * metersPerDegreeLat
+            const { east: dx, north: dy } = latLngToEnu(center, { lat: e.latLng.lat(), lng: e.latLng.lng() })
 
             const currentAngle = Math.atan2(dy, dx)
 
@@ -1096,6 +940,7 @@ export default function EditorPage() {
         marker.addListener('dragend', () => {
           isDraggingRef.current = false
           setRotation(rotationRef.current)
+          setDragFootprint(null)
         })
 
         cornerMarkersRef.current.push(marker)
@@ -1144,7 +989,7 @@ export default function EditorPage() {
     createDimensionLabel(toLatLng(fieldCenter, 0, halfL + labelOffset), `${fieldWidth}m`)
     createDimensionLabel(toLatLng(fieldCenter, 0, -halfL - labelOffset), `${fieldWidth}m`)
 
-  }, [fieldCenter, fieldPlaced, fieldLength, fieldWidth, lineColor, rotation, isMapLoaded, generateSoccerFieldLines, toLatLng, fromLatLng, selectedTemplate, redrawFieldLines, updateAllMarkerPositions])
+  }, [fieldCenter, fieldPlaced, fieldLength, fieldWidth, lineColor, rotation, isMapLoaded, generateFieldLines, toLatLng, fromLatLng, selectedTemplate, redrawFieldLines, updateAllMarkerPositions, checkpoint])
 
   // Handle template change
   const handleTemplateChange = (templateId: string) => {
@@ -1156,6 +1001,54 @@ export default function EditorPage() {
     }
   }
 
+  // The field and the rest of the ground, for the live compliance report
+  const complianceField = useMemo(
+    () =>
+      fieldPlaced && fieldCenter
+        ? {
+            latitude: fieldCenter.lat,
+            longitude: fieldCenter.lng,
+            rotationDegrees: rotation,
+            lengthMeters: fieldLength,
+            widthMeters: fieldWidth,
+          }
+        : null,
+    [fieldPlaced, fieldCenter, rotation, fieldLength, fieldWidth]
+  )
+  const complianceNeighbours = useMemo(
+    () => existingConfigs.filter((c) => c.id !== configurationId),
+    [existingConfigs, configurationId]
+  )
+  const complianceProfile = complianceProfiles.find((p) => p.id === complianceProfileId) ?? null
+  const complianceReport = useMemo(
+    () => (complianceProfile && complianceField ? evaluateCompliance(complianceProfile, complianceField, complianceNeighbours) : null),
+    [complianceProfile, complianceField, complianceNeighbours]
+  )
+
+  // Overlaps and run-off clashes with the other fields, and boundary or no-mark
+  // zone breaches, live while dragging
+  const liveField = dragFootprint ?? complianceField
+  const fieldConflicts = useMemo(() => {
+    if (!liveField) return []
+
+    const runOff = complianceProfile
+      ? { sides: complianceProfile.runOffSides, ends: complianceProfile.runOffEnds }
+      : null
+    return conflictsWith(
+      { ...liveField, id: configurationId ?? 'new', name: configName || 'This field', runOff },
+      complianceNeighbours.map((c) => ({
+        ...c,
+        runOff: c.complianceProfile
+          ? { sides: c.complianceProfile.runOffSides, ends: c.complianceProfile.runOffEnds }
+          : null,
+      }))
+    )
+  }, [liveField, complianceProfile, complianceNeighbours, configurationId, configName])
+  const siteIssues = useMemo(
+    () => (liveField && sportsground ? findSiteIssues(siteLayoutOf(sportsground), liveField) : []),
+    [liveField, sportsground]
+  )
+
   // Handle dimension changes
   const handleLengthChange = (value: string) => {
     const num = parseFloat(value)
@@ -1201,116 +1094,19 @@ export default function EditorPage() {
       const L = config.lengthMeters
       const W = config.widthMeters
       const rot = config.rotationDegrees
-      const halfL = L / 2
-      const halfW = W / 2
-
-      const metersPerDegreeLat = 111320
-      const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180)
-      const rotationRad = (rot * Math.PI) / 180
 
-      const toLatLngLocal = (x: number, y: number) => {
-        const rotatedX = x * Math.cos(rotationRad) - y * Math.sin(rotationRad)
-        const rotatedY = x * Math.sin(rotationRad) + y * Math.cos(rotationRad)
-        const dLat = rotatedY / metersPerDegreeLat
-        const dLng = rotatedX / metersPerDegreeLng
-        return { lat: center.lat + dLat, lng: center.lng + dLng }
-      }
+      const toLatLngLocal = (x: number, y: number) => fieldToLatLng(center, x, y, rot)
 
-      const penaltyDepth = 16.5
-      const penaltyWidth = 40.3 / 2
-      const goalAreaDepth = 5.5
-      const goalAreaWidth = 18.3 / 2
-      const centerCircleRadius = 9.15
-      const penaltySpotDist = 11
-      const penaltyArcRadius = 9.15
-      const cornerArcRadius = 1
-
-      const lines: { lat: number; lng: number }[][] = []
-
-      // Outer boundary
-      lines.push([
-        toLatLngLocal(-halfW, -halfL),
-        toLatLngLocal(halfW, -halfL),
-        toLatLngLocal(halfW, halfL),
-        toLatLngLocal(-halfW, halfL),
-        toLatLngLocal(-halfW, -halfL),
-      ])
-
-      // Center line
-      lines.push([toLatLngLocal(-halfW, 0), toLatLngLocal(halfW, 0)])
-
-      // Center circle
-      const centerCircle: { lat: number; lng: number }[] = []
-      for (let i = 0; i <= 36; i++) {
-        const angle = (i / 36) * 2 * Math.PI
-        centerCircle.push(toLatLngLocal(centerCircleRadius * Math.cos(angle), centerCircleRadius * Math.sin(angle)))
-      }
-      lines.push(centerCircle)
-
-      // Penalty areas
-      lines.push([
-        toLatLngLocal(-penaltyWidth, halfL),
-        toLatLngLocal(-penaltyWidth, halfL - penaltyDepth),
-        toLatLngLocal(penaltyWidth, halfL - penaltyDepth),
-        toLatLngLocal(penaltyWidth, halfL),
-      ])
-      lines.push([
-        toLatLngLocal(-penaltyWidth, -halfL),
-        toLatLngLocal(-penaltyWidth, -halfL + penaltyDepth),
-        toLatLngLocal(penaltyWidth, -halfL + penaltyDepth),
-        toLatLngLocal(penaltyWidth, -halfL),
-      ])
-
-      // Goal areas
-      lines.push([
-        toLatLngLocal(-goalAreaWidth, halfL),
-        toLatLngLocal(-goalAreaWidth, halfL - goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, halfL - goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, halfL),
-      ])
-      lines.push([
-        toLatLngLocal(-goalAreaWidth, -halfL),
-        toLatLngLocal(-goalAreaWidth, -halfL + goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, -halfL + goalAreaDepth),
-        toLatLngLocal(goalAreaWidth, -halfL),
-      ])
-
-      // Penalty arcs
-      const topPenaltyArc: { lat: number; lng: number }[] = []
-      const topPenaltySpotY = halfL - penaltySpotDist
-      for (let i = -10; i <= 10; i++) {
-        const angle = (i / 10) * (Math.PI / 3) - Math.PI / 2
-        const px = penaltyArcRadius * Math.cos(angle)
-        const py = topPenaltySpotY + penaltyArcRadius * Math.sin(angle)
-        if (py < halfL - penaltyDepth) topPenaltyArc.push(toLatLngLocal(px, py))
-      }
-      if (topPenaltyArc.length > 1) lines.push(topPenaltyArc)
-
-      const bottomPenaltyArc: { lat: number; lng: number }[] = []
-      const bottomPenaltySpotY = -halfL + penaltySpotDist
-      for (let i = -10; i <= 10; i++) {
-        const angle = (i / 10) * (Math.PI / 3) + Math.PI / 2
-        const px = penaltyArcRadius * Math.cos(angle)
-        const py = bottomPenaltySpotY + penaltyArcRadius * Math.sin(angle)
-        if (py > -halfL + penaltyDepth) bottomPenaltyArc.push(toLatLngLocal(px, py))
-      }
-      if (bottomPenaltyArc.length > 1) lines.push(bottomPenaltyArc)
-
-      // Corner arcs
-      for (const [cx, cy] of [[-halfW, halfL], [halfW, halfL], [halfW, -halfL], [-halfW, -halfL]]) {
-        const corner: { lat: number; lng: number }[] = []
-        const signX = cx > 0 ? -1 : 1
-        const signY = cy > 0 ? -1 : 1
-        for (let i = 0; i <= 9; i++) {
-          const angle = (i / 9) * (Math.PI / 2)
-          corner.push(toLatLngLocal(cx + signX * cornerArcRadius * Math.sin(angle), cy + signY * cornerArcRadius * Math.cos(angle)))
-        }
-        lines.push(corner)
-      }
+      // Prefer the pinned version's markings; configurations saved before versioning
+      // follow the current template, and inactive templates fall back to the outer boundary
+      const template = templates.find((t) => t.id === config.template?.id)
+      const interiorElements = config.templateVersion?.interiorElements ?? template?.interiorElements
 
-      return lines
+      return generateFieldPaths(interiorElements, L, W).map((path) =>
+        path.points.map((p) => toLatLngLocal(p.x, p.y))
+      )
     },
-    []
+    [templates]
   )
 
   // Toggle configuration visibility
@@ -1415,6 +1211,7 @@ export default function EditorPage() {
       lengthMeters: fieldLength,
       widthMeters: fieldWidth,
       lineColor,
+      complianceProfileId,
     }
 
     let response
@@ -1429,6 +1226,14 @@ export default function EditorPage() {
     } else {
       setShowSaveModal(false)
 
+      // Accepted bookings keep the layout they were booked with
+      const lockedBookings = (response.data as { lockedBookings?: number }).lockedBookings ?? 0
+      if (lockedBookings > 0) {
+        alert(
+          `Saved. ${lockedBookings} confirmed booking${lockedBookings === 1 ? '' : 's'} for this field will still be marked as originally booked.`
+        )
+      }
+
       // If there's a pending edit (user clicked Save First), navigate to edit that config
       if (pendingEditConfigId) {
         const editId = pendingEditConfigId
@@ -1484,6 +1289,30 @@ export default function EditorPage() {
           )}
         </div>
         <div className="flex items-center space-x-1 md:space-x-2 flex-shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={undo}
+            disabled={!canUndo}
+            className="px-2 md:px-3"
+            title="Undo (Ctrl+Z)"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </svg>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={redo}
+            disabled={!canRedo}
+            className="px-2 md:px-3"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+            </svg>
+          </Button>
           <Button variant="outline" size="sm" onClick={handleReset} className="px-2 md:px-3">
             <svg className="w-4 h-4 md:mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -1637,6 +1466,16 @@ export default function EditorPage() {
               </CardContent>
             </Card>
 
+            {/* Compliance */}
+            {selectedTemplate && (
+              <CompliancePanel
+                profiles={complianceProfiles}
+                profileId={complianceProfileId}
+                onProfileChange={setComplianceProfileId}
+                report={complianceReport}
+              />
+            )}
+
             {/* Existing Configurations */}
             {existingConfigs.length > 0 && (
               <Card>
@@ -1740,6 +1579,13 @@ export default function EditorPage() {
         <div className="flex-1 relative min-h-0">
           <div ref={mapContainerRef} className="absolute inset-0 w-full h-full" />
 
+          {/* Conflict warnings overlay */}
+          {fieldPlaced && (fieldConflicts.length > 0 || siteIssues.length > 0) && (!isMobile || !sidebarOpen) && (
+            <div className={`absolute right-4 z-10 max-w-xs ${isMobile ? 'top-24' : 'top-4'}`}>
+              <ConflictWarnings conflicts={fieldConflicts} siteIssues={siteIssues} />
+            </div>
+          )}
+
           {/* Placement hint overlay */}
           {!fieldPlaced && isMapLoaded && (
             <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-70 text-white px-3 md:px-4 py-2 rounded-lg text-xs md:text-sm z-10 text-center max-w-[90%]">
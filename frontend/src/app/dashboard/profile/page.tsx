@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useAuth } from '@/lib/auth-context'
 import { api } from '@/lib/api'
 import { Button } from '@/components/ui/button'
@@ -8,6 +8,25 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 
+// Booking update emails a customer can switch off; keys match the backend's NOTIFICATION_CATEGORIES
+const NOTIFICATION_OPTIONS = [
+  {
+    key: 'booking_confirmations',
+    label: 'Confirmations',
+    description: 'When a booking is confirmed or a crew is scheduled',
+  },
+  {
+    key: 'booking_changes',
+    label: 'Changes and cancellations',
+    description: 'When a booking is rescheduled, cancelled or declined',
+  },
+  {
+    key: 'booking_progress',
+    label: 'Work progress',
+    description: 'When marking starts and when it is completed',
+  },
+]
+
 export default function ProfilePage() {
   const { user, refreshUser } = useAuth()
   const [isLoading, setIsLoading] = useState(false)
@@ -19,12 +38,21 @@ export default function ProfilePage() {
     organization: user?.organization || '',
   })
 
+  // Loaded from the profile endpoint; the session user from login doesn't carry preferences
+  const [notificationOptOuts, setNotificationOptOuts] = useState<string[] | null>(null)
+
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
     newPassword: '',
     confirmPassword: '',
   })
 
+  useEffect(() => {
+    api.getProfile().then((response) => {
+      if (response.data) setNotificationOptOuts(response.data.notificationOptOuts)
+    })
+  }, [])
+
   const handleProfileSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setMessage({ type: '', text: '' })
@@ -42,6 +70,30 @@ export default function ProfilePage() {
     setIsLoading(false)
   }
 
+  const toggleNotification = (key: string) => {
+    setNotificationOptOuts((prev) =>
+      prev && (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key])
+    )
+  }
+
+  const handleNotificationsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!notificationOptOuts) return
+    setMessage({ type: '', text: '' })
+    setIsLoading(true)
+
+    const result = await api.updateProfile({ notificationOptOuts })
+
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error })
+    } else {
+      setMessage({ type: 'success', text: 'Notification preferences saved!' })
+      refreshUser()
+    }
+
+    setIsLoading(false)
+  }
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setMessage({ type: '', text: '' })
@@ -149,6 +201,38 @@ export default function ProfilePage() {
         </CardContent>
       </Card>
 
+      {/* Booking Notifications */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Booking Notifications</CardTitle>
+          <CardDescription>
+            Choose which booking updates we send you. Each booking is updated by email, SMS or both, following the contact preference you chose when booking. Updates always appear under the bell in the menu bar.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleNotificationsSubmit} className="space-y-4">
+            {NOTIFICATION_OPTIONS.map((option) => (
+              <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!notificationOptOuts?.includes(option.key)}
+                  onChange={() => toggleNotification(option.key)}
+                  disabled={isLoading || !notificationOptOuts}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-sm text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+            <Button type="submit" disabled={isLoading || !notificationOptOuts}>
+              {isLoading ? 'Saving...' : 'Save Preferences'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
       {/* Change Password */}
       <Card>
         <CardHeader>
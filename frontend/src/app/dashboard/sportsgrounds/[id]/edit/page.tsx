@@ -1,14 +1,16 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
+import type { LatLng } from 'xactline-shared/projection'
+import { EXCLUSION_ZONE_KINDS, EXCLUSION_ZONE_LABELS, type ExclusionZone, type ExclusionZoneKind } from 'xactline-shared/site-layout'
 import { api } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { GoogleMap } from '@/components/map/google-map'
+import { GoogleMap, type MapPolygon } from '@/components/map/google-map'
 import { LocationSearch } from '@/components/map/location-search'
 
 interface Sportsground {
@@ -19,8 +21,16 @@ interface Sportsground {
   longitude: number
   defaultZoom: number
   notes?: string
+  boundary: LatLng[] | null
+  exclusionZones: ExclusionZone[]
 }
 
+// The outline map clicks are adding corners to
+type DrawingTarget = { type: 'boundary' } | { type: 'zone'; index: number }
+
+const BOUNDARY_COLOR = '#22c55e'
+const ZONE_COLOR = '#ef4444'
+
 export default function EditSportsgroundPage() {
   const params = useParams()
   const router = useRouter()
@@ -30,6 +40,9 @@ export default function EditSportsgroundPage() {
   const [markerPosition, setMarkerPosition] = useState<{ lat: number; lng: number } | null>(null)
   const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number }>({ lat: -33.8688, lng: 151.2093 })
   const [mapZoom, setMapZoom] = useState(15)
+  const [boundary, setBoundary] = useState<LatLng[] | null>(null)
+  const [exclusionZones, setExclusionZones] = useState<ExclusionZone[]>([])
+  const [drawing, setDrawing] = useState<DrawingTarget | null>(null)
 
   const [formData, setFormData] = useState({
     name: '',
@@ -55,6 +68,8 @@ export default function EditSportsgroundPage() {
         setMarkerPosition(position)
         setMapCenter(position)
         setMapZoom(ground.defaultZoom)
+        setBoundary(ground.boundary)
+        setExclusionZones(ground.exclusionZones ?? [])
       }
       setIsLoading(false)
     }
@@ -82,6 +97,18 @@ export default function EditSportsgroundPage() {
   }
 
   const handleMapClick = (latLng: { lat: number; lng: number }) => {
+    // While drawing, clicks add corners to the outline instead of moving the pin
+    if (drawing?.type === 'boundary') {
+      setBoundary((points) => [...(points ?? []), latLng])
+      return
+    }
+    if (drawing?.type === 'zone') {
+      setExclusionZones((zones) =>
+        zones.map((zone, i) => (i === drawing.index ? { ...zone, points: [...zone.points, latLng] } : zone))
+      )
+      return
+    }
+
     setFormData((prev) => ({
       ...prev,
       longitude: latLng.lng,
@@ -90,6 +117,59 @@ export default function EditSportsgroundPage() {
     setMarkerPosition(latLng)
   }
 
+  // Corners dragged on the map
+  const handlePolygonChange = (id: string, points: LatLng[]) => {
+    if (id === 'boundary') {
+      setBoundary(points)
+    } else {
+      const index = Number(id.replace('zone-', ''))
+      setExclusionZones((zones) => zones.map((zone, i) => (i === index ? { ...zone, points } : zone)))
+    }
+  }
+
+  const startBoundary = () => {
+    setBoundary([])
+    setDrawing({ type: 'boundary' })
+  }
+
+  const addZone = () => {
+    setExclusionZones((zones) => [...zones, { name: '', kind: 'other', points: [] }])
+    setDrawing({ type: 'zone', index: exclusionZones.length })
+  }
+
+  const updateZone = (index: number, changes: Partial<ExclusionZone>) => {
+    setExclusionZones((zones) => zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)))
+  }
+
+  const removeZone = (index: number) => {
+    setExclusionZones((zones) => zones.filter((_, i) => i !== index))
+    setDrawing(null)
+  }
+
+  // Outlines need three corners; anything less is dropped when drawing stops
+  const finishDrawing = () => {
+    if (drawing?.type === 'boundary' && (boundary?.length ?? 0) < 3) {
+      setBoundary(null)
+    }
+    if (drawing?.type === 'zone' && exclusionZones[drawing.index].points.length < 3) {
+      removeZone(drawing.index)
+    }
+    setDrawing(null)
+  }
+
+  const polygons = useMemo<MapPolygon[]>(() => {
+    const outlines: MapPolygon[] = exclusionZones.map((zone, i) => ({
+      id: `zone-${i}`,
+      points: zone.points,
+      color: ZONE_COLOR,
+      editable: true,
+    }))
+    if (boundary) {
+      outlines.unshift({ id: 'boundary', points: boundary, color: BOUNDARY_COLOR, editable: true })
+    }
+    return outlines
+  }, [boundary, exclusionZones])
+
   const handleMapMove = (center: { lat: number; lng: number }, zoom: number) => {
     setMapZoom(zoom)
   }
@@ -113,6 +193,16 @@ export default function EditSportsgroundPage() {
       return
     }
 
+    if (drawing) {
+      setError('Finish drawing before saving')
+      return
+    }
+
+    if (exclusionZones.some((zone) => !zone.name.trim())) {
+      setError('Please name each no-mark zone')
+      return
+    }
+
     setIsSaving(true)
 
     const response = await api.updateSportsground(params.id as string, {
@@ -122,12 +212,21 @@ export default function EditSportsgroundPage() {
       longitude: formData.longitude,
       defaultZoom: Math.round(mapZoom),
       notes: formData.notes || undefined,
+      boundary,
+      exclusionZones,
     })
 
     if (response.error) {
       setError(response.error)
       setIsSaving(false)
     } else {
+      // Fields already on the ground aren't moved; they must be fixed before they're next saved
+      const fieldsOutside = response.data?.fieldsOutside ?? []
+      if (fieldsOutside.length > 0) {
+        alert(
+          `Saved. ${fieldsOutside.map((field) => field.name).join(', ')} ${fieldsOutside.length === 1 ? 'is' : 'are'} now outside the boundary or in a no-mark zone and will need moving.`
+        )
+      }
       router.push(`/dashboard/sportsgrounds/${params.id}`)
     }
   }
@@ -247,6 +346,93 @@ export default function EditSportsgroundPage() {
                   />
                 </div>
 
+                <div className="space-y-3">
+                  <div>
+                    <Label>Site Layout</Label>
+                    <p className="text-sm text-gray-500">
+                      Draw the playable boundary and any no-mark zones. Fields must stay inside the boundary
+                      and out of the zones.
+                    </p>
+                  </div>
+
+                  {drawing && (
+                    <div className="flex items-center justify-between gap-2 p-3 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md">
+                      <span>Click the map to add corners. Drag a corner to move it.</span>
+                      <Button type="button" size="sm" onClick={finishDrawing}>
+                        Done
+                      </Button>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between gap-2 p-3 border border-gray-200 rounded-md">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: BOUNDARY_COLOR }} />
+                      Boundary
+                      <span className="text-gray-500">
+                        {boundary ? `${boundary.length} corners` : 'Not drawn'}
+                      </span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="button" size="sm" variant="outline" onClick={startBoundary} disabled={!!drawing}>
+                        {boundary ? 'Redraw' : 'Draw'}
+                      </Button>
+                      {boundary && (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setBoundary(null)}
+                          disabled={!!drawing}
+                        >
+                          Clear
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {exclusionZones.map((zone, index) => (
+                    <div key={index} className="p-3 border border-gray-200 rounded-md space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: ZONE_COLOR }} />
+                        <Input
+                          type="text"
+                          placeholder="Zone name, e.g. Cricket square"
+                          value={zone.name}
+                          onChange={(e) => updateZone(index, { name: e.target.value })}
+                          disabled={isSaving}
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={zone.kind}
+                          onChange={(e) => updateZone(index, { kind: e.target.value as ExclusionZoneKind })}
+                          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                        >
+                          {EXCLUSION_ZONE_KINDS.map((kind) => (
+                            <option key={kind} value={kind}>
+                              {EXCLUSION_ZONE_LABELS[kind]}
+                            </option>
+                          ))}
+                        </select>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => removeZone(index)}
+                          disabled={drawing?.type === 'zone' && drawing.index !== index}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+
+                  <Button type="button" variant="outline" className="w-full" onClick={addZone} disabled={!!drawing}>
+                    Add No-Mark Zone
+                  </Button>
+                </div>
+
                 <div className="flex space-x-4">
                   <Button type="submit" disabled={isSaving} className="flex-1">
                     {isSaving ? 'Saving...' : 'Save Changes'}
@@ -268,7 +454,9 @@ export default function EditSportsgroundPage() {
             <CardHeader className="pb-3">
               <CardTitle className="text-lg">Update Location</CardTitle>
               <CardDescription>
-                Click on the map to update the exact location of your sportsground
+                {drawing
+                  ? 'Click on the map to add corners to the outline'
+                  : 'Click on the map to update the exact location of your sportsground'}
               </CardDescription>
             </CardHeader>
             <CardContent className="p-0">
@@ -282,6 +470,8 @@ export default function EditSportsgroundPage() {
                 markerPosition={markerPosition}
                 className="h-[500px] rounded-b-lg"
                 mapType="satellite"
+                polygons={polygons}
+                onPolygonChange={handlePolygonChange}
               />
             </CardContent>
           </Card>
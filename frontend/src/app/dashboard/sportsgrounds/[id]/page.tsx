@@ -1,12 +1,14 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { api } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { GoogleMap } from '@/components/map/google-map'
+import { FieldLayoutImport } from '@/components/field-layout-import'
+import type { FieldConflict } from 'xactline-shared/field-conflicts'
 
 interface Sportsground {
   id: string
@@ -24,6 +26,7 @@ interface Sportsground {
     lengthMeters: number
     widthMeters: number
     lineColor: string
+    isDraft: boolean
     template: {
       name: string
     }
@@ -36,20 +39,29 @@ export default function SportsgroundDetailPage() {
   const [sportsground, setSportsground] = useState<Sportsground | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [fieldCount, setFieldCount] = useState(0)
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([])
 
-  useEffect(() => {
-    const fetchSportsground = async () => {
-      const response = await api.getSportsground(params.id as string)
-      if (response.data) {
-        setSportsground(response.data as Sportsground)
-      }
-      setIsLoading(false)
+  const fetchSportsground = useCallback(async () => {
+    const [response, conflictsResponse] = await Promise.all([
+      api.getSportsground(params.id as string),
+      api.getSportsgroundConflicts(params.id as string),
+    ])
+    if (response.data) {
+      setSportsground(response.data as Sportsground)
+    }
+    if (conflictsResponse.data) {
+      setFieldCount(conflictsResponse.data.fieldCount)
+      setConflicts(conflictsResponse.data.conflicts)
     }
+    setIsLoading(false)
+  }, [params.id])
 
+  useEffect(() => {
     if (params.id) {
       fetchSportsground()
     }
-  }, [params.id])
+  }, [params.id, fetchSportsground])
 
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this sportsground? This will also delete all associated configurations.')) {
@@ -236,7 +248,14 @@ export default function SportsgroundDetailPage() {
                     >
                       <div className="flex justify-between items-start">
                         <div>
-                          <p className="font-medium text-gray-900">{config.name}</p>
+                          <p className="font-medium text-gray-900">
+                            {config.name}
+                            {config.isDraft && (
+                              <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
+                                Draft
+                              </span>
+                            )}
+                          </p>
                           <p className="text-sm text-gray-500">{config.template?.name ?? 'Unknown template'}</p>
                         </div>
                         <div className="text-right">
@@ -269,6 +288,45 @@ export default function SportsgroundDetailPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Overlaps and crowded run-off between the saved designs */}
+          {fieldCount > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Field Conflicts</CardTitle>
+                <CardDescription>Designs on this ground that overlap or sit inside each other&apos;s run-off</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {conflicts.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {conflicts.map((conflict) => (
+                      <li
+                        key={conflict.fields.map((f) => f.id).join(':')}
+                        className={conflict.kind === 'overlap' ? 'text-red-700' : 'text-amber-700'}
+                      >
+                        {conflict.kind === 'overlap' ? '⚠ ' : '△ '}
+                        {conflict.detail}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No overlaps or run-off clashes between the {fieldCount} designs.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Import Surveyed Layout</CardTitle>
+              <CardDescription>
+                Create a draft design from a field outline exported by your asset system
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FieldLayoutImport sportsgroundId={sportsground.id} onImported={fetchSportsground} />
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
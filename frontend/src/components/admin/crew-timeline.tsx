@@ -0,0 +1,160 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { Crew, CrewConflict } from '@/lib/api'
+
+interface TimelineBooking {
+  id: string
+  referenceNumber: string
+  preferredDate: string
+  preferredTime: string
+  status: string
+  crewId: string | null
+  configuration: { name: string; sportsground: { name: string } }
+}
+
+interface CrewTimelineProps<T extends TimelineBooking> {
+  crews: Crew[]
+  bookings: T[]
+  conflicts: CrewConflict[]
+  // First day shown; the timeline covers the following week
+  start: Date
+  statusColors: Record<string, { bg: string; border: string; text: string }>
+  onBookingClick: (booking: T) => void
+}
+
+const DAYS = 7
+const UNASSIGNED = 'unassigned'
+
+// YYYY-MM-DD for a local calendar day, matching the date part of preferredDate
+function dayKey(date: Date) {
+  return [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    date.getDate().toString().padStart(2, '0'),
+  ].join('-')
+}
+
+// One row per crew and one column per day, with bookings sorted by time in
+// each cell. Cells where the crew is double-booked or over capacity are
+// highlighted with the reasons.
+export function CrewTimeline<T extends TimelineBooking>({
+  crews,
+  bookings,
+  conflicts,
+  start,
+  statusColors,
+  onBookingClick,
+}: CrewTimelineProps<T>) {
+  const days = useMemo(() => Array.from({ length: DAYS }, (_, i) => {
+    const day = new Date(start)
+    day.setDate(day.getDate() + i)
+    return day
+  }), [start])
+
+  const cells = useMemo(() => {
+    const map = new Map<string, T[]>()
+    for (const booking of bookings) {
+      const key = `${booking.crewId ?? UNASSIGNED}|${booking.preferredDate.split('T')[0]}`
+      map.set(key, [...(map.get(key) ?? []), booking])
+    }
+    map.forEach((cell) => cell.sort((a, b) => a.preferredTime.localeCompare(b.preferredTime)))
+    return map
+  }, [bookings])
+
+  const conflictsByCell = useMemo(() => {
+    const map = new Map<string, CrewConflict[]>()
+    for (const conflict of conflicts) {
+      const key = `${conflict.crewId}|${conflict.date}`
+      map.set(key, [...(map.get(key) ?? []), conflict])
+    }
+    return map
+  }, [conflicts])
+
+  // Inactive crews stay visible while they still have work this week
+  const rows = useMemo(() => {
+    const busy = new Set(bookings.map((b) => b.crewId))
+    return [
+      ...crews
+        .filter((crew) => crew.active || busy.has(crew.id))
+        .map((crew) => ({ id: crew.id, name: crew.name, color: crew.color, capacity: crew.dailyCapacity as number | null })),
+      { id: UNASSIGNED, name: 'Unassigned', color: '#9CA3AF', capacity: null },
+    ]
+  }, [crews, bookings])
+
+  const todayKey = dayKey(new Date())
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full table-fixed border-collapse min-w-[900px]">
+        <thead>
+          <tr>
+            <th className="w-40 p-2 text-left text-xs font-medium text-gray-500 uppercase border-b border-gray-200">Crew</th>
+            {days.map((day) => (
+              <th
+                key={dayKey(day)}
+                className={`p-2 text-left text-xs font-medium uppercase border-b border-gray-200 ${dayKey(day) === todayKey ? 'text-orange-600' : 'text-gray-500'}`}
+              >
+                {day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.id} className="align-top">
+              <td className="p-2 border-b border-gray-200">
+                <div className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: row.color }} />
+                  <span className="font-medium text-gray-900 text-sm truncate">{row.name}</span>
+                </div>
+                {row.capacity !== null && (
+                  <p className="text-xs text-gray-500 mt-1">{row.capacity} per day</p>
+                )}
+              </td>
+              {days.map((day) => {
+                const key = `${row.id}|${dayKey(day)}`
+                const cellBookings = cells.get(key) ?? []
+                const cellConflicts = conflictsByCell.get(key) ?? []
+                const conflictIds = new Set(cellConflicts.flatMap((c) => c.bookingIds))
+
+                return (
+                  <td
+                    key={key}
+                    className={`p-1 border-b border-l border-gray-200 ${cellConflicts.length > 0 ? 'bg-red-50' : ''}`}
+                    title={cellConflicts.map((c) => c.message).join('\n') || undefined}
+                  >
+                    {cellConflicts.length > 0 && (
+                      <p className="text-xs font-medium text-red-700 px-1 mb-1">
+                        {cellConflicts.some((c) => c.type === 'over_capacity') ? 'Over capacity' : 'Double-booked'}
+                      </p>
+                    )}
+                    <div className="space-y-1">
+                      {cellBookings.map((booking) => (
+                        <button
+                          key={booking.id}
+                          type="button"
+                          onClick={() => onBookingClick(booking)}
+                          className={`w-full text-left px-2 py-1 rounded text-xs hover:opacity-80 ${conflictIds.has(booking.id) ? 'ring-2 ring-red-500' : ''}`}
+                          style={{
+                            backgroundColor: statusColors[booking.status]?.bg || '#eee',
+                            borderLeft: `3px solid ${statusColors[booking.status]?.border || '#999'}`,
+                            color: statusColors[booking.status]?.text || '#333',
+                          }}
+                        >
+                          <span className="font-medium capitalize">{booking.preferredTime}</span>
+                          <span className="block truncate">{booking.referenceNumber}</span>
+                          <span className="block truncate opacity-80">{booking.configuration.sportsground.name}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
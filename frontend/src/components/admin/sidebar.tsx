@@ -4,6 +4,11 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
+import { api } from '@/lib/api'
+
+type BadgeKey = 'pendingBookings'
+
+const BADGE_POLL_INTERVAL_MS = 60 * 1000
 
 const navItems = [
   {
@@ -18,6 +23,7 @@ const navItems = [
   {
     name: 'Bookings',
     href: '/dashboard/admin/bookings',
+    badge: 'pendingBookings' as BadgeKey,
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -33,6 +39,24 @@ const navItems = [
       </svg>
     ),
   },
+  {
+    name: 'Crews',
+    href: '/dashboard/admin/crews',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+      </svg>
+    ),
+  },
+  {
+    name: 'Availability',
+    href: '/dashboard/admin/availability',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
   {
     name: 'Users',
     href: '/dashboard/admin/users',
@@ -70,6 +94,15 @@ const navItems = [
       </svg>
     ),
   },
+  {
+    name: 'Emails',
+    href: '/dashboard/admin/emails',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
+      </svg>
+    ),
+  },
   {
     name: 'Settings',
     href: '/dashboard/admin/settings',
@@ -102,6 +135,7 @@ interface AdminSidebarProps {
 export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
   const pathname = usePathname()
   const { isSuperAdmin } = useAuth()
+  const [badges, setBadges] = useState<Record<BadgeKey, number> | null>(null)
 
   const isActive = (href: string) => {
     if (href === '/dashboard/admin') {
@@ -110,6 +144,17 @@ export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
     return pathname.startsWith(href)
   }
 
+  // Refresh on navigation too, so acting on a booking updates the count
+  useEffect(() => {
+    const fetchBadges = async () => {
+      const response = await api.getAdminBadges()
+      if (response.data) setBadges(response.data)
+    }
+    fetchBadges()
+    const timer = setInterval(fetchBadges, BADGE_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [pathname])
+
   // Close sidebar when route changes on mobile
   useEffect(() => {
     if (onClose) {
@@ -150,6 +195,15 @@ export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
               >
                 {item.icon}
                 <span>{item.name}</span>
+                {item.badge && badges && badges[item.badge] > 0 && (
+                  <span
+                    className={`ml-auto min-w-[1.5rem] px-2 py-0.5 rounded-full text-xs font-semibold text-center ${
+                      isActive(item.href) ? 'bg-white text-orange-600' : 'bg-orange-600 text-white'
+                    }`}
+                  >
+                    {badges[item.badge]}
+                  </span>
+                )}
               </Link>
             </li>
           ))}
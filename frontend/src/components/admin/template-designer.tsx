@@ -0,0 +1,605 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  elementPaths,
+  MIN_DASH_METRES,
+  parseInteriorElements,
+  type ArcQuadrant,
+  type Coordinate,
+  type FieldPoint,
+  type InteriorElements,
+  type TemplateElement,
+} from 'xactline-shared/field-geometry'
+import { validateFormula } from 'xactline-shared/formula'
+
+interface TemplateDimensions {
+  minLength: number
+  maxLength: number
+  minWidth: number
+  maxWidth: number
+  defaultLength: number
+  defaultWidth: number
+}
+
+interface TemplateDesignerProps {
+  value: InteriorElements
+  onChange: (value: InteriorElements) => void
+  dimensions: TemplateDimensions
+}
+
+type Tool = TemplateElement['type']
+
+const TOOLS: { type: Tool; label: string }[] = [
+  { type: 'line', label: 'Line' },
+  { type: 'dashed_line', label: 'Dashed line' },
+  { type: 'rectangle', label: 'Rectangle' },
+  { type: 'arc', label: 'Arc' },
+  { type: 'dashed_arc', label: 'Dashed arc' },
+  { type: 'circle', label: 'Circle' },
+  { type: 'dashed_circle', label: 'Dashed circle' },
+  { type: 'point', label: 'Spot' },
+]
+
+const QUADRANTS: ArcQuadrant[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+
+// Margin drawn around the field in each preview, in metres
+const PREVIEW_MARGIN = 4
+
+// Same tolerance the server applies when checking elements stay inside the field
+const BOUNDS_TOLERANCE = 0.05
+
+// Normalise stored interiorElements (which may be legacy or empty JSON) for the designer
+export function toInteriorElements(value: unknown): InteriorElements {
+  const source = value && typeof value === 'object' && !Array.isArray(value) ? (value as Partial<InteriorElements>) : {}
+  return {
+    ...source,
+    elements: parseInteriorElements(value),
+    fixedElements: Array.isArray(source.fixedElements) ? source.fixedElements : [],
+  }
+}
+
+// Round to 0.1m so placed elements get tidy coordinates
+const round = (n: number) => Math.round(n * 10) / 10
+
+// Build a new element of the given type anchored at a point in template coordinates
+function createElement(type: Tool, id: string, at: FieldPoint): TemplateElement {
+  const x = round(at.x)
+  const y = round(at.y)
+  switch (type) {
+    case 'line':
+    case 'dashed_line':
+      return { id, type, start: { x: 0, y }, end: { x: 'field_width', y } }
+    case 'rectangle':
+      return { id, type, position: { x, y }, size: { width: 10, height: 5 } }
+    case 'arc':
+    case 'dashed_arc':
+      return { id, type, center: { x, y }, radius: 5, startAngle: 0, endAngle: 180 }
+    case 'circle':
+    case 'dashed_circle':
+      return { id, type, center: { x, y }, radius: 5 }
+    case 'point':
+      return { id, type, position: { x, y }, radius: 0.2 }
+  }
+}
+
+// Plain numbers are stored as numbers, anything else as a formula string
+function parseCoordinate(input: string): Coordinate {
+  const trimmed = input.trim()
+  return /^-?\d+(\.\d+)?$/.test(trimmed) ? parseFloat(trimmed) : trimmed
+}
+
+// Find the elements that leave the field at any corner of the size range
+function findOutOfBounds(elements: TemplateElement[], dimensions: TemplateDimensions): Set<string> {
+  const outside = new Set<string>()
+  const sizes = [
+    [dimensions.minLength, dimensions.minWidth],
+    [dimensions.minLength, dimensions.maxWidth],
+    [dimensions.maxLength, dimensions.minWidth],
+    [dimensions.maxLength, dimensions.maxWidth],
+  ]
+
+  for (const element of elements) {
+    for (const [length, width] of sizes) {
+      try {
+        const escapes = elementPaths(element, length, width).some((path) =>
+          path.some(
+            (p) =>
+              p.x < -BOUNDS_TOLERANCE ||
+              p.x > width + BOUNDS_TOLERANCE ||
+              p.y < -BOUNDS_TOLERANCE ||
+              p.y > length + BOUNDS_TOLERANCE
+          )
+        )
+        if (escapes) {
+          outside.add(element.id)
+          break
+        }
+      } catch {
+        // Formula errors are reported next to the offending input
+        break
+      }
+    }
+  }
+
+  return outside
+}
+
+export function TemplateDesigner({ value, onChange, dimensions }: TemplateDesignerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [activeTool, setActiveTool] = useState<Tool | null>(null)
+  const [mode, setMode] = useState<'designer' | 'json'>('designer')
+  const [jsonText, setJsonText] = useState('')
+  const [jsonError, setJsonError] = useState('')
+
+  const elements = value.elements
+  const fixedElements = value.fixedElements || []
+  const selected = elements.find((e) => e.id === selectedId) || null
+  const outOfBounds = useMemo(() => findOutOfBounds(elements, dimensions), [elements, dimensions])
+
+  // Keep the JSON view in step with designer edits
+  useEffect(() => {
+    if (mode === 'designer') {
+      setJsonText(JSON.stringify(value, null, 2))
+      setJsonError('')
+    }
+  }, [value, mode])
+
+  const updateElements = (next: TemplateElement[], nextFixed = fixedElements) => {
+    onChange({ ...value, elements: next, fixedElements: nextFixed.filter((id) => next.some((e) => e.id === id)) })
+  }
+
+  const updateSelected = (changes: Partial<TemplateElement>) => {
+    if (!selected) return
+    const updated = { ...selected, ...changes } as TemplateElement
+    const nextFixed = changes.id !== undefined
+      ? fixedElements.map((id) => (id === selected.id ? updated.id : id))
+      : fixedElements
+    updateElements(elements.map((e) => (e.id === selected.id ? updated : e)), nextFixed)
+    if (changes.id !== undefined) setSelectedId(updated.id)
+  }
+
+  const addElement = (type: Tool, at: FieldPoint) => {
+    let index = elements.length + 1
+    while (elements.some((e) => e.id === `${type}_${index}`)) index++
+    const element = createElement(type, `${type}_${index}`, at)
+    updateElements([...elements, element])
+    setSelectedId(element.id)
+    setActiveTool(null)
+  }
+
+  const removeSelected = () => {
+    if (!selected) return
+    updateElements(elements.filter((e) => e.id !== selected.id))
+    setSelectedId(null)
+  }
+
+  const toggleFixed = (id: string) => {
+    const nextFixed = fixedElements.includes(id) ? fixedElements.filter((f) => f !== id) : [...fixedElements, id]
+    onChange({ ...value, fixedElements: nextFixed })
+  }
+
+  const handleJsonChange = (text: string) => {
+    setJsonText(text)
+    try {
+      const parsed = JSON.parse(text)
+      onChange(toInteriorElements(parsed))
+      setJsonError('')
+    } catch {
+      setJsonError('Invalid JSON - changes are not applied until the JSON is valid')
+    }
+  }
+
+  const previews = [
+    { label: 'Min', length: dimensions.minLength, width: dimensions.minWidth },
+    { label: 'Default', length: dimensions.defaultLength, width: dimensions.defaultWidth },
+    { label: 'Max', length: dimensions.maxLength, width: dimensions.maxWidth },
+  ]
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        {(['designer', 'json'] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(m)}
+            className={`px-3 py-1 text-sm rounded-lg border transition-colors ${
+              mode === m ? 'bg-orange-600 text-white border-orange-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {m === 'designer' ? 'Designer' : 'JSON'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'json' ? (
+        <div>
+          {jsonError && <p className="text-sm text-red-600 mb-2">{jsonError}</p>}
+          <textarea
+            value={jsonText}
+            onChange={(e) => handleJsonChange(e.target.value)}
+            rows={16}
+            className="w-full px-4 py-2 font-mono text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+          />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-2">
+            {TOOLS.map((tool) => (
+              <button
+                key={tool.type}
+                type="button"
+                onClick={() => setActiveTool(activeTool === tool.type ? null : tool.type)}
+                className={`px-3 py-1 text-sm rounded-lg border transition-colors ${
+                  activeTool === tool.type
+                    ? 'bg-orange-100 border-orange-500 text-orange-800'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                + {tool.label}
+              </button>
+            ))}
+            {activeTool && (
+              <span className="text-xs text-gray-500">Click the default preview to place the element</span>
+            )}
+          </div>
+
+          {/* Previews at min, default and max dimensions */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {previews.map((preview) => (
+              <FieldPreview
+                key={preview.label}
+                label={`${preview.label}: ${preview.length}m x ${preview.width}m`}
+                length={preview.length}
+                width={preview.width}
+                elements={elements}
+                selectedId={selectedId}
+                outOfBounds={outOfBounds}
+                onSelect={setSelectedId}
+                onPlace={preview.label === 'Default' && activeTool ? (p) => addElement(activeTool, p) : undefined}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Element list */}
+            <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+              {elements.length === 0 && (
+                <p className="p-4 text-sm text-gray-500 text-center">No elements yet - pick a tool above</p>
+              )}
+              {elements.map((element) => (
+                <button
+                  key={element.id}
+                  type="button"
+                  onClick={() => setSelectedId(element.id)}
+                  className={`w-full text-left px-3 py-2 text-sm flex items-center justify-between ${
+                    element.id === selectedId ? 'bg-orange-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="truncate">
+                    <span className="font-mono">{element.id}</span>
+                    <span className="text-gray-400 ml-2">{element.type}</span>
+                  </span>
+                  {outOfBounds.has(element.id) && (
+                    <span className="text-xs text-red-600 flex-shrink-0 ml-2">out of bounds</span>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Selected element properties */}
+            <div className="md:col-span-2 border rounded-lg p-4">
+              {selected ? (
+                <ElementEditor
+                  element={selected}
+                  isFixed={fixedElements.includes(selected.id)}
+                  onChange={updateSelected}
+                  onToggleFixed={() => toggleFixed(selected.id)}
+                  onRemove={removeSelected}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Select an element to edit its formulas</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface FieldPreviewProps {
+  label: string
+  length: number
+  width: number
+  elements: TemplateElement[]
+  selectedId: string | null
+  outOfBounds: Set<string>
+  onSelect: (id: string) => void
+  onPlace?: (point: FieldPoint) => void
+}
+
+// Scaled SVG preview. Template coordinates map straight onto SVG user units
+// (x across, y down the field), so no transform is needed.
+function FieldPreview({ label, length, width, elements, selectedId, outOfBounds, onSelect, onPlace }: FieldPreviewProps) {
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onPlace) return
+    const svg = e.currentTarget
+    const matrix = svg.getScreenCTM()
+    if (!matrix) return
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse())
+    onPlace({ x: Math.min(Math.max(point.x, 0), width), y: Math.min(Math.max(point.y, 0), length) })
+  }
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-600 mb-1">{label}</p>
+      <svg
+        viewBox={`${-PREVIEW_MARGIN} ${-PREVIEW_MARGIN} ${width + PREVIEW_MARGIN * 2} ${length + PREVIEW_MARGIN * 2}`}
+        className={`w-full h-72 bg-green-700 rounded-lg ${onPlace ? 'cursor-crosshair' : ''}`}
+        preserveAspectRatio="xMidYMid meet"
+        onClick={handleClick}
+      >
+        <rect x={0} y={0} width={width} height={length} fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth={0.3} strokeDasharray="1 1" />
+        {elements.map((element) => {
+          let paths: FieldPoint[][]
+          try {
+            paths = elementPaths(element, length, width)
+          } catch {
+            return null
+          }
+          const isSelected = element.id === selectedId
+          const stroke = outOfBounds.has(element.id) ? '#f87171' : isSelected ? '#fb923c' : '#ffffff'
+          return (
+            <g
+              key={element.id}
+              onClick={(e) => {
+                if (onPlace) return
+                e.stopPropagation()
+                onSelect(element.id)
+              }}
+              className={onPlace ? '' : 'cursor-pointer'}
+            >
+              {paths.map((path, i) => (
+                <polyline
+                  key={i}
+                  points={path.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke={stroke}
+                  strokeWidth={isSelected ? 0.6 : 0.3}
+                />
+              ))}
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
+
+interface ElementEditorProps {
+  element: TemplateElement
+  isFixed: boolean
+  onChange: (changes: Partial<TemplateElement>) => void
+  onToggleFixed: () => void
+  onRemove: () => void
+}
+
+function ElementEditor({ element, isFixed, onChange, onToggleFixed, onRemove }: ElementEditorProps) {
+  // Loosely typed view of the element for nested field updates
+  const fields = element as unknown as Record<string, Record<string, Coordinate> | Coordinate | undefined>
+
+  const setNested = (key: string, axis: string, input: string) => {
+    const current = (fields[key] as Record<string, Coordinate>) || {}
+    onChange({ [key]: { ...current, [axis]: parseCoordinate(input) } } as Partial<TemplateElement>)
+  }
+
+  const nested = (key: string, axis: string, label: string) => (
+    <FormulaInput
+      key={`${key}.${axis}`}
+      label={label}
+      value={((fields[key] as Record<string, Coordinate>) || {})[axis]}
+      onChange={(input) => setNested(key, axis, input)}
+    />
+  )
+
+  const radius = (
+    <FormulaInput
+      label="Radius"
+      value={fields.radius as Coordinate | undefined}
+      onChange={(input) => onChange({ radius: parseCoordinate(input) } as Partial<TemplateElement>)}
+    />
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Element ID</label>
+          <input
+            type="text"
+            value={element.id}
+            onChange={(e) => onChange({ id: e.target.value })}
+            className="w-full px-3 py-1.5 font-mono text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={element.description || ''}
+            onChange={(e) => onChange({ description: e.target.value })}
+            className="w-full px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Values accept numbers or formulas using <code>field_length</code>, <code>field_width</code>, <code>min()</code>,{' '}
+        <code>max()</code> and <code>pi</code>. y = 0 is the top line of the field.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {(element.type === 'line' || element.type === 'dashed_line') && (
+          <>
+            {nested('start', 'x', 'Start X')}
+            {nested('start', 'y', 'Start Y')}
+            {nested('end', 'x', 'End X')}
+            {nested('end', 'y', 'End Y')}
+          </>
+        )}
+        {element.type === 'rectangle' && (
+          <>
+            {nested('position', 'x', 'Left')}
+            {nested('position', 'y', 'Top')}
+            {nested('size', 'width', 'Width')}
+            {nested('size', 'height', 'Height')}
+          </>
+        )}
+        {(element.type === 'circle' || element.type === 'dashed_circle') && (
+          <>
+            {nested('center', 'x', 'Centre X')}
+            {nested('center', 'y', 'Centre Y')}
+            {radius}
+          </>
+        )}
+        {element.type === 'point' && (
+          <>
+            {nested('position', 'x', 'X')}
+            {nested('position', 'y', 'Y')}
+            {radius}
+          </>
+        )}
+        {(element.type === 'arc' || element.type === 'dashed_arc') && (
+          <>
+            {nested('center', 'x', 'Centre X')}
+            {nested('center', 'y', 'Centre Y')}
+            {radius}
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Sweep</label>
+              <select
+                value={element.quadrant || 'angles'}
+                onChange={(e) =>
+                  onChange(
+                    e.target.value === 'angles'
+                      ? { quadrant: undefined, startAngle: element.startAngle ?? 0, endAngle: element.endAngle ?? 180 }
+                      : { quadrant: e.target.value as ArcQuadrant, startAngle: undefined, endAngle: undefined }
+                  )
+                }
+                className="w-full px-2 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+              >
+                <option value="angles">Start/end angle</option>
+                {QUADRANTS.map((q) => (
+                  <option key={q} value={q}>
+                    Quadrant: {q}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {!element.quadrant && (
+              <>
+                <NumberInput label="Start angle (°)" value={element.startAngle ?? 0} onChange={(n) => onChange({ startAngle: n })} />
+                <NumberInput label="End angle (°)" value={element.endAngle ?? 180} onChange={(n) => onChange({ endAngle: n })} />
+              </>
+            )}
+          </>
+        )}
+        {(element.type === 'dashed_line' || element.type === 'dashed_arc' || element.type === 'dashed_circle') && (
+          <>
+            <NumberInput
+              label="Dash (m)"
+              value={element.dash?.length ?? 1}
+              min={MIN_DASH_METRES}
+              onChange={(n) => onChange({ dash: { length: n, gap: element.dash?.gap ?? 1 } })}
+            />
+            <NumberInput
+              label="Gap (m)"
+              value={element.dash?.gap ?? 1}
+              min={MIN_DASH_METRES}
+              onChange={(n) => onChange({ dash: { length: element.dash?.length ?? 1, gap: n } })}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between pt-2 border-t">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={isFixed}
+            onChange={onToggleFixed}
+            className="w-4 h-4 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+          />
+          <span className="ml-2 text-sm text-gray-700">Fixed size (does not scale with the field)</span>
+        </label>
+        <button type="button" onClick={onRemove} className="text-sm text-red-600 hover:text-red-800">
+          Remove element
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface FormulaInputProps {
+  label: string
+  value: Coordinate | undefined
+  onChange: (input: string) => void
+}
+
+// Text input bound to a formula, validated as the admin types
+function FormulaInput({ label, value, onChange }: FormulaInputProps) {
+  const [text, setText] = useState(value === undefined ? '' : String(value))
+
+  // Only resync from outside changes, so typing "1.0" isn't collapsed to "1"
+  useEffect(() => {
+    setText((current) => (parseCoordinate(current) === value ? current : value === undefined ? '' : String(value)))
+  }, [value])
+
+  const error = text.trim() === '' ? 'Required' : validateFormula(parseCoordinate(text))
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value)
+          onChange(e.target.value)
+        }}
+        className={`w-full px-2 py-1.5 font-mono text-sm border rounded-lg focus:ring-2 focus:outline-none ${
+          error ? 'border-red-400 focus:ring-red-500' : 'focus:ring-orange-500'
+        }`}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  )
+}
+
+function NumberInput({
+  label,
+  value,
+  min,
+  onChange,
+}: {
+  label: string
+  value: number
+  min?: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        min={min}
+        step="0.1"
+        className="w-full px-2 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api'
+
+interface TemplateVersion {
+  id: string
+  version: number
+  createdAt: string
+  _count: { configurations: number }
+}
+
+interface VersionDiff {
+  from: number
+  to: number
+  dimensions: Array<{ field: string; from: number; to: number }>
+  elements: {
+    added: Array<{ id: string; type: string; description?: string }>
+    removed: Array<{ id: string; type: string; description?: string }>
+    changed: Array<{
+      id: string
+      type: string
+      description?: string
+      changes: Array<{ path: string; from: unknown; to: unknown }>
+    }>
+  }
+}
+
+const DIMENSION_LABELS: Record<string, string> = {
+  minLength: 'Min length',
+  maxLength: 'Max length',
+  minWidth: 'Min width',
+  maxWidth: 'Max width',
+  defaultLength: 'Default length',
+  defaultWidth: 'Default width',
+}
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : String(value))
+
+// Lists a template's immutable versions and shows what changed between any two
+export function TemplateVersionHistory({ templateId }: { templateId: string }) {
+  const [versions, setVersions] = useState<TemplateVersion[]>([])
+  const [from, setFrom] = useState<number | null>(null)
+  const [to, setTo] = useState<number | null>(null)
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      const response = await api.getTemplateVersions(templateId)
+      if (response.data) {
+        setVersions(response.data)
+        if (response.data.length > 1) {
+          setTo(response.data[0].version)
+          setFrom(response.data[1].version)
+        }
+      } else {
+        setError(response.error || 'Failed to load versions')
+      }
+    }
+    fetchVersions()
+  }, [templateId])
+
+  useEffect(() => {
+    if (from === null || to === null) return
+
+    const fetchDiff = async () => {
+      const response = await api.getTemplateVersionDiff(templateId, from, to)
+      if (response.data) {
+        setDiff(response.data)
+        setError('')
+      } else {
+        setDiff(null)
+        setError(response.error || 'Failed to compare versions')
+      }
+    }
+    fetchDiff()
+  }, [templateId, from, to])
+
+  const hasChanges =
+    !!diff &&
+    (diff.dimensions.length > 0 ||
+      diff.elements.added.length > 0 ||
+      diff.elements.removed.length > 0 ||
+      diff.elements.changed.length > 0)
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="border rounded-lg divide-y">
+        {versions.map((version) => (
+          <div key={version.id} className="px-4 py-2 flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900">
+              Version {version.version}
+              {version === versions[0] && <span className="ml-2 text-xs text-green-600">current</span>}
+            </span>
+            <span className="text-gray-500">
+              {version._count.configurations} pinned configuration{version._count.configurations !== 1 ? 's' : ''} ·{' '}
+              {new Date(version.createdAt).toLocaleDateString()}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3 text-sm">
+            <span className="text-gray-700">Compare</span>
+            {[
+              { value: from, onChange: setFrom },
+              { value: to, onChange: setTo },
+            ].map((select, i) => (
+              <select
+                key={i}
+                value={select.value ?? ''}
+                onChange={(e) => select.onChange(parseInt(e.target.value))}
+                className="px-2 py-1 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:outline-none"
+              >
+                {versions.map((version) => (
+                  <option key={version.id} value={version.version}>
+                    v{version.version}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+
+          {diff && !hasChanges && <p className="text-sm text-gray-500">No differences between these versions</p>}
+
+          {diff && hasChanges && (
+            <div className="space-y-3 text-sm">
+              {diff.dimensions.length > 0 && (
+                <div>
+                  <p className="font-medium text-gray-700 mb-1">Dimensions</p>
+                  <ul className="space-y-1">
+                    {diff.dimensions.map((change) => (
+                      <li key={change.field} className="font-mono text-gray-700">
+                        {DIMENSION_LABELS[change.field] || change.field}: {change.from}m → {change.to}m
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff.elements.added.map((element) => (
+                <p key={`added-${element.id}`} className="font-mono text-green-700">
+                  + {element.id} ({element.type})
+                </p>
+              ))}
+              {diff.elements.removed.map((element) => (
+                <p key={`removed-${element.id}`} className="font-mono text-red-700">
+                  − {element.id} ({element.type})
+                </p>
+              ))}
+              {diff.elements.changed.map((element) => (
+                <div key={`changed-${element.id}`}>
+                  <p className="font-mono text-amber-700">
+                    ~ {element.id} ({element.type})
+                  </p>
+                  <ul className="ml-6 space-y-0.5">
+                    {element.changes.map((change) => (
+                      <li key={change.path} className="font-mono text-gray-600">
+                        {change.path}: {formatValue(change.from)} → {formatValue(change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { api, WeatherFlaggedBooking } from '@/lib/api'
+import { useBookingEvents } from '@/lib/use-booking-events'
+
+interface WeatherPanelProps {
+  // Called after bookings are moved, with a summary for the page's success banner
+  onRescheduled: (message: string) => void
+}
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' })
+
+// Confirmed bookings with heavy rain forecast, each with the next open, dry
+// slot. Jobs can be moved one at a time or all together; customers are told
+// about the new date either way. Hidden while nothing is flagged.
+export function WeatherPanel({ onRescheduled }: WeatherPanelProps) {
+  const [bookings, setBookings] = useState<WeatherFlaggedBooking[]>([])
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchFlagged = useCallback(async () => {
+    const response = await api.getWeatherFlaggedBookings()
+    if (response.data) setBookings(response.data.bookings)
+  }, [])
+
+  useEffect(() => {
+    fetchFlagged()
+  }, [fetchFlagged])
+
+  useBookingEvents(() => {
+    fetchFlagged()
+  })
+
+  const handleCheck = async () => {
+    setIsWorking(true)
+    setError('')
+    const response = await api.checkWeather()
+    if (response.error) {
+      setError(response.error)
+    } else {
+      await fetchFlagged()
+    }
+    setIsWorking(false)
+  }
+
+  const handleReschedule = async (bookingIds?: string[]) => {
+    const count = bookingIds?.length ?? bookings.filter((b) => b.proposedSlot).length
+    if (!confirm(`Move ${count} booking${count === 1 ? '' : 's'} to the proposed date${count === 1 ? '' : 's'}? Customers will be notified.`)) {
+      return
+    }
+
+    setIsWorking(true)
+    setError('')
+    const response = await api.rescheduleWeatherFlagged(bookingIds)
+    if (response.error) {
+      setError(response.error)
+    } else if (response.data) {
+      const { rescheduled, unplaced } = response.data
+      onRescheduled(
+        `Rescheduled ${rescheduled.length} booking${rescheduled.length === 1 ? '' : 's'} for rain` +
+          (unplaced.length > 0 ? `. No dry, open slot left for ${unplaced.map((b) => b.referenceNumber).join(', ')}` : '')
+      )
+      await fetchFlagged()
+    }
+    setIsWorking(false)
+  }
+
+  if (bookings.length === 0) {
+    return (
+      <div className="mb-4 flex justify-end">
+        <button
+          onClick={handleCheck}
+          disabled={isWorking}
+          className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+          {isWorking ? 'Checking forecast...' : 'Check forecast'}
+        </button>
+      </div>
+    )
+  }
+
+  const placeable = bookings.filter((b) => b.proposedSlot).length
+
+  return (
+    <div className="mb-4 bg-sky-50 border border-sky-200 rounded-lg">
+      <div className="p-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="text-left text-sky-900">
+          <span className="font-medium">🌧 Rain forecast for {bookings.length} confirmed booking{bookings.length === 1 ? '' : 's'}</span>
+          <span className="text-sm text-sky-700 ml-2">{isExpanded ? 'Hide' : 'Show'}</span>
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleCheck}
+            disabled={isWorking}
+            className="px-3 py-1 border border-sky-300 text-sky-800 text-sm rounded hover:bg-sky-100 disabled:opacity-50"
+          >
+            Refresh forecast
+          </button>
+          <button
+            onClick={() => handleReschedule()}
+            disabled={isWorking || placeable === 0}
+            className="px-3 py-1 bg-orange-600 text-white text-sm rounded hover:bg-orange-700 disabled:opacity-50"
+          >
+            Reschedule flagged jobs
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="px-3 pb-3 text-sm text-red-700">{error}</p>}
+
+      {isExpanded && (
+        <ul className="border-t border-sky-200 divide-y divide-sky-100">
+          {bookings.map((booking) => (
+            <li key={booking.id} className="p-3 flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {booking.referenceNumber} · {booking.configuration.sportsground.name} · {booking.configuration.name}
+                </p>
+                <p className="text-gray-600">
+                  {formatDay(booking.preferredDate)} ({booking.preferredTime}) · {booking.weatherForecast} · {booking.user.fullName}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                {booking.proposedSlot ? (
+                  <>
+                    <span className="text-gray-700">
+                      → {formatDay(booking.proposedSlot.date)} ({booking.proposedSlot.time})
+                    </span>
+                    <button
+                      onClick={() => handleReschedule([booking.id])}
+                      disabled={isWorking}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-white disabled:opacity-50"
+                    >
+                      Move
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-amber-700">No dry slot in the next four weeks</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
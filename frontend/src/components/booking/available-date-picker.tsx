@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { BookingAvailability } from '@/lib/use-booking-availability'
+
+interface AvailableDatePickerProps {
+  id?: string
+  // YYYY-MM-DD, or '' when nothing is chosen
+  value: string
+  onChange: (date: string) => void
+  availability: BookingAvailability
+  disabled?: boolean
+  placeholder?: string
+  // Show a clear button, for optional dates
+  clearable?: boolean
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const toKey = (year: number, month: number, day: number) =>
+  `${year}-${(month + 1).toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+
+// Month calendar that only lets customers pick days open for booking. Days
+// that can't be booked are greyed out with the reason as a tooltip.
+export function AvailableDatePicker({
+  id,
+  value,
+  onChange,
+  availability,
+  disabled,
+  placeholder = 'Choose a date',
+  clearable,
+}: AvailableDatePickerProps) {
+  const { days, loadMonth } = availability
+  const [isOpen, setIsOpen] = useState(false)
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const start = value ? new Date(`${value}T00:00:00`) : new Date()
+    return { year: start.getFullYear(), month: start.getMonth() }
+  })
+
+  useEffect(() => {
+    if (isOpen) loadMonth(visibleMonth.year, visibleMonth.month)
+  }, [isOpen, visibleMonth, loadMonth])
+
+  const shiftMonth = (delta: number) => {
+    const next = new Date(visibleMonth.year, visibleMonth.month + delta, 1)
+    setVisibleMonth({ year: next.getFullYear(), month: next.getMonth() })
+  }
+
+  const now = new Date()
+  const isCurrentMonth = visibleMonth.year === now.getFullYear() && visibleMonth.month === now.getMonth()
+  const daysInMonth = new Date(visibleMonth.year, visibleMonth.month + 1, 0).getDate()
+  // Monday-first offset of the 1st
+  const leadingBlanks = (new Date(visibleMonth.year, visibleMonth.month, 1).getDay() + 6) % 7
+  const selected = value ? days.get(value) : undefined
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <button
+          id={id}
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className="flex-1 px-4 py-2 text-left border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+        >
+          {value ? formatDate(value) : <span className="text-gray-400">{placeholder}</span>}
+        </button>
+        {clearable && value && (
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            disabled={disabled}
+            className="px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {selected && !selected.bookable && (
+        <p className="text-xs text-red-600 mt-1">This date is no longer available: {selected.reason}</p>
+      )}
+
+      {isOpen && (
+        <div className="mt-2 p-3 border border-gray-200 rounded-md bg-white shadow-sm max-w-sm">
+          <div className="flex items-center justify-between mb-2">
+            <button
+              type="button"
+              onClick={() => shiftMonth(-1)}
+              disabled={isCurrentMonth}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <span className="text-sm font-medium text-gray-900">
+              {new Date(visibleMonth.year, visibleMonth.month, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </span>
+            <button type="button" onClick={() => shiftMonth(1)} className="p-1 rounded hover:bg-gray-100">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {WEEKDAYS.map((weekday) => (
+              <span key={weekday} className="text-xs text-gray-500 py-1">{weekday}</span>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+            {Array.from({ length: daysInMonth }, (_, i) => {
+              const key = toKey(visibleMonth.year, visibleMonth.month, i + 1)
+              const day = days.get(key)
+              const bookable = day?.bookable ?? false
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  disabled={!bookable}
+                  title={day?.reason ?? (day ? undefined : 'Loading...')}
+                  onClick={() => {
+                    onChange(key)
+                    setIsOpen(false)
+                  }}
+                  className={`py-1.5 text-sm rounded ${
+                    key === value
+                      ? 'bg-green-600 text-white'
+                      : bookable
+                      ? 'text-gray-900 hover:bg-green-50'
+                      : 'text-gray-300 line-through cursor-not-allowed'
+                  }`}
+                >
+                  {i + 1}
+                </button>
+              )
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Greyed-out days are unavailable. Hover over one to see why.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '@/lib/api'
+
+export type ExportFormat = 'geojson' | 'kml' | 'dxf'
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'kml', label: 'KML' },
+  { value: 'dxf', label: 'DXF' },
+]
+
+// Hand a downloaded file to the browser to save
+export function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+// Download a configuration's markings, using the admin endpoint when the
+// configuration may belong to another user
+export async function downloadConfiguration(id: string, format: ExportFormat, admin = false): Promise<string | null> {
+  const response = admin ? await api.exportAdminConfiguration(id, format) : await api.exportConfiguration(id, format)
+  if (response.error || !response.data) {
+    return response.error || 'Export failed'
+  }
+  saveFile(response.data.blob, response.data.filename)
+  return null
+}
+
+// Download a booking's markings as they were booked, which may differ from the
+// live configuration once the customer edits it
+export async function downloadBooking(bookingId: string, format: ExportFormat): Promise<string | null> {
+  const response = await api.exportAdminBooking(bookingId, format)
+  if (response.error || !response.data) {
+    return response.error || 'Export failed'
+  }
+  saveFile(response.data.blob, response.data.filename)
+  return null
+}
+
+interface ConfigurationExportProps {
+  configurationId: string
+  admin?: boolean
+  // Export the field as this booking froze it instead of as it is now
+  bookingId?: string
+}
+
+export function ConfigurationExport({ configurationId, admin = false, bookingId }: ConfigurationExportProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+  const [error, setError] = useState('')
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format)
+    setError('')
+    const exportError = bookingId
+      ? await downloadBooking(bookingId, format)
+      : await downloadConfiguration(configurationId, format, admin)
+    if (exportError) setError(exportError)
+    setExporting(null)
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {EXPORT_FORMATS.map((format) => (
+          <button
+            key={format.value}
+            type="button"
+            onClick={() => handleExport(format.value)}
+            disabled={exporting !== null}
+            className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            {exporting === format.value ? 'Exporting...' : format.label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
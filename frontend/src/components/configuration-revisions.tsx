@@ -0,0 +1,179 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { api, ConfigurationRevision, ConfigurationRevisionDiff } from '@/lib/api'
+
+const FIELD_LABELS: Record<string, string> = {
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  rotationDegrees: 'Rotation',
+  lengthMeters: 'Length',
+  widthMeters: 'Width',
+  lineColor: 'Line colour',
+  templateId: 'Template',
+  templateVersionId: 'Markings version',
+  complianceProfileId: 'Competition level',
+}
+
+// Shown with their old and new values; a move is shown as the distance moved
+const LISTED_FIELDS = new Set(['rotationDegrees', 'lengthMeters', 'widthMeters', 'lineColor'])
+
+const UNITS: Record<string, string> = {
+  rotationDegrees: '°',
+  lengthMeters: 'm',
+  widthMeters: 'm',
+}
+
+function describeDiff(diff: ConfigurationRevisionDiff): string[] {
+  const lines: string[] = []
+  if (diff.moved > 0) {
+    lines.push(`Moved ${diff.moved}m`)
+  }
+  for (const change of diff.changes) {
+    if (LISTED_FIELDS.has(change.field)) {
+      const unit = UNITS[change.field] ?? ''
+      lines.push(`${FIELD_LABELS[change.field]}: ${change.from}${unit} → ${change.to}${unit}`)
+    } else if (change.field !== 'latitude' && change.field !== 'longitude') {
+      lines.push(`${FIELD_LABELS[change.field] ?? change.field} changed`)
+    }
+  }
+  return lines
+}
+
+interface ConfigurationRevisionsProps {
+  configurationId: string
+  // Called after a revision is restored, so the page can reload the configuration
+  onRestored: () => void
+}
+
+// Earlier saved layouts of a configuration, each of which can be compared with
+// the current layout or restored
+export function ConfigurationRevisions({ configurationId, onRestored }: ConfigurationRevisionsProps) {
+  const [revisions, setRevisions] = useState<ConfigurationRevision[]>([])
+  const [comparing, setComparing] = useState<{ revision: number; lines: string[] } | null>(null)
+  const [restoring, setRestoring] = useState<number | null>(null)
+  const [error, setError] = useState('')
+
+  const loadRevisions = useCallback(async () => {
+    const response = await api.getConfigurationRevisions(configurationId)
+    if (response.data) {
+      setRevisions(response.data)
+    } else {
+      setError(response.error || 'Failed to load history')
+    }
+  }, [configurationId])
+
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions])
+
+  const current = revisions[0]
+
+  const handleCompare = async (revision: number) => {
+    if (!current) return
+    if (comparing?.revision === revision) {
+      setComparing(null)
+      return
+    }
+
+    setError('')
+    const response = await api.getConfigurationRevisionDiff(configurationId, revision, current.revision)
+    if (response.data) {
+      const lines = describeDiff(response.data)
+      setComparing({ revision, lines: lines.length > 0 ? lines : ['No layout changes'] })
+    } else {
+      setError(response.error || 'Failed to compare revisions')
+    }
+  }
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Restore the layout from revision ${revision}? The current layout stays in the history.`)) {
+      return
+    }
+
+    setRestoring(revision)
+    setError('')
+    const response = await api.restoreConfigurationRevision(configurationId, revision)
+    if (response.error) {
+      setError(response.error)
+    } else {
+      const lockedBookings = response.data?.lockedBookings ?? 0
+      if (lockedBookings > 0) {
+        alert(
+          `Restored. ${lockedBookings} confirmed booking${lockedBookings === 1 ? '' : 's'} for this field will still be marked as originally booked.`
+        )
+      }
+      setComparing(null)
+      await loadRevisions()
+      onRestored()
+    }
+    setRestoring(null)
+  }
+
+  if (revisions.length === 0) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <ul className="divide-y divide-gray-100">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="py-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  Revision {revision.revision}
+                  {revision === current && <span className="ml-2 text-xs text-green-600">Current</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString(undefined, {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {revision.lengthMeters}m x {revision.widthMeters}m, {revision.rotationDegrees}°, {revision.lineColor}
+                  {' · '}
+                  {revision.template.name}
+                  {revision.templateVersion && ` v${revision.templateVersion.version}`}
+                  {revision.complianceProfile && ` · ${revision.complianceProfile.name}`}
+                </p>
+              </div>
+              {revision !== current && (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleCompare(revision.revision)}
+                    className="px-2 py-1 border border-gray-300 text-gray-700 text-xs rounded hover:bg-gray-50"
+                  >
+                    {comparing?.revision === revision.revision ? 'Hide' : 'Compare'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(revision.revision)}
+                    disabled={restoring !== null}
+                    className="px-2 py-1 border border-green-600 text-green-700 text-xs rounded hover:bg-green-50 disabled:opacity-50"
+                  >
+                    {restoring === revision.revision ? 'Restoring...' : 'Restore'}
+                  </button>
+                </div>
+              )}
+            </div>
+            {comparing?.revision === revision.revision && (
+              <ul className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-700 space-y-0.5">
+                <li className="font-medium">Changes since revision {revision.revision}:</li>
+                {comparing.lines.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
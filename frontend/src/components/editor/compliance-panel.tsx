@@ -0,0 +1,73 @@
+'use client'
+
+import type { ComplianceReport } from 'xactline-shared/field-compliance'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ComplianceProfile } from '@/lib/api'
+
+interface CompliancePanelProps {
+  // Profiles for the selected template's sport
+  profiles: ComplianceProfile[]
+  profileId: string | null
+  onProfileChange: (profileId: string | null) => void
+  // Live report for the chosen profile; null until the field is placed
+  report: ComplianceReport | null
+}
+
+// Pick a competition level for the field and see, as it is moved and resized,
+// whether it meets that level's dimension and run-off rules
+export function CompliancePanel({ profiles, profileId, onProfileChange, report }: CompliancePanelProps) {
+  if (profiles.length === 0) return null
+
+  const profile = profiles.find((p) => p.id === profileId) ?? null
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm">Compliance</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <select
+          value={profileId ?? ''}
+          onChange={(e) => onProfileChange(e.target.value || null)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          <option value="">No competition level</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+
+        {profile && (
+          <p className="text-xs text-gray-500">
+            {profile.minLength}-{profile.maxLength}m x {profile.minWidth}-{profile.maxWidth}m
+            {(profile.runOffSides > 0 || profile.runOffEnds > 0) &&
+              `, ${profile.runOffSides}m run-off beside and ${profile.runOffEnds}m behind`}
+          </p>
+        )}
+
+        {profile && !report && <p className="text-xs text-gray-500">Place the field to check it.</p>}
+
+        {profile && report && (
+          <div
+            className={`rounded border p-2 text-xs ${
+              report.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+            }`}
+          >
+            <p className={`font-medium mb-1 ${report.passed ? 'text-green-800' : 'text-red-800'}`}>
+              {report.passed ? `Meets ${profile.name}` : `Does not meet ${profile.name}`}
+            </p>
+            <ul className="space-y-1">
+              {report.checks.map((check) => (
+                <li key={check.id} className={check.passed ? 'text-green-700' : 'text-red-700'}>
+                  {check.passed ? '✓' : '✗'} {check.label}: {check.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import type { FieldConflict } from 'xactline-shared/field-conflicts'
+
+interface ConflictWarningsProps {
+  conflicts: FieldConflict[]
+  // Boundary and no-mark zone breaches; saving is refused until they're fixed
+  siteIssues?: string[]
+}
+
+// Overlaps and crowded run-off between the field being edited and the others
+// on the ground, and breaches of the ground's site layout, updated while the
+// field is dragged
+export function ConflictWarnings({ conflicts, siteIssues = [] }: ConflictWarningsProps) {
+  if (conflicts.length === 0 && siteIssues.length === 0) return null
+
+  return (
+    <div className="bg-white bg-opacity-95 rounded-lg shadow px-3 py-2 text-xs md:text-sm space-y-1">
+      {siteIssues.map((issue) => (
+        <p key={issue} className="text-red-700">
+          ⛔ {issue}
+        </p>
+      ))}
+      {conflicts.map((conflict) => (
+        <p
+          key={conflict.fields.map((f) => f.id).join(':')}
+          className={conflict.kind === 'overlap' ? 'text-red-700' : 'text-amber-700'}
+        >
+          {conflict.kind === 'overlap' ? '⚠ ' : '△ '}
+          {conflict.detail}
+        </p>
+      ))}
+    </div>
+  )
+}
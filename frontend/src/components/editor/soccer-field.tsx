@@ -2,33 +2,25 @@
 
 import { useEffect, useRef, useCallback } from 'react'
 import * as fabric from 'fabric'
+import { generateFieldPaths } from 'xactline-shared/field-geometry'
 
 interface SoccerFieldProps {
   width: number // Field width in meters
   length: number // Field length in meters
+  interiorElements: unknown // The template's markings, with formula coordinates
   lineColor: string
   rotation: number // Degrees
   scale: number // Pixels per meter
   onUpdate?: (data: { rotation: number }) => void
 }
 
-// FIFA Regulations - Fixed dimensions (in meters)
-const FIELD_SPECS = {
-  centerCircleRadius: 9.15,
-  penaltyAreaWidth: 40.3,
-  penaltyAreaDepth: 16.5,
-  goalAreaWidth: 18.3,
-  goalAreaDepth: 5.5,
-  penaltyMarkDistance: 11,
-  penaltyArcRadius: 9.15,
-  cornerArcRadius: 1,
-  goalWidth: 7.32,
-  lineWidth: 0.12, // 12cm line width
-}
+// Painted line width in meters (12cm)
+const LINE_WIDTH = 0.12
 
 export function SoccerField({
   width,
   length,
+  interiorElements,
   lineColor,
   rotation,
   scale,
@@ -51,274 +43,28 @@ export function SoccerField({
     return colorMap[color.toLowerCase()] || '#FFFFFF'
   }
 
-  // Create the soccer field elements
+  // Draw the template's markings at this field size. Paths come back in local
+  // field coordinates (metres from the centre, +y up the field), so flip y for
+  // the canvas.
   const createFieldElements = useCallback(() => {
     const colorHex = getColorHex(lineColor)
-    const strokeWidth = FIELD_SPECS.lineWidth * scale
-    const elements: fabric.Object[] = []
-
-    // Field dimensions in pixels
-    const fieldWidth = width * scale
-    const fieldLength = length * scale
-
-    // Outer boundary
-    elements.push(
-      new fabric.Rect({
-        left: 0,
-        top: 0,
-        width: fieldWidth,
-        height: fieldLength,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        selectable: false,
-      })
-    )
-
-    // Center line
-    elements.push(
-      new fabric.Line([0, fieldLength / 2, fieldWidth, fieldLength / 2], {
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        selectable: false,
-      })
-    )
-
-    // Center circle
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth / 2,
-        top: fieldLength / 2,
-        radius: FIELD_SPECS.centerCircleRadius * scale,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        originX: 'center',
-        originY: 'center',
-        selectable: false,
-      })
-    )
-
-    // Center mark
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth / 2,
-        top: fieldLength / 2,
-        radius: 0.22 * scale,
-        fill: colorHex,
-        stroke: colorHex,
-        strokeWidth: 1,
-        originX: 'center',
-        originY: 'center',
-        selectable: false,
-      })
-    )
-
-    // Penalty areas
-    const penaltyAreaWidth = FIELD_SPECS.penaltyAreaWidth * scale
-    const penaltyAreaDepth = FIELD_SPECS.penaltyAreaDepth * scale
-    const penaltyAreaX = (fieldWidth - penaltyAreaWidth) / 2
-
-    // Top penalty area
-    elements.push(
-      new fabric.Rect({
-        left: penaltyAreaX,
-        top: 0,
-        width: penaltyAreaWidth,
-        height: penaltyAreaDepth,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        selectable: false,
-      })
-    )
-
-    // Bottom penalty area
-    elements.push(
-      new fabric.Rect({
-        left: penaltyAreaX,
-        top: fieldLength - penaltyAreaDepth,
-        width: penaltyAreaWidth,
-        height: penaltyAreaDepth,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        selectable: false,
-      })
-    )
-
-    // Goal areas
-    const goalAreaWidth = FIELD_SPECS.goalAreaWidth * scale
-    const goalAreaDepth = FIELD_SPECS.goalAreaDepth * scale
-    const goalAreaX = (fieldWidth - goalAreaWidth) / 2
-
-    // Top goal area
-    elements.push(
-      new fabric.Rect({
-        left: goalAreaX,
-        top: 0,
-        width: goalAreaWidth,
-        height: goalAreaDepth,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        selectable: false,
-      })
-    )
-
-    // Bottom goal area
-    elements.push(
-      new fabric.Rect({
-        left: goalAreaX,
-        top: fieldLength - goalAreaDepth,
-        width: goalAreaWidth,
-        height: goalAreaDepth,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        selectable: false,
-      })
-    )
-
-    // Penalty marks
-    const penaltyMarkY = FIELD_SPECS.penaltyMarkDistance * scale
-
-    // Top penalty mark
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth / 2,
-        top: penaltyMarkY,
-        radius: 0.22 * scale,
-        fill: colorHex,
-        stroke: colorHex,
-        strokeWidth: 1,
-        originX: 'center',
-        originY: 'center',
-        selectable: false,
-      })
-    )
-
-    // Bottom penalty mark
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth / 2,
-        top: fieldLength - penaltyMarkY,
-        radius: 0.22 * scale,
-        fill: colorHex,
-        stroke: colorHex,
-        strokeWidth: 1,
-        originX: 'center',
-        originY: 'center',
-        selectable: false,
-      })
-    )
-
-    // Penalty arcs (the parts outside the penalty area)
-    const penaltyArcRadius = FIELD_SPECS.penaltyArcRadius * scale
-
-    // Top penalty arc
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth / 2,
-        top: penaltyMarkY,
-        radius: penaltyArcRadius,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        originX: 'center',
-        originY: 'center',
-        startAngle: 37,
-        endAngle: 143,
-        selectable: false,
-      })
-    )
-
-    // Bottom penalty arc
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth / 2,
-        top: fieldLength - penaltyMarkY,
-        radius: penaltyArcRadius,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        originX: 'center',
-        originY: 'center',
-        startAngle: 217,
-        endAngle: 323,
-        selectable: false,
-      })
-    )
-
-    // Corner arcs
-    const cornerArcRadius = FIELD_SPECS.cornerArcRadius * scale
-
-    // Top-left corner
-    elements.push(
-      new fabric.Circle({
-        left: 0,
-        top: 0,
-        radius: cornerArcRadius,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        startAngle: 0,
-        endAngle: 90,
-        selectable: false,
-      })
-    )
-
-    // Top-right corner
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth,
-        top: 0,
-        radius: cornerArcRadius,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        originX: 'right',
-        startAngle: 90,
-        endAngle: 180,
-        selectable: false,
-      })
-    )
-
-    // Bottom-left corner
-    elements.push(
-      new fabric.Circle({
-        left: 0,
-        top: fieldLength,
-        radius: cornerArcRadius,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        originY: 'bottom',
-        startAngle: 270,
-        endAngle: 360,
-        selectable: false,
-      })
-    )
-
-    // Bottom-right corner
-    elements.push(
-      new fabric.Circle({
-        left: fieldWidth,
-        top: fieldLength,
-        radius: cornerArcRadius,
-        fill: 'transparent',
-        stroke: colorHex,
-        strokeWidth: strokeWidth,
-        originX: 'right',
-        originY: 'bottom',
-        startAngle: 180,
-        endAngle: 270,
-        selectable: false,
-      })
-    )
 
-    return elements
-  }, [width, length, lineColor, scale])
+    return generateFieldPaths(interiorElements, length, width).map(
+      (path) =>
+        new fabric.Polyline(
+          path.points.map((point) => ({
+            x: (point.x + width / 2) * scale,
+            y: (length / 2 - point.y) * scale,
+          })),
+          {
+            fill: 'transparent',
+            stroke: colorHex,
+            strokeWidth: LINE_WIDTH * scale,
+            selectable: false,
+          }
+        )
+    )
+  }, [width, length, interiorElements, lineColor, scale])
 
   // Initialize canvas
   useEffect(() => {
@@ -388,7 +134,7 @@ export function SoccerField({
     })
 
     canvas.renderAll()
-  }, [width, length, lineColor, rotation, scale, createFieldElements, onUpdate])
+  }, [rotation, createFieldElements, onUpdate])
 
   // Update canvas size
   useEffect(() => {
@@ -0,0 +1,135 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { api } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface ImportResult {
+  configuration: {
+    id: string
+    name: string
+    lengthMeters: number
+    widthMeters: number
+    rotationDegrees: number
+    template: { name: string }
+  }
+  warnings: string[]
+}
+
+interface FieldLayoutImportProps {
+  sportsgroundId: string
+  onImported: () => void
+}
+
+// Upload a council's surveyed GeoJSON/KML outline to pre-create a draft configuration
+export function FieldLayoutImport({ sportsgroundId, onImported }: FieldLayoutImportProps) {
+  const [sports, setSports] = useState<string[]>([])
+  const [file, setFile] = useState<File | null>(null)
+  const [sport, setSport] = useState('')
+  const [name, setName] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState('')
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  useEffect(() => {
+    const fetchSports = async () => {
+      const response = await api.getTemplates()
+      if (response.data) {
+        setSports(Array.from(new Set(response.data.map((t) => t.sport))).sort())
+      }
+    }
+    fetchSports()
+  }, [])
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setIsImporting(true)
+    setError('')
+    setResult(null)
+
+    const response = await api.importFieldLayout(sportsgroundId, await file.text(), {
+      sport: sport || undefined,
+      name: name || undefined,
+    })
+
+    if (response.error || !response.data) {
+      setError(response.error || 'Import failed')
+    } else {
+      setResult(response.data)
+      setFile(null)
+      setName('')
+      onImported()
+    }
+    setIsImporting(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="layout-file">GeoJSON or KML file</Label>
+        <Input
+          id="layout-file"
+          type="file"
+          accept=".geojson,.json,.kml"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="mt-1"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="layout-sport">Sport</Label>
+          <select
+            id="layout-sport"
+            value={sport}
+            onChange={(e) => setSport(e.target.value)}
+            className="mt-1 w-full h-10 px-3 border border-input rounded-md text-sm capitalize"
+          >
+            <option value="">Detect from file</option>
+            {sports.map((s) => (
+              <option key={s} value={s}>
+                {s.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="layout-name">Name (optional)</Label>
+          <Input id="layout-name" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button size="sm" onClick={handleImport} disabled={!file || isImporting}>
+        {isImporting ? 'Importing...' : 'Import Layout'}
+      </Button>
+
+      {result && (
+        <div className="p-3 border rounded-lg bg-gray-50 text-sm space-y-2">
+          <p className="text-gray-900">
+            Created draft <span className="font-medium">{result.configuration.name}</span> using{' '}
+            {result.configuration.template.name}: {result.configuration.lengthMeters}m x{' '}
+            {result.configuration.widthMeters}m, rotated {result.configuration.rotationDegrees}°.
+          </p>
+          {result.warnings.length > 0 && (
+            <ul className="list-disc list-inside text-amber-700">
+              {result.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+          <Link
+            href={`/dashboard/editor?sportsground=${sportsgroundId}&configuration=${result.configuration.id}`}
+            className="inline-block text-green-600 hover:text-green-700 font-medium"
+          >
+            Review and save in the editor →
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,15 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react'
 
+// An outline drawn over the map, e.g. a sportsground boundary or no-mark zone
+export interface MapPolygon {
+  id: string
+  points: Array<{ lat: number; lng: number }>
+  color: string
+  // Corners can be dragged, and new corners pulled out of the edges
+  editable?: boolean
+}
+
 interface GoogleMapProps {
   initialCenter?: { lat: number; lng: number }
   initialZoom?: number
@@ -13,6 +22,8 @@ interface GoogleMapProps {
   className?: string
   interactive?: boolean
   mapType?: 'roadmap' | 'satellite' | 'hybrid' | 'terrain'
+  polygons?: MapPolygon[]
+  onPolygonChange?: (id: string, points: Array<{ lat: number; lng: number }>) => void
 }
 
 // Load Google Maps script
@@ -50,12 +61,23 @@ export function GoogleMap({
   className = '',
   interactive = true,
   mapType = 'satellite',
+  polygons,
+  onPolygonChange,
 }: GoogleMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null)
   const mapRef = useRef<google.maps.Map | null>(null)
   const markerRef = useRef<google.maps.Marker | null>(null)
+  const polygonsRef = useRef<google.maps.Polygon[]>([])
   const [isLoaded, setIsLoaded] = useState(false)
 
+  // Listeners are attached once, so they read the latest handlers through refs
+  const onMapClickRef = useRef(onMapClick)
+  const onPolygonChangeRef = useRef(onPolygonChange)
+  useEffect(() => {
+    onMapClickRef.current = onMapClick
+    onPolygonChangeRef.current = onPolygonChange
+  }, [onMapClick, onPolygonChange])
+
   const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_PLACES_API_KEY
 
   // Initialize map
@@ -84,13 +106,11 @@ export function GoogleMap({
           setIsLoaded(true)
         })
 
-        if (onMapClick) {
-          map.addListener('click', (e: google.maps.MapMouseEvent) => {
-            if (e.latLng) {
-              onMapClick({ lat: e.latLng.lat(), lng: e.latLng.lng() })
-            }
-          })
-        }
+        map.addListener('click', (e: google.maps.MapMouseEvent) => {
+          if (e.latLng) {
+            onMapClickRef.current?.({ lat: e.latLng.lat(), lng: e.latLng.lng() })
+          }
+        })
 
         if (onMapMove) {
           map.addListener('idle', () => {
@@ -107,6 +127,8 @@ export function GoogleMap({
       })
 
     return () => {
+      polygonsRef.current.forEach((polygon) => polygon.setMap(null))
+      polygonsRef.current = []
       if (markerRef.current) {
         markerRef.current.setMap(null)
         markerRef.current = null
@@ -142,6 +164,45 @@ export function GoogleMap({
     }
   }, [markerPosition, isLoaded])
 
+  // Draw outlines
+  useEffect(() => {
+    if (!mapRef.current || !isLoaded) return
+
+    polygonsRef.current.forEach((polygon) => polygon.setMap(null))
+    polygonsRef.current = (polygons ?? []).map((outline) => {
+      const polygon = new google.maps.Polygon({
+        paths: outline.points,
+        map: mapRef.current,
+        strokeColor: outline.color,
+        strokeWeight: 2,
+        fillColor: outline.color,
+        fillOpacity: 0.15,
+        editable: outline.editable ?? false,
+      })
+
+      // Clicks inside an outline still reach the map, e.g. to add corners while drawing
+      polygon.addListener('click', (e: google.maps.PolyMouseEvent) => {
+        if (e.latLng) {
+          onMapClickRef.current?.({ lat: e.latLng.lat(), lng: e.latLng.lng() })
+        }
+      })
+
+      if (outline.editable) {
+        const path = polygon.getPath()
+        const reportChange = () => {
+          onPolygonChangeRef.current?.(
+            outline.id,
+            path.getArray().map((point) => ({ lat: point.lat(), lng: point.lng() }))
+          )
+        }
+        path.addListener('set_at', reportChange)
+        path.addListener('insert_at', reportChange)
+        path.addListener('remove_at', reportChange)
+      }
+      return polygon
+    })
+  }, [polygons, isLoaded])
+
   // Pan to controlled center/zoom when they change
   useEffect(() => {
     if (!mapRef.current || !isLoaded) return
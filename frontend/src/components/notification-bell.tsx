@@ -0,0 +1,127 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { api, AppNotification } from '@/lib/api'
+
+const POLL_INTERVAL_MS = 60 * 1000
+
+function timeAgo(date: string) {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days}d ago`
+  return new Date(date).toLocaleDateString()
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  const fetchNotifications = useCallback(async () => {
+    const response = await api.getNotifications({ limit: 10 })
+    if (response.data) {
+      setNotifications(response.data.notifications)
+      setUnreadCount(response.data.unreadCount)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [fetchNotifications])
+
+  const handleToggle = () => {
+    if (!isOpen) fetchNotifications()
+    setIsOpen(!isOpen)
+  }
+
+  const handleOpen = async (notification: AppNotification) => {
+    setIsOpen(false)
+    if (!notification.readAt) {
+      const response = await api.markNotificationRead(notification.id)
+      if (response.data) {
+        const { readAt } = response.data
+        setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, readAt } : n)))
+        setUnreadCount(response.data.unreadCount)
+      }
+    }
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    const response = await api.markAllNotificationsRead()
+    if (response.data) {
+      const now = new Date().toISOString()
+      setNotifications((prev) => prev.map((n) => ({ ...n, readAt: n.readAt ?? now })))
+      setUnreadCount(response.data.unreadCount)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-50 border">
+          <div className="px-4 py-2 border-b flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-green-600 hover:text-green-700">
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-green-50'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.readAt && (
+                        <span className="mt-1.5 w-2 h-2 rounded-full bg-green-600 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                        {notification.body && (
+                          <p className="text-sm text-gray-600 break-words">{notification.body}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-1">{timeAgo(notification.createdAt)}</p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,211 @@
+import type { ComplianceLevel, ComplianceRules } from 'xactline-shared/field-compliance'
+import type { FieldConflict } from 'xactline-shared/field-conflicts'
+import type { LatLng } from 'xactline-shared/projection'
+import type { ExclusionZone } from 'xactline-shared/site-layout'
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:9501'
 
 interface ApiResponse<T = unknown> {
   data?: T
   error?: string
-  details?: Array<{ message: string }>
+  details?: Array<{ message: string; path?: Array<string | number> }>
+  // HTTP status of a failed request, e.g. 409 when an edit conflicts
+  status?: number
+}
+
+export interface OutboxEmail {
+  id: string
+  to: string
+  subject: string
+  status: 'pending' | 'sending' | 'sent' | 'dead'
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  transport: string | null
+  sentAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// Pushed over /api/events/bookings when a booking is created or changes
+export interface BookingEvent {
+  type: 'booking.created' | 'booking.updated' | 'booking.status'
+  bookingId: string
+  bookingGroupId: string | null
+  userId: string
+  status: string
+  updatedAt: string
+  actorId: string | null
+}
+
+export interface AppNotification {
+  id: string
+  type: 'booking_created' | 'booking_status' | 'maintenance' | 'invitation_accepted' | 'weather_alert'
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+export interface Crew {
+  id: string
+  name: string
+  color: string
+  dailyCapacity: number
+  active: boolean
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Equipment {
+  id: string
+  name: string
+  type: 'line_marker' | 'paint' | 'vehicle' | 'other'
+  crewId: string | null
+  quantity: number | null
+  unit: string | null
+  active: boolean
+  notes: string | null
+  crew: { id: string; name: string } | null
+}
+
+// A crew double-booked or over its daily capacity on one day
+export interface CrewConflict {
+  type: 'double_booked' | 'over_capacity'
+  crewId: string
+  date: string
+  bookingIds: string[]
+  message: string
+}
+
+// One day from /api/bookings/availability
+export interface DayAvailability {
+  date: string
+  bookable: boolean
+  reason: string | null
+  // Time preferences that can be chosen on this day
+  slots: string[]
+  remaining: number | null
+}
+
+export interface WorkingDay {
+  weekday: number
+  isOpen: boolean
+  openTime: string
+  closeTime: string
+  dailyCapacity: number | null
+}
+
+export interface BlackoutDate {
+  id: string
+  date: string
+  reason: string
+  createdAt: string
+}
+
+// A confirmed booking with heavy rain forecast, from /api/admin/weather/flagged
+export interface WeatherFlaggedBooking {
+  id: string
+  referenceNumber: string
+  preferredDate: string
+  preferredTime: string
+  status: string
+  weatherForecast: string | null
+  weatherFlaggedAt: string
+  user: { id: string; fullName: string }
+  configuration: {
+    name: string
+    sportsground: { id: string; name: string }
+  }
+  // Next open, dry slot with capacity; null when none was found within four weeks
+  proposedSlot: { date: string; time: string } | null
+}
+
+export type RecurrenceFrequency = 'weekly' | 'fortnightly' | 'every_n_days'
+
+export interface RecurringSchedule {
+  id: string
+  name: string
+  frequency: RecurrenceFrequency
+  intervalDays: number
+  startDate: string
+  endDate: string
+  preferredTime: string
+  contactPreference: string
+  notes: string | null
+  status: 'active' | 'paused' | 'ended'
+  skippedDates: string[]
+  generatedThrough: string | null
+  sportsground: { id: string; name: string }
+  configurations: Array<{ id: string; name: string }>
+  // Generated bookings from today on
+  bookings: Array<{
+    id: string
+    referenceNumber: string
+    preferredDate: string
+    preferredTime: string
+    status: string
+    configuration: { id: string; name: string }
+  }>
+  createdAt: string
+}
+
+// Competition-level dimension and run-off rules for a sport, from /api/compliance-profiles
+export interface ComplianceProfile extends ComplianceRules {
+  id: string
+  sport: string
+  name: string
+  level: ComplianceLevel
+  description: string | null
+}
+
+// A booking's field frozen when the booking was accepted; crews mark this, not later edits
+export interface ConfigurationSnapshot {
+  name: string
+  latitude: number
+  longitude: number
+  rotationDegrees: number
+  lengthMeters: number
+  widthMeters: number
+  lineColor: string
+  templateId: string
+  templateVersionId: string | null
+  templateVersion: number | null
+  templateName: string
+  templateSport: string
+  complianceProfile: string | null
+  frozenAt: string
+}
+
+// A saved layout of a configuration, from /api/configurations/:id/revisions
+export interface ConfigurationRevision {
+  id: string
+  revision: number
+  name: string
+  latitude: number
+  longitude: number
+  rotationDegrees: number
+  lengthMeters: number
+  widthMeters: number
+  lineColor: string
+  templateId: string
+  templateVersionId: string | null
+  complianceProfileId: string | null
+  createdById: string | null
+  createdAt: string
+  template: { id: string; name: string }
+  templateVersion: { id: string; version: number } | null
+  complianceProfile: { id: string; name: string } | null
+}
+
+export interface ConfigurationRevisionDiff {
+  from: number
+  to: number
+  // Metres the field's centre moved
+  moved: number
+  changes: Array<{ field: string; from: unknown; to: unknown }>
 }
 
 class ApiClient {
@@ -59,6 +261,7 @@ class ApiClient {
         return {
           error: data.error || 'An error occurred',
           details: data.details,
+          status: response.status,
         }
       }
 
@@ -69,6 +272,31 @@ class ApiClient {
     }
   }
 
+  // Fetch a file download, keeping the server's suggested file name
+  private async download(endpoint: string): Promise<ApiResponse<{ blob: Blob; filename: string }>> {
+    const token = this.getToken()
+    const headers: Record<string, string> = {}
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`
+    }
+
+    try {
+      const response = await fetch(`${API_URL}${endpoint}`, { headers })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        return { error: data.error || 'An error occurred' }
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'download'
+      return { data: { blob: await response.blob(), filename } }
+    } catch (error) {
+      console.error('API download failed:', error)
+      return { error: 'Network error. Please try again.' }
+    }
+  }
+
   // Auth endpoints
   async register(data: {
     email: string
@@ -143,6 +371,7 @@ class ApiClient {
       organization?: string
       role: 'user' | 'admin' | 'super_admin'
       emailVerified: boolean
+      notificationOptOuts: string[]
       createdAt: string
       updatedAt: string
     }>('/api/users/me')
@@ -152,6 +381,7 @@ class ApiClient {
     fullName?: string
     phone?: string
     organization?: string
+    notificationOptOuts?: string[]
   }) {
     return this.request('/api/users/me', {
       method: 'PUT',
@@ -206,8 +436,15 @@ class ApiClient {
     longitude: number
     defaultZoom: number
     notes: string
+    // null clears the boundary
+    boundary: LatLng[] | null
+    exclusionZones: ExclusionZone[]
   }>) {
-    return this.request(`/api/sportsgrounds/${id}`, {
+    // fieldsOutside lists fields already laid out that the boundary or zones now exclude
+    return this.request<{
+      id: string
+      fieldsOutside: Array<{ id: string; name: string; issues: string[] }>
+    }>(`/api/sportsgrounds/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     })
@@ -217,6 +454,35 @@ class ApiClient {
     return this.request(`/api/sportsgrounds/${id}`, { method: 'DELETE' })
   }
 
+  // Upload a surveyed GeoJSON/KML outline; the server creates a draft configuration
+  async importFieldLayout(sportsgroundId: string, content: string, options: { sport?: string; name?: string } = {}) {
+    const params = new URLSearchParams()
+    if (options.sport) params.set('sport', options.sport)
+    if (options.name) params.set('name', options.name)
+    const query = params.toString() ? `?${params.toString()}` : ''
+    return this.request<{
+      configuration: {
+        id: string
+        name: string
+        lengthMeters: number
+        widthMeters: number
+        rotationDegrees: number
+        template: { id: string; name: string; sport: string }
+      }
+      outline: { rectangularity: number; shapeCount: number }
+      warnings: string[]
+    }>(`/api/sportsgrounds/${sportsgroundId}/import${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: content,
+    })
+  }
+
+  // Overlaps and run-off clashes between the fields laid out on a ground
+  async getSportsgroundConflicts(id: string) {
+    return this.request<{ fieldCount: number; conflicts: FieldConflict[] }>(`/api/sportsgrounds/${id}/conflicts`)
+  }
+
   // Template endpoints
   async getTemplates() {
     return this.request<Array<{
@@ -239,6 +505,11 @@ class ApiClient {
     return this.request(`/api/templates/${id}`)
   }
 
+  async getComplianceProfiles(sport?: string) {
+    const query = sport ? `?sport=${encodeURIComponent(sport)}` : ''
+    return this.request<ComplianceProfile[]>(`/api/compliance-profiles${query}`)
+  }
+
   // Configuration endpoints
   async getConfigurations(sportsgroundId?: string) {
     const query = sportsgroundId ? `?sportsgroundId=${sportsgroundId}` : ''
@@ -251,8 +522,10 @@ class ApiClient {
       lengthMeters: number
       widthMeters: number
       lineColor: string
+      isDraft: boolean
       sportsground: { id: string; name: string; address: string }
-      template: { id: string; name: string; sport: string }
+      template: { id: string; name: string; sport: string; currentVersion: number }
+      templateVersion: { id: string; version: number; interiorElements: unknown } | null
       createdAt: string
       updatedAt: string
     }>>(`/api/configurations${query}`)
@@ -268,6 +541,7 @@ class ApiClient {
     lengthMeters: number
     widthMeters: number
     lineColor: string
+    complianceProfileId?: string | null
   }) {
     return this.request('/api/configurations', {
       method: 'POST',
@@ -287,8 +561,10 @@ class ApiClient {
     lengthMeters: number
     widthMeters: number
     lineColor: string
+    complianceProfileId: string | null
   }>) {
-    return this.request(`/api/configurations/${id}`, {
+    // lockedBookings: accepted bookings that keep the layout they were booked with
+    return this.request<{ id: string; lockedBookings: number }>(`/api/configurations/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     })
@@ -305,6 +581,29 @@ class ApiClient {
     })
   }
 
+  async exportConfiguration(id: string, format: 'geojson' | 'kml' | 'dxf') {
+    return this.download(`/api/configurations/${id}/export?format=${format}`)
+  }
+
+  async upgradeConfigurationTemplate(id: string) {
+    return this.request(`/api/configurations/${id}/upgrade-template`, { method: 'POST' })
+  }
+
+  async getConfigurationRevisions(id: string) {
+    return this.request<ConfigurationRevision[]>(`/api/configurations/${id}/revisions`)
+  }
+
+  async getConfigurationRevisionDiff(id: string, from: number, to: number) {
+    return this.request<ConfigurationRevisionDiff>(`/api/configurations/${id}/revisions/diff?from=${from}&to=${to}`)
+  }
+
+  async restoreConfigurationRevision(id: string, revision: number) {
+    return this.request<{ id: string; lockedBookings: number }>(
+      `/api/configurations/${id}/revisions/${revision}/restore`,
+      { method: 'POST' }
+    )
+  }
+
   // Booking endpoints
   async getBookings(status?: string) {
     const query = status ? `?status=${status}` : ''
@@ -323,6 +622,7 @@ class ApiClient {
         sportsground: { id: string; name: string; address: string }
         template: { id: string; name: string; sport: string }
       }
+      recurringSchedule: { id: string; name: string } | null
       createdAt: string
       updatedAt: string
     }>>(`/api/bookings${query}`)
@@ -334,7 +634,7 @@ class ApiClient {
     preferredTime: string
     alternativeDate?: string
     notes?: string
-    contactPreference: 'phone' | 'email'
+    contactPreference: 'phone' | 'email' | 'both'
   }) {
     return this.request('/api/bookings', {
       method: 'POST',
@@ -351,7 +651,7 @@ class ApiClient {
     preferredTime: string
     alternativeDate: string
     notes: string
-    contactPreference: 'phone' | 'email'
+    contactPreference: 'phone' | 'email' | 'both'
   }>) {
     return this.request(`/api/bookings/${id}`, {
       method: 'PUT',
@@ -363,6 +663,11 @@ class ApiClient {
     return this.request(`/api/bookings/${id}`, { method: 'DELETE' })
   }
 
+  async getBookingAvailability(from: string, to: string) {
+    const query = new URLSearchParams({ from, to })
+    return this.request<{ days: DayAvailability[] }>(`/api/bookings/availability?${query.toString()}`)
+  }
+
   // Batch booking endpoints
   async createBatchBooking(data: {
     sportsgroundId: string
@@ -406,6 +711,61 @@ class ApiClient {
     return this.request(`/api/bookings/groups/${id}`, { method: 'DELETE' })
   }
 
+  // Recurring schedules
+  async getRecurringSchedules() {
+    return this.request<RecurringSchedule[]>('/api/recurring-schedules')
+  }
+
+  async createRecurringSchedule(data: {
+    sportsgroundId: string
+    configurationIds: string[]
+    name: string
+    frequency: RecurrenceFrequency
+    intervalDays?: number
+    startDate: string
+    endDate: string
+    preferredTime: string
+    contactPreference: 'phone' | 'email' | 'both'
+    notes?: string
+  }) {
+    return this.request<RecurringSchedule & { generated: number }>('/api/recurring-schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateRecurringSchedule(id: string, data: Partial<{
+    status: 'active' | 'paused'
+    name: string
+    preferredTime: string
+    notes: string | null
+  }>) {
+    return this.request<RecurringSchedule>(`/api/recurring-schedules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async skipRecurringOccurrence(id: string, date: string) {
+    return this.request<{ message: string; cancelled: number }>(`/api/recurring-schedules/${id}/skip`, {
+      method: 'POST',
+      body: JSON.stringify({ date }),
+    })
+  }
+
+  async restoreRecurringOccurrence(id: string, date: string) {
+    return this.request<{ message: string; generated: boolean }>(`/api/recurring-schedules/${id}/skip`, {
+      method: 'DELETE',
+      body: JSON.stringify({ date }),
+    })
+  }
+
+  async endRecurringSchedule(id: string) {
+    return this.request<{ message: string; cancelled: number }>(`/api/recurring-schedules/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
   // ============ ADMIN ENDPOINTS ============
 
   // Admin - Validate invitation token
@@ -455,6 +815,10 @@ class ApiClient {
     }>('/api/admin/stats')
   }
 
+  async getAdminBadges() {
+    return this.request<{ pendingBookings: number }>('/api/admin/badges')
+  }
+
   // Admin - Users
   async getAdminUsers(params?: { page?: number; limit?: number; search?: string; role?: string }) {
     const query = new URLSearchParams()
@@ -640,13 +1004,36 @@ class ApiClient {
           sport: string
         }
       }
+      bookingGroup: {
+        id: string
+        groupReferenceNumber: string
+      } | null
+      recurringSchedule: {
+        id: string
+        name: string
+        frequency: RecurrenceFrequency
+        intervalDays: number
+        status: RecurringSchedule['status']
+      } | null
+      statusHistory: Array<{
+        id: string
+        fromStatus: string | null
+        toStatus: string
+        reason: string | null
+        createdAt: string
+        actor: { id: string; fullName: string } | null
+      }>
+      allowedTransitions: string[]
+      // The field as it was when the booking was accepted, and whether it has been edited since
+      configurationSnapshot: ConfigurationSnapshot | null
+      configurationChanged: boolean
     }>(`/api/admin/bookings/${id}`)
   }
 
-  async updateBookingStatus(id: string, status: string) {
-    return this.request(`/api/admin/bookings/${id}/status`, {
+  async updateBookingStatus(id: string, status: string, reason?: string) {
+    return this.request<{ status: string; allowedTransitions: string[] }>(`/api/admin/bookings/${id}/status`, {
       method: 'PUT',
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({ status, reason }),
     })
   }
 
@@ -658,6 +1045,7 @@ class ApiClient {
     sportsgroundId?: string
     configurationId?: string
     userId?: string
+    crewId?: string
   }) {
     const query = new URLSearchParams()
     query.set('startDate', params.startDate)
@@ -666,6 +1054,7 @@ class ApiClient {
     if (params.sportsgroundId) query.set('sportsgroundId', params.sportsgroundId)
     if (params.configurationId) query.set('configurationId', params.configurationId)
     if (params.userId) query.set('userId', params.userId)
+    if (params.crewId) query.set('crewId', params.crewId)
 
     return this.request<{
       bookings: Array<{
@@ -673,9 +1062,21 @@ class ApiClient {
         referenceNumber: string
         preferredDate: string
         preferredTime: string
-        status: 'pending' | 'confirmed' | 'completed' | 'cancelled'
+        status: string
         notes: string | null
+        updatedAt: string
+        crewId: string | null
         user: { id: string; fullName: string; email: string }
+        crew: { id: string; name: string; color: string } | null
+        weatherFlaggedAt: string | null
+        weatherForecast: string | null
+        recurringSchedule: {
+          id: string
+          name: string
+          frequency: RecurrenceFrequency
+          intervalDays: number
+          status: RecurringSchedule['status']
+        } | null
         configuration: {
           id: string
           name: string
@@ -683,6 +1084,7 @@ class ApiClient {
           template: { id: string; name: string; sport: string }
         }
       }>
+      crewConflicts: CrewConflict[]
     }>(`/api/admin/bookings/calendar?${query.toString()}`)
   }
 
@@ -694,7 +1096,7 @@ class ApiClient {
     preferredTime: string
     alternativeDate?: string
     notes?: string
-    contactPreference: 'phone' | 'email'
+    contactPreference: 'phone' | 'email' | 'both'
   }) {
     return this.request<{
       id: string
@@ -721,8 +1123,12 @@ class ApiClient {
     preferredTime?: string
     alternativeDate?: string | null
     status?: string
+    statusReason?: string
     notes?: string
     configurationId?: string
+    crewId?: string | null
+    // updatedAt of the copy being edited; the server answers 409 if it has changed
+    expectedUpdatedAt?: string
   }) {
     return this.request<{
       id: string
@@ -730,19 +1136,169 @@ class ApiClient {
       preferredDate: string
       preferredTime: string
       status: string
+      updatedAt: string
+      crewId: string | null
       user: { id: string; fullName: string; email: string }
+      crew: { id: string; name: string; color: string } | null
       configuration: {
         id: string
         name: string
         sportsground: { id: string; name: string }
         template: { id: string; name: string; sport: string }
       }
+      // Problems the change caused for the assigned crew; saved anyway
+      crewConflicts: CrewConflict[]
     }>(`/api/admin/bookings/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     })
   }
 
+  // Admin - Booking availability
+  async getAvailabilityRules() {
+    return this.request<{
+      workingHours: WorkingDay[]
+      blackoutDates: BlackoutDate[]
+      leadDays: number
+    }>('/api/admin/availability')
+  }
+
+  async updateWorkingHours(days: WorkingDay[]) {
+    return this.request<{ workingHours: WorkingDay[] }>('/api/admin/availability/hours', {
+      method: 'PUT',
+      body: JSON.stringify({ days }),
+    })
+  }
+
+  async createBlackoutDate(data: { date: string; reason: string }) {
+    return this.request<BlackoutDate & { affectedBookings: number }>('/api/admin/availability/blackouts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteBlackoutDate(id: string) {
+    return this.request<{ message: string }>(`/api/admin/availability/blackouts/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Admin - Weather
+  async getWeatherFlaggedBookings() {
+    return this.request<{ bookings: WeatherFlaggedBooking[] }>('/api/admin/weather/flagged')
+  }
+
+  async checkWeather() {
+    return this.request<{ checked: number; flagged: number }>('/api/admin/weather/check', { method: 'POST' })
+  }
+
+  async rescheduleWeatherFlagged(bookingIds?: string[]) {
+    return this.request<{
+      rescheduled: Array<{ id: string; referenceNumber: string; from: string; to: { date: string; time: string } }>
+      unplaced: Array<{ id: string; referenceNumber: string }>
+    }>('/api/admin/weather/reschedule', {
+      method: 'POST',
+      body: JSON.stringify({ bookingIds }),
+    })
+  }
+
+  // Admin - Recurring schedules
+  async updateAdminRecurringScheduleStatus(id: string, status: RecurringSchedule['status']) {
+    return this.request<{ id: string; status: RecurringSchedule['status']; cancelled: number }>(`/api/admin/recurring-schedules/${id}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    })
+  }
+
+  async skipAdminRecurringOccurrence(id: string, date: string) {
+    return this.request<{ message: string; cancelled: number }>(`/api/admin/recurring-schedules/${id}/skip`, {
+      method: 'POST',
+      body: JSON.stringify({ date }),
+    })
+  }
+
+  // Admin - Crews
+  async getCrews(params?: { active?: boolean }) {
+    const query = params?.active ? '?active=true' : ''
+    return this.request<Array<Crew & {
+      equipment: Omit<Equipment, 'crew'>[]
+      _count: { bookings: number }
+    }>>(`/api/admin/crews${query}`)
+  }
+
+  async createCrew(data: {
+    name: string
+    color?: string
+    dailyCapacity: number
+    active?: boolean
+    notes?: string | null
+  }) {
+    return this.request<Crew>('/api/admin/crews', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateCrew(id: string, data: {
+    name?: string
+    color?: string
+    dailyCapacity?: number
+    active?: boolean
+    notes?: string | null
+  }) {
+    return this.request<Crew>(`/api/admin/crews/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteCrew(id: string) {
+    return this.request<{ message: string }>(`/api/admin/crews/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Admin - Equipment
+  async getEquipment() {
+    return this.request<Equipment[]>('/api/admin/equipment')
+  }
+
+  async createEquipment(data: {
+    name: string
+    type: Equipment['type']
+    crewId?: string | null
+    quantity?: number | null
+    unit?: string | null
+    active?: boolean
+    notes?: string | null
+  }) {
+    return this.request<Equipment>('/api/admin/equipment', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateEquipment(id: string, data: {
+    name?: string
+    type?: Equipment['type']
+    crewId?: string | null
+    quantity?: number | null
+    unit?: string | null
+    active?: boolean
+    notes?: string | null
+  }) {
+    return this.request<Equipment>(`/api/admin/equipment/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteEquipment(id: string) {
+    return this.request<{ message: string }>(`/api/admin/equipment/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
   // Admin - Sportsgrounds
   async getAdminSportsgrounds(params?: { page?: number; limit?: number; search?: string }) {
     const query = new URLSearchParams()
@@ -943,6 +1499,22 @@ class ApiClient {
   }
 
   // Admin - Get users list for dropdowns (simplified)
+  async exportAdminConfiguration(id: string, format: 'geojson' | 'kml' | 'dxf') {
+    return this.download(`/api/admin/configurations/${id}/export?format=${format}`)
+  }
+
+  async exportAdminBooking(bookingId: string, format: 'geojson' | 'kml' | 'dxf') {
+    return this.download(`/api/admin/bookings/${bookingId}/export?format=${format}`)
+  }
+
+  async downloadJobSheet(bookingId: string) {
+    return this.download(`/api/admin/bookings/${bookingId}/job-sheet.pdf`)
+  }
+
+  async downloadGroupJobSheet(groupId: string) {
+    return this.download(`/api/admin/bookings/groups/${groupId}/job-sheet.pdf`)
+  }
+
   async getAdminUsersSimple() {
     return this.request<{
       users: Array<{
@@ -969,6 +1541,7 @@ class ApiClient {
       defaultLength: number
       defaultWidth: number
       interiorElements: unknown
+      currentVersion: number
       isActive: boolean
       createdAt: string
       _count: { configurations: number }
@@ -1017,6 +1590,41 @@ class ApiClient {
     return this.request(`/api/admin/templates/${id}`, { method: 'DELETE' })
   }
 
+  async getTemplateVersions(id: string) {
+    return this.request<Array<{
+      id: string
+      version: number
+      minLength: number
+      maxLength: number
+      minWidth: number
+      maxWidth: number
+      defaultLength: number
+      defaultWidth: number
+      interiorElements: unknown
+      createdById: string | null
+      createdAt: string
+      _count: { configurations: number }
+    }>>(`/api/admin/templates/${id}/versions`)
+  }
+
+  async getTemplateVersionDiff(id: string, from: number, to: number) {
+    return this.request<{
+      from: number
+      to: number
+      dimensions: Array<{ field: string; from: number; to: number }>
+      elements: {
+        added: Array<{ id: string; type: string; description?: string }>
+        removed: Array<{ id: string; type: string; description?: string }>
+        changed: Array<{
+          id: string
+          type: string
+          description?: string
+          changes: Array<{ path: string; from: unknown; to: unknown }>
+        }>
+      }
+    }>(`/api/admin/templates/${id}/versions/diff?from=${from}&to=${to}`)
+  }
+
   // Admin - Admin Invitations
   async getAdminInvitations() {
     return this.request<Array<{
@@ -1071,6 +1679,29 @@ class ApiClient {
     return this.request('/api/admin/user-invitations/' + id, { method: 'DELETE' })
   }
 
+  // Admin - Email outbox
+  async getAdminEmails(params?: { page?: number; limit?: number; status?: string; search?: string }) {
+    const query = new URLSearchParams()
+    if (params?.page) query.set('page', params.page.toString())
+    if (params?.limit) query.set('limit', params.limit.toString())
+    if (params?.status) query.set('status', params.status)
+    if (params?.search) query.set('search', params.search)
+    const queryString = query.toString()
+    return this.request<{
+      emails: OutboxEmail[]
+      counts: Record<'pending' | 'sending' | 'sent' | 'dead', number>
+      pagination: { page: number; limit: number; total: number; pages: number }
+    }>(`/api/admin/emails${queryString ? `?${queryString}` : ''}`)
+  }
+
+  async getAdminEmail(id: string) {
+    return this.request<OutboxEmail & { html: string }>(`/api/admin/emails/${id}`)
+  }
+
+  async resendAdminEmail(id: string) {
+    return this.request<OutboxEmail>(`/api/admin/emails/${id}/resend`, { method: 'POST' })
+  }
+
   // User invitation registration
   async validateUserInvitation(token: string) {
     return this.request<{
@@ -1109,6 +1740,41 @@ class ApiClient {
     })
   }
 
+  // Notifications
+  async getNotifications(params?: { unread?: boolean; limit?: number }) {
+    const query = new URLSearchParams()
+    if (params?.unread) query.set('unread', 'true')
+    if (params?.limit) query.set('limit', params.limit.toString())
+    const queryString = query.toString()
+    return this.request<{ notifications: AppNotification[]; unreadCount: number }>(
+      `/api/notifications${queryString ? `?${queryString}` : ''}`
+    )
+  }
+
+  async markNotificationRead(id: string, read = true) {
+    return this.request<AppNotification & { unreadCount: number }>(`/api/notifications/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ read }),
+    })
+  }
+
+  async markAllNotificationsRead() {
+    return this.request<{ updated: number; unreadCount: number }>('/api/notifications', {
+      method: 'PATCH',
+      body: JSON.stringify({ read: true }),
+    })
+  }
+
+  // Live booking changes. EventSource can't send an Authorization header, so
+  // the stream is opened with a short-lived stream token in the query string;
+  // the login token never goes in a URL.
+  async openBookingEvents(): Promise<EventSource | null> {
+    if (!this.getToken() || typeof EventSource === 'undefined') return null
+    const response = await this.request<{ token: string; expiresIn: number }>('/api/events/token', { method: 'POST' })
+    if (!response.data) return null
+    return new EventSource(`${API_URL}/api/events/bookings?token=${encodeURIComponent(response.data.token)}`)
+  }
+
   // Maintenance mode (public endpoint, no auth required)
   async getMaintenanceStatus() {
     return this.request<{ maintenanceMode: boolean }>('/api/maintenance/status')
@@ -0,0 +1,39 @@
+'use client'
+
+import { useCallback, useRef, useState } from 'react'
+import { api, DayAvailability } from './api'
+
+const monthKey = (year: number, month: number) => `${year}-${(month + 1).toString().padStart(2, '0')}`
+
+// Bookable days, fetched a month at a time as date pickers page through the
+// calendar and shared between all the pickers on a page
+export function useBookingAvailability() {
+  const [days, setDays] = useState<Map<string, DayAvailability>>(new Map())
+  const [error, setError] = useState('')
+  const requested = useRef(new Set<string>())
+
+  const loadMonth = useCallback(async (year: number, month: number) => {
+    const key = monthKey(year, month)
+    if (requested.current.has(key)) return
+    requested.current.add(key)
+
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    const response = await api.getBookingAvailability(`${key}-01`, `${key}-${lastDay}`)
+    if (response.data) {
+      const loaded = response.data.days
+      setDays((prev) => {
+        const next = new Map(prev)
+        loaded.forEach((day) => next.set(day.date, day))
+        return next
+      })
+    } else {
+      // Allow a retry when the picker comes back to this month
+      requested.current.delete(key)
+      setError(response.error || 'Failed to load availability')
+    }
+  }, [])
+
+  return { days, loadMonth, error }
+}
+
+export type BookingAvailability = ReturnType<typeof useBookingAvailability>
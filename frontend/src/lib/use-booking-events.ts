@@ -0,0 +1,63 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { api, BookingEvent } from './api'
+
+// Changes arriving this close together (e.g. cancelling a whole group) are
+// delivered as one batch so pages refetch once
+const BATCH_WINDOW_MS = 500
+
+// How long to wait before reopening a stream the server turned away
+const RECONNECT_MS = 5000
+
+// Subscribe to live booking changes for as long as the component is mounted.
+// The browser reconnects on its own if the stream drops, but its stream token
+// only lasts a minute, so once the server refuses that a new one is fetched.
+export function useBookingEvents(onEvents: (events: BookingEvent[]) => void) {
+  const handlerRef = useRef(onEvents)
+  handlerRef.current = onEvents
+
+  useEffect(() => {
+    let source: EventSource | null = null
+    let closed = false
+    let reconnect: ReturnType<typeof setTimeout> | null = null
+
+    let pending: BookingEvent[] = []
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const open = async () => {
+      const opened = await api.openBookingEvents()
+      if (!opened) return
+      if (closed) {
+        opened.close()
+        return
+      }
+      source = opened
+
+      opened.onmessage = (message) => {
+        pending.push(JSON.parse(message.data) as BookingEvent)
+        if (timer) return
+        timer = setTimeout(() => {
+          const events = pending
+          pending = []
+          timer = null
+          handlerRef.current(events)
+        }, BATCH_WINDOW_MS)
+      }
+
+      opened.onerror = () => {
+        if (opened.readyState !== EventSource.CLOSED || closed) return
+        reconnect = setTimeout(open, RECONNECT_MS)
+      }
+    }
+
+    void open()
+
+    return () => {
+      closed = true
+      if (timer) clearTimeout(timer)
+      if (reconnect) clearTimeout(reconnect)
+      source?.close()
+    }
+  }, [])
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+// Older steps are dropped beyond this
+const MAX_STEPS = 100
+
+interface History<T> {
+  steps: T[]
+  index: number
+}
+
+const sameState = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+const neverBusy = () => false
+
+// Undo/redo over a piece of editor state. Each settled value of state is
+// recorded as a step; pass null while there is nothing to record. isBusy is
+// checked before recording, so intermediate values, e.g. mid-drag, are skipped
+// and the value the gesture settles on becomes a single step. Undo and redo
+// hand a recorded step to apply, which should set the editor state back to it.
+export function useUndoHistory<T>(state: T | null, apply: (state: T) => void, isBusy: () => boolean = neverBusy) {
+  const [history, setHistory] = useState<History<T>>({ steps: [], index: -1 })
+  const latest = useRef(state)
+
+  // Record the current state, e.g. when a gesture ends without changing state again
+  const checkpoint = useCallback(() => {
+    const current = latest.current
+    if (current === null || isBusy()) return
+
+    setHistory((prev) => {
+      if (prev.index >= 0 && sameState(prev.steps[prev.index], current)) return prev
+      const steps = [...prev.steps.slice(0, prev.index + 1), current].slice(-MAX_STEPS)
+      return { steps, index: steps.length - 1 }
+    })
+  }, [isBusy])
+
+  useEffect(() => {
+    latest.current = state
+    checkpoint()
+  }, [state, checkpoint])
+
+  const undo = useCallback(() => {
+    if (history.index <= 0) return
+    setHistory((prev) => ({ ...prev, index: prev.index - 1 }))
+    apply(history.steps[history.index - 1])
+  }, [history, apply])
+
+  const redo = useCallback(() => {
+    if (history.index >= history.steps.length - 1) return
+    setHistory((prev) => ({ ...prev, index: prev.index + 1 }))
+    apply(history.steps[history.index + 1])
+  }, [history, apply])
+
+  // Forget all steps, e.g. when a different configuration is loaded
+  const reset = useCallback(() => {
+    setHistory({ steps: [], index: -1 })
+  }, [])
+
+  return {
+    undo,
+    redo,
+    checkpoint,
+    reset,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.steps.length - 1,
+  }
+}
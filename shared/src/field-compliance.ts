@@ -0,0 +1,150 @@
+// Pass/fail reports for a field against a competition-level compliance profile
+// (FIFA international, national league, junior, school...). A profile narrows
+// the template's dimension range and adds run-off: the clear space required
+// beyond the side lines and behind the end lines. Run-off is checked against
+// the other fields laid out on the same sportsground.
+
+import { fieldToLatLng, latLngToField, type LocalPoint } from './projection.js'
+
+// Competition levels, most demanding first
+export const COMPLIANCE_LEVELS = ['international', 'national', 'junior', 'school'] as const
+
+export type ComplianceLevel = typeof COMPLIANCE_LEVELS[number]
+
+export interface ComplianceRules {
+  minLength: number
+  maxLength: number
+  minWidth: number
+  maxWidth: number
+  // Metres of clear space beside the side lines and behind the end lines
+  runOffSides: number
+  runOffEnds: number
+}
+
+// Where a field sits on the ground
+export interface FieldFootprint {
+  latitude: number
+  longitude: number
+  rotationDegrees: number
+  lengthMeters: number
+  widthMeters: number
+}
+
+export interface NeighbourField extends FieldFootprint {
+  id: string
+  name: string
+}
+
+export interface ComplianceCheck {
+  id: 'length' | 'width' | 'run_off'
+  label: string
+  passed: boolean
+  detail: string
+}
+
+export interface ComplianceReport {
+  passed: boolean
+  checks: ComplianceCheck[]
+}
+
+// Fields that only touch along an edge don't count as overlapping
+const TOUCH_TOLERANCE_METERS = 0.01
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// Corners of a field, grown by the given margins, in the local frame of another
+// field (metres from its centre, x across its width and y along its length)
+export function fieldOutline(
+  field: FieldFootprint,
+  frame: FieldFootprint,
+  margins: { sides: number; ends: number } = { sides: 0, ends: 0 },
+): LocalPoint[] {
+  const halfWidth = field.widthMeters / 2 + margins.sides
+  const halfLength = field.lengthMeters / 2 + margins.ends
+  const center = { lat: field.latitude, lng: field.longitude }
+  const frameCenter = { lat: frame.latitude, lng: frame.longitude }
+
+  return [
+    [-halfWidth, -halfLength],
+    [halfWidth, -halfLength],
+    [halfWidth, halfLength],
+    [-halfWidth, halfLength],
+  ].map(([x, y]) =>
+    latLngToField(frameCenter, fieldToLatLng(center, x, y, field.rotationDegrees), frame.rotationDegrees),
+  )
+}
+
+function projectOnto(points: LocalPoint[], axis: LocalPoint): { min: number; max: number } {
+  const values = points.map((p) => p.x * axis.x + p.y * axis.y)
+  return { min: Math.min(...values), max: Math.max(...values) }
+}
+
+// Separating axis test for two convex outlines
+export function outlinesOverlap(a: LocalPoint[], b: LocalPoint[]): boolean {
+  for (const outline of [a, b]) {
+    for (let i = 0; i < outline.length; i++) {
+      const p = outline[i]
+      const q = outline[(i + 1) % outline.length]
+      const length = Math.hypot(q.x - p.x, q.y - p.y)
+      if (length === 0) continue
+
+      const axis = { x: (q.y - p.y) / length, y: (p.x - q.x) / length }
+      const first = projectOnto(a, axis)
+      const second = projectOnto(b, axis)
+      if (first.max <= second.min + TOUCH_TOLERANCE_METERS || second.max <= first.min + TOUCH_TOLERANCE_METERS) {
+        return false
+      }
+    }
+  }
+  return true
+}
+
+function rangeCheck(
+  id: 'length' | 'width',
+  label: string,
+  value: number,
+  min: number,
+  max: number,
+): ComplianceCheck {
+  const passed = value >= min && value <= max
+  return {
+    id,
+    label,
+    passed,
+    detail: passed
+      ? `${round(value)}m is within ${min}–${max}m`
+      : `${round(value)}m must be between ${min}m and ${max}m`,
+  }
+}
+
+// Report on the field against the profile's rules. neighbours are the other
+// fields on the ground; the field itself is ignored if it appears among them.
+export function evaluateCompliance(
+  rules: ComplianceRules,
+  field: FieldFootprint & { id?: string },
+  neighbours: NeighbourField[] = [],
+): ComplianceReport {
+  const checks = [
+    rangeCheck('length', 'Length', field.lengthMeters, rules.minLength, rules.maxLength),
+    rangeCheck('width', 'Width', field.widthMeters, rules.minWidth, rules.maxWidth),
+  ]
+
+  if (rules.runOffSides > 0 || rules.runOffEnds > 0) {
+    const clearArea = fieldOutline(field, field, { sides: rules.runOffSides, ends: rules.runOffEnds })
+    const blocking = neighbours
+      .filter((neighbour) => neighbour.id !== field.id)
+      .filter((neighbour) => outlinesOverlap(clearArea, fieldOutline(neighbour, field)))
+
+    const required = `${rules.runOffSides}m beside and ${rules.runOffEnds}m behind the field`
+    checks.push({
+      id: 'run_off',
+      label: 'Run-off',
+      passed: blocking.length === 0,
+      detail: blocking.length === 0
+        ? `${required} is clear`
+        : `Needs ${required}; ${blocking.map((b) => b.name).join(', ')} ${blocking.length === 1 ? 'is' : 'are'} too close`,
+    })
+  }
+
+  return { passed: checks.every((check) => check.passed), checks }
+}
@@ -0,0 +1,155 @@
+// Overlap and clearance between the fields laid out on one sportsground. Each
+// field is the rotated rectangle of its configuration; pairs that overlap, or
+// sit inside the run-off either field's compliance profile asks for, are
+// conflicts. Measurements are taken in the first field's local frame, which is
+// exact to well under a centimetre across a sportsground.
+
+import { fieldOutline, outlinesOverlap, type NeighbourField } from './field-compliance.js'
+import type { LocalPoint } from './projection.js'
+
+export interface ConflictField extends NeighbourField {
+  // Clear space the field's compliance profile requires around it, if any
+  runOff?: { sides: number; ends: number } | null
+}
+
+export interface FieldMeasurement {
+  overlapping: boolean
+  // Square metres shared by the two fields
+  overlapArea: number
+  // Shortest gap between the two fields' lines; 0 when they touch or overlap
+  clearance: number
+}
+
+export interface FieldConflict extends FieldMeasurement {
+  kind: 'overlap' | 'run_off'
+  fields: [{ id: string; name: string }, { id: string; name: string }]
+  // Run-off the pair needed, in metres, for run-off conflicts
+  requiredRunOff: number | null
+  detail: string
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+function polygonArea(points: LocalPoint[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i]
+    const q = points[(i + 1) % points.length]
+    area += p.x * q.y - q.x * p.y
+  }
+  return Math.abs(area) / 2
+}
+
+// Sutherland-Hodgman clip of one convex outline by another (both anticlockwise)
+function intersection(subject: LocalPoint[], clip: LocalPoint[]): LocalPoint[] {
+  let output = subject
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const a = clip[i]
+    const b = clip[(i + 1) % clip.length]
+    const side = (p: LocalPoint) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)
+
+    const input = output
+    output = []
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j]
+      const previous = input[(j + input.length - 1) % input.length]
+      const currentInside = side(current) >= 0
+      const previousInside = side(previous) >= 0
+
+      if (currentInside !== previousInside) {
+        const t = side(previous) / (side(previous) - side(current))
+        output.push({
+          x: previous.x + t * (current.x - previous.x),
+          y: previous.y + t * (current.y - previous.y),
+        })
+      }
+      if (currentInside) output.push(current)
+    }
+  }
+  return output
+}
+
+function pointToSegment(p: LocalPoint, a: LocalPoint, b: LocalPoint): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy))
+}
+
+// For convex outlines that don't overlap, the closest points include a corner
+function outlineDistance(a: LocalPoint[], b: LocalPoint[]): number {
+  let distance = Infinity
+  for (const [points, edges] of [[a, b], [b, a]]) {
+    for (const point of points) {
+      for (let i = 0; i < edges.length; i++) {
+        distance = Math.min(distance, pointToSegment(point, edges[i], edges[(i + 1) % edges.length]))
+      }
+    }
+  }
+  return distance
+}
+
+export function measureFields(a: NeighbourField, b: NeighbourField): FieldMeasurement {
+  const first = fieldOutline(a, a)
+  const second = fieldOutline(b, a)
+
+  if (!outlinesOverlap(first, second)) {
+    return { overlapping: false, overlapArea: 0, clearance: outlineDistance(first, second) }
+  }
+  return { overlapping: true, overlapArea: polygonArea(intersection(second, first)), clearance: 0 }
+}
+
+// True when other sits inside the run-off field asks for
+function insideRunOff(field: ConflictField, other: ConflictField): boolean {
+  if (!field.runOff || (field.runOff.sides <= 0 && field.runOff.ends <= 0)) return false
+  return outlinesOverlap(fieldOutline(field, field, field.runOff), fieldOutline(other, field))
+}
+
+function conflictBetween(a: ConflictField, b: ConflictField): FieldConflict | null {
+  const measurement = measureFields(a, b)
+  const fields: FieldConflict['fields'] = [{ id: a.id, name: a.name }, { id: b.id, name: b.name }]
+
+  if (measurement.overlapping) {
+    return {
+      ...measurement,
+      kind: 'overlap',
+      fields,
+      requiredRunOff: null,
+      detail: `${a.name} and ${b.name} overlap by ${round(measurement.overlapArea)} m²`,
+    }
+  }
+
+  const crowded = [a, b].filter((field) => insideRunOff(field, field === a ? b : a))
+  if (crowded.length === 0) return null
+
+  const requiredRunOff = Math.max(...crowded.map((field) => Math.max(field.runOff!.sides, field.runOff!.ends)))
+  return {
+    ...measurement,
+    kind: 'run_off',
+    fields,
+    requiredRunOff,
+    detail: `${a.name} and ${b.name} are ${round(measurement.clearance)}m apart, inside the run-off ` +
+      `${crowded.map((field) => field.name).join(' and ')} ${crowded.length === 1 ? 'needs' : 'need'}`,
+  }
+}
+
+// Every pair of fields that overlaps or crowds the other's run-off
+export function findFieldConflicts(fields: ConflictField[]): FieldConflict[] {
+  const conflicts: FieldConflict[] = []
+  for (let i = 0; i < fields.length; i++) {
+    for (let j = i + 1; j < fields.length; j++) {
+      const conflict = conflictBetween(fields[i], fields[j])
+      if (conflict) conflicts.push(conflict)
+    }
+  }
+  return conflicts
+}
+
+// Conflicts between one field and the rest of the ground, e.g. while it is being edited
+export function conflictsWith(field: ConflictField, others: ConflictField[]): FieldConflict[] {
+  return others
+    .filter((other) => other.id !== field.id)
+    .map((other) => conflictBetween(field, other))
+    .filter((conflict): conflict is FieldConflict => conflict !== null)
+}
@@ -0,0 +1,329 @@
+// Geometry engine for field templates.
+//
+// Templates describe their markings in `interiorElements` using template
+// coordinates: x runs across the field (0 → field_width) and y runs along it
+// (0 → field_length), with y = 0 on the "top" goal/try line. Any coordinate may
+// be a number or a formula string such as 'field_length / 2'.
+//
+// The engine turns those elements into polylines in local field coordinates:
+// metres from the field centre, x across the width and y along the length
+// (positive towards the top line). This is the same frame the map editor uses
+// before rotating and projecting onto lat/lng.
+
+import { evaluateFormula, fieldVariables, type FormulaValue } from './formula.js'
+
+export type Coordinate = FormulaValue
+
+export interface TemplatePoint {
+  x: Coordinate
+  y: Coordinate
+}
+
+export type ArcQuadrant = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+interface BaseElement {
+  id: string
+  description?: string
+}
+
+export interface LineElement extends BaseElement {
+  type: 'line'
+  start: TemplatePoint
+  end: TemplatePoint
+}
+
+export interface RectangleElement extends BaseElement {
+  type: 'rectangle'
+  position: TemplatePoint
+  size: { width: Coordinate; height: Coordinate }
+  size_unit?: string
+}
+
+export interface ArcElement extends BaseElement {
+  type: 'arc'
+  center: TemplatePoint
+  radius: Coordinate
+  startAngle?: number
+  endAngle?: number
+  quadrant?: ArcQuadrant
+}
+
+export interface CircleElement extends BaseElement {
+  type: 'circle'
+  center: TemplatePoint
+  radius: Coordinate
+  radius_unit?: string
+}
+
+export interface PointElement extends BaseElement {
+  type: 'point'
+  position: TemplatePoint
+  radius?: Coordinate
+}
+
+// Dash pattern in metres for the dashed_* element types
+export interface DashPattern {
+  length: number
+  gap: number
+}
+
+export interface DashedLineElement extends Omit<LineElement, 'type'> {
+  type: 'dashed_line'
+  dash?: DashPattern
+}
+
+export interface DashedArcElement extends Omit<ArcElement, 'type'> {
+  type: 'dashed_arc'
+  dash?: DashPattern
+}
+
+export interface DashedCircleElement extends Omit<CircleElement, 'type'> {
+  type: 'dashed_circle'
+  dash?: DashPattern
+}
+
+export type TemplateElement =
+  | LineElement
+  | RectangleElement
+  | ArcElement
+  | CircleElement
+  | PointElement
+  | DashedLineElement
+  | DashedArcElement
+  | DashedCircleElement
+
+export const ELEMENT_TYPES: TemplateElement['type'][] = [
+  'line',
+  'rectangle',
+  'arc',
+  'circle',
+  'point',
+  'dashed_line',
+  'dashed_arc',
+  'dashed_circle',
+]
+
+export interface InteriorElements {
+  elements: TemplateElement[]
+  fixedElements?: string[]
+  specifications?: Record<string, number>
+}
+
+export interface FieldPoint {
+  x: number
+  y: number
+}
+
+export interface FieldPath {
+  elementId: string
+  points: FieldPoint[]
+}
+
+// Angles in degrees covered by each corner quadrant. Angles follow template
+// coordinates: 0° points along +x, 90° along +y (down the field).
+const QUADRANT_ANGLES: Record<ArcQuadrant, [number, number]> = {
+  'bottom-right': [0, 90],
+  'bottom-left': [90, 180],
+  'top-left': [180, 270],
+  'top-right': [270, 360],
+}
+
+// Degrees of arc covered by a single polyline segment
+const ARC_STEP_DEGREES = 5
+
+// Dash pattern used when a dashed element doesn't specify one
+const DEFAULT_DASH: DashPattern = { length: 1, gap: 1 }
+
+// Shortest dash or gap a template may use, in metres
+export const MIN_DASH_METRES = 0.05
+
+// Most dashes drawn along one element. Finer patterns are stretched to fit, so
+// a template stored before the minimum was enforced can't produce millions of
+// points in the editor, exports or job sheets.
+const MAX_DASHES = 2000
+
+// Smallest radius drawn for spots so they remain visible on the map
+const MIN_POINT_RADIUS = 0.15
+
+// Parse the interiorElements JSON stored on a template. Unknown element types
+// are skipped so a template authored for a newer client still renders.
+export function parseInteriorElements(value: unknown): TemplateElement[] {
+  if (!value || typeof value !== 'object') return []
+  const elements = (value as { elements?: unknown }).elements
+  if (!Array.isArray(elements)) return []
+  return elements.filter(
+    (element): element is TemplateElement =>
+      !!element &&
+      typeof element === 'object' &&
+      ELEMENT_TYPES.includes((element as { type?: TemplateElement['type'] }).type!)
+  )
+}
+
+// Generate every marking of a template as polylines in local field coordinates.
+// Falls back to the outer boundary when the template has no usable elements.
+export function generateFieldPaths(
+  interiorElements: unknown,
+  length: number,
+  width: number
+): FieldPath[] {
+  const toLocal = (x: number, y: number): FieldPoint => ({ x: x - width / 2, y: length / 2 - y })
+
+  const paths: FieldPath[] = []
+
+  for (const element of parseInteriorElements(interiorElements)) {
+    try {
+      for (const points of elementPaths(element, length, width)) {
+        paths.push({ elementId: element.id, points: points.map((p) => toLocal(p.x, p.y)) })
+      }
+    } catch (error) {
+      console.warn(`Skipping template element "${element.id}":`, error)
+    }
+  }
+
+  if (paths.length === 0) {
+    paths.push({
+      elementId: 'outer_boundary',
+      points: rectanglePoints(0, 0, width, length).map((p) => toLocal(p.x, p.y)),
+    })
+  }
+
+  return paths
+}
+
+// Convert a single element into polylines in template coordinates for a field
+// of the given size. Dashed elements produce one polyline per dash. Throws a
+// FormulaError when one of the element's formulas can't be evaluated.
+export function elementPaths(element: TemplateElement, length: number, width: number): FieldPoint[][] {
+  const variables = fieldVariables(length, width)
+  const resolve = (value: Coordinate | undefined, fallback = 0) =>
+    value === undefined || value === null ? fallback : evaluateFormula(value, variables)
+
+  const points = elementToPoints(element, resolve)
+  if (points.length < 2) return []
+
+  switch (element.type) {
+    case 'dashed_line':
+    case 'dashed_arc':
+    case 'dashed_circle':
+      return dashPolyline(points, element.dash ?? DEFAULT_DASH)
+    default:
+      return [points]
+  }
+}
+
+function elementToPoints(
+  element: TemplateElement,
+  resolve: (value: Coordinate | undefined, fallback?: number) => number
+): FieldPoint[] {
+  switch (element.type) {
+    case 'line':
+    case 'dashed_line':
+      return [
+        { x: resolve(element.start.x), y: resolve(element.start.y) },
+        { x: resolve(element.end.x), y: resolve(element.end.y) },
+      ]
+
+    case 'rectangle':
+      return rectanglePoints(
+        resolve(element.position.x),
+        resolve(element.position.y),
+        resolve(element.size.width),
+        resolve(element.size.height)
+      )
+
+    case 'circle':
+    case 'dashed_circle':
+      return arcPoints(resolve(element.center.x), resolve(element.center.y), resolve(element.radius), 0, 360)
+
+    case 'arc':
+    case 'dashed_arc': {
+      const [startAngle, endAngle] = element.quadrant
+        ? QUADRANT_ANGLES[element.quadrant]
+        : [element.startAngle ?? 0, element.endAngle ?? 360]
+      return arcPoints(resolve(element.center.x), resolve(element.center.y), resolve(element.radius), startAngle, endAngle)
+    }
+
+    case 'point': {
+      const radius = Math.max(resolve(element.radius, MIN_POINT_RADIUS), MIN_POINT_RADIUS)
+      return arcPoints(resolve(element.position.x), resolve(element.position.y), radius, 0, 360)
+    }
+  }
+}
+
+function rectanglePoints(x: number, y: number, width: number, height: number): FieldPoint[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+    { x, y },
+  ]
+}
+
+function arcPoints(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): FieldPoint[] {
+  if (radius <= 0) return []
+
+  const sweep = endAngle - startAngle
+  const segments = Math.max(Math.ceil(Math.abs(sweep) / ARC_STEP_DEGREES), 4)
+  const points: FieldPoint[] = []
+
+  for (let i = 0; i <= segments; i++) {
+    const angle = ((startAngle + (sweep * i) / segments) * Math.PI) / 180
+    points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) })
+  }
+
+  return points
+}
+
+// Split a polyline into dashes of the given pattern, measured along its length
+function dashPolyline(points: FieldPoint[], pattern: DashPattern): FieldPoint[][] {
+  let total = 0
+  for (let i = 1; i < points.length; i++) {
+    total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y)
+  }
+
+  const usable = pattern.length > 0 && pattern.gap > 0 && Number.isFinite(pattern.length + pattern.gap)
+  const base = usable ? pattern : DEFAULT_DASH
+  const scale = Math.max(1, total / (MAX_DASHES * (base.length + base.gap)))
+  const dash = { length: base.length * scale, gap: base.gap * scale }
+
+  const dashes: FieldPoint[][] = []
+  const period = dash.length + dash.gap
+  let current: FieldPoint[] = []
+  let distance = 0
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1]
+    const to = points[i]
+    const segmentLength = Math.hypot(to.x - from.x, to.y - from.y)
+    let travelled = 0
+
+    while (travelled < segmentLength) {
+      const phase = distance % period
+      const drawing = phase < dash.length
+      // Guard against floating-point steps too small to advance
+      const step = Math.max(
+        Math.min(segmentLength - travelled, drawing ? dash.length - phase : period - phase),
+        1e-9
+      )
+      const t0 = travelled / segmentLength
+      const t1 = (travelled + step) / segmentLength
+      const start = { x: from.x + (to.x - from.x) * t0, y: from.y + (to.y - from.y) * t0 }
+      const end = { x: from.x + (to.x - from.x) * t1, y: from.y + (to.y - from.y) * t1 }
+
+      if (drawing) {
+        if (current.length === 0) current.push(start)
+        current.push(end)
+      } else if (current.length > 0) {
+        dashes.push(current)
+        current = []
+      }
+
+      travelled += step
+      distance += step
+    }
+  }
+
+  if (current.length > 1) dashes.push(current)
+  return dashes
+}
@@ -0,0 +1,263 @@
+// Sandboxed evaluator for template dimension formulas such as
+// 'field_length / 2' or 'max(0, (field_width - 40.32) / 2)'.
+//
+// Formulas are tokenised and parsed by hand - nothing is ever passed to eval or
+// Function - and only the grammar below is accepted:
+//
+//   expression := term (('+' | '-') term)*
+//   term       := unary (('*' | '/') unary)*
+//   unary      := '-' unary | primary
+//   primary    := number | variable | constant | fn '(' args ')' | '(' expression ')'
+
+export type FormulaValue = number | string
+
+export type FormulaVariables = Record<string, number>
+
+// Variables every template formula may reference
+export const FORMULA_VARIABLES = ['field_length', 'field_width'] as const
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: Math.min,
+  max: Math.max,
+}
+
+// Formulas longer than this are rejected outright
+const MAX_FORMULA_LENGTH = 200
+
+export class FormulaError extends Error {
+  constructor(message: string, public readonly formula: string) {
+    super(message)
+    this.name = 'FormulaError'
+  }
+}
+
+// Lookups must ignore inherited keys such as "constructor" or "__proto__"
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: '+' | '-' | '*' | '/' | '(' | ')' | ',' }
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] }
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < formula.length) {
+    const char = formula[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^(\d+(\.\d*)?|\.\d+)/)
+      if (!match) throw new FormulaError(`Unexpected character "${char}" at position ${i + 1}`, formula)
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) })
+      i += match[0].length
+    } else if (/[a-z_]/i.test(char)) {
+      const match = formula.slice(i).match(/^[a-z_][a-z0-9_]*/i)!
+      tokens.push({ kind: 'identifier', value: match[0].toLowerCase() })
+      i += match[0].length
+    } else if ('+-*/(),'.includes(char)) {
+      tokens.push({ kind: 'operator', value: char as '+' | '-' | '*' | '/' | '(' | ')' | ',' })
+      i++
+    } else {
+      throw new FormulaError(`Unexpected character "${char}" at position ${i + 1}`, formula)
+    }
+  }
+
+  return tokens
+}
+
+// Parse a formula into a syntax tree, throwing FormulaError on invalid input
+function parse(formula: string): FormulaNode {
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula must be ${MAX_FORMULA_LENGTH} characters or less`, formula)
+  }
+
+  const tokens = tokenize(formula)
+  let pos = 0
+
+  const peek = () => tokens[pos]
+  const isOperator = (value: string) => peek()?.kind === 'operator' && peek()?.value === value
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new FormulaError(`Expected "${value}"`, formula)
+    }
+    pos++
+  }
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm()
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[pos++].value as '+' | '-'
+      node = { kind: 'binary', operator, left: node, right: parseTerm() }
+    }
+    return node
+  }
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary()
+    while (isOperator('*') || isOperator('/')) {
+      const operator = tokens[pos++].value as '*' | '/'
+      node = { kind: 'binary', operator, left: node, right: parseUnary() }
+    }
+    return node
+  }
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-')) {
+      pos++
+      return { kind: 'negate', operand: parseUnary() }
+    }
+    return parsePrimary()
+  }
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[pos++]
+    if (!token) {
+      throw new FormulaError('Unexpected end of formula', formula)
+    }
+
+    if (token.kind === 'number') {
+      return { kind: 'number', value: token.value }
+    }
+
+    if (token.kind === 'identifier') {
+      if (hasOwn(FUNCTIONS, token.value)) {
+        expect('(')
+        const args = [parseExpression()]
+        while (isOperator(',')) {
+          pos++
+          args.push(parseExpression())
+        }
+        expect(')')
+        return { kind: 'call', name: token.value, args }
+      }
+      if (hasOwn(CONSTANTS, token.value)) {
+        return { kind: 'number', value: CONSTANTS[token.value] }
+      }
+      return { kind: 'variable', name: token.value }
+    }
+
+    if (token.value === '(') {
+      const node = parseExpression()
+      expect(')')
+      return node
+    }
+
+    throw new FormulaError(`Unexpected "${token.value}"`, formula)
+  }
+
+  const root = parseExpression()
+  if (pos < tokens.length) {
+    const token = tokens[pos]
+    throw new FormulaError(`Unexpected "${token.value}"`, formula)
+  }
+  return root
+}
+
+function evaluateNode(node: FormulaNode, variables: FormulaVariables, formula: string): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value
+    case 'variable':
+      if (!hasOwn(variables, node.name)) {
+        throw new FormulaError(`Unknown variable "${node.name}"`, formula)
+      }
+      return variables[node.name]
+    case 'negate':
+      return -evaluateNode(node.operand, variables, formula)
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, variables, formula)))
+    case 'binary': {
+      const left = evaluateNode(node.left, variables, formula)
+      const right = evaluateNode(node.right, variables, formula)
+      switch (node.operator) {
+        case '+':
+          return left + right
+        case '-':
+          return left - right
+        case '*':
+          return left * right
+        case '/':
+          if (right === 0) throw new FormulaError('Division by zero', formula)
+          return left / right
+      }
+    }
+  }
+}
+
+function collectVariables(node: FormulaNode, names: Set<string>): Set<string> {
+  switch (node.kind) {
+    case 'variable':
+      names.add(node.name)
+      break
+    case 'negate':
+      collectVariables(node.operand, names)
+      break
+    case 'binary':
+      collectVariables(node.left, names)
+      collectVariables(node.right, names)
+      break
+    case 'call':
+      node.args.forEach((arg) => collectVariables(arg, names))
+      break
+  }
+  return names
+}
+
+// Evaluate a template value. Numbers pass through unchanged; strings are
+// parsed as formulas over the given variables.
+export function evaluateFormula(value: FormulaValue, variables: FormulaVariables): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new FormulaError('Value must be a finite number', String(value))
+    return value
+  }
+
+  const result = evaluateNode(parse(value), variables, value)
+  if (!Number.isFinite(result)) {
+    throw new FormulaError('Formula does not produce a finite number', value)
+  }
+  return result
+}
+
+// Check a formula's syntax and variables without evaluating it. Returns an
+// error message, or null when the formula is valid.
+export function validateFormula(
+  value: FormulaValue,
+  allowedVariables: readonly string[] = FORMULA_VARIABLES
+): string | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? null : 'Value must be a finite number'
+  }
+
+  try {
+    for (const name of Array.from(collectVariables(parse(value), new Set()))) {
+      if (!allowedVariables.includes(name)) {
+        return `Unknown variable "${name}"`
+      }
+    }
+    return null
+  } catch (error) {
+    if (error instanceof FormulaError) return error.message
+    throw error
+  }
+}
+
+// Variables for a field of the given size
+export function fieldVariables(length: number, width: number): FormulaVariables {
+  return { field_length: length, field_width: width }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { Geodesic } from 'geographiclib-geodesic'
+import {
+  ecefToLatLng,
+  enuToLatLng,
+  fieldToLatLng,
+  latLngToEcef,
+  latLngToEnu,
+  latLngToField,
+  type LatLng,
+} from './projection.js'
+
+// Survey tolerances, in metres and degrees (1e-8 degrees is about a millimetre)
+const CENTIMETRE = 0.01
+const MILLIMETRE = 0.001
+const DEGREE_MM = 1e-8
+
+const dms = (degrees: number, minutes: number, seconds: number) =>
+  Math.sign(degrees) * (Math.abs(degrees) + minutes / 60 + seconds / 3600)
+
+// Geoscience Australia's worked geodesic example between two survey marks
+// near Ballarat: 54 972.271 m from Flinders Peak at 306°52'05.37"
+const FLINDERS_PEAK: LatLng = { lat: dms(-37, 57, 3.7203), lng: dms(144, 25, 29.5244) }
+const BUNINYONG: LatLng = { lat: dms(-37, 39, 10.1561), lng: dms(143, 55, 35.3839) }
+
+// Sites at a spread of latitudes, where flat-earth approximations differ most
+const SITES: Array<{ name: string; origin: LatLng }> = [
+  { name: 'Flinders Peak', origin: FLINDERS_PEAK },
+  { name: 'the equator', origin: { lat: 0.5, lng: 32.6 } },
+  { name: 'Helsinki', origin: { lat: 60.1699, lng: 24.9384 } },
+  { name: 'Tromsø', origin: { lat: 69.6492, lng: 18.9553 } },
+  { name: 'Dunedin', origin: { lat: -45.8788, lng: 170.5028 } },
+]
+
+// Geodesic destination from GeographicLib, the reference implementation
+function geodesicPoint(origin: LatLng, azimuth: number, distance: number): LatLng {
+  const result = Geodesic.WGS84.Direct(origin.lat, origin.lng, azimuth, distance)
+  return { lat: result.lat2!, lng: result.lon2! }
+}
+
+describe('latLngToEcef', () => {
+  it('matches the EPSG Guidance Note 7-2 geocentric example', () => {
+    // 53°48'33.820"N 2°07'46.380"E, 73.0 m ellipsoidal height
+    const ecef = latLngToEcef({ lat: dms(53, 48, 33.82), lng: dms(2, 7, 46.38) }, 73)
+
+    expect(ecef.x).toBeCloseTo(3771793.968, 3)
+    expect(ecef.y).toBeCloseTo(140253.342, 3)
+    expect(ecef.z).toBeCloseTo(5124304.349, 3)
+  })
+
+  it('puts the equator on the semi-major axis and the pole on the semi-minor axis', () => {
+    const equator = latLngToEcef({ lat: 0, lng: 0 })
+    expect(equator.x).toBeCloseTo(6378137, 3)
+    expect(equator.y).toBeCloseTo(0, 3)
+    expect(equator.z).toBeCloseTo(0, 3)
+
+    const pole = latLngToEcef({ lat: 90, lng: 0 })
+    expect(Math.hypot(pole.x, pole.y)).toBeLessThan(MILLIMETRE)
+    expect(pole.z).toBeCloseTo(6356752.314245, 3)
+  })
+
+  it('round trips through ecefToLatLng', () => {
+    for (const { origin } of SITES) {
+      const back = ecefToLatLng(latLngToEcef(origin))
+      expect(Math.abs(back.lat - origin.lat)).toBeLessThan(DEGREE_MM)
+      expect(Math.abs(back.lng - origin.lng)).toBeLessThan(DEGREE_MM)
+    }
+  })
+})
+
+describe('reference geodesic', () => {
+  it('reproduces the Flinders Peak to Buninyong survey line', () => {
+    const line = Geodesic.WGS84.Inverse(FLINDERS_PEAK.lat, FLINDERS_PEAK.lng, BUNINYONG.lat, BUNINYONG.lng)
+
+    expect(Math.abs(line.s12! - 54972.271)).toBeLessThan(CENTIMETRE)
+    expect(Math.abs((line.azi1! + 360) - dms(306, 52, 5.37))).toBeLessThan(0.01 / 3600)
+  })
+})
+
+describe('enuToLatLng', () => {
+  // Out to the corners of an AFL ground or cricket oval
+  const distances = [10, 55, 120, 250]
+  const azimuths = [0, 37, 90, 164, 211, 300]
+
+  for (const { name, origin } of SITES) {
+    it(`lands on the geodesic position around ${name}`, () => {
+      for (const distance of distances) {
+        for (const azimuth of azimuths) {
+          const radians = (azimuth * Math.PI) / 180
+          const projected = enuToLatLng(origin, distance * Math.sin(radians), distance * Math.cos(radians))
+          const expected = geodesicPoint(origin, azimuth, distance)
+
+          const error = Geodesic.WGS84.Inverse(projected.lat, projected.lng, expected.lat, expected.lng).s12!
+          expect(error).toBeLessThan(MILLIMETRE)
+        }
+      }
+    })
+  }
+})
+
+describe('latLngToEnu', () => {
+  for (const { name, origin } of SITES) {
+    it(`measures geodesic distance and bearing around ${name}`, () => {
+      for (const [azimuth, distance] of [[15, 80], [128, 160], [245, 40], [333, 220]]) {
+        const { east, north } = latLngToEnu(origin, geodesicPoint(origin, azimuth, distance))
+        const radians = (azimuth * Math.PI) / 180
+
+        expect(Math.abs(east - distance * Math.sin(radians))).toBeLessThan(MILLIMETRE)
+        expect(Math.abs(north - distance * Math.cos(radians))).toBeLessThan(MILLIMETRE)
+      }
+    })
+  }
+
+  it('inverts enuToLatLng', () => {
+    for (const { origin } of SITES) {
+      const { east, north } = latLngToEnu(origin, enuToLatLng(origin, -73.25, 118.5))
+      expect(Math.abs(east + 73.25)).toBeLessThan(MILLIMETRE)
+      expect(Math.abs(north - 118.5)).toBeLessThan(MILLIMETRE)
+    }
+  })
+})
+
+describe('field coordinates', () => {
+  it('places a rotated field corner at its geodesic distance and bearing', () => {
+    // Half of a 165 m x 135 m AFL ground, turned 30° clockwise from north
+    const x = 67.5
+    const y = 82.5
+    const rotation = -30
+    const corner = fieldToLatLng(FLINDERS_PEAK, x, y, rotation)
+
+    const line = Geodesic.WGS84.Inverse(FLINDERS_PEAK.lat, FLINDERS_PEAK.lng, corner.lat, corner.lng)
+    const bearing = (Math.atan2(x, y) * 180) / Math.PI - rotation
+    expect(Math.abs(line.s12! - Math.hypot(x, y))).toBeLessThan(MILLIMETRE)
+    expect(Math.abs(line.azi1! - bearing)).toBeLessThan(1e-5)
+
+    const local = latLngToField(FLINDERS_PEAK, corner, rotation)
+    expect(Math.abs(local.x - x)).toBeLessThan(MILLIMETRE)
+    expect(Math.abs(local.y - y)).toBeLessThan(MILLIMETRE)
+  })
+})
@@ -0,0 +1,135 @@
+// Projection between local field coordinates and WGS84 latitude/longitude.
+//
+// Local coordinates are metres on a plane tangent to the WGS84 ellipsoid at the
+// field centre (an east-north-up frame), rotated by the configuration's
+// rotation: x runs across the field and y along it, as in field-geometry. Going
+// through earth-centred coordinates keeps the projection exact on the ellipsoid,
+// so points stay within a millimetre of the true geodesic position across a
+// cricket oval or AFL ground at any latitude, where a flat metres-per-degree
+// approximation drifts by decimetres.
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export interface LocalPoint {
+  x: number
+  y: number
+}
+
+// WGS84 ellipsoid
+const SEMI_MAJOR_AXIS = 6378137
+const FLATTENING = 1 / 298.257223563
+const ECCENTRICITY_SQUARED = FLATTENING * (2 - FLATTENING)
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+// Earth-centred, earth-fixed coordinates in metres
+export interface Ecef {
+  x: number
+  y: number
+  z: number
+}
+
+export function latLngToEcef(point: LatLng, height = 0): Ecef {
+  const lat = toRadians(point.lat)
+  const lng = toRadians(point.lng)
+  const sinLat = Math.sin(lat)
+  // Prime vertical radius of curvature
+  const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECCENTRICITY_SQUARED * sinLat * sinLat)
+
+  return {
+    x: (n + height) * Math.cos(lat) * Math.cos(lng),
+    y: (n + height) * Math.cos(lat) * Math.sin(lng),
+    z: (n * (1 - ECCENTRICITY_SQUARED) + height) * sinLat,
+  }
+}
+
+// Iterative inverse; converges to well below a millimetre in a few rounds
+export function ecefToLatLng({ x, y, z }: Ecef): LatLng {
+  const p = Math.hypot(x, y)
+  let lat = Math.atan2(z, p * (1 - ECCENTRICITY_SQUARED))
+
+  for (let i = 0; i < 5; i++) {
+    const sinLat = Math.sin(lat)
+    const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECCENTRICITY_SQUARED * sinLat * sinLat)
+    const height = p / Math.cos(lat) - n
+    lat = Math.atan2(z, p * (1 - (ECCENTRICITY_SQUARED * n) / (n + height)))
+  }
+
+  return { lat: toDegrees(lat), lng: toDegrees(Math.atan2(y, x)) }
+}
+
+// Unit vectors of the east-north-up frame at a point
+function enuAxes(origin: LatLng) {
+  const lat = toRadians(origin.lat)
+  const lng = toRadians(origin.lng)
+  const sinLat = Math.sin(lat)
+  const cosLat = Math.cos(lat)
+  const sinLng = Math.sin(lng)
+  const cosLng = Math.cos(lng)
+
+  return {
+    east: { x: -sinLng, y: cosLng, z: 0 },
+    north: { x: -sinLat * cosLng, y: -sinLat * sinLng, z: cosLat },
+    up: { x: cosLat * cosLng, y: cosLat * sinLng, z: sinLat },
+  }
+}
+
+const dot = (a: Ecef, b: Ecef) => a.x * b.x + a.y * b.y + a.z * b.z
+
+// Metres east and north of the origin to latitude/longitude
+export function enuToLatLng(origin: LatLng, east: number, north: number): LatLng {
+  const base = latLngToEcef(origin)
+  const axes = enuAxes(origin)
+
+  // Drop from the tangent plane back onto the ellipsoid along the local vertical
+  const up = -(east * east + north * north) / (2 * SEMI_MAJOR_AXIS)
+
+  return ecefToLatLng({
+    x: base.x + east * axes.east.x + north * axes.north.x + up * axes.up.x,
+    y: base.y + east * axes.east.y + north * axes.north.y + up * axes.up.y,
+    z: base.z + east * axes.east.z + north * axes.north.z + up * axes.up.z,
+  })
+}
+
+// Latitude/longitude to metres east and north of the origin
+export function latLngToEnu(origin: LatLng, point: LatLng): { east: number; north: number } {
+  const base = latLngToEcef(origin)
+  const target = latLngToEcef(point)
+  const axes = enuAxes(origin)
+  const offset = { x: target.x - base.x, y: target.y - base.y, z: target.z - base.z }
+
+  return { east: dot(offset, axes.east), north: dot(offset, axes.north) }
+}
+
+// Local field coordinates (metres from the centre, before rotation) to metres
+// east and north of the centre
+export function fieldToEnu(x: number, y: number, rotationDegrees = 0): { east: number; north: number } {
+  const rotation = toRadians(rotationDegrees)
+
+  return {
+    east: x * Math.cos(rotation) - y * Math.sin(rotation),
+    north: x * Math.sin(rotation) + y * Math.cos(rotation),
+  }
+}
+
+// Local field coordinates (metres from the centre, before rotation) to latitude/longitude
+export function fieldToLatLng(center: LatLng, x: number, y: number, rotationDegrees = 0): LatLng {
+  const { east, north } = fieldToEnu(x, y, rotationDegrees)
+
+  return enuToLatLng(center, east, north)
+}
+
+// Latitude/longitude to local field coordinates (metres from the centre, rotation removed)
+export function latLngToField(center: LatLng, point: LatLng, rotationDegrees = 0): LocalPoint {
+  const rotation = toRadians(rotationDegrees)
+  const { east, north } = latLngToEnu(center, point)
+
+  return {
+    x: east * Math.cos(rotation) + north * Math.sin(rotation),
+    y: -east * Math.sin(rotation) + north * Math.cos(rotation),
+  }
+}
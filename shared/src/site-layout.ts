@@ -0,0 +1,127 @@
+// The playable boundary and no-mark zones of a sportsground. The boundary is
+// the area fields may be laid out in; exclusion zones (cricket square,
+// irrigation heads, running track) are areas that must stay free of line
+// marking. Both are polygons drawn on the sportsground's map. A field is tested
+// in its own local frame, where it is a plain rectangle.
+
+import type { FieldFootprint } from './field-compliance.js'
+import { latLngToField, type LatLng, type LocalPoint } from './projection.js'
+
+export const EXCLUSION_ZONE_KINDS = ['cricket_square', 'irrigation', 'running_track', 'other'] as const
+
+export type ExclusionZoneKind = typeof EXCLUSION_ZONE_KINDS[number]
+
+export const EXCLUSION_ZONE_LABELS: Record<ExclusionZoneKind, string> = {
+  cricket_square: 'Cricket square',
+  irrigation: 'Irrigation heads',
+  running_track: 'Running track',
+  other: 'Other',
+}
+
+export interface ExclusionZone {
+  name: string
+  kind: ExclusionZoneKind
+  points: LatLng[]
+}
+
+export interface SiteLayout {
+  // null until a boundary is drawn; fields may then go anywhere on the ground
+  boundary: LatLng[] | null
+  exclusionZones: ExclusionZone[]
+}
+
+// Fields that only touch a boundary or zone edge are still clear of it
+const TOUCH_TOLERANCE_METERS = 0.01
+
+// The layout stored on a sportsground row
+export function siteLayoutOf(sportsground: { boundary: unknown; exclusionZones: unknown }): SiteLayout {
+  return {
+    boundary: Array.isArray(sportsground.boundary) ? (sportsground.boundary as LatLng[]) : null,
+    exclusionZones: Array.isArray(sportsground.exclusionZones) ? (sportsground.exclusionZones as ExclusionZone[]) : [],
+  }
+}
+
+// Ray casting; points on an edge may fall either way
+function pointInPolygon(point: LocalPoint, polygon: LocalPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// True when the segments cross each other, rather than just touch
+function segmentsCross(a: LocalPoint, b: LocalPoint, c: LocalPoint, d: LocalPoint): boolean {
+  const side = (p: LocalPoint, q: LocalPoint, r: LocalPoint) => {
+    const length = Math.hypot(q.x - p.x, q.y - p.y)
+    return length === 0 ? 0 : ((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x)) / length
+  }
+  const opposite = (s: number, t: number) =>
+    (s > TOUCH_TOLERANCE_METERS && t < -TOUCH_TOLERANCE_METERS) || (s < -TOUCH_TOLERANCE_METERS && t > TOUCH_TOLERANCE_METERS)
+
+  return opposite(side(a, b, c), side(a, b, d)) && opposite(side(c, d, a), side(c, d, b))
+}
+
+function edges(polygon: LocalPoint[]): Array<[LocalPoint, LocalPoint]> {
+  return polygon.map((p, i) => [p, polygon[(i + 1) % polygon.length]])
+}
+
+function edgesCross(a: LocalPoint[], b: LocalPoint[]): boolean {
+  return edges(a).some(([p, q]) => edges(b).some(([r, s]) => segmentsCross(p, q, r, s)))
+}
+
+// Strictly inside the field rectangle, allowing for the touch tolerance
+function insideField(point: LocalPoint, halfWidth: number, halfLength: number): boolean {
+  return Math.abs(point.x) < halfWidth - TOUCH_TOLERANCE_METERS && Math.abs(point.y) < halfLength - TOUCH_TOLERANCE_METERS
+}
+
+// One message per boundary or zone the field breaks; empty when it sits clear
+export function findSiteIssues(site: SiteLayout, field: FieldFootprint): string[] {
+  const center = { lat: field.latitude, lng: field.longitude }
+  const toLocal = (points: LatLng[]) => points.map((point) => latLngToField(center, point, field.rotationDegrees))
+  const halfWidth = field.widthMeters / 2
+  const halfLength = field.lengthMeters / 2
+  const corners = [
+    { x: -halfWidth, y: -halfLength },
+    { x: halfWidth, y: -halfLength },
+    { x: halfWidth, y: halfLength },
+    { x: -halfWidth, y: halfLength },
+  ]
+  const insetCorner = (corner: LocalPoint) => ({
+    x: Math.sign(corner.x) * (halfWidth - TOUCH_TOLERANCE_METERS),
+    y: Math.sign(corner.y) * (halfLength - TOUCH_TOLERANCE_METERS),
+  })
+  const issues: string[] = []
+
+  if (site.boundary && site.boundary.length >= 3) {
+    const boundary = toLocal(site.boundary)
+    const outside =
+      !pointInPolygon({ x: 0, y: 0 }, boundary) ||
+      edgesCross(corners, boundary) ||
+      // A notch in the boundary can reach into the field between its corners
+      boundary.some((point) => insideField(point, halfWidth, halfLength))
+    if (outside) {
+      issues.push('The field must stay inside the sportsground boundary')
+    }
+  }
+
+  for (const zone of site.exclusionZones) {
+    if (zone.points.length < 3) continue
+
+    const points = toLocal(zone.points)
+    const overlaps =
+      edgesCross(corners, points) ||
+      points.some((point) => insideField(point, halfWidth, halfLength)) ||
+      // Pulled in slightly so a corner resting on the zone's edge doesn't count
+      corners.some((corner) => pointInPolygon(insetCorner(corner), points))
+    if (overlaps) {
+      issues.push(`The field crosses the ${zone.name} no-mark zone`)
+    }
+  }
+
+  return issues
+}